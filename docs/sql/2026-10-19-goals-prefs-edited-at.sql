@@ -0,0 +1,11 @@
+-- Edit times for goals and preferences. Sync conflicts are settled by which
+-- copy was edited last, and neither table kept that: a goals row only knows
+-- when it was inserted, which is when it reached the cloud, and kcal_prefs
+-- had no stamp the client wrote. edited_at is the client's own updatedAt, set
+-- on every write and never touched by a trigger, so the compare is edit time
+-- against edit time. Null on rows written before this; the client treats those
+-- as unversioned.
+-- Run in the Supabase SQL editor on project oljzqoznxqbuocdykmpw.
+
+alter table public.kcal_goals add column if not exists edited_at timestamptz;
+alter table public.kcal_prefs add column if not exists edited_at timestamptz;
@@ -0,0 +1,22 @@
+-- Delta pulls for kcal_food_logs. The client now asks only for rows changed
+-- since its cursor (updated_at or deleted_at after it), so updated_at has to be
+-- the server's clock and has to move on every write, soft-deletes included.
+-- The client still sends its own updated_at; conflict resolution reads the copy
+-- inside parsed_payload, so overwriting the column here loses nothing.
+-- Run in the Supabase SQL editor on project oljzqoznxqbuocdykmpw.
+
+create or replace function public.kcal_food_logs_touch()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_kcal_food_logs_touch on public.kcal_food_logs;
+create trigger trg_kcal_food_logs_touch
+before insert or update on public.kcal_food_logs
+for each row execute function public.kcal_food_logs_touch();
+
+create index if not exists idx_kcal_food_logs_user_updated
+  on public.kcal_food_logs (user_id, updated_at);
@@ -0,0 +1,33 @@
+-- Meal templates: a logged meal kept with its analysed foods, so logging it
+-- again copies the stored nutrition instead of re-running the analysis.
+-- foods is the same ParsedFood array a meal row carries. use_count and
+-- last_used_at order the one-tap list; the app keeps at most 20.
+-- Conventions match the live schema: app_users FK, my_app_user_id() RLS.
+-- Run in the Supabase SQL editor on project oljzqoznxqbuocdykmpw.
+
+create table public.kcal_meal_templates (
+  id uuid primary key,
+  user_id uuid not null references public.app_users(id) on delete cascade,
+  name text not null,
+  foods jsonb not null default '[]'::jsonb,
+  use_count integer not null default 0 check (use_count >= 0),
+  last_used_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index kcal_meal_templates_user_idx on public.kcal_meal_templates (user_id);
+
+alter table public.kcal_meal_templates enable row level security;
+
+create policy kcal_meal_templates_select_own on public.kcal_meal_templates
+  for select using (user_id = my_app_user_id());
+
+create policy kcal_meal_templates_insert_own on public.kcal_meal_templates
+  for insert with check (user_id = my_app_user_id());
+
+create policy kcal_meal_templates_update_own on public.kcal_meal_templates
+  for update using (user_id = my_app_user_id());
+
+create policy kcal_meal_templates_delete_own on public.kcal_meal_templates
+  for delete using (user_id = my_app_user_id());
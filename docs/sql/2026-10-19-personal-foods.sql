@@ -0,0 +1,38 @@
+-- Personal foods: the user's own foods with real figures, read off a label or
+-- typed in. Nutrition is per 100 g; micros is a sparse map of the same keys
+-- meals carry on each food (calcium_mg, iron_mg, ...). One row per food,
+-- edited in place, so writes are upserts on id.
+-- Conventions match the live schema: app_users FK, my_app_user_id() RLS.
+-- Run in the Supabase SQL editor on project oljzqoznxqbuocdykmpw.
+
+create table public.kcal_personal_foods (
+  id uuid primary key,
+  user_id uuid not null references public.app_users(id) on delete cascade,
+  name text not null,
+  brand text,
+  per_100g jsonb not null,
+  micros jsonb not null default '{}'::jsonb,
+  serving_g numeric check (serving_g is null or serving_g > 0),
+  serving_label text,
+  pack_g numeric check (pack_g is null or pack_g > 0),
+  aliases text[] not null default '{}',
+  source text not null default 'custom' check (source in ('custom', 'label_photo')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index kcal_personal_foods_user_idx on public.kcal_personal_foods (user_id);
+
+alter table public.kcal_personal_foods enable row level security;
+
+create policy kcal_personal_foods_select_own on public.kcal_personal_foods
+  for select using (user_id = my_app_user_id());
+
+create policy kcal_personal_foods_insert_own on public.kcal_personal_foods
+  for insert with check (user_id = my_app_user_id());
+
+create policy kcal_personal_foods_update_own on public.kcal_personal_foods
+  for update using (user_id = my_app_user_id());
+
+create policy kcal_personal_foods_delete_own on public.kcal_personal_foods
+  for delete using (user_id = my_app_user_id());
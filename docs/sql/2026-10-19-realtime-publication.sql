@@ -0,0 +1,21 @@
+-- Live updates for everything TrackKcal syncs, not just meals. The app keeps
+-- one realtime channel per signed-in user with a listener on each table below,
+-- so a weigh-in, workout, goal, preference or water tap on one phone shows on
+-- the other without a cold start. kcal_food_logs was already published by
+-- migration 20260810000002_kcal_client_reality.
+-- Run in the Supabase SQL editor on project oljzqoznxqbuocdykmpw.
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['weight_log', 'kcal_exercise_logs', 'kcal_goals', 'kcal_prefs', 'water_log'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end;
+$$;
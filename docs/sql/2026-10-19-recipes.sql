@@ -0,0 +1,36 @@
+-- Recipes: a pot cooked once and eaten over several meals. ingredients is the
+-- list as the app stores it, each line with the foods it resolved to, so the
+-- totals are fixed at the time the user added it. The yield is servings,
+-- cooked_weight_g, or both.
+-- Conventions match the live schema: app_users FK, my_app_user_id() RLS.
+-- Run in the Supabase SQL editor on project oljzqoznxqbuocdykmpw.
+
+create table public.kcal_recipes (
+  id uuid primary key,
+  user_id uuid not null references public.app_users(id) on delete cascade,
+  name text not null,
+  aliases text[] not null default '{}',
+  ingredients jsonb not null default '[]'::jsonb,
+  servings numeric check (servings is null or servings > 0),
+  serving_label text,
+  cooked_weight_g numeric check (cooked_weight_g is null or cooked_weight_g > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (servings is not null or cooked_weight_g is not null)
+);
+
+create index kcal_recipes_user_idx on public.kcal_recipes (user_id);
+
+alter table public.kcal_recipes enable row level security;
+
+create policy kcal_recipes_select_own on public.kcal_recipes
+  for select using (user_id = my_app_user_id());
+
+create policy kcal_recipes_insert_own on public.kcal_recipes
+  for insert with check (user_id = my_app_user_id());
+
+create policy kcal_recipes_update_own on public.kcal_recipes
+  for update using (user_id = my_app_user_id());
+
+create policy kcal_recipes_delete_own on public.kcal_recipes
+  for delete using (user_id = my_app_user_id());
@@ -0,0 +1,319 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { X } from 'lucide-react-native';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { Spacing } from '../constants/spacing';
+import { FoodLabel, lookupBarcode, normaliseBarcode, packGrams, servingGrams } from '../services/foodDatabaseService';
+import { ParsedFood } from '../utils/foodNutrition';
+import { LabelAmountPicker } from './LabelAmountPicker';
+
+interface BarcodeScannerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onLog: (food: ParsedFood) => void;
+}
+
+/**
+ * Scan a packaged food, then say how much of it was eaten. The code resolves
+ * to the label on Open Food Facts, so the logged row carries the maker's
+ * figures rather than an estimate. A code can also be typed, for a camera that
+ * cannot focus on a small wrapper or a device with no camera at all.
+ */
+export const BarcodeScannerModal: React.FC<BarcodeScannerModalProps> = ({ visible, onClose, onLog }) => {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [step, setStep] = useState<'scan' | 'looking' | 'amount'>('scan');
+  const [label, setLabel] = useState<FoodLabel | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+  const [typedCode, setTypedCode] = useState('');
+  // The camera reports the same code many times a second. Only the first read
+  // of a scan counts
+  const handlingRef = useRef(false);
+  // A code that just failed stays in front of the camera. Without this every
+  // frame would look it up again until the phone moved
+  const failedCodeRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setStep('scan');
+      setLabel(null);
+      setProblem(null);
+      setTypedCode('');
+      handlingRef.current = false;
+      failedCodeRef.current = null;
+    }
+  }, [visible]);
+
+  // Typed codes always go through: typing it again is how a failed one is retried
+  const handleCode = async (raw: string, type?: string, fromCamera = false) => {
+    if (handlingRef.current) return;
+    const code = normaliseBarcode(raw, type);
+    if (!code) {
+      setProblem('That does not look like a full barcode. Check the digits under the bars.');
+      return;
+    }
+    if (fromCamera && code === failedCodeRef.current) return;
+    handlingRef.current = true;
+    failedCodeRef.current = null;
+    setProblem(null);
+    setStep('looking');
+    try {
+      const found = await lookupBarcode(raw, type);
+      if (!found) {
+        failedCodeRef.current = code;
+        setProblem('That product is not in the food database yet. Type what it is instead and it will be estimated.');
+        setStep('scan');
+        return;
+      }
+      setLabel(found);
+      setStep('amount');
+    } catch {
+      failedCodeRef.current = code;
+      setProblem('Could not reach the food database. Check your connection and scan again.');
+      setStep('scan');
+    } finally {
+      handlingRef.current = false;
+    }
+  };
+
+  const retryScan = () => {
+    failedCodeRef.current = null;
+    setProblem(null);
+  };
+
+  const handleLog = (food: ParsedFood) => {
+    onLog(food);
+    onClose();
+  };
+
+  const renderScan = () => {
+    if (Platform.OS !== 'web' && !permission?.granted) {
+      return (
+        <View style={styles.cameraPlaceholder}>
+          <Text style={styles.placeholderText}>
+            The camera is only used to read the barcode. Nothing is recorded.
+          </Text>
+          {permission?.canAskAgain !== false && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={requestPermission} activeOpacity={0.7}>
+              <Text style={styles.secondaryButtonText}>Allow camera</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+    return (
+      <View style={styles.cameraWrap}>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['ean13', 'ean8', 'upc_a', 'upc_e'] }}
+          onBarcodeScanned={step === 'scan' ? ({ data, type }) => { void handleCode(data, type, true); } : undefined}
+        />
+        <View style={styles.reticle} pointerEvents="none" />
+      </View>
+    );
+  };
+
+  const renderAmount = () => {
+    if (!label) return null;
+    return (
+      <View style={styles.amountWrap}>
+        <LabelAmountPicker
+          key={label.code}
+          label={label}
+          servingG={servingGrams(label)}
+          packG={packGrams(label)}
+          onLog={handleLog}
+        />
+        <TouchableOpacity
+          onPress={() => { setStep('scan'); setLabel(null); }}
+          style={styles.linkRow}
+          activeOpacity={0.6}
+        >
+          <Text style={styles.linkText}>Scan something else</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.safeArea} edges={['top', 'bottom']}>
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={{ flex: 1 }}>
+          <View style={styles.header}>
+            <Text style={styles.eyebrow}>SCAN A BARCODE</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}>
+              <X size={22} color={Acid.tx3} />
+            </TouchableOpacity>
+          </View>
+
+          {step === 'amount' ? renderAmount() : (
+            <>
+              {renderScan()}
+              {step === 'looking' && (
+                <View style={styles.lookingRow}>
+                  <ActivityIndicator color={Acid.lime} />
+                  <Text style={styles.lookingText}>Looking it up…</Text>
+                </View>
+              )}
+              {problem && <Text style={styles.problemText}>{problem}</Text>}
+              {problem && failedCodeRef.current && (
+                <TouchableOpacity onPress={retryScan} style={styles.linkRow} activeOpacity={0.6}>
+                  <Text style={styles.linkText}>Scan it again</Text>
+                </TouchableOpacity>
+              )}
+              <View style={styles.typedRow}>
+                <TextInput
+                  value={typedCode}
+                  onChangeText={setTypedCode}
+                  placeholder="Or type the number under the bars"
+                  placeholderTextColor={Acid.tx3}
+                  keyboardType="number-pad"
+                  style={styles.typedInput}
+                  onSubmitEditing={() => handleCode(typedCode)}
+                />
+                <TouchableOpacity
+                  style={[styles.secondaryButton, (!typedCode.trim() || step === 'looking') && styles.buttonDisabled]}
+                  onPress={() => handleCode(typedCode)}
+                  disabled={!typedCode.trim() || step === 'looking'}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.secondaryButtonText}>Look up</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Acid.moss,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: 14,
+  },
+  eyebrow: {
+    fontSize: 11,
+    letterSpacing: 2,
+    color: Acid.tx3,
+  },
+  cameraWrap: {
+    height: 320,
+    marginHorizontal: Spacing.lg,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: Acid.mossDeep,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  reticle: {
+    width: '78%',
+    height: 110,
+    borderWidth: 2,
+    borderColor: Acid.lime,
+    borderRadius: 12,
+  },
+  cameraPlaceholder: {
+    height: 320,
+    marginHorizontal: Spacing.lg,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Acid.hair,
+    backgroundColor: Acid.mossDeep,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.lg,
+    gap: 16,
+  },
+  placeholderText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: Acid.tx2,
+    textAlign: 'center',
+  },
+  lookingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: 16,
+  },
+  lookingText: {
+    fontSize: 14,
+    color: Acid.tx2,
+  },
+  problemText: {
+    fontSize: 13,
+    lineHeight: 19,
+    color: Acid.error,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: 16,
+  },
+  typedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: 20,
+  },
+  typedInput: {
+    flex: 1,
+    fontSize: 15,
+    color: Acid.tx,
+    borderWidth: 1,
+    borderColor: Acid.hair,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: Platform.OS === 'ios' ? 12 : 8,
+    backgroundColor: Acid.mossDeep,
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Acid.lime,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Acid.lime,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  amountWrap: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: 8,
+  },
+  linkRow: {
+    paddingVertical: 18,
+    alignItems: 'center',
+  },
+  linkText: {
+    fontSize: 13,
+    letterSpacing: 1,
+    color: Acid.tx3,
+  },
+});
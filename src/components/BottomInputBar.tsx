@@ -8,7 +8,7 @@ import {
   Platform,
   ScrollView,
 } from 'react-native';
-import { Mic, Send, StopCircle, X } from 'lucide-react-native';
+import { Mic, Send, StopCircle, X, Zap } from 'lucide-react-native';
 import { Typography } from '../constants/typography';
 import { Acid } from '../constants/acid';
 import { Spacing } from '../constants/spacing';
@@ -19,6 +19,12 @@ interface QuickPrompt {
   text: string;
 }
 
+interface QuickTemplate {
+  id: string;
+  name: string;
+  foods: Array<{ calories: number }>;
+}
+
 interface BottomInputBarProps {
   onSubmit?: (text: string) => void;
   onMicPress?: () => void;
@@ -35,6 +41,9 @@ interface BottomInputBarProps {
   quickPrompts?: QuickPrompt[];
   onQuickPromptPress?: (prompt: QuickPrompt) => void;
   onQuickPromptRemove?: (id: string) => void;
+  /** Saved meals that log on tap, with no analysis and nothing to type. */
+  quickTemplates?: QuickTemplate[];
+  onQuickTemplatePress?: (template: QuickTemplate) => void;
 }
 
 export const BottomInputBar: React.FC<BottomInputBarProps> = ({
@@ -51,6 +60,8 @@ export const BottomInputBar: React.FC<BottomInputBarProps> = ({
   quickPrompts = [],
   onQuickPromptPress,
   onQuickPromptRemove,
+  quickTemplates = [],
+  onQuickTemplatePress,
 }) => {
   const [text, setText] = React.useState('');
   const [isUserTyping, setIsUserTyping] = React.useState(false);
@@ -62,7 +73,7 @@ export const BottomInputBar: React.FC<BottomInputBarProps> = ({
 
   const currentText = text;
   const hasText = currentText.trim().length > 0;
-  const shouldShowChips = !hasText && quickPrompts.length > 0;
+  const shouldShowChips = !hasText && (quickPrompts.length > 0 || quickTemplates.length > 0);
   const showCustomPlaceholder = Platform.OS === 'ios' && !isFocused && !hasText;
 
   const handleSubmit = () => {
@@ -151,6 +162,23 @@ export const BottomInputBar: React.FC<BottomInputBarProps> = ({
             style={styles.chipScroll}
             contentContainerStyle={styles.chipScrollContent}
           >
+            {quickTemplates.map((template) => (
+              <TouchableOpacity
+                key={template.id}
+                onPress={() => onQuickTemplatePress?.(template)}
+                disabled={isLoading || isListening}
+                style={[styles.quickPromptChip, { backgroundColor: Acid.mossDeep }]}
+              >
+                <Zap size={12} color={Acid.lime} strokeWidth={2} style={styles.templateIcon} />
+                <Text
+                  style={[styles.quickPromptText, styles.quickPromptTextWrapper, { color: Acid.tx }]}
+                  numberOfLines={2}
+                  ellipsizeMode="tail"
+                >
+                  {template.name} · {Math.round(template.foods.reduce((sum, f) => sum + (f.calories || 0), 0))}
+                </Text>
+              </TouchableOpacity>
+            ))}
             {quickPrompts.map((prompt) => (
               <View
                 key={prompt.id}
@@ -324,6 +352,9 @@ const styles = StyleSheet.create({
     fontWeight: Typography.fontWeight.medium,
     lineHeight: Typography.fontSize.sm * 1.4,
   },
+  templateIcon: {
+    marginRight: 6,
+  },
   quickPromptRemove: {
     padding: 2,
     opacity: 0.5,
@@ -13,6 +13,7 @@ export interface ExerciseEntry {
   prompt: string;
   exercises: ParsedExercise[];
   timestamp: number;
+  updatedAt?: string; // stamped by saveExercises when the entry changes
 }
 
 interface ExerciseLogSectionProps {
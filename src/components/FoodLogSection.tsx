@@ -5,23 +5,37 @@ import { format } from 'date-fns';
 import { Colors } from '../constants/colors';
 import { Typography } from '../constants/typography';
 import { Spacing } from '../constants/spacing';
-import { ParsedFood } from '../utils/foodNutrition';
+import { ParsedFood, scaleNutrients, scaleParsedFood } from '../utils/foodNutrition';
+import { gramsToMeasure, normalizeUnit, portionFactorFor, portionUnitsFor } from '../utils/householdMeasures';
 import { Acid } from '../constants/acid';
-import { MealEntry } from '../services/dataStorage';
-import { SavedPrompt } from '../services/dataStorage';
+import { MealEntry, MealSlot } from '../services/dataStorage';
+import { MealTemplate, SavedPrompt } from '../services/dataStorage';
 import { ConfidenceBadge } from './ConfidenceBadge';
+import { describeRevision } from '../utils/mealRevisions';
+import { MealTransferSheet, TransferMode } from './MealTransferSheet';
+import { TransferSlot } from '../utils/mealTransfer';
+import { MealSlotSheet } from './MealSlotSheet';
+import { mealSlotLabel } from '../utils/mealSlots';
 
 export interface Meal extends MealEntry { }
 
 interface FoodLogSectionProps {
   meals: Meal[];
   dayLabel?: string;
+  dateKey?: string; // the day on show, yyyy-MM-dd
   onRemoveFood: (foodId: string) => void;
   onEditMealPrompt?: (mealId: string, newPrompt: string) => Promise<void> | void;
   savedPrompts?: SavedPrompt[];
   onToggleSavePrompt?: (meal: Meal) => void;
+  mealTemplates?: MealTemplate[];
+  onToggleTemplate?: (meal: Meal) => void;
   onDeleteMeal?: (mealId: string) => void;
   onUpdateFood?: (mealId: string, updatedFood: ParsedFood) => void;
+  onRevertMeal?: (mealId: string, revisionId: string) => Promise<void> | void;
+  onRetryAnalysis?: (mealId: string) => void;
+  onTransferMeal?: (mealId: string, mode: TransferMode, dateKey: string, slot: TransferSlot) => void;
+  onCopyDayToToday?: () => void;
+  onSetMealSlot?: (mealId: string, slot: MealSlot | null, label?: string) => void;
 }
 
 const PARSING_MESSAGES = [
@@ -60,11 +74,22 @@ const pendingMessage = (mealId: string, imageUri?: string) => {
   return pool[h % pool.length];
 };
 
+// Logged with no connection, or given up on after several tries. Either way
+// the row has no foods yet and the AI is not working on it right now
+const isWaiting = (meal: Meal) => meal.loadingState === 'queued' || meal.loadingState === 'failed';
+
 const SCREEN_HEIGHT = Dimensions.get('window').height;
 
 // Macro colors from design system
 const MACRO_COLORS = { protein: Acid.protein, carbs: Acid.carbs, fat: Acid.fat };
 
+const PORTION_STEPS = [
+  { label: '½×', factor: 0.5 },
+  { label: '1×', factor: 1 },
+  { label: '1.5×', factor: 1.5 },
+  { label: '2×', factor: 2 },
+];
+
 const NUTRIENT_ROWS: { label: string; key: string; unit: string; isHeader?: boolean; indent?: number }[] = [
   { label: 'Total Carbohydrates', key: 'carbs', unit: 'g', isHeader: true },
   { label: 'Dietary Fibre', key: 'dietary_fiber', unit: 'g', indent: 1 },
@@ -97,14 +122,25 @@ const NUTRIENT_ROWS: { label: string; key: string; unit: string; isHeader?: bool
 export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
   meals,
   dayLabel,
+  dateKey,
   onRemoveFood,
   onEditMealPrompt,
   savedPrompts = [],
   onToggleSavePrompt,
+  mealTemplates = [],
+  onToggleTemplate,
   onDeleteMeal,
   onUpdateFood,
+  onRevertMeal,
+  onRetryAnalysis,
+  onTransferMeal,
+  onCopyDayToToday,
+  onSetMealSlot,
 }) => {  const [selectedFood, setSelectedFood] = useState<ParsedFood | null>(null);
   const [actionMeal, setActionMeal] = useState<Meal | null>(null);
+  const [historyMeal, setHistoryMeal] = useState<Meal | null>(null);
+  const [transfer, setTransfer] = useState<{ meal: Meal; mode: TransferMode } | null>(null);
+  const [slotMeal, setSlotMeal] = useState<Meal | null>(null);
   const [baseFood, setBaseFood] = useState<ParsedFood | null>(null);
   const [selectedMealId, setSelectedMealId] = useState<string | null>(null);
   const [editingMealId, setEditingMealId] = useState<string | null>(null);
@@ -113,6 +149,11 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
   const [modalVisible, setModalVisible] = useState(false);
   const [focusedKey, setFocusedKey] = useState<string | null>(null);
   const [showAllNutrients, setShowAllNutrients] = useState(false);
+  // The portion picked in the food modal, as a multiple of the logged one. Null
+  // while a custom amount is typed in, which lives in portionAmount
+  const [portionFactor, setPortionFactor] = useState<number | null>(1);
+  const [portionAmount, setPortionAmount] = useState('');
+  const [portionUnit, setPortionUnit] = useState('g');
 
   // Slide-up animation
   const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
@@ -177,10 +218,50 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
   const handleFoodPress = (mealId: string, food: ParsedFood) => {
     setSelectedFood({ ...food });
     setBaseFood({ ...food });
+    setPortionFactor(1);
+    setPortionAmount('');
+    setPortionUnit(portionUnitsFor(food)[0]);
     setSelectedMealId(mealId);
     openFoodModal();
   };
 
+  // Portions are always taken from the food as logged, so stepping 1.5x then
+  // back to 1x lands exactly where it started
+  const applyPortion = (factor: number) => {
+    if (!baseFood) return;
+    setSelectedFood(scaleParsedFood(baseFood, factor));
+    setPortionFactor(factor);
+    setPortionAmount('');
+  };
+
+  // A typed amount in whichever unit is showing. The row then reads the way
+  // it was typed, "2 tbsp" or "150 g", whatever it was logged as
+  const applyPortionAmount = (text: string, unit = portionUnit) => {
+    setPortionAmount(text);
+    const amount = parseFloat(text.replace(',', '.'));
+    const factor = baseFood ? portionFactorFor(baseFood, amount, unit) : null;
+    if (!baseFood || factor == null) return;
+    setSelectedFood({ ...scaleParsedFood(baseFood, factor), quantity: amount, unit });
+    setPortionFactor(null);
+  };
+
+  const portionUnits = baseFood ? portionUnitsFor(baseFood) : ['g'];
+
+  const cyclePortionUnit = () => {
+    const next = portionUnits[(portionUnits.indexOf(portionUnit) + 1) % portionUnits.length];
+    setPortionUnit(next);
+    if (portionAmount) applyPortionAmount(portionAmount, next);
+  };
+
+  // What the food comes to now, in the unit showing, as the field's hint
+  const portionHint = (food: ParsedFood): string => {
+    if (portionUnit === food.unit) return String(food.quantity);
+    if (portionUnit === 'g') return String(food.weight_g);
+    const measure = normalizeUnit(portionUnit, food.name);
+    const amount = measure ? gramsToMeasure(food.weight_g, measure, food.name) : null;
+    return amount != null ? String(amount) : '';
+  };
+
   const handleCloseModal = () => {
     closeFoodModal();
   };
@@ -227,12 +308,14 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
   // alerts at three buttons and the web shim only runs one action, so an
   // Alert-based menu breaks on both. Opened by the row's ··· and by long-press.
   const openMealActions = (meal: Meal) => {
-    if (meal.isLoading) return;
+    if (meal.isLoading && !isWaiting(meal)) return;
     setActionMeal(meal);
   };
 
   const loggedMeals = meals.filter(m => !m.isLoading);
   const actionMealSaved = actionMeal ? savedPromptLookup.has((actionMeal.prompt || '').trim().toLowerCase()) : false;
+  const actionMealName = (actionMeal?.summary || actionMeal?.prompt || '').trim().toLowerCase();
+  const actionMealTemplated = !!actionMealName && mealTemplates.some(t => t.name.trim().toLowerCase() === actionMealName);
 
   return (
     <>
@@ -240,14 +323,42 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
         {/* Day ledger header */}
         <View style={styles.ledgerHeader}>
           <Text style={styles.ledgerHeaderText}>{dayLabel || 'TODAY'}</Text>
-          <Text style={styles.ledgerHeaderText}>
-            {loggedMeals.length} MEAL{loggedMeals.length === 1 ? '' : 'S'}
-          </Text>
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: 14 }}>
+            {onCopyDayToToday && loggedMeals.length > 0 && (
+              <TouchableOpacity onPress={onCopyDayToToday} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Text style={[styles.ledgerHeaderText, { color: Acid.lime }]}>COPY TO TODAY</Text>
+              </TouchableOpacity>
+            )}
+            <Text style={styles.ledgerHeaderText}>
+              {loggedMeals.length} MEAL{loggedMeals.length === 1 ? '' : 'S'}
+            </Text>
+          </View>
         </View>
 
         {meals.map((meal) => {
           const timeLabel = meal.timestamp ? format(new Date(meal.timestamp), 'H:mm') : '';
 
+          if (isWaiting(meal)) {
+            const failed = meal.loadingState === 'failed';
+            return (
+              <TouchableOpacity key={meal.id} style={styles.row} onPress={() => openMealActions(meal)}>
+                <Text style={styles.rowTime}>{timeLabel}</Text>
+                <View style={{ flex: 1, flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                  {meal.imageUri
+                    ? <Image source={{ uri: meal.imageUri }} style={styles.pendingThumb} />
+                    : <Feather name={failed ? 'alert-circle' : 'clock'} size={16} color={failed ? Acid.error : Acid.tx3} />}
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.rowName} numberOfLines={1}>{meal.prompt}</Text>
+                    <Text style={[styles.rowSub, failed && { color: Acid.error }]} numberOfLines={1}>
+                      {failed ? 'Could not analyze. Tap to try again' : 'Waiting to analyze, will run when you are back online'}
+                    </Text>
+                  </View>
+                </View>
+                <Feather name="more-horizontal" size={16} color={Acid.tx3} style={{ paddingLeft: 10 }} />
+              </TouchableOpacity>
+            );
+          }
+
           if (meal.isLoading) {
             return (
               <View key={meal.id} style={styles.row}>
@@ -295,7 +406,13 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
                   onLongPress={() => openMealActions(meal)}
                   delayLongPress={350}
                 >
-                  <Text style={styles.rowTime}>{idx === 0 ? timeLabel : ''}</Text>
+                  <View style={styles.rowTimeCol}>
+                    <Text style={styles.rowTime}>{idx === 0 ? timeLabel : ''}</Text>
+                    {/* Only a slot someone chose is shown; the clock's guess is the time itself */}
+                    {idx === 0 && meal.mealSlot && (
+                      <Text style={styles.rowSlot} numberOfLines={1}>{mealSlotLabel(meal)}</Text>
+                    )}
+                  </View>
                   <View style={{ flex: 1, paddingRight: 10 }}>
                     <Text style={styles.rowName} numberOfLines={1}>{food.name}</Text>
                     <View style={{ flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 6, marginTop: 2 }}>
@@ -358,7 +475,15 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
             <Text style={styles.actionTitle} numberOfLines={2}>
               {actionMeal?.summary || actionMeal?.prompt || 'Meal'}
             </Text>
-            {onToggleSavePrompt && actionMeal?.prompt && (
+            {onRetryAnalysis && actionMeal && isWaiting(actionMeal) && (
+              <TouchableOpacity
+                style={styles.actionRow}
+                onPress={() => { const id = actionMeal.id; setActionMeal(null); onRetryAnalysis(id); }}
+              >
+                <Text style={styles.actionText}>Analyze now</Text>
+              </TouchableOpacity>
+            )}
+            {onToggleSavePrompt && actionMeal?.prompt && !actionMeal.isLoading && (
               <TouchableOpacity
                 style={styles.actionRow}
                 onPress={() => { const m = actionMeal; setActionMeal(null); if (m) onToggleSavePrompt(m); }}
@@ -366,7 +491,41 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
                 <Text style={styles.actionText}>{actionMealSaved ? 'Remove saved prompt' : 'Save prompt'}</Text>
               </TouchableOpacity>
             )}
-            {onEditMealPrompt && actionMeal && !actionMeal.imageUri && (
+            {onToggleTemplate && actionMeal && !actionMeal.isLoading && actionMeal.foods.length > 0 && (
+              <TouchableOpacity
+                style={styles.actionRow}
+                onPress={() => { const m = actionMeal; setActionMeal(null); if (m) onToggleTemplate(m); }}
+              >
+                <Text style={styles.actionText}>{actionMealTemplated ? 'Remove template' : 'Save as template'}</Text>
+              </TouchableOpacity>
+            )}
+            {onSetMealSlot && actionMeal && !isWaiting(actionMeal) && !actionMeal.isLoading && (
+              <TouchableOpacity
+                style={styles.actionRow}
+                onPress={() => { const m = actionMeal; setActionMeal(null); setSlotMeal(m); }}
+              >
+                <Text style={styles.actionText}>
+                  Meal: {mealSlotLabel(actionMeal)}{actionMeal.mealSlot ? '' : ' (by the clock)'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {onTransferMeal && dateKey && actionMeal && !isWaiting(actionMeal) && !actionMeal.isLoading && actionMeal.foods.length > 0 && (
+              <>
+                <TouchableOpacity
+                  style={styles.actionRow}
+                  onPress={() => { const m = actionMeal; setActionMeal(null); setTransfer({ meal: m, mode: 'copy' }); }}
+                >
+                  <Text style={styles.actionText}>Copy to another day</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionRow}
+                  onPress={() => { const m = actionMeal; setActionMeal(null); setTransfer({ meal: m, mode: 'move' }); }}
+                >
+                  <Text style={styles.actionText}>Move to another day or time</Text>
+                </TouchableOpacity>
+              </>
+            )}
+            {onEditMealPrompt && actionMeal && !actionMeal.imageUri && !actionMeal.isLoading && (
               <TouchableOpacity
                 style={styles.actionRow}
                 onPress={() => { const m = actionMeal; setActionMeal(null); if (m) handleStartEditPrompt(m); }}
@@ -374,6 +533,14 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
                 <Text style={styles.actionText}>Edit description</Text>
               </TouchableOpacity>
             )}
+            {actionMeal?.revisions && actionMeal.revisions.length > 0 && (
+              <TouchableOpacity
+                style={styles.actionRow}
+                onPress={() => { const m = actionMeal; setActionMeal(null); setHistoryMeal(m); }}
+              >
+                <Text style={styles.actionText}>Edit history ({actionMeal.revisions.length})</Text>
+              </TouchableOpacity>
+            )}
             {onDeleteMeal && actionMeal && (
               <TouchableOpacity
                 style={styles.actionRow}
@@ -389,6 +556,80 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
         </TouchableOpacity>
       </Modal>
 
+      {/* ── Copy / move a meal ── */}
+      {dateKey && (
+        <MealTransferSheet
+          visible={transfer !== null}
+          mode={transfer?.mode ?? 'copy'}
+          title={transfer?.meal.summary || transfer?.meal.prompt || 'Meal'}
+          fromDateKey={dateKey}
+          onClose={() => setTransfer(null)}
+          onConfirm={(toDateKey, slot) => {
+            const t = transfer;
+            setTransfer(null);
+            if (t && onTransferMeal) onTransferMeal(t.meal.id, t.mode, toDateKey, slot);
+          }}
+        />
+      )}
+
+      {/* ── Which meal it was ── */}
+      <MealSlotSheet
+        visible={slotMeal !== null}
+        title={slotMeal?.summary || slotMeal?.prompt || 'Meal'}
+        slot={slotMeal?.mealSlot}
+        label={slotMeal?.mealSlotLabel}
+        timestamp={slotMeal?.timestamp ?? Date.now()}
+        onClose={() => setSlotMeal(null)}
+        onConfirm={(slot, label) => {
+          const m = slotMeal;
+          setSlotMeal(null);
+          if (m && onSetMealSlot) onSetMealSlot(m.id, slot, label);
+        }}
+      />
+
+      {/* ── Meal edit history ── */}
+      <Modal
+        visible={historyMeal !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setHistoryMeal(null)}
+      >
+        <TouchableOpacity
+          style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.55)', justifyContent: 'flex-end' }}
+          activeOpacity={1}
+          onPress={() => setHistoryMeal(null)}
+        >
+          <View style={[styles.actionSheet, { maxHeight: SCREEN_HEIGHT * 0.7 }]}>
+            <Text style={styles.actionTitle} numberOfLines={2}>
+              {historyMeal?.summary || historyMeal?.prompt || 'Meal'}
+            </Text>
+            <ScrollView>
+              {[...(historyMeal?.revisions || [])].reverse().map((r) => (
+                <View key={r.id} style={styles.revisionRow}>
+                  <View style={{ flex: 1, paddingRight: 10 }}>
+                    <Text style={styles.actionText} numberOfLines={2}>{describeRevision(r)}</Text>
+                    <Text style={styles.rowSub}>
+                      {format(new Date(r.at), 'MMM d, H:mm')} · {r.source === 'ai' ? 'new AI estimate' : 'your edit'} · {r.beforeTotals.calories} → {r.afterTotals.calories} kcal
+                    </Text>
+                  </View>
+                  {onRevertMeal && (
+                    <TouchableOpacity
+                      onPress={() => { const m = historyMeal; setHistoryMeal(null); if (m) onRevertMeal(m.id, r.id); }}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    >
+                      <Text style={{ fontSize: 13, fontWeight: '600', color: Acid.lime }}>Revert</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </ScrollView>
+            <TouchableOpacity style={styles.actionRow} onPress={() => setHistoryMeal(null)}>
+              <Text style={[styles.actionText, { color: Acid.tx2 }]}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
       {/* ── Food Detail Slide-Up Modal ── */}
       <Modal
         visible={modalVisible}
@@ -424,7 +665,9 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
                 <View style={{ flexDirection: 'row', alignItems: 'flex-start', paddingHorizontal: 24, paddingTop: 8, paddingBottom: 12 }}>
                   <View style={{ flex: 1 }}>
                     <Text style={{ fontFamily: Acid.serifItalic, fontSize: 26, lineHeight: 32, color: Acid.tx }}>{selectedFood.name}</Text>
-                    <Text style={{ fontSize: 13, color: Acid.tx2, marginTop: 4 }}>{selectedFood.weight_g}g serving</Text>
+                    <Text style={{ fontSize: 13, color: Acid.tx2, marginTop: 4 }}>
+                      {selectedFood.unit && normalizeUnit(selectedFood.unit) !== 'g' ? `${selectedFood.quantity} ${selectedFood.unit} · ` : ''}{selectedFood.weight_g}g serving
+                    </Text>
                   </View>
                   <TouchableOpacity onPress={handleCloseModal} style={{ padding: 4 }}>
                     <Feather name="x" size={22} color={Acid.tx3} />
@@ -466,6 +709,49 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
                     ))}
                   </View>
 
+                  {/* Portion */}
+                  <Text style={{ fontSize: 11, letterSpacing: 2, color: Acid.tx3, marginBottom: 12 }}>PORTION</Text>
+                  <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 32 }}>
+                    {PORTION_STEPS.map((step) => {
+                      const active = portionFactor === step.factor;
+                      return (
+                        <TouchableOpacity
+                          key={step.label}
+                          onPress={() => applyPortion(step.factor)}
+                          style={{
+                            paddingVertical: 8, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1,
+                            borderColor: active ? Acid.lime : Acid.hair2,
+                            backgroundColor: active ? Acid.lime : 'transparent',
+                          }}
+                        >
+                          <Text style={{ fontSize: 13, fontWeight: '600', color: active ? Acid.moss : Acid.tx2 }}>{step.label}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                    {(baseFood?.weight_g ?? 0) > 0 && (
+                      <View style={{ flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end' }}>
+                        <TextInput
+                          style={{
+                            minWidth: 56, borderBottomWidth: 1.5,
+                            borderBottomColor: focusedKey === 'portion_amount' ? Acid.lime : Acid.hair2,
+                            paddingVertical: 6, paddingHorizontal: 0, fontSize: 16, textAlign: 'right', color: Acid.tx,
+                          }}
+                          selectionColor={Acid.lime}
+                          onFocus={() => setFocusedKey('portion_amount')}
+                          onBlur={() => setFocusedKey(null)}
+                          keyboardType="decimal-pad"
+                          placeholder={portionHint(selectedFood)}
+                          placeholderTextColor={Acid.tx3}
+                          value={portionAmount}
+                          onChangeText={(text) => applyPortionAmount(text)}
+                        />
+                        <TouchableOpacity onPress={cyclePortionUnit} hitSlop={{ top: 10, bottom: 10, left: 6, right: 10 }}>
+                          <Text style={{ fontSize: 13, color: portionUnits.length > 1 ? Acid.lime : Acid.tx3, marginLeft: 4 }}>{portionUnit}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </View>
+
                   {/* Edit Macros */}
                   <Text style={{ fontSize: 11, letterSpacing: 2, color: Acid.tx3, marginBottom: 16 }}>EDIT MACROS</Text>
                   <View style={{ flexDirection: 'row', flexWrap: 'wrap', columnGap: 20, rowGap: 20, marginBottom: 32 }}>
@@ -485,21 +771,17 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
                         keyboardType="numeric"
                         value={String(Math.round(selectedFood.calories))}
                         onChangeText={(text) => {
+                          if (!baseFood) return;
                           const newCalories = Number(text) || 0;
-                          const oldCalories = baseFood?.calories || 1;
-                          const ratio = newCalories / oldCalories;
+                          const ratio = newCalories / (baseFood.calories || 1);
+                          // Every micro follows, not just the macros, so the
+                          // micronutrient card never sees the old amount
                           setSelectedFood({
-                            ...selectedFood,
+                            ...scaleNutrients(baseFood, ratio),
+                            name: selectedFood.name,
+                            weight_g: selectedFood.weight_g,
+                            quantity: selectedFood.quantity,
                             calories: newCalories,
-                            protein: parseFloat(((baseFood?.protein || 0) * ratio).toFixed(1)),
-                            carbs: parseFloat(((baseFood?.carbs || 0) * ratio).toFixed(1)),
-                            fat: parseFloat(((baseFood?.fat || 0) * ratio).toFixed(1)),
-                            dietary_fiber: baseFood?.dietary_fiber ? parseFloat((baseFood.dietary_fiber * ratio).toFixed(1)) : undefined,
-                            sugar: baseFood?.sugar ? parseFloat((baseFood.sugar * ratio).toFixed(1)) : undefined,
-                            saturated_fat: baseFood?.saturated_fat ? parseFloat((baseFood.saturated_fat * ratio).toFixed(1)) : undefined,
-                            sodium_mg: baseFood?.sodium_mg ? Math.round(baseFood.sodium_mg * ratio) : undefined,
-                            potassium_mg: baseFood?.potassium_mg ? Math.round(baseFood.potassium_mg * ratio) : undefined,
-                            cholesterol_mg: baseFood?.cholesterol_mg ? Math.round(baseFood.cholesterol_mg * ratio) : undefined,
                           });
                         }}
                       />
@@ -626,12 +908,11 @@ export const FoodLogSection: React.FC<FoodLogSectionProps> = ({
                       }}
                       onPress={() => {
                         if (selectedFood && onUpdateFood && selectedMealId) {
-                          const p = Number(selectedFood.protein || 0);
-                          const c = Number(selectedFood.carbs || 0);
-                          const f = Number(selectedFood.fat || 0);
+                          // Macro edits already keep calories in step. Recomputing
+                          // 4/4/9 here would overwrite a label's own figure on save
                           onUpdateFood(selectedMealId, {
                             ...selectedFood,
-                            calories: Math.max(0, Math.round(p * 4 + c * 4 + f * 9)),
+                            calories: Math.max(0, Math.round(selectedFood.calories)),
                           });
                         }
                         handleCloseModal();
@@ -679,6 +960,13 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: Acid.tx,
   },
+  revisionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: Acid.hair,
+  },
   ledgerHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -711,6 +999,15 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: Acid.tx3,
   },
+  rowTimeCol: {
+    width: 46,
+  },
+  rowSlot: {
+    fontSize: 9,
+    color: Acid.lime,
+    marginTop: 2,
+    paddingRight: 4,
+  },
   rowName: {
     fontSize: 15,
     fontWeight: '600',
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { Spacing } from '../constants/spacing';
+import { FoodLabel, labelToParsedFood } from '../services/foodDatabaseService';
+import { ParsedFood } from '../utils/foodNutrition';
+
+interface LabelAmountPickerProps {
+  label: FoodLabel;
+  servingG: number | null;
+  packG: number | null;
+  onLog: (food: ParsedFood) => void;
+}
+
+type AmountMode = 'servings' | 'grams' | 'pack';
+
+const MODE_LABELS: Record<AmountMode, string> = {
+  servings: 'Servings',
+  grams: 'Grams',
+  pack: 'Of the pack',
+};
+
+// "2", "1.5", "1/2" and "1 1/2" all mean what they say
+const parseAmount = (text: string): number | null => {
+  const m = text.trim().replace(',', '.').match(/^(?:(\d+)\s+)?(\d+(?:\.\d+)?)(?:\/(\d+))?$/);
+  if (!m) return null;
+  const whole = m[1] ? Number(m[1]) : 0;
+  const part = m[3] ? Number(m[2]) / Number(m[3]) : Number(m[2]);
+  const amount = whole + part;
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+/**
+ * How much of a labelled food was eaten, in whichever unit the label makes
+ * easy: servings when it states one, a share of the pack when it gives the
+ * pack size, and grams always. Shared by the barcode scanner and the label
+ * photo, which both end with a FoodLabel in hand. Key it by product so a
+ * new one starts from its own defaults.
+ */
+export const LabelAmountPicker: React.FC<LabelAmountPickerProps> = ({ label, servingG, packG, onLog }) => {
+  const initialMode: AmountMode = servingG ? 'servings' : packG ? 'pack' : 'grams';
+  const [mode, setMode] = useState<AmountMode>(initialMode);
+  const [amountText, setAmountText] = useState(initialMode === 'grams' ? '100' : '1');
+
+  const unitGrams = (m: AmountMode): number | null =>
+    m === 'servings' ? servingG : m === 'pack' ? packG : 1;
+
+  const amount = parseAmount(amountText);
+  const perUnit = unitGrams(mode);
+  const weightG = amount != null && perUnit != null ? amount * perUnit : null;
+  const unit = mode === 'grams' ? 'g' : mode === 'pack' ? 'pack' : amount === 1 ? 'serving' : 'servings';
+  const preview = amount != null && weightG ? labelToParsedFood(label, weightG, amount, unit) : null;
+  const modes = (['servings', 'grams', 'pack'] as AmountMode[]).filter((m) => unitGrams(m) != null);
+
+  return (
+    <View>
+      <Text style={styles.productName}>{label.name}</Text>
+      {label.brand && <Text style={styles.productMeta}>{label.brand}</Text>}
+      <Text style={styles.productMeta}>
+        {Math.round(label.per100g.calories)} kcal per 100 g
+        {label.servingSize ? ` · serving ${label.servingSize}` : ''}
+        {label.quantity ? ` · pack ${label.quantity}` : ''}
+      </Text>
+
+      <View style={styles.modeRow}>
+        {modes.map((m) => {
+          const active = m === mode;
+          return (
+            <TouchableOpacity
+              key={m}
+              onPress={() => {
+                setMode(m);
+                setAmountText(m === 'grams' ? String(Math.round(weightG ?? 100)) : '1');
+              }}
+              style={[styles.modeChip, active && styles.modeChipActive]}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.modeChipText, active && styles.modeChipTextActive]}>{MODE_LABELS[m]}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.amountRow}>
+        <TextInput
+          value={amountText}
+          onChangeText={setAmountText}
+          keyboardType={mode === 'pack' ? 'numbers-and-punctuation' : 'decimal-pad'}
+          style={styles.amountInput}
+          selectTextOnFocus
+        />
+        <Text style={styles.amountUnit}>
+          {mode === 'grams' ? 'g' : mode === 'pack' ? 'of the pack, like 1/2' : `× ${perUnit} g`}
+        </Text>
+      </View>
+
+      <Text style={styles.previewText}>
+        {preview
+          ? `${preview.weight_g} g · ${preview.calories} kcal · P ${preview.protein} · C ${preview.carbs} · F ${preview.fat}`
+          : 'Enter an amount'}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, !preview && styles.buttonDisabled]}
+        onPress={() => { if (preview) onLog(preview); }}
+        disabled={!preview}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.primaryButtonText}>Log it</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  productName: {
+    fontSize: Typography.fontSize.xl,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Acid.tx,
+    marginBottom: 4,
+  },
+  productMeta: {
+    fontSize: 13,
+    lineHeight: 19,
+    color: Acid.tx3,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: 24,
+  },
+  modeChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: Acid.hair2,
+  },
+  modeChipActive: {
+    backgroundColor: Acid.lime,
+    borderColor: Acid.lime,
+  },
+  modeChipText: {
+    fontSize: 13,
+    color: Acid.tx2,
+  },
+  modeChipTextActive: {
+    color: Acid.moss,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 20,
+  },
+  amountInput: {
+    width: 96,
+    fontSize: 22,
+    color: Acid.tx,
+    borderBottomWidth: 1,
+    borderBottomColor: Acid.hair2,
+    paddingVertical: 6,
+  },
+  amountUnit: {
+    flex: 1,
+    fontSize: 14,
+    color: Acid.tx2,
+  },
+  previewText: {
+    fontSize: 13,
+    color: Acid.tx2,
+    marginTop: 20,
+  },
+  primaryButton: {
+    height: 52,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Acid.lime,
+    marginTop: 28,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Acid.moss,
+  },
+});
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, TextInput, KeyboardAvoidingView, Platform } from 'react-native';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { Spacing } from '../constants/spacing';
+import type { MealSlot } from '../services/dataStorage';
+import { MEAL_SLOTS, slotFromHour } from '../utils/mealSlots';
+
+interface MealSlotSheetProps {
+  visible: boolean;
+  title: string;
+  slot?: MealSlot; // what the meal is called now; absent means the clock decides
+  label?: string;
+  timestamp: number;
+  onClose: () => void;
+  onConfirm: (slot: MealSlot | null, label?: string) => void;
+}
+
+const CUSTOM_LABEL_MAX = 24;
+
+/**
+ * Which meal this was, said outright. Breakfast at 4pm after a night shift is
+ * still breakfast. "By the clock" clears the choice and goes back to guessing
+ * from the time.
+ */
+export const MealSlotSheet: React.FC<MealSlotSheetProps> = ({
+  visible,
+  title,
+  slot,
+  label,
+  timestamp,
+  onClose,
+  onConfirm,
+}) => {
+  const [picked, setPicked] = useState<MealSlot | null>(null);
+  const [customLabel, setCustomLabel] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    setPicked(slot ?? null);
+    setCustomLabel(slot === 'custom' ? label ?? '' : '');
+  }, [visible, slot, label]);
+
+  const clockLabel = MEAL_SLOTS.find((s) => s.key === slotFromHour(new Date(timestamp).getHours()))?.label;
+  const needsLabel = picked === 'custom' && !customLabel.trim();
+
+  const chip = (key: MealSlot | null, text: string) => {
+    const active = key === picked;
+    return (
+      <TouchableOpacity
+        key={key ?? 'clock'}
+        onPress={() => setPicked(key)}
+        style={[styles.slotChip, active && styles.slotChipActive]}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.slotChipText, active && styles.slotChipTextActive]}>{text}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={{ flex: 1 }}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose}>
+          <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+            <Text style={styles.heading}>This meal was</Text>
+            <Text style={styles.title} numberOfLines={2}>{title}</Text>
+
+            <View style={styles.slotRow}>
+              {MEAL_SLOTS.map(({ key, label: text }) => chip(key, text))}
+              {chip('custom', 'Other...')}
+              {chip(null, `By the clock${clockLabel ? ` (${clockLabel})` : ''}`)}
+            </View>
+
+            {picked === 'custom' && (
+              <TextInput
+                value={customLabel}
+                onChangeText={(text) => setCustomLabel(text.slice(0, CUSTOM_LABEL_MAX))}
+                placeholder="Pre-workout, second breakfast..."
+                placeholderTextColor={Acid.tx3}
+                selectionColor={Acid.lime}
+                autoFocus
+                style={styles.labelInput}
+              />
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, needsLabel && styles.buttonDisabled]}
+              onPress={() => onConfirm(picked, picked === 'custom' ? customLabel.trim() : undefined)}
+              disabled={needsLabel}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.55)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Acid.moss,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 24,
+    paddingTop: 20,
+    paddingBottom: 34,
+  },
+  heading: {
+    fontSize: 11,
+    letterSpacing: 2,
+    color: Acid.tx3,
+    textTransform: 'uppercase',
+  },
+  title: {
+    fontFamily: Acid.serifItalic,
+    fontSize: 17,
+    color: Acid.tx,
+    marginTop: 6,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: 20,
+  },
+  slotChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: Acid.hair2,
+  },
+  slotChipActive: {
+    backgroundColor: Acid.lime,
+    borderColor: Acid.lime,
+  },
+  slotChipText: {
+    fontSize: 13,
+    color: Acid.tx2,
+  },
+  slotChipTextActive: {
+    color: Acid.moss,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+  labelInput: {
+    fontSize: 15,
+    color: Acid.tx,
+    borderWidth: 1,
+    borderColor: Acid.hair,
+    backgroundColor: Acid.mossDeep,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: Platform.OS === 'ios' ? 12 : 8,
+    marginTop: 16,
+  },
+  primaryButton: {
+    height: 52,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Acid.lime,
+    marginTop: 28,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Acid.moss,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  cancelText: {
+    fontSize: 15,
+    color: Acid.tx2,
+  },
+});
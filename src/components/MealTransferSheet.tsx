@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { addDays, format, isSameDay, isYesterday, isToday, parseISO } from 'date-fns';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { Spacing } from '../constants/spacing';
+import { TRANSFER_SLOTS, TransferSlot } from '../utils/mealTransfer';
+
+export type TransferMode = 'copy' | 'move';
+
+interface MealTransferSheetProps {
+  visible: boolean;
+  mode: TransferMode;
+  title: string;
+  fromDateKey: string; // the day the meal is on now
+  onClose: () => void;
+  onConfirm: (dateKey: string, slot: TransferSlot) => void;
+}
+
+const dayLabel = (date: Date) =>
+  isToday(date) ? 'Today' : isYesterday(date) ? 'Yesterday' : format(date, 'EEE d MMM');
+
+/**
+ * Where a meal should go: a day, stepped back from today, and a slot. Opens on
+ * yesterday from today's page, since "that was yesterday's dinner" is the usual
+ * fix, and on today from any other day. Nothing can be sent into the future.
+ */
+export const MealTransferSheet: React.FC<MealTransferSheetProps> = ({
+  visible,
+  mode,
+  title,
+  fromDateKey,
+  onClose,
+  onConfirm,
+}) => {
+  const [date, setDate] = useState(new Date());
+  const [slot, setSlot] = useState<TransferSlot>('keep');
+
+  useEffect(() => {
+    if (!visible) return;
+    const from = parseISO(fromDateKey);
+    setDate(isToday(from) ? addDays(new Date(), -1) : new Date());
+    setSlot('keep');
+  }, [visible, fromDateKey]);
+
+  const dateKey = format(date, 'yyyy-MM-dd');
+  const canGoForward = !isToday(date);
+  // Moving a meal to where it already is changes nothing
+  const unchanged = mode === 'move' && isSameDay(date, parseISO(fromDateKey)) && slot === 'keep';
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <Text style={styles.heading}>{mode === 'copy' ? 'Copy to' : 'Move to'}</Text>
+          <Text style={styles.title} numberOfLines={2}>{title}</Text>
+
+          <View style={styles.dayRow}>
+            <TouchableOpacity onPress={() => setDate((d) => addDays(d, -1))} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Feather name="chevron-left" size={22} color={Acid.tx} />
+            </TouchableOpacity>
+            <Text style={styles.dayText}>{dayLabel(date)}</Text>
+            <TouchableOpacity
+              onPress={() => setDate((d) => addDays(d, 1))}
+              disabled={!canGoForward}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Feather name="chevron-right" size={22} color={canGoForward ? Acid.tx : Acid.hair2} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.slotRow}>
+            {TRANSFER_SLOTS.map(({ key, label }) => {
+              const active = key === slot;
+              return (
+                <TouchableOpacity
+                  key={key}
+                  onPress={() => setSlot(key)}
+                  style={[styles.slotChip, active && styles.slotChipActive]}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.slotChipText, active && styles.slotChipTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, unchanged && styles.buttonDisabled]}
+            onPress={() => onConfirm(dateKey, slot)}
+            disabled={unchanged}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.primaryButtonText}>{mode === 'copy' ? 'Copy' : 'Move'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.55)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Acid.moss,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 24,
+    paddingTop: 20,
+    paddingBottom: 34,
+  },
+  heading: {
+    fontSize: 11,
+    letterSpacing: 2,
+    color: Acid.tx3,
+    textTransform: 'uppercase',
+  },
+  title: {
+    fontFamily: Acid.serifItalic,
+    fontSize: 17,
+    color: Acid.tx,
+    marginTop: 6,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 24,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: Acid.hair,
+  },
+  dayText: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Acid.tx,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: 20,
+  },
+  slotChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: Acid.hair2,
+  },
+  slotChipActive: {
+    backgroundColor: Acid.lime,
+    borderColor: Acid.lime,
+  },
+  slotChipText: {
+    fontSize: 13,
+    color: Acid.tx2,
+  },
+  slotChipTextActive: {
+    color: Acid.moss,
+    fontWeight: Typography.fontWeight.semiBold,
+  },
+  primaryButton: {
+    height: 52,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Acid.lime,
+    marginTop: 28,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Acid.moss,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  cancelText: {
+    fontSize: 15,
+    color: Acid.tx2,
+  },
+});
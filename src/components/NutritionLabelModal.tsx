@@ -0,0 +1,408 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X } from 'lucide-react-native';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { Spacing } from '../constants/spacing';
+import { readNutritionLabel, ReadLabel } from '../services/openaiService';
+import { FoodLabel, isSane } from '../services/foodDatabaseService';
+import { dataStorage } from '../services/dataStorage';
+import { ParsedFood } from '../utils/foodNutrition';
+import { generateId } from '../utils/uuid';
+import { LabelAmountPicker } from './LabelAmountPicker';
+
+interface NutritionLabelModalProps {
+  imageUri: string | null; // the panel photo; the modal is open while set
+  onClose: () => void;
+  onLog: (food: ParsedFood) => void;
+}
+
+type FieldKey = 'name' | 'brand' | 'calories' | 'protein' | 'carbs' | 'fat' | 'fibre' | 'sugar' | 'servingG' | 'packG';
+type Fields = Record<FieldKey, string>;
+
+const EMPTY_FIELDS: Fields = {
+  name: '', brand: '', calories: '', protein: '', carbs: '', fat: '', fibre: '', sugar: '', servingG: '', packG: '',
+};
+
+const NUMBER_FIELDS: Array<{ key: FieldKey; label: string; unit: string }> = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs, fibre included', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fibre', label: 'Fibre', unit: 'g' },
+  { key: 'sugar', label: 'Sugar', unit: 'g' },
+];
+
+const show = (n: number | null | undefined) => (n == null ? '' : String(n));
+
+const fieldsFromReading = (r: ReadLabel): Fields => ({
+  name: r.label.name === 'Labelled food' ? '' : r.label.name,
+  brand: r.label.brand ?? '',
+  calories: show(r.label.per100g.calories),
+  protein: show(r.label.per100g.protein),
+  carbs: show(r.label.per100g.carbs),
+  fat: show(r.label.per100g.fat),
+  fibre: show(r.label.per100g.fibre),
+  sugar: show(r.label.per100g.sugar),
+  servingG: show(r.servingG),
+  packG: show(r.packG),
+});
+
+const num = (text: string): number | null => {
+  const n = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+/**
+ * Log a packaged food from a photo of its nutrition panel. Regional products
+ * are often missing from Open Food Facts, but the label is in the user's hand.
+ * The panel is transcribed, the user checks every figure against it, and the
+ * result is kept as a personal food before the amount eaten is logged.
+ */
+export const NutritionLabelModal: React.FC<NutritionLabelModalProps> = ({ imageUri, onClose, onLog }) => {
+  const [step, setStep] = useState<'reading' | 'failed' | 'confirm' | 'amount'>('reading');
+  const [reading, setReading] = useState<ReadLabel | null>(null);
+  const [fields, setFields] = useState<Fields>(EMPTY_FIELDS);
+  const [failure, setFailure] = useState('');
+  const [confirmed, setConfirmed] = useState<{ label: FoodLabel; servingG: number | null; packG: number | null } | null>(null);
+
+  const read = async (uri: string) => {
+    setStep('reading');
+    try {
+      const result = await readNutritionLabel(uri);
+      if (!result) {
+        // Nothing legible is still worth a form: the user can type the panel in
+        setReading(null);
+        setFields(EMPTY_FIELDS);
+        setFailure('The panel could not be read. Type the per 100 g figures from the label, or retake the photo closer and flatter.');
+        setStep('confirm');
+        return;
+      }
+      setReading(result);
+      setFields(fieldsFromReading(result));
+      setFailure('');
+      setStep('confirm');
+    } catch {
+      setFailure('Could not reach the label reader. Check your connection and try again.');
+      setStep('failed');
+    }
+  };
+
+  useEffect(() => {
+    if (imageUri) {
+      setConfirmed(null);
+      read(imageUri);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [imageUri]);
+
+  const setField = (key: FieldKey) => (text: string) => setFields((prev) => ({ ...prev, [key]: text }));
+
+  const per100g = (): FoodLabel['per100g'] | null => {
+    const calories = num(fields.calories);
+    if (calories == null || calories <= 0) return null;
+    const carbs = num(fields.carbs) ?? 0;
+    return {
+      calories,
+      protein: num(fields.protein) ?? 0,
+      carbs,
+      fibre: Math.min(num(fields.fibre) ?? 0, carbs),
+      sugar: num(fields.sugar),
+      fat: num(fields.fat) ?? 0,
+      // Not on the form. Kept as read, and scaled with nothing the user changed
+      saturatedFat: reading?.label.per100g.saturatedFat ?? null,
+      sodiumMg: reading?.label.per100g.sodiumMg ?? null,
+    };
+  };
+
+  const saveAndContinue = async (values: FoodLabel['per100g']) => {
+    const servingG = num(fields.servingG) || null;
+    const packG = num(fields.packG) || null;
+    const label: FoodLabel = {
+      name: fields.name.trim(),
+      brand: fields.brand.trim() || null,
+      code: '',
+      servingSize: reading?.label.servingSize ?? (servingG ? `${servingG} g` : null),
+      quantity: reading?.label.quantity ?? (packG ? `${packG} g` : null),
+      per100g: values,
+    };
+    const now = new Date().toISOString();
+    await dataStorage.savePersonalFood({
+      id: generateId(),
+      name: label.name,
+      brand: label.brand,
+      per100g: values,
+      micros: {},
+      servingG,
+      servingLabel: label.servingSize,
+      packG,
+      aliases: [],
+      source: 'label_photo',
+      createdAt: now,
+      updatedAt: now,
+    });
+    setConfirmed({ label, servingG, packG });
+    setStep('amount');
+  };
+
+  const handleConfirm = () => {
+    const values = per100g();
+    if (!fields.name.trim() || !values) return;
+    if (!isSane(values)) {
+      Alert.alert(
+        'These numbers do not add up',
+        'The calories are far from what the protein, carbs and fat work out to. Check them against the label.',
+        [
+          { text: 'Check again', style: 'cancel' },
+          { text: 'Save anyway', onPress: () => saveAndContinue(values) },
+        ]
+      );
+      return;
+    }
+    saveAndContinue(values);
+  };
+
+  const canConfirm = !!fields.name.trim() && per100g() !== null;
+
+  const renderConfirm = () => (
+    <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      {imageUri && <Image source={{ uri: imageUri }} style={styles.thumb} resizeMode="cover" />}
+      <Text style={styles.lede}>
+        {failure || (reading?.fromServing
+          ? 'Check these against the label. It only lists per serving figures, so they were scaled to 100 g.'
+          : 'Check these against the label. They are saved as one of your foods.')}
+      </Text>
+
+      <TextInput
+        value={fields.name}
+        onChangeText={setField('name')}
+        placeholder="Product name"
+        placeholderTextColor={Acid.tx3}
+        style={styles.textInput}
+      />
+      <TextInput
+        value={fields.brand}
+        onChangeText={setField('brand')}
+        placeholder="Brand (optional)"
+        placeholderTextColor={Acid.tx3}
+        style={styles.textInput}
+      />
+
+      <Text style={styles.sectionLabel}>PER 100 G</Text>
+      {NUMBER_FIELDS.map((f) => (
+        <View key={f.key} style={styles.fieldRow}>
+          <Text style={styles.fieldLabel}>{f.label}</Text>
+          <TextInput
+            value={fields[f.key]}
+            onChangeText={setField(f.key)}
+            keyboardType="decimal-pad"
+            placeholder="–"
+            placeholderTextColor={Acid.tx3}
+            style={styles.fieldInput}
+          />
+          <Text style={styles.fieldUnit}>{f.unit}</Text>
+        </View>
+      ))}
+
+      <Text style={styles.sectionLabel}>SIZES</Text>
+      <View style={styles.fieldRow}>
+        <Text style={styles.fieldLabel}>One serving{reading?.label.servingSize ? ` (${reading.label.servingSize})` : ''}</Text>
+        <TextInput value={fields.servingG} onChangeText={setField('servingG')} keyboardType="decimal-pad" placeholder="–" placeholderTextColor={Acid.tx3} style={styles.fieldInput} />
+        <Text style={styles.fieldUnit}>g</Text>
+      </View>
+      <View style={styles.fieldRow}>
+        <Text style={styles.fieldLabel}>Whole pack</Text>
+        <TextInput value={fields.packG} onChangeText={setField('packG')} keyboardType="decimal-pad" placeholder="–" placeholderTextColor={Acid.tx3} style={styles.fieldInput} />
+        <Text style={styles.fieldUnit}>g</Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, !canConfirm && styles.buttonDisabled]}
+        onPress={handleConfirm}
+        disabled={!canConfirm}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.primaryButtonText}>Save food</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  return (
+    <Modal visible={!!imageUri} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.safeArea} edges={['top', 'bottom']}>
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={{ flex: 1 }}>
+          <View style={styles.header}>
+            <Text style={styles.eyebrow}>NUTRITION LABEL</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}>
+              <X size={22} color={Acid.tx3} />
+            </TouchableOpacity>
+          </View>
+
+          {step === 'reading' && (
+            <View style={styles.centered}>
+              <ActivityIndicator color={Acid.lime} />
+              <Text style={styles.lede}>Reading the label…</Text>
+            </View>
+          )}
+
+          {step === 'failed' && (
+            <View style={styles.centered}>
+              <Text style={styles.lede}>{failure}</Text>
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => { if (imageUri) read(imageUri); }}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.secondaryButtonText}>Try again</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {step === 'confirm' && renderConfirm()}
+
+          {step === 'amount' && confirmed && (
+            <View style={styles.content}>
+              <LabelAmountPicker
+                label={confirmed.label}
+                servingG={confirmed.servingG}
+                packG={confirmed.packG}
+                onLog={(food) => {
+                  onLog(food);
+                  onClose();
+                }}
+              />
+            </View>
+          )}
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Acid.moss,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: 14,
+  },
+  eyebrow: {
+    fontSize: 11,
+    letterSpacing: 2,
+    color: Acid.tx3,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: Spacing.lg,
+    gap: 16,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: 8,
+    paddingBottom: 32,
+  },
+  thumb: {
+    height: 140,
+    borderRadius: 12,
+    marginBottom: 16,
+    backgroundColor: Acid.mossDeep,
+  },
+  lede: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: Acid.tx2,
+    marginBottom: 16,
+  },
+  textInput: {
+    fontSize: 15,
+    color: Acid.tx,
+    borderWidth: 1,
+    borderColor: Acid.hair,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: Platform.OS === 'ios' ? 12 : 8,
+    backgroundColor: Acid.mossDeep,
+    marginBottom: 10,
+  },
+  sectionLabel: {
+    fontSize: 11,
+    letterSpacing: 2,
+    color: Acid.tx3,
+    marginTop: 18,
+    marginBottom: 6,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Acid.hair,
+  },
+  fieldLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: Acid.tx,
+  },
+  fieldInput: {
+    width: 80,
+    fontSize: 15,
+    color: Acid.tx,
+    textAlign: 'right',
+    paddingVertical: 4,
+  },
+  fieldUnit: {
+    width: 36,
+    fontSize: 13,
+    color: Acid.tx3,
+    textAlign: 'right',
+  },
+  primaryButton: {
+    height: 52,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Acid.lime,
+    marginTop: 28,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Acid.moss,
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Acid.lime,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: Typography.fontWeight.semiBold,
+    color: Acid.lime,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
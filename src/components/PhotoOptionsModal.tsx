@@ -7,7 +7,7 @@ import {
   Modal,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ChevronRight, Camera, Image, Info } from 'lucide-react-native';
+import { ChevronRight, Camera, Image, Info, ScanBarcode, ScrollText } from 'lucide-react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Acid } from '../constants/acid';
 import { Typography } from '../constants/typography';
@@ -21,6 +21,8 @@ interface PhotoOptionsModalProps {
   onClose: () => void;
   onTakePhoto: () => void;
   onUploadPhoto: () => void;
+  onScanBarcode?: () => void;
+  onReadLabel?: () => void;
   onModalDismiss?: () => void;
 }
 
@@ -29,6 +31,8 @@ export const PhotoOptionsModal: React.FC<PhotoOptionsModalProps> = ({
   onClose,
   onTakePhoto,
   onUploadPhoto,
+  onScanBarcode,
+  onReadLabel,
   onModalDismiss,
 }) => {
   const [showTip, setShowTip] = useState(false);
@@ -116,7 +120,7 @@ export const PhotoOptionsModal: React.FC<PhotoOptionsModalProps> = ({
           </TouchableOpacity>
 
           <TouchableOpacity
-            style={[styles.optionRow, styles.optionRowLast]}
+            style={[styles.optionRow, !onScanBarcode && !onReadLabel && styles.optionRowLast]}
             onPress={() => {
               onClose();
               setTimeout(onUploadPhoto, 250);
@@ -131,6 +135,42 @@ export const PhotoOptionsModal: React.FC<PhotoOptionsModalProps> = ({
             <ChevronRight size={18} color={Acid.tx3} />
           </TouchableOpacity>
 
+          {onScanBarcode && (
+            <TouchableOpacity
+              style={[styles.optionRow, !onReadLabel && styles.optionRowLast]}
+              onPress={() => {
+                onClose();
+                setTimeout(onScanBarcode, 250);
+              }}
+              activeOpacity={0.6}
+            >
+              <ScanBarcode size={20} color={Acid.lime} />
+              <View style={styles.textContainer}>
+                <Text style={styles.optionTitle}>Scan a barcode</Text>
+                <Text style={styles.optionDescription}>Packaged food, logged from its label</Text>
+              </View>
+              <ChevronRight size={18} color={Acid.tx3} />
+            </TouchableOpacity>
+          )}
+
+          {onReadLabel && (
+            <TouchableOpacity
+              style={[styles.optionRow, styles.optionRowLast]}
+              onPress={() => {
+                onClose();
+                setTimeout(onReadLabel, 250);
+              }}
+              activeOpacity={0.6}
+            >
+              <ScrollText size={20} color={Acid.lime} />
+              <View style={styles.textContainer}>
+                <Text style={styles.optionTitle}>Photograph a nutrition label</Text>
+                <Text style={styles.optionDescription}>For a product the barcode scan does not know</Text>
+              </View>
+              <ChevronRight size={18} color={Acid.tx3} />
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity onPress={onClose} style={styles.cancelRow} activeOpacity={0.6}>
             <Text style={styles.cancelText}>Cancel</Text>
           </TouchableOpacity>
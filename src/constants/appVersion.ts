@@ -2,4 +2,4 @@
 // glance which build is on your PWA or APK. Deliberately separate from app.json
 // "version", which drives the EAS Update runtimeVersion and must stay stable or
 // OTA updates stop reaching installed builds.
-export const APP_VERSION = '1.8.7';
+export const APP_VERSION = '1.8.32';
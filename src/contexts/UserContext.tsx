@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { AccountInfo, AdjustmentRecord, dataStorage, ExtendedGoalData, MealEntry, StreakFreezeData, isPremiumEntitled } from '../services/dataStorage';
 import { checkMissedDaysAndFreeze } from '../utils/streakLogic';
-import { subscribeMealsForUser, unsubscribeMeals } from '../services/realtimeMealsService';
+import { onRealtimeChange, RealtimeEntity, subscribeRealtimeForUser, unsubscribeRealtime } from '../services/realtimeSyncService';
 import { supabaseDataService } from '../services/supabaseDataService';
 import { authService } from '../services/authService';
 import { smartReminderService } from '../services/smartReminderService';
@@ -227,30 +227,39 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
         };
     }, [loadAllData]);
 
-    // Realtime: when another device upserts/deletes a meal for this user, drop the
-    // cache and pull fresh. Self-fired writes also fire here — that's fine, the local
-    // copy is already correct and the re-fetch just reconciles whatever is stored.
-    // Debounce slightly because realtime can deliver bursts (e.g. batch insert).
+    // Realtime: when another device writes a meal, weigh-in or goal for this user,
+    // re-read it into state. Self-fired writes also fire here — that's fine, the
+    // local copy is already correct and the re-read just reconciles whatever is
+    // stored. Debounce slightly because realtime can deliver bursts (e.g. batch
+    // insert), and collect which entities changed during the wait.
     const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const pendingReloads = useRef<Set<RealtimeEntity>>(new Set());
     useEffect(() => {
         let cancelled = false;
-        const onChange = () => {
+        const unlisten = onRealtimeChange((entity) => {
+            pendingReloads.current.add(entity);
             if (reloadTimer.current) clearTimeout(reloadTimer.current);
             reloadTimer.current = setTimeout(async () => {
+                const changed = pendingReloads.current;
+                pendingReloads.current = new Set();
                 try {
-                    const fresh = await dataStorage.loadMeals();
-                    setMeals(fresh);
+                    if (changed.has('meals')) setMeals(await dataStorage.loadMeals());
+                    if (changed.has('weights')) setWeightEntries(await dataStorage.loadWeightEntries());
+                    if (changed.has('goals')) {
+                        const fresh = await dataStorage.loadGoals();
+                        if (fresh) setGoals(fresh);
+                    }
                     setLastRefresh(Date.now());
                 } catch (e) {
                     if (__DEV__) console.error('UserContext: realtime reload failed', e);
                 }
             }, 400);
-        };
+        });
 
         (async () => {
-            // food_logs.user_id holds the app_users row id, not the auth uid, so the
-            // realtime filter must use appUserId. If it is not cached yet, resolve
-            // it from the email so realtime still works on this device.
+            // The kcal tables key user_id on the app_users row id, not the auth uid,
+            // so the realtime filter must use appUserId. If it is not cached yet,
+            // resolve it from the email so realtime still works on this device.
             let appUserId = accountInfo?.appUserId;
             if (!appUserId && accountInfo?.email) {
                 try {
@@ -259,14 +268,16 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 } catch { /* best effort */ }
             }
             if (cancelled) return;
-            if (!appUserId) { unsubscribeMeals(); return; }
-            subscribeMealsForUser(appUserId, onChange);
+            if (!appUserId) { unsubscribeRealtime(); return; }
+            subscribeRealtimeForUser(appUserId);
         })();
 
         return () => {
             cancelled = true;
+            unlisten();
             if (reloadTimer.current) clearTimeout(reloadTimer.current);
-            unsubscribeMeals();
+            pendingReloads.current.clear();
+            unsubscribeRealtime();
         };
     }, [accountInfo?.appUserId, accountInfo?.email]);
 
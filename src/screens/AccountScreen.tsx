@@ -16,7 +16,6 @@ import {
   KeyboardAvoidingView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Feather } from '@expo/vector-icons';
 import { Session } from '@supabase/supabase-js';
 import * as Clipboard from 'expo-clipboard';
@@ -412,7 +411,7 @@ export const AccountScreen: React.FC<AccountScreenProps> = ({
         style: 'destructive',
         onPress: async () => {
           await authService.signOut();
-          await AsyncStorage.clear();
+          await dataStorage.clearAllData();
           // Reset state
           setAuthSession(null);
           setAccountInfo(null);
@@ -608,7 +607,7 @@ export const AccountScreen: React.FC<AccountScreenProps> = ({
                       try {
                         await authService.signOut();
                       } catch (_) {}
-                      await AsyncStorage.clear();
+                      await dataStorage.clearAllData();
                       setAuthSession(null);
                       setAccountInfo(null);
                       setEmailInput('');
@@ -736,7 +735,7 @@ export const AccountScreen: React.FC<AccountScreenProps> = ({
                 onPress: async () => {
                   try {
                     await authService.deleteAccount();
-                    await AsyncStorage.clear();
+                    await dataStorage.clearAllData();
                     setAuthSession(null);
                     setAccountInfo(null);
                     setEntryCount(0);
@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { dataStorage, DeadLetter } from '../services/dataStorage';
+
+interface FailedSyncsScreenProps {
+  onBack: () => void;
+}
+
+// What the op would have done, in words. Falls back to the entity name for the
+// bookkeeping ops nobody needs a sentence about.
+const describeOp = ({ op }: DeadLetter): string => {
+  switch (op.entity) {
+    case 'meal':
+      if (op.action === 'upsert') return `Save meal: ${op.payload.meal.prompt}`;
+      return op.action === 'restore' ? 'Restore a deleted meal' : 'Delete a meal';
+    case 'weight':
+      return op.action === 'upsert'
+        ? `Save weigh-in: ${op.payload.weight.toFixed(1)} kg on ${op.payload.date.slice(0, 10)}`
+        : 'Delete a weigh-in';
+    case 'exercise':
+      if (op.action === 'upsert') return `Save ${op.payload.length} exercise ${op.payload.length === 1 ? 'entry' : 'entries'}`;
+      return `${op.action === 'restore' ? 'Restore' : 'Delete'} ${op.payload.ids.length} exercise ${op.payload.ids.length === 1 ? 'entry' : 'entries'}`;
+    case 'water':
+      return `Save water: ${op.payload.ml} ml on ${op.payload.date}`;
+    case 'goals':
+      return `Save goals: ${Math.round(op.payload.calories)} kcal a day`;
+    case 'preferences':
+      return 'Save preferences';
+    case 'saved_prompt':
+      return op.action === 'upsert' ? `Save prompt: ${op.payload.text}` : 'Delete a saved prompt';
+    default:
+      return `${op.entity.replace(/_/g, ' ')} (${op.action})`;
+  }
+};
+
+export const FailedSyncsScreen: React.FC<FailedSyncsScreenProps> = ({ onBack }) => {
+  const [letters, setLetters] = useState<DeadLetter[] | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const reload = useCallback(() => {
+    dataStorage.loadDeadLetters().then(setLetters).catch(() => setLetters([]));
+  }, []);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  const handleRetryAll = async () => {
+    setIsRetrying(true);
+    try {
+      await dataStorage.retryAllDeadLetters();
+    } catch (error) {
+      console.error('Retrying failed syncs failed', error);
+    } finally {
+      setIsRetrying(false);
+      reload();
+    }
+  };
+
+  const handleDiscard = (letter: DeadLetter) => {
+    Alert.alert(
+      'Discard this change?',
+      `${describeOp(letter)}\n\nIt stays on this device but will never reach your other devices.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            await dataStorage.discardDeadLetter(letter.id);
+            reload();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: Acid.moss }]} edges={['top', 'bottom']}>
+      <View style={[styles.header, { borderBottomColor: Acid.hair }]}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color={Acid.tx} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: Acid.tx }]}>Failed Syncs</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={[styles.description, { color: Acid.tx2 }]}>
+          These changes are saved on this device but failed to reach the cloud after several tries. Retry them once you are back online, or discard the ones you no longer need.
+        </Text>
+
+        {letters === null && <ActivityIndicator color={Acid.lime} />}
+
+        {letters?.length === 0 && (
+          <Text style={[styles.empty, { color: Acid.tx3 }]}>Nothing waiting. Everything has synced.</Text>
+        )}
+
+        {letters && letters.length > 0 && (
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: Acid.lime }]}
+            onPress={handleRetryAll}
+            disabled={isRetrying}
+          >
+            {isRetrying ? (
+              <ActivityIndicator color={Acid.moss} size="small" />
+            ) : (
+              <>
+                <Feather name="refresh-cw" size={18} color={Acid.moss} />
+                <Text style={[styles.retryButtonText, { color: Acid.moss }]}>Retry All ({letters.length})</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {letters?.map((letter) => (
+          <View key={letter.id} style={[styles.card, { backgroundColor: Acid.mossDeep, borderColor: Acid.hair }]}>
+            <View style={styles.cardRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.cardTitle, { color: Acid.tx }]} numberOfLines={2}>{describeOp(letter)}</Text>
+                <Text style={[styles.cardMeta, { color: Acid.tx3 }]}>
+                  Gave up {format(parseISO(letter.failedAt), "MMM d 'at' h:mm a")} after {letter.attempts} tries
+                </Text>
+                <Text style={[styles.cardError, { color: Acid.error }]} numberOfLines={3}>{letter.error}</Text>
+              </View>
+              <TouchableOpacity onPress={() => handleDiscard(letter)} style={styles.discardButton}>
+                <Feather name="x" size={18} color={Acid.tx2} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: { padding: 8 },
+  headerTitle: { fontSize: Typography.fontSize.xl, fontWeight: Typography.fontWeight.semiBold },
+  headerRight: { width: 40 },
+  content: { padding: 16 },
+  description: { fontSize: Typography.fontSize.md, marginBottom: 24, lineHeight: 22 },
+  empty: { fontSize: Typography.fontSize.md, textAlign: 'center', marginTop: 24 },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  retryButtonText: { fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardRow: { flexDirection: 'row', alignItems: 'flex-start', gap: 12 },
+  cardTitle: { fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold, marginBottom: 4 },
+  cardMeta: { fontSize: Typography.fontSize.sm, marginBottom: 6 },
+  cardError: { fontSize: Typography.fontSize.sm, lineHeight: 18 },
+  discardButton: { padding: 4 },
+});
@@ -15,7 +15,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
-import { format, isSameDay, subDays, addDays } from 'date-fns';
+import { format, isSameDay, subDays, addDays, parseISO } from 'date-fns';
 import { TopNavigationBar } from '../components/TopNavigationBar';
 import { CalendarModal } from '../components/CalendarModal';
 import { StatCardsSection } from '../components/StatCardsSection';
@@ -34,7 +34,7 @@ import { Colors } from '../constants/colors';
 import { Typography } from '../constants/typography';
 import { MacroData } from '../types';
 import { FoodLogSection } from '../components/FoodLogSection';
-import { MealEntry as Meal, dataStorage, ExtendedGoalData, SavedPrompt, AccountInfo, StreakFreezeData, AdjustmentRecord, DailySummary, isPremiumEntitled, trialStateFor } from '../services/dataStorage';
+import { MealEntry as Meal, MealSlot, dataStorage, ExtendedGoalData, SavedPrompt, MealTemplate, MAX_MEAL_TEMPLATES, AccountInfo, StreakFreezeData, AdjustmentRecord, DailySummary, isPremiumEntitled, trialStateFor } from '../services/dataStorage';
 import { ExerciseLogSection, ExerciseEntry } from '../components/ExerciseLogSection';
 import { CalorieBankCard } from '../components/CalorieBankCard';
 import { CalorieBankWeeklyCard } from '../components/CalorieBankWeeklyCard';
@@ -45,10 +45,16 @@ import { checkAndResetCycle } from '../services/calorieBankService';
 import { InsightUnlocks, InsightDefinition, InsightStats, InsightId, getUnlockedInsightIds, getNewlyUnlockedInsights, getFirstUnseenUnlock } from '../utils/insightUnlockEngine';
 import { InsightUnlockCard } from '../components/InsightUnlockCard';
 import { PhotoOptionsModal } from '../components/PhotoOptionsModal';
+import { BarcodeScannerModal } from '../components/BarcodeScannerModal';
+import { NutritionLabelModal } from '../components/NutritionLabelModal';
 import { PhotoAnalyzingOverlay } from '../components/PhotoAnalyzingOverlay';
 import { AccountWallModal } from '../components/AccountWallModal';
 import { calculateTotalNutrition, ParsedFood } from '../utils/foodNutrition';
+import { mealTotals, reviseMeal, revertMeal } from '../utils/mealRevisions';
+import { TransferSlot, copyDayTo, copyMealTo, insertByTime, moveMealTo } from '../utils/mealTransfer';
+import { ClockSlot } from '../utils/mealSlots';
 import { analyzeFoodWithChatGPT, readFoodPhoto, analyzePhotoReading, updateFoodCache } from '../services/openaiService';
+import { isAIUnreachable } from '../services/aiProxyService';
 import type { VisionReading } from '../services/openaiService';
 import { authService } from '../services/authService';
 import { ParsedExercise, calculateExerciseCalories, parseExerciseInput } from '../utils/exerciseParser';
@@ -85,6 +91,8 @@ import { patternDetectionService } from '../services/patternDetectionService';
 import { smartReminderService } from '../services/smartReminderService';
 import { DetectedPattern, LiftsDay, LiftsSupplement, sumSupplements } from '../services/dataStorage';
 import { useUser } from '../contexts/UserContext';
+import { onRealtimeChange, RealtimeEntity } from '../services/realtimeSyncService';
+import { analysisQueue, AnalysisOutcome, QueuedAnalysis } from '../services/analysisQueueService';
 
 export const HomeScreen: React.FC = () => {
   // accountInfo is sourced from UserContext (the single source of truth).
@@ -144,6 +152,8 @@ export const HomeScreen: React.FC = () => {
   const [summariesByDate, setSummariesByDate] = useState<Record<string, DailySummary>>({});
   const [exercisesByDate, setExercisesByDate] = useState<Record<string, ExerciseEntry[]>>({});
   const [photoModalVisible, setPhotoModalVisible] = useState(false);
+  const [barcodeScannerVisible, setBarcodeScannerVisible] = useState(false);
+  const [labelPhotoUri, setLabelPhotoUri] = useState<string | null>(null);
   const [isListening, setIsListening] = useState(false);
   const [transcribedText, setTranscribedText] = useState('');
   // Decided once, at render time, without touching permissions. False on a
@@ -167,7 +177,7 @@ export const HomeScreen: React.FC = () => {
   // the overlay stays and keeps her words.
   const [photoDone, setPhotoDone] = useState(false);
   const isOpeningCameraRef = React.useRef(false);
-  const pendingActionRef = React.useRef<'camera' | 'library' | null>(null);
+  const pendingActionRef = React.useRef<'camera' | 'library' | 'barcode' | 'label' | null>(null);
   const [goalsSet, setGoalsSet] = useState(false);
   // Shimmer the calorie card until goals hydrate, so the default never flashes
   // to the real number on cold open. Capped so it can never hang if goals are
@@ -175,6 +185,7 @@ export const HomeScreen: React.FC = () => {
   const [statsShimmerTimedOut, setStatsShimmerTimedOut] = useState(false);
   const [shouldFocusInput, setShouldFocusInput] = useState(false);
   const [savedPrompts, setSavedPrompts] = useState<SavedPrompt[]>([]);
+  const [mealTemplates, setMealTemplates] = useState<MealTemplate[]>([]);
   // accountInfo now comes from UserContext above. Keeping this line removed.
 
   // Per-action navigation guard. Each action key has its own 500ms cooldown, so
@@ -255,6 +266,22 @@ export const HomeScreen: React.FC = () => {
   // Get meals for current selected date
   const currentDateKey = getDateKey(selectedDate);
   const currentDayMeals = mealsByDate[currentDateKey] || [];
+  // Meals still waiting for the food AI. They are shown in the log but never
+  // enter mealsByDate, so the persist effect cannot save an empty meal
+  const [queuedAnalyses, setQueuedAnalyses] = useState<QueuedAnalysis[]>([]);
+  // 'running' jobs are live analyses already on screen as their skeleton row
+  const currentDayQueued: Meal[] = queuedAnalyses
+    .filter(j => j.dateKey === currentDateKey && j.state !== 'running')
+    .map(j => ({
+      id: j.id,
+      prompt: j.prompt,
+      summary: j.prompt,
+      foods: [],
+      timestamp: j.timestamp,
+      imageUri: j.imageUri,
+      isLoading: true,
+      loadingState: j.state === 'failed' ? 'failed' as const : 'queued' as const,
+    }));
   const currentDayExercises = exercisesByDate[currentDateKey] || [];
 
   // Calculate all foods from current day's meals for nutrition totals
@@ -901,6 +928,7 @@ export const HomeScreen: React.FC = () => {
   // Entry limit persistence
   const ENTRY_COUNT_KEY = '@trackkal:entryCount';
   const MAX_SAVED_PROMPTS = 6;
+  const MAX_QUICK_TEMPLATES = 4;
 
   const normalizePromptText = (value: string) => value.trim().toLowerCase();
   const createSavedPrompt = (text: string): SavedPrompt => {
@@ -989,10 +1017,9 @@ export const HomeScreen: React.FC = () => {
     let cachedSuppDates: string[] = [];
 
     try {
-      // Cheap no-ops in steady state; must precede the summaries read on the
-      // first launch after a legacy install.
-      await dataStorage.migrateLegacyMealsToShards();
-      await dataStorage.migrateMealsToSummaries();
+      // A version check in steady state; must precede the summaries read on
+      // the first launch after a legacy install.
+      await dataStorage.runLocalMigrations();
 
       const startKey = getDateKey(selectedDate);
       const [plan, goalsData, summaries, exercises, todaysMeals, entryStored, prefs, patterns, bankConfig, liftsCached, suppsCached] = await Promise.all([
@@ -1154,6 +1181,7 @@ export const HomeScreen: React.FC = () => {
         if (storedPrompts.length > 0) {
           setSavedPrompts(storedPrompts.slice(0, MAX_SAVED_PROMPTS));
         }
+        setMealTemplates(await dataStorage.loadMealTemplates());
 
         // Device info is telemetry with a cloud write inside; never worth
         // waiting for. Fire and forget.
@@ -1359,6 +1387,8 @@ export const HomeScreen: React.FC = () => {
         if (summaries) {
           setSummariesByDate(summaries);
         }
+        // Another device's water taps arrive through the derived-state pull
+        dataStorage.loadWaterLog().then(setWaterByDate).catch(() => {});
 
         // Re-schedule smart reminders on foreground
         smartReminderService.scheduleAllReminders()
@@ -1401,6 +1431,45 @@ export const HomeScreen: React.FC = () => {
     };
   }, []);
 
+  // Another device changed something this screen holds outside UserContext.
+  // Re-read just that, batched over a short window since realtime can deliver
+  // bursts. Meals are left to the day loaders: replacing the day here could
+  // drop an optimistic row that is still being analysed.
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let pending = new Set<RealtimeEntity>();
+    const unlisten = onRealtimeChange((entity) => {
+      pending.add(entity);
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(async () => {
+        const changed = pending;
+        pending = new Set();
+        try {
+          if (changed.has('exercises')) setExercisesByDate(await dataStorage.loadExercises());
+          if (changed.has('water')) setWaterByDate(await dataStorage.loadWaterLog());
+          if (changed.has('goals')) {
+            const goals = await dataStorage.loadGoals();
+            if (goals) {
+              setSavedGoals(goals);
+              setDailyCalories(goals.calories);
+              setGoalsSet(true);
+            }
+          }
+          if (changed.has('preferences')) {
+            const prefs = await dataStorage.loadPreferences();
+            setSmartSuggestEnabled(prefs?.smartSuggestEnabled === true);
+          }
+        } catch (e) {
+          if (__DEV__) console.error('Realtime refresh failed:', e);
+        }
+      }, 400);
+    });
+    return () => {
+      unlisten();
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
   // Handle Android hardware back button to navigate within the app instead of exiting
   useEffect(() => {
     const onBackPress = () => {
@@ -1536,15 +1605,16 @@ export const HomeScreen: React.FC = () => {
     };
   }, [handleNotificationResponse]);
 
-  const incrementEntryCount = async () => {
-    const next = entryCount + 1;
+  // by: meals logged in one go, like a copied day
+  const incrementEntryCount = async (by = 1) => {
+    const next = entryCount + by;
     setEntryCount(next);
     try {
       await AsyncStorage.setItem(ENTRY_COUNT_KEY, String(next));
       await dataStorage.saveEntryCount(next);
       // Nudge accountless users toward signup, but only every 5th log (5, 10,
       // 15...) so dismissing it does not mean it pops on every single meal.
-      if (next >= 5 && next % 5 === 0 && !accountInfo?.email) {
+      if (next >= 5 && Math.floor(next / 5) > Math.floor(entryCount / 5) && !accountInfo?.email) {
         setTimeout(() => setShowAccountWall(true), 800);
       }
     } catch (error) {
@@ -1687,6 +1757,17 @@ export const HomeScreen: React.FC = () => {
       // Use ChatGPT for real-time food analysis
       let parsedFoods: ParsedFood[] = [];
       let summary: string | undefined;
+      let mealSlot: ClockSlot | undefined;
+
+      // If the app dies during the call, the next launch finds this and
+      // analyses it then
+      await analysisQueue.journal({
+        id: pendingId,
+        dateKey: currentDateKey,
+        kind: 'text',
+        prompt: trimmed,
+        timestamp: createdAt,
+      }).catch(() => {});
 
       try {
         const analysisResult = await analyzeFoodWithChatGPT(trimmed);
@@ -1706,22 +1787,23 @@ export const HomeScreen: React.FC = () => {
           return;
         }
 
-        // The call never landed. Say so, and keep her words in the box so
-        // nothing she typed is lost to our downtime
+        // The call never landed. Keep her words as a waiting row and analyse
+        // them once the connection is back, rather than making her retype
         if (analysisResult.aiUnavailable) {
+          await analysisQueue.enqueue({
+            id: pendingId,
+            dateKey: currentDateKey,
+            kind: 'text',
+            prompt: trimmed,
+            timestamp: createdAt,
+          });
           removePendingMeal(currentDateKey, pendingId);
-          setTranscribedText(trimmed);
-          setShouldFocusInput(true);
-          Alert.alert(
-            'Could not reach the food AI',
-            'Your meal is still in the box. Check your connection and try again in a moment.',
-            [{ text: 'OK' }]
-          );
           return;
         }
 
         parsedFoods = analysisResult.foods;
         summary = analysisResult.summary;
+        mealSlot = analysisResult.mealSlot;
 
       } catch (apiError: any) {
         if (apiError?.message === 'OPENAI_API_KEY_NOT_CONFIGURED') {
@@ -1741,6 +1823,9 @@ export const HomeScreen: React.FC = () => {
       }
 
       if (parsedFoods.length > 0) {
+        // The AI answered, so anything waiting offline can go now
+        analysisQueue.wake();
+
         // SUCCESS: Update Pending Meal
         const finalizedMeal: Meal = {
           ...pendingMeal,
@@ -1748,6 +1833,7 @@ export const HomeScreen: React.FC = () => {
           // as a permanent title is worse than just showing what she typed
           summary: summary || trimmed,
           foods: parsedFoods,
+          mealSlot,
           isLoading: false,
           loadingState: 'done'
         };
@@ -1836,27 +1922,36 @@ export const HomeScreen: React.FC = () => {
         'Something went wrong while processing your log. Please try again.',
         [{ text: 'OK' }]
       );
+    } finally {
+      analysisQueue.settle(pendingId);
     }
-    // Finally removed since we handled cleanup in individual paths
+  };
+
+  // The newest revision on a meal reviseMeal just returned
+  const trackRevision = (meal: Meal) => {
+    const r = meal.revisions?.[meal.revisions.length - 1];
+    if (r) analyticsService.trackMealRevision(r.change, r.source, r.beforeTotals, r.afterTotals);
   };
 
   const handleRemoveFood = (foodId: string) => {
     analyticsService.trackFoodItemRemoval();
+    const meal = (mealsByDate[currentDateKey] || []).find(m => m.foods.some(food => food.id === foodId));
+    if (!meal) return;
+    const removed = meal.foods.find(food => food.id === foodId)!;
+    const filteredFoods = meal.foods.filter(food => food.id !== foodId);
+    // Taking the last food away removes the meal, and its revisions with it, so
+    // there is nothing left to revert. It goes to the bin as it stood, food and
+    // history included, the same way a deleted meal does
+    if (filteredFoods.length === 0 && !meal.isLoading) {
+      dataStorage.moveToTrash({ kind: 'meal', dateKey: currentDateKey, meal });
+    }
+    const revised = reviseMeal(meal, { foods: filteredFoods }, 'food_removed', 'user', removed.name);
+    trackRevision(revised);
     setMealsByDate(prev => {
       const currentMeals = prev[currentDateKey] || [];
       const updatedMeals = currentMeals
-        .map(meal => {
-          if (!meal.foods.some(food => food.id === foodId)) {
-            return meal;
-          }
-          const filteredFoods = meal.foods.filter(food => food.id !== foodId);
-          return {
-            ...meal,
-            foods: filteredFoods,
-            updatedAt: new Date().toISOString(),
-          };
-        })
-        .filter(meal => meal.foods.length > 0); // Remove meals with no foods
+        .map(m => (m.id === revised.id ? revised : m))
+        .filter(m => m.foods.length > 0); // Remove meals with no foods
 
       return {
         ...prev,
@@ -1869,12 +1964,14 @@ export const HomeScreen: React.FC = () => {
   // someone out of fixing their third meal of the day is a worse product than
   // the handful of extra calls it costs.
   const handleEditMealPrompt = async (mealId: string, newPrompt: string) => {
+    const original = (mealsByDate[currentDateKey] || []).find(m => m.id === mealId);
     // The row being edited carries its own pending state. A full screen blocker
     // for a change to one line was heavier than the change
     setMealPending(currentDateKey, mealId, true);
     try {
       let parsedFoods;
       let newSummary: string | undefined;
+      let newSlot: ClockSlot | undefined;
       try {
         const analysisResult = await analyzeFoodWithChatGPT(newPrompt);
         if (analysisResult.clarificationQuestion) {
@@ -1897,6 +1994,7 @@ export const HomeScreen: React.FC = () => {
         }
         parsedFoods = analysisResult.foods;
         newSummary = analysisResult.summary;
+        newSlot = analysisResult.mealSlot;
       } catch (apiError: any) {
         if (apiError?.message === 'OPENAI_API_KEY_NOT_CONFIGURED') {
           Alert.alert(
@@ -1924,12 +2022,16 @@ export const HomeScreen: React.FC = () => {
         currentMeals.map(meal =>
           meal.id === mealId
             ? {
-              ...meal,
-              prompt: newPrompt,
-              // The old summary described the old meal. Keeping it left the
-              // entry wearing the name of food she had just replaced
-              summary: newSummary || newPrompt,
-              foods: parsedFoods,
+              ...reviseMeal(meal, {
+                prompt: newPrompt,
+                // The old summary described the old meal. Keeping it left the
+                // entry wearing the name of food they had just replaced
+                summary: newSummary || newPrompt,
+                foods: parsedFoods,
+              }, 'prompt', 'ai'),
+              // A prompt that names the meal says which one it was now; one
+              // that does not leaves whatever was set before
+              ...(newSlot ? { mealSlot: newSlot, mealSlotLabel: undefined } : {}),
               isLoading: false,
               loadingState: 'done' as const,
               updatedAt: new Date().toISOString(),
@@ -1937,6 +2039,9 @@ export const HomeScreen: React.FC = () => {
             : meal
         )
       );
+      if (original) {
+        analyticsService.trackMealRevision('prompt', 'ai', mealTotals(original.foods), mealTotals(parsedFoods));
+      }
 
       // Count this edit as an entry only after successful update
       await incrementEntryCount();
@@ -1955,16 +2060,94 @@ export const HomeScreen: React.FC = () => {
     }
   };
 
+  // Goes through commitMealChange like a prompt edit, so a revert lands on the
+  // right day even if it is tapped just as the day changes
+  const handleRevertMeal = async (mealId: string, revisionId: string) => {
+    const meal = (mealsByDate[currentDateKey] || []).find(m => m.id === mealId);
+    const reverted = meal ? revertMeal(meal, revisionId) : null;
+    if (!reverted) return;
+    trackRevision(reverted);
+    await commitMealChange(currentDateKey, (currentMeals) =>
+      currentMeals.map(m => (m.id === mealId ? revertMeal(m, revisionId) ?? m : m))
+    );
+  };
+
+  // Naming the meal changes nothing it contains, so there is no revision; null
+  // hands it back to the clock
+  const handleSetMealSlot = async (mealId: string, slot: MealSlot | null, label?: string) => {
+    await commitMealChange(currentDateKey, (currentMeals) =>
+      currentMeals.map((m) => {
+        if (m.id !== mealId) return m;
+        const { mealSlot, mealSlotLabel, ...rest } = m;
+        return {
+          ...rest,
+          ...(slot ? { mealSlot: slot } : {}),
+          ...(slot === 'custom' && label ? { mealSlotLabel: label } : {}),
+          updatedAt: new Date().toISOString(),
+        };
+      })
+    );
+  };
+
+  // A queued meal the AI has now read. It lands the way a live one does, through
+  // commitMealChange, so it reaches its own day whichever day is on screen
+  const applyQueuedAnalysis = async (job: QueuedAnalysis, outcome: AnalysisOutcome) => {
+    const meal: Meal = {
+      id: job.id,
+      prompt: job.prompt,
+      summary: outcome.summary || job.prompt,
+      foods: outcome.foods,
+      mealSlot: outcome.mealSlot,
+      timestamp: job.timestamp,
+      imageUri: job.imageUri,
+      updatedAt: new Date().toISOString(),
+    };
+    await commitMealChange(job.dateKey, (list) =>
+      list.some(m => m.id === job.id) ? list.map(m => (m.id === job.id ? meal : m)) : [...list, meal]
+    );
+    await incrementEntryCount();
+    await analyticsService.trackMealLogged(parseISO(job.dateKey));
+  };
+
+  // The worker outlives renders; the ref hands it the current closure
+  const applyQueuedRef = useRef(applyQueuedAnalysis);
+  applyQueuedRef.current = applyQueuedAnalysis;
+  useEffect(() => {
+    const unsubscribe = analysisQueue.subscribe(setQueuedAnalyses);
+    const stop = analysisQueue.start((job, outcome) => applyQueuedRef.current(job, outcome));
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, []);
+
   const handleDeleteMeal = (mealId: string) => {
+    // Never analysed, so never saved: there is nothing for the bin to keep
+    if (queuedAnalyses.some(j => j.id === mealId)) {
+      Alert.alert(
+        'Delete Prompt',
+        'This meal has not been analyzed yet. Delete it?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Delete', style: 'destructive', onPress: () => { analysisQueue.remove(mealId); } },
+        ]
+      );
+      return;
+    }
     Alert.alert(
       'Delete Prompt',
-      'Are you sure you want to delete this prompt and its foods?',
+      'Delete this prompt and its foods? You can restore it from Settings > Recycle Bin for 30 days.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
           onPress: () => {
+            const meal = (mealsByDate[currentDateKey] || []).find(m => m.id === mealId);
+            // A skeleton still analyzing was never saved, so there is nothing to restore
+            if (meal && !meal.isLoading) {
+              dataStorage.moveToTrash({ kind: 'meal', dateKey: currentDateKey, meal });
+            }
             setMealsByDate(prev => {
               const currentMeals = prev[currentDateKey] || [];
               const updatedMeals = currentMeals.filter(meal => meal.id !== mealId);
@@ -1982,13 +2165,15 @@ export const HomeScreen: React.FC = () => {
   const handleDeleteExerciseEntry = (entryId: string) => {
     Alert.alert(
       'Delete Exercise Log',
-      'Remove this exercise entry?',
+      'Remove this exercise entry? You can restore it from Settings > Recycle Bin for 30 days.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
           onPress: () => {
+            const entry = (exercisesByDate[currentDateKey] || []).find((e) => e.id === entryId);
+            if (entry) dataStorage.moveToTrash({ kind: 'exercise', dateKey: currentDateKey, entry });
             setExercisesByDate((prev) => {
               const currentEntries = prev[currentDateKey] || [];
               const updatedEntries = currentEntries.filter((entry) => entry.id !== entryId);
@@ -2041,6 +2226,145 @@ export const HomeScreen: React.FC = () => {
     await analyticsService.trackSavedPromptAdded();
   };
 
+  // A template is matched to a meal by name, the same way a saved prompt is
+  // matched by its text
+  const handleToggleTemplate = async (meal: Meal) => {
+    const name = (meal.summary || meal.prompt)?.trim();
+    if (!name || meal.foods.length === 0) return;
+
+    const existing = mealTemplates.find(t => normalizePromptText(t.name) === normalizePromptText(name));
+    if (existing) {
+      setMealTemplates(prev => prev.filter(t => t.id !== existing.id));
+      await dataStorage.removeMealTemplate(existing.id);
+      return;
+    }
+
+    const saveTemplate = async (replacing?: MealTemplate) => {
+      if (replacing) await dataStorage.removeMealTemplate(replacing.id);
+      const timestamp = new Date().toISOString();
+      await dataStorage.saveMealTemplate({
+        id: generateId(),
+        name,
+        foods: meal.foods,
+        useCount: 0,
+        lastUsedAt: null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+      setMealTemplates(await dataStorage.loadLocalMealTemplates());
+    };
+
+    // Full. Making room deletes a template on every device, so it is asked
+    // for, never done silently
+    const current = await dataStorage.loadLocalMealTemplates();
+    if (current.length >= MAX_MEAL_TEMPLATES) {
+      const leastUsed = current[current.length - 1];
+      Alert.alert(
+        'Templates are full',
+        `You can keep ${MAX_MEAL_TEMPLATES}. Saving this one deletes "${leastUsed.name}", your least used, on all your devices.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Replace it', style: 'destructive', onPress: () => { void saveTemplate(leastUsed); } },
+        ]
+      );
+      return;
+    }
+    await saveTemplate();
+  };
+
+  // One tap, no analysis: the stored foods are the meal
+  const handleLogTemplate = async (template: { id: string }) => {
+    if (!canAddEntry()) {
+      showDailyLimitAlert();
+      return;
+    }
+    const used = (await dataStorage.loadLocalMealTemplates()).find(t => t.id === template.id);
+    if (!used) return;
+    if (entryCount === 0) {
+      setShowFirstLogMessage(true);
+    }
+    const meal: Meal = {
+      id: generateId(),
+      prompt: used.name,
+      summary: used.name,
+      foods: used.foods.map(f => ({ ...f, id: generateId() })),
+      timestamp: Date.now(),
+      updatedAt: new Date().toISOString(),
+    };
+    await commitMealChange(currentDateKey, (list) => [...list, meal]);
+    // Recording the use waits on the cloud upsert, and a one tap log must not.
+    // The chips reorder when it settles
+    dataStorage.recordMealTemplateUse(used.id)
+      .then(() => dataStorage.loadLocalMealTemplates())
+      .then(setMealTemplates)
+      .catch(() => {});
+    await incrementEntryCount();
+    await analyticsService.trackMealLogged(selectedDate);
+  };
+
+  // Copying or moving meals in must not get a free user past a day's limit.
+  // Days off screen are counted from storage, not from state
+  const hasRoomOn = async (dateKey: string, adding: number) => {
+    if (isPremium) return true;
+    const logged = dateKey === currentDateKey
+      ? mealsLoggedOn(dateKey)
+      : (await dataStorage.getDailyLog(dateKey)).length;
+    return logged + adding <= FREE_MEALS_PER_DAY;
+  };
+
+  // A move lands on the other day before it leaves this one, so a failure in
+  // between leaves a duplicate, never a lost meal. Each save rebuilds its day's
+  // summary, which is what the streak and the charts read
+  const handleTransferMeal = async (mealId: string, mode: 'copy' | 'move', dateKey: string, slot: TransferSlot) => {
+    const meal = (mealsByDate[currentDateKey] || []).find(m => m.id === mealId);
+    if (!meal || meal.isLoading) return;
+    const sameDay = dateKey === currentDateKey;
+    if (!(mode === 'move' && sameDay) && !(await hasRoomOn(dateKey, 1))) {
+      showDailyLimitAlert();
+      return;
+    }
+
+    if (mode === 'copy') {
+      await commitMealChange(dateKey, (list) => insertByTime(list, copyMealTo(meal, dateKey, slot)));
+      await incrementEntryCount();
+      await analyticsService.trackMealLogged(parseISO(dateKey));
+      return;
+    }
+    const moved = moveMealTo(meal, currentDateKey, dateKey, slot);
+    if (sameDay) {
+      await commitMealChange(dateKey, (list) => insertByTime(list.filter(m => m.id !== mealId), moved));
+      return;
+    }
+    await commitMealChange(dateKey, (list) => insertByTime(list, moved));
+    await commitMealChange(currentDateKey, (list) => list.filter(m => m.id !== mealId));
+  };
+
+  const handleCopyDayToToday = () => {
+    const todayKey = getDateKey(new Date());
+    const copies = copyDayTo(mealsByDate[currentDateKey] || [], todayKey);
+    if (copies.length === 0) return;
+    Alert.alert(
+      'Copy this day to today?',
+      `${copies.length} ${copies.length === 1 ? 'meal' : 'meals'} will be logged today at the same times, with the same numbers.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Copy',
+          onPress: async () => {
+            if (!(await hasRoomOn(todayKey, copies.length))) {
+              showDailyLimitAlert();
+              return;
+            }
+            await commitMealChange(todayKey, (list) => copies.reduce(insertByTime, list));
+            await incrementEntryCount(copies.length);
+            for (let i = 0; i < copies.length; i++) await analyticsService.trackMealLogged(new Date());
+            setSelectedDate(new Date());
+          },
+        },
+      ]
+    );
+  };
+
   const handleSelectSavedPrompt = async (prompt: { text: string }) => {
     setTranscribedText(prompt.text);
     setShouldFocusInput(true);
@@ -2112,6 +2436,41 @@ export const HomeScreen: React.FC = () => {
     setPhotoModalVisible(false);
   };
 
+  const handleScanBarcode = () => {
+    if (isOpeningCameraRef.current || pendingActionRef.current) return;
+    pendingActionRef.current = 'barcode';
+    setPhotoModalVisible(false);
+  };
+
+  const handleReadLabel = () => {
+    if (isOpeningCameraRef.current || pendingActionRef.current) return;
+    pendingActionRef.current = 'label';
+    setPhotoModalVisible(false);
+  };
+
+  // A scanned or photographed label is already the answer, so there is nothing
+  // to analyze: it lands as a finished meal straight away
+  const handleLabelLogged = async (food: ParsedFood) => {
+    if (!canAddEntry()) {
+      showDailyLimitAlert();
+      return;
+    }
+    if (entryCount === 0) {
+      setShowFirstLogMessage(true);
+    }
+    const meal: Meal = {
+      id: generateId(),
+      prompt: food.name,
+      summary: food.name,
+      foods: [food],
+      timestamp: Date.now(),
+      updatedAt: new Date().toISOString(),
+    };
+    await commitMealChange(currentDateKey, (list) => [...list, meal]);
+    await incrementEntryCount();
+    await analyticsService.trackMealLogged(selectedDate);
+  };
+
   // The photo lands in the log the instant it is picked, same as typing does.
   // There is no upload: the image never leaves the phone until the analysis call,
   // so the old progress bar was counting nothing.
@@ -2174,7 +2533,19 @@ export const HomeScreen: React.FC = () => {
     setAnalyzingPhoto(uriToAnalyze);
     setPhotoDone(false);
 
+    // Photos are the slowest to analyse and the worst to redo, so a kill
+    // mid-read must not lose this one. The journal keeps a copy of the file
+    await analysisQueue.journal({
+      id: pendingId,
+      dateKey,
+      kind: 'photo',
+      prompt: pendingMeal.prompt,
+      imageUri: uriToAnalyze,
+      timestamp: pendingMeal.timestamp,
+    }).catch(() => {});
+
     const done = () => {
+      analysisQueue.settle(pendingId);
       photoPendingId.current = null;
       photoReading.current = null;
       setPhotoRead(false);
@@ -2190,11 +2561,13 @@ export const HomeScreen: React.FC = () => {
       ]);
     };
 
+    let committed = false;
     try {
       if (__DEV__) console.log('Starting image analysis for URI:', uriToAnalyze);
 
       let parsedFoods: ParsedFood[] = [];
       let summary: string | undefined;
+      let mealSlot: ClockSlot | undefined;
 
       try {
         // The photo is only looked at once. A note re-runs the counting pass
@@ -2216,6 +2589,7 @@ export const HomeScreen: React.FC = () => {
         if (isStale()) return;
         parsedFoods = result.foods || [];
         summary = result.summary;
+        mealSlot = result.mealSlot;
 
       } catch (apiError: any) {
         if (isStale()) return;
@@ -2247,14 +2621,16 @@ export const HomeScreen: React.FC = () => {
         setShowFirstLogMessage(true);
       }
 
+      analysisQueue.wake();
+
       const finalizedMeal: Meal = {
         ...pendingMeal,
         summary: summary || (note?.trim() ? note.trim() : 'Photo'),
         foods: parsedFoods,
+        mealSlot,
         isLoading: false,
         loadingState: 'done',
       };
-      done();
 
       // Upsert for the same reason the text path does: a wholesale reload during
       // analysis drops the optimistic row, and a plain map would lose the meal.
@@ -2265,6 +2641,10 @@ export const HomeScreen: React.FC = () => {
           ? list.map(m => m.id === pendingId ? finalizedMeal : m)
           : [...list, finalizedMeal];
       });
+      committed = true;
+      // Only now: a kill before the meal is saved must leave the journal entry
+      // for the next launch to pick up
+      done();
 
       // Mirror the text path. The photo path used to skip this, so photo-only
       // users never advanced the entry counter: the account-wall nag never
@@ -2289,8 +2669,36 @@ export const HomeScreen: React.FC = () => {
       setUploadedImage(null);
     } catch (error) {
       if (__DEV__) console.error('Error analyzing image:', error);
-      if (isStale()) return;
-      failWith('Could not read the photo', 'The analysis did not come back. Check your connection and try again.');
+      // Once the meal is saved, a failed referral check is not a failed photo
+      if (isStale() || committed) return;
+      if (!isAIUnreachable(error)) {
+        const timedOut = error instanceof Error && /timeout|timed out/i.test(error.message);
+        failWith(
+          timedOut ? 'That took too long' : 'Could not read the photo',
+          timedOut
+            ? 'The photo analysis did not come back in time. Try again, or describe the meal instead.'
+            : 'Something went wrong reading that photo. Try again, or describe the meal instead.'
+        );
+        return;
+      }
+      // No signal. The photo waits in the log and is read when the connection
+      // is back. Queued before done() settles the journal, so the kept copy carries over
+      setAnalyzingPhoto(null);
+      setUploadedImage(null);
+      try {
+        await analysisQueue.enqueue({
+          id: pendingId,
+          dateKey,
+          kind: 'photo',
+          prompt: pendingMeal.prompt,
+          imageUri: uriToAnalyze,
+          timestamp: pendingMeal.timestamp,
+        });
+        removePendingMeal(dateKey, pendingId);
+        done();
+      } catch {
+        failWith('Could not read the photo', 'The analysis did not come back. Check your connection and try again.');
+      }
     }
   };
 
@@ -2312,6 +2720,10 @@ export const HomeScreen: React.FC = () => {
           openCameraAfterModalClose();
         } else if (action === 'library') {
           openLibraryAfterModalClose();
+        } else if (action === 'barcode') {
+          setBarcodeScannerVisible(true);
+        } else if (action === 'label') {
+          openCameraAfterModalClose(true);
         }
       }, 300);
     }
@@ -2331,6 +2743,10 @@ export const HomeScreen: React.FC = () => {
             openCameraAfterModalClose();
           } else if (action === 'library') {
             openLibraryAfterModalClose();
+          } else if (action === 'barcode') {
+            setBarcodeScannerVisible(true);
+          } else if (action === 'label') {
+            openCameraAfterModalClose(true);
           }
         }
       }, 800);
@@ -2339,7 +2755,9 @@ export const HomeScreen: React.FC = () => {
     }
   }, [photoModalVisible]);
 
-  const openCameraAfterModalClose = async () => {
+  // forLabel: the shot is of a nutrition panel, so it goes to the label reader
+  // rather than into the log as a meal photo
+  const openCameraAfterModalClose = async (forLabel = false) => {
     if (isOpeningCameraRef.current) return;
     isOpeningCameraRef.current = true;
 
@@ -2392,7 +2810,9 @@ export const HomeScreen: React.FC = () => {
       if (__DEV__) console.log('Camera result:', result);
       isOpeningCameraRef.current = false;
 
-      if (!result.canceled && result.assets && result.assets[0]) {
+      if (!result.canceled && result.assets && result.assets[0] && forLabel) {
+        setLabelPhotoUri(result.assets[0].uri);
+      } else if (!result.canceled && result.assets && result.assets[0]) {
         const asset = result.assets[0];
         setUploadedImage(asset.uri);
         // A new photo is a new reading. Without this the next shot would be
@@ -2990,13 +3410,21 @@ export const HomeScreen: React.FC = () => {
               </View>
             )}
             <FoodLogSection
-              meals={currentDayMeals}
+              meals={[...currentDayMeals, ...currentDayQueued]}
               dayLabel={isSameDay(selectedDate, new Date()) ? 'TODAY' : format(selectedDate, 'EEEE d').toUpperCase()}
+              dateKey={currentDateKey}
               onRemoveFood={handleRemoveFood}
               onEditMealPrompt={handleEditMealPrompt}
               savedPrompts={savedPrompts}
               onToggleSavePrompt={handleToggleSavePrompt}
+              mealTemplates={mealTemplates}
+              onToggleTemplate={handleToggleTemplate}
               onDeleteMeal={handleDeleteMeal}
+              onRevertMeal={handleRevertMeal}
+              onRetryAnalysis={(mealId) => { analysisQueue.retryNow(mealId); }}
+              onTransferMeal={handleTransferMeal}
+              onSetMealSlot={handleSetMealSlot}
+              onCopyDayToToday={isSameDay(selectedDate, new Date()) ? undefined : handleCopyDayToToday}
               onUpdateFood={async (mealId, updatedFood) => {
                 const currentMeals = mealsByDate[currentDateKey] || [];
                 const meal = currentMeals.find(m => m.id === mealId);
@@ -3005,12 +3433,10 @@ export const HomeScreen: React.FC = () => {
                   const updatedFoods = m.foods.map(food =>
                     food.id === updatedFood.id ? updatedFood : food
                   );
-                  return {
-                    ...m,
-                    foods: updatedFoods,
-                    updatedAt: new Date().toISOString(),
-                  };
+                  return reviseMeal(m, { foods: updatedFoods }, 'food_edit', 'user', updatedFood.name);
                 });
+                const revised = updatedMeals.find(m => m.id === mealId);
+                if (revised && revised !== meal) trackRevision(revised);
 
                 setMealsByDate(prev => ({
                   ...prev,
@@ -3018,6 +3444,9 @@ export const HomeScreen: React.FC = () => {
                 }));
 
                 await dataStorage.saveDailyLog(currentDateKey, updatedMeals);
+                // The day's totals, micros included, were just rebuilt from the
+                // edited foods. Show them now rather than after the next persist
+                setSummariesByDate(await dataStorage.loadDailySummaries());
 
                 // Update food cache so future logs of the same prompt use user-corrected values
                 if (meal?.prompt) {
@@ -3187,6 +3616,8 @@ export const HomeScreen: React.FC = () => {
             quickPrompts={savedPrompts}
             onQuickPromptPress={handleSelectSavedPrompt}
             onQuickPromptRemove={handleRemoveSavedPrompt}
+            quickTemplates={mealTemplates.slice(0, MAX_QUICK_TEMPLATES)}
+            onQuickTemplatePress={handleLogTemplate}
             placeholder={isListening ? "Listening..." : "Describe your meal"}
           />
 
@@ -3233,7 +3664,6 @@ export const HomeScreen: React.FC = () => {
             onRequestLogMeal={handleRequestLogMeal}
             onRequestLogMealForDate={handleRequestLogMealForDate}
             onRequestSetGoals={handleOpenSetGoalsFromNutritionAnalysis}
-            mealsByDate={mealsByDate}
             summariesByDate={summariesByDate}
             targetCalories={goalsSet ? savedGoals.calories : undefined}
             targetProtein={goalsSet ? savedGoals.proteinGrams : undefined}
@@ -3329,6 +3759,28 @@ export const HomeScreen: React.FC = () => {
               if (__DEV__) console.error('Error reloading account data:', e);
             }
           }}
+          onMealTemplatesClose={async () => {
+            setMealTemplates(await dataStorage.loadLocalMealTemplates());
+          }}
+          onRecycleBinClose={async () => {
+            // Replace state with storage, the way loadDay does. A stale copy of a
+            // restored day would otherwise be persisted over it on the next edit
+            try {
+              const key = getDateKey(selectedDateRef.current);
+              const [dayMeals, summaries, exercises] = await Promise.all([
+                dataStorage.getDailyLog(key),
+                dataStorage.loadDailySummaries(),
+                dataStorage.loadExercises(),
+              ]);
+              const hydrated = { [key]: dayMeals };
+              skipPersistRef.current = hydrated;
+              setMealsByDate(hydrated);
+              setSummariesByDate(summaries);
+              setExercisesByDate(exercises);
+            } catch (e) {
+              if (__DEV__) console.error('Error reloading after recycle bin:', e);
+            }
+          }}
         />
           </View>
         )}
@@ -3443,9 +3895,23 @@ export const HomeScreen: React.FC = () => {
           onClose={handleClosePhotoModal}
           onTakePhoto={handleTakePhoto}
           onUploadPhoto={handleUploadPhoto}
+          onScanBarcode={handleScanBarcode}
+          onReadLabel={handleReadLabel}
           onModalDismiss={handleModalDismiss}
         />
 
+        <BarcodeScannerModal
+          visible={barcodeScannerVisible}
+          onClose={() => setBarcodeScannerVisible(false)}
+          onLog={handleLabelLogged}
+        />
+
+        <NutritionLabelModal
+          imageUri={labelPhotoUri}
+          onClose={() => setLabelPhotoUri(null)}
+          onLog={handleLabelLogged}
+        />
+
         <PhotoAnalyzingOverlay
           imageUri={analyzingPhoto}
           read={photoRead}
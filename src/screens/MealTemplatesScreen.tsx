@@ -0,0 +1,263 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { dataStorage, MealTemplate, MAX_MEAL_TEMPLATES } from '../services/dataStorage';
+import { ParsedFood } from '../utils/foodNutrition';
+
+interface MealTemplatesScreenProps {
+  onBack: () => void;
+}
+
+type ItemField = 'calories' | 'protein' | 'carbs' | 'fat';
+
+const ITEM_FIELDS: Array<{ key: ItemField; label: string }> = [
+  { key: 'calories', label: 'kcal' },
+  { key: 'protein', label: 'P' },
+  { key: 'carbs', label: 'C' },
+  { key: 'fat', label: 'F' },
+];
+
+const templateKcal = (t: MealTemplate) => Math.round(t.foods.reduce((sum, f) => sum + (f.calories || 0), 0));
+
+const describeUse = (t: MealTemplate): string =>
+  t.useCount === 0 ? 'Not logged yet' : `Logged ${t.useCount} ${t.useCount === 1 ? 'time' : 'times'}`;
+
+/**
+ * Saved meals that log in one tap with the numbers they were saved with. Most
+ * used first, which is also the order the input bar offers them in.
+ */
+export const MealTemplatesScreen: React.FC<MealTemplatesScreenProps> = ({ onBack }) => {
+  const [templates, setTemplates] = useState<MealTemplate[] | null>(null);
+  const [editing, setEditing] = useState<MealTemplate | null>(null);
+  // What is typed into each number box, by food id, so a half-typed "12." survives
+  const [texts, setTexts] = useState<Record<string, Partial<Record<ItemField, string>>>>({});
+  const [saving, setSaving] = useState(false);
+
+  const reload = useCallback(() => {
+    dataStorage.loadMealTemplates().then(setTemplates).catch(() => setTemplates([]));
+  }, []);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  const startEditing = (t: MealTemplate) => {
+    setTexts({});
+    setEditing(t);
+  };
+
+  const updateFood = (id: string, patch: Partial<ParsedFood>) =>
+    setEditing((t) => (t ? { ...t, foods: t.foods.map((f) => (f.id === id ? { ...f, ...patch } : f)) } : t));
+
+  const setNumber = (food: ParsedFood, key: ItemField) => (text: string) => {
+    setTexts((prev) => ({ ...prev, [food.id]: { ...prev[food.id], [key]: text } }));
+    const n = parseFloat(text.replace(',', '.'));
+    if (Number.isFinite(n) && n >= 0) updateFood(food.id, { [key]: key === 'calories' ? Math.round(n) : n });
+  };
+
+  const removeFood = (id: string) =>
+    setEditing((t) => (t ? { ...t, foods: t.foods.filter((f) => f.id !== id) } : t));
+
+  const canSave = !!editing && !!editing.name.trim() && editing.foods.length > 0;
+
+  const handleSave = async () => {
+    if (!editing || !canSave) return;
+    setSaving(true);
+    try {
+      await dataStorage.saveMealTemplate({ ...editing, name: editing.name.trim(), updatedAt: new Date().toISOString() });
+      setEditing(null);
+    } finally {
+      setSaving(false);
+      reload();
+    }
+  };
+
+  const handleDelete = (t: MealTemplate) => {
+    Alert.alert(
+      'Delete this template?',
+      `${t.name}\n\nMeals already logged from it stay in your log.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await dataStorage.removeMealTemplate(t.id);
+            setEditing(null);
+            reload();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderEditor = (t: MealTemplate) => (
+    <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+      <TextInput
+        value={t.name}
+        onChangeText={(name) => setEditing((prev) => (prev ? { ...prev, name } : prev))}
+        placeholder="Name"
+        placeholderTextColor={Acid.tx3}
+        style={[styles.textInput, { color: Acid.tx, borderColor: Acid.hair, backgroundColor: Acid.mossDeep }]}
+      />
+
+      <Text style={[styles.sectionLabel, { color: Acid.tx3 }]}>ITEMS</Text>
+      {t.foods.map((f) => (
+        <View key={f.id} style={[styles.card, { backgroundColor: Acid.mossDeep, borderColor: Acid.hair }]}>
+          <View style={styles.cardHeader}>
+            <TextInput
+              value={f.name}
+              onChangeText={(name) => updateFood(f.id, { name })}
+              style={[styles.itemName, { color: Acid.tx }]}
+            />
+            <TouchableOpacity onPress={() => removeFood(f.id)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Feather name="x" size={16} color={Acid.tx3} />
+            </TouchableOpacity>
+          </View>
+          <Text style={[styles.cardMeta, { color: Acid.tx3 }]}>{f.quantity} {f.unit} · {f.weight_g} g</Text>
+          <View style={styles.numbersRow}>
+            {ITEM_FIELDS.map(({ key, label }) => (
+              <View key={key} style={styles.numberCell}>
+                <TextInput
+                  value={texts[f.id]?.[key] ?? String(f[key])}
+                  onChangeText={setNumber(f, key)}
+                  keyboardType="decimal-pad"
+                  selectTextOnFocus
+                  style={[styles.numberInput, { color: Acid.tx, borderBottomColor: Acid.hair2 }]}
+                />
+                <Text style={[styles.cardMeta, { color: Acid.tx3 }]}>{label}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={() => handleDelete(t)} style={[styles.button, { borderColor: Acid.hair2 }]}>
+          <Text style={[styles.buttonText, { color: Acid.error }]}>Delete</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={handleSave}
+          disabled={saving || !canSave}
+          style={[styles.button, { backgroundColor: Acid.lime, borderColor: Acid.lime }, (saving || !canSave) && styles.buttonDisabled]}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color={Acid.moss} />
+          ) : (
+            <Text style={[styles.buttonText, { color: Acid.moss }]}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+
+  const renderList = () => (
+    <ScrollView style={styles.content}>
+      <Text style={[styles.description, { color: Acid.tx2 }]}>
+        Meals you eat again and again. Tap one above the input bar to log it with exactly these numbers, no analysis. Holds {MAX_MEAL_TEMPLATES}; saving another asks which one to replace.
+      </Text>
+
+      {templates === null && <ActivityIndicator color={Acid.lime} />}
+
+      {templates?.length === 0 && (
+        <Text style={[styles.empty, { color: Acid.tx3 }]}>
+          No templates yet. Long-press a logged meal and choose Save as template.
+        </Text>
+      )}
+
+      {templates?.map((t) => (
+        <TouchableOpacity
+          key={t.id}
+          onPress={() => startEditing(t)}
+          style={[styles.card, { backgroundColor: Acid.mossDeep, borderColor: Acid.hair }]}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.cardTitle, { color: Acid.tx }]} numberOfLines={1}>{t.name}</Text>
+          <Text style={[styles.cardMeta, { color: Acid.tx2 }]}>
+            {templateKcal(t)} kcal · {t.foods.length} {t.foods.length === 1 ? 'item' : 'items'}
+          </Text>
+          <Text style={[styles.cardMeta, { color: Acid.tx3 }]}>{describeUse(t)}</Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: Acid.moss }]} edges={['top', 'bottom']}>
+      <View style={[styles.header, { borderBottomColor: Acid.hair }]}>
+        <TouchableOpacity onPress={editing ? () => setEditing(null) : onBack} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color={Acid.tx} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: Acid.tx }]}>{editing ? 'Edit Template' : 'Meal Templates'}</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={{ flex: 1 }}>
+        {editing ? renderEditor(editing) : renderList()}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: { padding: 8 },
+  headerTitle: { fontSize: Typography.fontSize.xl, fontWeight: Typography.fontWeight.semiBold },
+  headerRight: { width: 56 },
+  content: { padding: 16 },
+  description: { fontSize: Typography.fontSize.md, marginBottom: 24, lineHeight: 22 },
+  empty: { fontSize: Typography.fontSize.md, textAlign: 'center', marginTop: 24, lineHeight: 22 },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 4 },
+  cardTitle: { fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold, marginBottom: 6 },
+  cardMeta: { fontSize: Typography.fontSize.sm, lineHeight: 18 },
+  textInput: {
+    fontSize: 15,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: Platform.OS === 'ios' ? 12 : 8,
+    marginBottom: 10,
+  },
+  sectionLabel: { fontSize: 11, letterSpacing: 2, marginTop: 18, marginBottom: 8 },
+  itemName: { flex: 1, fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold, paddingVertical: 2 },
+  numbersRow: { flexDirection: 'row', gap: 12, marginTop: 10 },
+  numberCell: { flex: 1, alignItems: 'center' },
+  numberInput: { alignSelf: 'stretch', fontSize: 16, textAlign: 'center', borderBottomWidth: 1, paddingVertical: 4 },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, marginTop: 24, marginBottom: 48 },
+  button: {
+    minWidth: 92,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  buttonDisabled: { opacity: 0.4 },
+  buttonText: { fontSize: Typography.fontSize.sm, fontWeight: Typography.fontWeight.semiBold },
+});
@@ -29,6 +29,7 @@ import { generateInsights, getActionForInsight } from '../services/insightServic
 import { patternDetectionService } from '../services/patternDetectionService';
 import { InsightUnlocks, isInsightUnlocked, getInsightDefinition, InsightId } from '../utils/insightUnlockEngine';
 import { ChartRange, CHART_RANGES, getRangeWindow, getPreviousWindow, isInRange, rangeLabel, previousRangeLabel } from '../utils/chartRange';
+import { dayPartOf } from '../utils/mealSlots';
 import { MicronutrientCard } from '../components/MicronutrientCard';
 
 interface NutritionAnalysisScreenProps {
@@ -36,7 +37,6 @@ interface NutritionAnalysisScreenProps {
   onRequestLogMeal?: () => void;
   onRequestLogMealForDate?: (date: Date) => void;
   onRequestSetGoals?: () => void;
-  mealsByDate?: Record<string, Meal[]>;
   summariesByDate?: Record<string, DailySummary>;
   targetCalories?: number;
   targetProtein?: number;
@@ -94,7 +94,6 @@ export const NutritionAnalysisScreen: React.FC<NutritionAnalysisScreenProps> = (
   onRequestLogMeal,
   onRequestLogMealForDate,
   onRequestSetGoals,
-  mealsByDate = {},
   summariesByDate,
   targetCalories: targetCaloriesProp,
   targetProtein: targetProteinProp,
@@ -254,6 +253,9 @@ export const NutritionAnalysisScreen: React.FC<NutritionAnalysisScreenProps> = (
   const [timeRange, setTimeRange] = useState<TimeRange>('1W');
   const [showInfo, setShowInfo] = useState(false);
   const [topPriority, setTopPriority] = useState<TopPriorityItem | null>(null);
+  // Raw meals for the selected range only, read from the day shards. The
+  // charts run on summaries; these feed the cards that need individual meals.
+  const [mealsByDate, setMealsByDate] = useState<Record<string, Meal[]>>({});
 
   // The screen stays mounted inside a Modal across opens, so the initialTab in
   // useState only runs once. Reset the tab each time the modal opens so the last
@@ -268,6 +270,19 @@ export const NutritionAnalysisScreen: React.FC<NutritionAnalysisScreenProps> = (
     }
   }, [visible, initialTab, scrollToInsight]);
 
+  // Summaries change whenever a meal is saved, so they double as the signal
+  // that the shards changed under us.
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    const window = getRangeWindow(timeRange);
+    dataStorage
+      .getMealsInRange(format(window.start, 'yyyy-MM-dd'), format(window.end, 'yyyy-MM-dd'))
+      .then((meals) => { if (!cancelled) setMealsByDate(meals); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [visible, timeRange, summariesByDate]);
+
   useEffect(() => {
     if (!scrollToInsight) return;
     pendingScrollRef.current = scrollToInsight;
@@ -382,8 +397,8 @@ export const NutritionAnalysisScreen: React.FC<NutritionAnalysisScreenProps> = (
         });
       });
     } else {
-      // Fallback: Aggregate from mealsByDate (legacy/partial)
-      // Iterate through all dates with meals
+      // Fallback: Aggregate from mealsByDate (legacy/partial). Only the
+      // selected range is loaded, which is all the charts show anyway
       Object.keys(mealsByDate).forEach((dateKey) => {
         const meals = mealsByDate[dateKey];
         if (!meals || meals.length === 0) return;
@@ -992,22 +1007,19 @@ export const NutritionAnalysisScreen: React.FC<NutritionAnalysisScreenProps> = (
           }
         });
 
-        // Meal timing from raw meals
+        // Meal timing from raw meals. The logged week can reach back past the
+        // selected range, so it reads its own shards rather than mealsByDate
         const timingBuckets = { morning: 0, afternoon: 0, evening: 0 };
         const last7 = lastWeek.map(d => format(d.date, 'yyyy-MM-dd'));
-        Object.entries(mealsByDate).forEach(([dateKey, meals]) => {
+        const weekMeals = await dataStorage.getMealsInRange(last7[0], last7[last7.length - 1]);
+        Object.entries(weekMeals).forEach(([dateKey, meals]) => {
           if (!last7.includes(dateKey)) return;
-          meals.forEach(meal => {
-            const h = new Date(meal.timestamp).getHours();
-            if (h >= 4 && h < 12) timingBuckets.morning++;
-            else if (h >= 12 && h < 17) timingBuckets.afternoon++;
-            else timingBuckets.evening++;
-          });
+          meals.forEach(meal => { timingBuckets[dayPartOf(meal)]++; });
         });
 
         // Top 5 foods
         const foodCounts: Record<string, number> = {};
-        Object.values(mealsByDate).flat().forEach(meal => {
+        Object.values(weekMeals).flat().forEach(meal => {
           if (!last7.includes(format(new Date(meal.timestamp), 'yyyy-MM-dd'))) return;
           meal.foods.forEach(f => {
             const name = f.name?.toLowerCase().trim();
@@ -2539,10 +2551,8 @@ export const NutritionAnalysisScreen: React.FC<NutritionAnalysisScreenProps> = (
                             const d = new Date(meal.timestamp);
                             if (!isInRange(d, window)) return;
                             totalDaysWithData.add(format(d, 'yyyy-MM-dd'));
-                            const h = d.getHours();
-                            let bucket: keyof typeof buckets = 'Evening';
-                            if (h >= 4 && h < 12) bucket = 'Morning';
-                            else if (h >= 12 && h < 17) bucket = 'Afternoon';
+                            const part = dayPartOf(meal);
+                            const bucket: keyof typeof buckets = part === 'morning' ? 'Morning' : part === 'afternoon' ? 'Afternoon' : 'Evening';
                             const mealCals = meal.foods.reduce((acc, f) => acc + (f.calories || 0), 0);
                             buckets[bucket].cals += mealCals;
                             buckets[bucket].count++;
@@ -0,0 +1,401 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { dataStorage, PersonalFood, PersonalFoodMicroKey } from '../services/dataStorage';
+import { FoodLabel, isSane } from '../services/foodDatabaseService';
+import { MICRO_FIELDS } from '../utils/personalFoods';
+import { generateId } from '../utils/uuid';
+
+interface PersonalFoodsScreenProps {
+  onBack: () => void;
+}
+
+type MacroKey = 'calories' | 'protein' | 'carbs' | 'fat' | 'fibre' | 'sugar' | 'saturatedFat' | 'sodiumMg';
+
+interface Draft {
+  id: string | null; // null while creating
+  name: string;
+  brand: string;
+  macros: Record<MacroKey, string>;
+  micros: Partial<Record<PersonalFoodMicroKey, string>>;
+  servingG: string;
+  servingLabel: string;
+  packG: string;
+  aliases: string;
+}
+
+const MACRO_FIELDS: Array<{ key: MacroKey; label: string; unit: string }> = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs, fibre included', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fibre', label: 'Fibre', unit: 'g' },
+  { key: 'sugar', label: 'Sugar', unit: 'g' },
+  { key: 'saturatedFat', label: 'Saturated fat', unit: 'g' },
+  { key: 'sodiumMg', label: 'Sodium', unit: 'mg' },
+];
+
+const show = (n: number | null | undefined) => (n == null ? '' : String(n));
+
+const num = (text: string | undefined): number | null => {
+  if (!text) return null;
+  const n = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+const emptyDraft = (): Draft => ({
+  id: null,
+  name: '',
+  brand: '',
+  macros: { calories: '', protein: '', carbs: '', fat: '', fibre: '', sugar: '', saturatedFat: '', sodiumMg: '' },
+  micros: {},
+  servingG: '',
+  servingLabel: '',
+  packG: '',
+  aliases: '',
+});
+
+const draftFrom = (f: PersonalFood): Draft => ({
+  id: f.id,
+  name: f.name,
+  brand: f.brand ?? '',
+  macros: {
+    calories: show(f.per100g.calories),
+    protein: show(f.per100g.protein),
+    carbs: show(f.per100g.carbs),
+    fat: show(f.per100g.fat),
+    fibre: show(f.per100g.fibre),
+    sugar: show(f.per100g.sugar),
+    saturatedFat: show(f.per100g.saturatedFat),
+    sodiumMg: show(f.per100g.sodiumMg),
+  },
+  micros: Object.fromEntries(Object.entries(f.micros).map(([k, v]) => [k, show(v)])),
+  servingG: show(f.servingG),
+  servingLabel: f.servingLabel ?? '',
+  packG: show(f.packG),
+  aliases: f.aliases.join(', '),
+});
+
+// Null until there is a name and a calorie figure, the two things a panel line
+// cannot do without
+const per100gFrom = (d: Draft): FoodLabel['per100g'] | null => {
+  const calories = num(d.macros.calories);
+  if (!d.name.trim() || calories == null || calories <= 0) return null;
+  const carbs = num(d.macros.carbs) ?? 0;
+  return {
+    calories,
+    protein: num(d.macros.protein) ?? 0,
+    carbs,
+    fibre: Math.min(num(d.macros.fibre) ?? 0, carbs),
+    sugar: num(d.macros.sugar),
+    fat: num(d.macros.fat) ?? 0,
+    saturatedFat: num(d.macros.saturatedFat),
+    sodiumMg: num(d.macros.sodiumMg),
+  };
+};
+
+const describeFood = (f: PersonalFood): string => {
+  const p = f.per100g;
+  return `${Math.round(p.calories)} kcal · P ${p.protein} · C ${p.carbs} · F ${p.fat} per 100 g`;
+};
+
+/**
+ * The foods the user has given real figures for, either typed in here or
+ * saved from a label photo. Any of their names in a logged meal makes the
+ * analysis use these numbers instead of estimating. Synced like saved prompts.
+ */
+export const PersonalFoodsScreen: React.FC<PersonalFoodsScreenProps> = ({ onBack }) => {
+  const [foods, setFoods] = useState<PersonalFood[] | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const reload = useCallback(() => {
+    dataStorage.loadPersonalFoods().then(setFoods).catch(() => setFoods([]));
+  }, []);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  const setText = (key: 'name' | 'brand' | 'servingG' | 'servingLabel' | 'packG' | 'aliases') => (text: string) =>
+    setDraft((d) => (d ? { ...d, [key]: text } : d));
+  const setMacro = (key: MacroKey) => (text: string) =>
+    setDraft((d) => (d ? { ...d, macros: { ...d.macros, [key]: text } } : d));
+  const setMicro = (key: PersonalFoodMicroKey) => (text: string) =>
+    setDraft((d) => (d ? { ...d, micros: { ...d.micros, [key]: text } } : d));
+
+  const save = async (d: Draft, per100g: FoodLabel['per100g']) => {
+    const existing = foods?.find((f) => f.id === d.id);
+    const micros: PersonalFood['micros'] = {};
+    for (const { key } of MICRO_FIELDS) {
+      const value = num(d.micros[key]);
+      if (value != null) micros[key] = value;
+    }
+    const now = new Date().toISOString();
+    setSaving(true);
+    try {
+      await dataStorage.savePersonalFood({
+        id: d.id ?? generateId(),
+        name: d.name.trim(),
+        brand: d.brand.trim() || null,
+        per100g,
+        micros,
+        servingG: num(d.servingG) || null,
+        servingLabel: d.servingLabel.trim() || null,
+        packG: num(d.packG) || null,
+        aliases: d.aliases.split(',').map((a) => a.trim()).filter(Boolean),
+        source: existing?.source ?? 'custom',
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+      setDraft(null);
+    } finally {
+      setSaving(false);
+      reload();
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const per100g = per100gFrom(draft);
+    if (!per100g) return;
+    if (!isSane(per100g)) {
+      Alert.alert(
+        'These numbers do not add up',
+        'The calories are far from what the protein, carbs and fat work out to. Check them against the label.',
+        [
+          { text: 'Check again', style: 'cancel' },
+          { text: 'Save anyway', onPress: () => save(draft, per100g) },
+        ]
+      );
+      return;
+    }
+    save(draft, per100g);
+  };
+
+  const handleDelete = (f: PersonalFood) => {
+    Alert.alert(
+      'Delete this food?',
+      `${f.name}\n\nMeals already logged with it keep their numbers.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await dataStorage.removePersonalFood(f.id);
+            setDraft(null);
+            reload();
+          },
+        },
+      ]
+    );
+  };
+
+  const numberRow = (label: string, unit: string, value: string | undefined, onChange: (t: string) => void) => (
+    <View key={label} style={styles.fieldRow}>
+      <Text style={[styles.fieldLabel, { color: Acid.tx2 }]}>{label}</Text>
+      <TextInput
+        value={value ?? ''}
+        onChangeText={onChange}
+        keyboardType="decimal-pad"
+        placeholder="–"
+        placeholderTextColor={Acid.tx3}
+        style={[styles.numberInput, { color: Acid.tx, borderBottomColor: Acid.hair2 }]}
+      />
+      <Text style={[styles.fieldUnit, { color: Acid.tx3 }]}>{unit}</Text>
+    </View>
+  );
+
+  const renderForm = (d: Draft) => {
+    const editing = foods?.find((f) => f.id === d.id);
+    return (
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <TextInput
+          value={d.name}
+          onChangeText={setText('name')}
+          placeholder="Name"
+          placeholderTextColor={Acid.tx3}
+          style={[styles.textInput, { color: Acid.tx, borderColor: Acid.hair, backgroundColor: Acid.mossDeep }]}
+        />
+        <TextInput
+          value={d.brand}
+          onChangeText={setText('brand')}
+          placeholder="Brand (optional)"
+          placeholderTextColor={Acid.tx3}
+          style={[styles.textInput, { color: Acid.tx, borderColor: Acid.hair, backgroundColor: Acid.mossDeep }]}
+        />
+        <TextInput
+          value={d.aliases}
+          onChangeText={setText('aliases')}
+          placeholder="Other names, separated by commas"
+          placeholderTextColor={Acid.tx3}
+          style={[styles.textInput, { color: Acid.tx, borderColor: Acid.hair, backgroundColor: Acid.mossDeep }]}
+        />
+
+        <Text style={[styles.sectionLabel, { color: Acid.tx3 }]}>PER 100 G</Text>
+        {MACRO_FIELDS.map((f) => numberRow(f.label, f.unit, d.macros[f.key], setMacro(f.key)))}
+
+        <Text style={[styles.sectionLabel, { color: Acid.tx3 }]}>AMOUNTS</Text>
+        <TextInput
+          value={d.servingLabel}
+          onChangeText={setText('servingLabel')}
+          placeholder="Serving as printed, like 1 bar (45 g)"
+          placeholderTextColor={Acid.tx3}
+          style={[styles.textInput, { color: Acid.tx, borderColor: Acid.hair, backgroundColor: Acid.mossDeep }]}
+        />
+        {numberRow('One serving', 'g', d.servingG, setText('servingG'))}
+        {numberRow('Whole pack', 'g', d.packG, setText('packG'))}
+
+        <Text style={[styles.sectionLabel, { color: Acid.tx3 }]}>MICRONUTRIENTS PER 100 G, IF LISTED</Text>
+        {MICRO_FIELDS.map((f) => numberRow(f.label, f.unit, d.micros[f.key], setMicro(f.key)))}
+
+        <View style={styles.actions}>
+          {editing && (
+            <TouchableOpacity onPress={() => handleDelete(editing)} style={[styles.button, { borderColor: Acid.hair2 }]}>
+              <Text style={[styles.buttonText, { color: Acid.error }]}>Delete</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={saving || !per100gFrom(d)}
+            style={[
+              styles.button,
+              { backgroundColor: Acid.lime, borderColor: Acid.lime },
+              (saving || !per100gFrom(d)) && styles.buttonDisabled,
+            ]}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={Acid.moss} />
+            ) : (
+              <Text style={[styles.buttonText, { color: Acid.moss }]}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const renderList = () => (
+    <ScrollView style={styles.content}>
+      <Text style={[styles.description, { color: Acid.tx2 }]}>
+        Foods you have the real figures for. When a meal mentions one by name, brand or any of its other names, these numbers are used instead of an estimate.
+      </Text>
+
+      {foods === null && <ActivityIndicator color={Acid.lime} />}
+
+      {foods?.length === 0 && (
+        <Text style={[styles.empty, { color: Acid.tx3 }]}>
+          No foods yet. Add one here, or photograph a nutrition label when logging.
+        </Text>
+      )}
+
+      {foods?.map((f) => (
+        <TouchableOpacity
+          key={f.id}
+          onPress={() => setDraft(draftFrom(f))}
+          style={[styles.card, { backgroundColor: Acid.mossDeep, borderColor: Acid.hair }]}
+          activeOpacity={0.7}
+        >
+          <View style={styles.cardHeader}>
+            <Feather name={f.source === 'label_photo' ? 'camera' : 'edit-3'} size={16} color={Acid.tx2} />
+            <Text style={[styles.cardTitle, { color: Acid.tx }]} numberOfLines={1}>{f.name}</Text>
+            {f.brand && <Text style={[styles.cardMeta, { color: Acid.tx3 }]} numberOfLines={1}>{f.brand}</Text>}
+          </View>
+          <Text style={[styles.cardMeta, { color: Acid.tx2 }]}>{describeFood(f)}</Text>
+          {f.aliases.length > 0 && (
+            <Text style={[styles.cardMeta, { color: Acid.tx3 }]} numberOfLines={1}>Also: {f.aliases.join(', ')}</Text>
+          )}
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: Acid.moss }]} edges={['top', 'bottom']}>
+      <View style={[styles.header, { borderBottomColor: Acid.hair }]}>
+        <TouchableOpacity onPress={draft ? () => setDraft(null) : onBack} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color={Acid.tx} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: Acid.tx }]}>
+          {draft ? (draft.id ? 'Edit Food' : 'New Food') : 'My Foods'}
+        </Text>
+        {draft ? (
+          <View style={styles.headerRight} />
+        ) : (
+          <TouchableOpacity onPress={() => setDraft(emptyDraft())} style={styles.headerRight}>
+            <Text style={[styles.addButton, { color: Acid.lime }]}>Add</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={{ flex: 1 }}>
+        {draft ? renderForm(draft) : renderList()}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: { padding: 8 },
+  headerTitle: { fontSize: Typography.fontSize.xl, fontWeight: Typography.fontWeight.semiBold },
+  headerRight: { width: 56, alignItems: 'flex-end' },
+  addButton: { fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold },
+  content: { padding: 16 },
+  description: { fontSize: Typography.fontSize.md, marginBottom: 24, lineHeight: 22 },
+  empty: { fontSize: Typography.fontSize.md, textAlign: 'center', marginTop: 24, lineHeight: 22 },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 6 },
+  cardTitle: { flex: 1, fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold },
+  cardMeta: { fontSize: Typography.fontSize.sm, lineHeight: 18 },
+  textInput: {
+    fontSize: 15,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: Platform.OS === 'ios' ? 12 : 8,
+    marginBottom: 10,
+  },
+  sectionLabel: { fontSize: 11, letterSpacing: 2, marginTop: 18, marginBottom: 6 },
+  fieldRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 6, gap: 10 },
+  fieldLabel: { flex: 1, fontSize: Typography.fontSize.sm },
+  numberInput: { width: 80, fontSize: 16, textAlign: 'right', borderBottomWidth: 1, paddingVertical: 4 },
+  fieldUnit: { width: 36, fontSize: 13 },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, marginTop: 24, marginBottom: 48 },
+  button: {
+    minWidth: 92,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  buttonDisabled: { opacity: 0.4 },
+  buttonText: { fontSize: Typography.fontSize.sm, fontWeight: Typography.fontWeight.semiBold },
+});
@@ -0,0 +1,399 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { dataStorage, Recipe, RecipeIngredient } from '../services/dataStorage';
+import { resolveIngredient } from '../services/recipeService';
+import { recipePortion } from '../utils/recipes';
+import { generateId } from '../utils/uuid';
+
+interface RecipesScreenProps {
+  onBack: () => void;
+}
+
+interface Draft {
+  id: string | null; // null while creating
+  name: string;
+  aliases: string;
+  ingredients: RecipeIngredient[];
+  servings: string;
+  servingLabel: string;
+  cookedWeightG: string;
+}
+
+const num = (text: string): number | null => {
+  const n = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+const emptyDraft = (): Draft => ({
+  id: null,
+  name: '',
+  aliases: '',
+  ingredients: [],
+  servings: '',
+  servingLabel: '',
+  cookedWeightG: '',
+});
+
+const draftFrom = (r: Recipe): Draft => ({
+  id: r.id,
+  name: r.name,
+  aliases: r.aliases.join(', '),
+  ingredients: r.ingredients,
+  servings: r.servings != null ? String(r.servings) : '',
+  servingLabel: r.servingLabel ?? '',
+  cookedWeightG: r.cookedWeightG != null ? String(r.cookedWeightG) : '',
+});
+
+// The draft as a recipe, for the preview and for saving. Null until it has a
+// name, something in it, and a yield to divide by
+const recipeFrom = (d: Draft, existing?: Recipe): Recipe | null => {
+  const servings = num(d.servings);
+  const cookedWeightG = num(d.cookedWeightG);
+  if (!d.name.trim() || d.ingredients.length === 0 || (servings == null && cookedWeightG == null)) return null;
+  const now = new Date().toISOString();
+  return {
+    id: d.id ?? generateId(),
+    name: d.name.trim(),
+    aliases: d.aliases.split(',').map((a) => a.trim()).filter(Boolean),
+    ingredients: d.ingredients,
+    servings,
+    servingLabel: d.servingLabel.trim() || null,
+    cookedWeightG,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+const ingredientKcal = (i: RecipeIngredient) => Math.round(i.foods.reduce((sum, f) => sum + (f.calories || 0), 0));
+
+// What one serving, or 100 g when there is no serving count, comes to
+const describeRecipe = (r: Recipe): string => {
+  const portion = r.servings ? recipePortion(r, { servings: 1 }) : recipePortion(r, { grams: 100 });
+  if (!portion) return '';
+  const basis = r.servings ? `per ${r.servingLabel || 'serving'} (${portion.weight_g} g)` : 'per 100 g';
+  return `${portion.calories} kcal · P ${portion.protein} · C ${portion.carbs} · F ${portion.fat} ${basis}`;
+};
+
+/**
+ * Recipes for a pot cooked once and eaten over the week. Each ingredient line
+ * is resolved when it is added, through My Foods or the normal analysis, and
+ * logging "1 bowl of" the recipe by name takes a share of the totals.
+ */
+export const RecipesScreen: React.FC<RecipesScreenProps> = ({ onBack }) => {
+  const [recipes, setRecipes] = useState<Recipe[] | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [ingredientText, setIngredientText] = useState('');
+  const [resolving, setResolving] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const reload = useCallback(() => {
+    dataStorage.loadRecipes().then(setRecipes).catch(() => setRecipes([]));
+  }, []);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  const setText = (key: 'name' | 'aliases' | 'servings' | 'servingLabel' | 'cookedWeightG') => (text: string) =>
+    setDraft((d) => (d ? { ...d, [key]: text } : d));
+
+  const openDraft = (d: Draft) => {
+    setIngredientText('');
+    setDraft(d);
+  };
+
+  const handleAddIngredient = async () => {
+    const text = ingredientText.trim();
+    if (!text || resolving) return;
+    setResolving(true);
+    try {
+      const foods = await resolveIngredient(text);
+      if (foods.length === 0) {
+        Alert.alert('Could not work that out', 'Try naming the ingredient and its amount, like "500 g beef mince".');
+        return;
+      }
+      setDraft((d) => (d ? { ...d, ingredients: [...d.ingredients, { id: generateId(), text, foods }] } : d));
+      setIngredientText('');
+    } catch (error) {
+      console.error('Resolving a recipe ingredient failed', error);
+      Alert.alert('Error', 'Could not reach the food analysis. Check your connection and try again.');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const removeIngredient = (id: string) =>
+    setDraft((d) => (d ? { ...d, ingredients: d.ingredients.filter((i) => i.id !== id) } : d));
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const recipe = recipeFrom(draft, recipes?.find((r) => r.id === draft.id));
+    if (!recipe) return;
+    setSaving(true);
+    try {
+      await dataStorage.saveRecipe(recipe);
+      setDraft(null);
+    } finally {
+      setSaving(false);
+      reload();
+    }
+  };
+
+  const handleDelete = (r: Recipe) => {
+    Alert.alert(
+      'Delete this recipe?',
+      `${r.name}\n\nMeals already logged from it keep their numbers.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await dataStorage.removeRecipe(r.id);
+            setDraft(null);
+            reload();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderForm = (d: Draft) => {
+    const editing = recipes?.find((r) => r.id === d.id);
+    const preview = recipeFrom(d, editing);
+    const totalKcal = d.ingredients.reduce((sum, i) => sum + ingredientKcal(i), 0);
+    const inputStyle = [styles.textInput, { color: Acid.tx, borderColor: Acid.hair, backgroundColor: Acid.mossDeep }];
+
+    return (
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <TextInput value={d.name} onChangeText={setText('name')} placeholder="Name, like Chili" placeholderTextColor={Acid.tx3} style={inputStyle} />
+        <TextInput
+          value={d.aliases}
+          onChangeText={setText('aliases')}
+          placeholder="Other names, separated by commas"
+          placeholderTextColor={Acid.tx3}
+          style={inputStyle}
+        />
+
+        <Text style={[styles.sectionLabel, { color: Acid.tx3 }]}>INGREDIENTS</Text>
+        {d.ingredients.map((i) => (
+          <View key={i.id} style={[styles.ingredientRow, { borderBottomColor: Acid.hair }]}>
+            <Text style={[styles.ingredientText, { color: Acid.tx }]} numberOfLines={2}>{i.text}</Text>
+            <Text style={[styles.cardMeta, { color: Acid.tx2 }]}>{ingredientKcal(i)} kcal</Text>
+            <TouchableOpacity onPress={() => removeIngredient(i.id)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Feather name="x" size={16} color={Acid.tx3} />
+            </TouchableOpacity>
+          </View>
+        ))}
+        <View style={styles.addRow}>
+          <TextInput
+            value={ingredientText}
+            onChangeText={setIngredientText}
+            placeholder="500 g beef mince"
+            placeholderTextColor={Acid.tx3}
+            style={[inputStyle, styles.addInput]}
+            onSubmitEditing={handleAddIngredient}
+            editable={!resolving}
+          />
+          <TouchableOpacity
+            onPress={handleAddIngredient}
+            disabled={resolving || !ingredientText.trim()}
+            style={[styles.button, { borderColor: Acid.lime }, (resolving || !ingredientText.trim()) && styles.buttonDisabled]}
+          >
+            {resolving ? (
+              <ActivityIndicator size="small" color={Acid.lime} />
+            ) : (
+              <Text style={[styles.buttonText, { color: Acid.lime }]}>Add</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+        {d.ingredients.length > 0 && (
+          <Text style={[styles.cardMeta, { color: Acid.tx2 }]}>{totalKcal} kcal in the whole pot</Text>
+        )}
+
+        <Text style={[styles.sectionLabel, { color: Acid.tx3 }]}>WHAT IT MAKES</Text>
+        <View style={styles.fieldRow}>
+          <Text style={[styles.fieldLabel, { color: Acid.tx2 }]}>Servings</Text>
+          <TextInput
+            value={d.servings}
+            onChangeText={setText('servings')}
+            keyboardType="decimal-pad"
+            placeholder="–"
+            placeholderTextColor={Acid.tx3}
+            style={[styles.numberInput, { color: Acid.tx, borderBottomColor: Acid.hair2 }]}
+          />
+          <TextInput
+            value={d.servingLabel}
+            onChangeText={setText('servingLabel')}
+            placeholder="bowl"
+            placeholderTextColor={Acid.tx3}
+            style={[styles.unitInput, { color: Acid.tx, borderBottomColor: Acid.hair2 }]}
+          />
+        </View>
+        <View style={styles.fieldRow}>
+          <Text style={[styles.fieldLabel, { color: Acid.tx2 }]}>Cooked weight</Text>
+          <TextInput
+            value={d.cookedWeightG}
+            onChangeText={setText('cookedWeightG')}
+            keyboardType="decimal-pad"
+            placeholder="–"
+            placeholderTextColor={Acid.tx3}
+            style={[styles.numberInput, { color: Acid.tx, borderBottomColor: Acid.hair2 }]}
+          />
+          <Text style={[styles.fieldUnit, { color: Acid.tx3 }]}>g</Text>
+        </View>
+        <Text style={[styles.hint, { color: Acid.tx3 }]}>
+          Give a serving count to log it by the bowl, and weigh the cooked pot to log it by the gram.
+        </Text>
+
+        {preview && (
+          <Text style={[styles.preview, { color: Acid.tx }]}>{describeRecipe(preview)}</Text>
+        )}
+
+        <View style={styles.actions}>
+          {editing && (
+            <TouchableOpacity onPress={() => handleDelete(editing)} style={[styles.button, { borderColor: Acid.hair2 }]}>
+              <Text style={[styles.buttonText, { color: Acid.error }]}>Delete</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={saving || !preview}
+            style={[styles.button, { backgroundColor: Acid.lime, borderColor: Acid.lime }, (saving || !preview) && styles.buttonDisabled]}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={Acid.moss} />
+            ) : (
+              <Text style={[styles.buttonText, { color: Acid.moss }]}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const renderList = () => (
+    <ScrollView style={styles.content}>
+      <Text style={[styles.description, { color: Acid.tx2 }]}>
+        Cook once, log all week. Add what went into the pot and how many servings it made, then log "1 bowl of" it by name.
+      </Text>
+
+      {recipes === null && <ActivityIndicator color={Acid.lime} />}
+
+      {recipes?.length === 0 && (
+        <Text style={[styles.empty, { color: Acid.tx3 }]}>No recipes yet.</Text>
+      )}
+
+      {recipes?.map((r) => (
+        <TouchableOpacity
+          key={r.id}
+          onPress={() => openDraft(draftFrom(r))}
+          style={[styles.card, { backgroundColor: Acid.mossDeep, borderColor: Acid.hair }]}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.cardTitle, { color: Acid.tx }]} numberOfLines={1}>{r.name}</Text>
+          <Text style={[styles.cardMeta, { color: Acid.tx2 }]}>{describeRecipe(r)}</Text>
+          <Text style={[styles.cardMeta, { color: Acid.tx3 }]}>
+            {r.ingredients.length} {r.ingredients.length === 1 ? 'ingredient' : 'ingredients'}
+            {r.aliases.length > 0 ? ` · also ${r.aliases.join(', ')}` : ''}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: Acid.moss }]} edges={['top', 'bottom']}>
+      <View style={[styles.header, { borderBottomColor: Acid.hair }]}>
+        <TouchableOpacity onPress={draft ? () => setDraft(null) : onBack} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color={Acid.tx} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: Acid.tx }]}>
+          {draft ? (draft.id ? 'Edit Recipe' : 'New Recipe') : 'My Recipes'}
+        </Text>
+        {draft ? (
+          <View style={styles.headerRight} />
+        ) : (
+          <TouchableOpacity onPress={() => openDraft(emptyDraft())} style={styles.headerRight}>
+            <Text style={[styles.addButton, { color: Acid.lime }]}>Add</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={{ flex: 1 }}>
+        {draft ? renderForm(draft) : renderList()}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: { padding: 8 },
+  headerTitle: { fontSize: Typography.fontSize.xl, fontWeight: Typography.fontWeight.semiBold },
+  headerRight: { width: 56, alignItems: 'flex-end' },
+  addButton: { fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold },
+  content: { padding: 16 },
+  description: { fontSize: Typography.fontSize.md, marginBottom: 24, lineHeight: 22 },
+  empty: { fontSize: Typography.fontSize.md, textAlign: 'center', marginTop: 24 },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardTitle: { fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold, marginBottom: 6 },
+  cardMeta: { fontSize: Typography.fontSize.sm, lineHeight: 18 },
+  textInput: {
+    fontSize: 15,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: Platform.OS === 'ios' ? 12 : 8,
+    marginBottom: 10,
+  },
+  sectionLabel: { fontSize: 11, letterSpacing: 2, marginTop: 18, marginBottom: 6 },
+  ingredientRow: { flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 10, borderBottomWidth: 1 },
+  ingredientText: { flex: 1, fontSize: Typography.fontSize.sm },
+  addRow: { flexDirection: 'row', alignItems: 'center', gap: 10, marginTop: 10 },
+  addInput: { flex: 1, marginBottom: 0 },
+  fieldRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 6, gap: 10 },
+  fieldLabel: { flex: 1, fontSize: Typography.fontSize.sm },
+  numberInput: { width: 80, fontSize: 16, textAlign: 'right', borderBottomWidth: 1, paddingVertical: 4 },
+  unitInput: { width: 80, fontSize: 14, borderBottomWidth: 1, paddingVertical: 4 },
+  fieldUnit: { width: 80, fontSize: 13 },
+  hint: { fontSize: 12, lineHeight: 17, marginTop: 8 },
+  preview: { fontSize: Typography.fontSize.sm, marginTop: 18 },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, marginTop: 24, marginBottom: 48 },
+  button: {
+    minWidth: 72,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  buttonDisabled: { opacity: 0.4 },
+  buttonText: { fontSize: Typography.fontSize.sm, fontWeight: Typography.fontWeight.semiBold },
+});
@@ -0,0 +1,212 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { dataStorage, TrashedItem, TRASH_RETENTION_DAYS } from '../services/dataStorage';
+
+interface RecycleBinScreenProps {
+  onBack: () => void;
+}
+
+const KIND_LABELS: Record<TrashedItem['kind'], string> = {
+  meal: 'Meal',
+  exercise: 'Exercise',
+  weight: 'Weigh-in',
+};
+
+const KIND_ICONS: Record<TrashedItem['kind'], string> = {
+  meal: 'coffee',
+  exercise: 'activity',
+  weight: 'trending-down',
+};
+
+const dayLabel = (dateKey: string) => {
+  try {
+    return format(parseISO(dateKey), 'EEE, MMM d');
+  } catch {
+    return dateKey;
+  }
+};
+
+// One line saying what was deleted, enough to recognise it
+const describeItem = (t: TrashedItem): string => {
+  switch (t.kind) {
+    case 'meal': {
+      const kcal = Math.round(t.meal.foods.reduce((sum, f) => sum + (f.calories || 0), 0));
+      return `${t.meal.summary || t.meal.prompt} · ${kcal} kcal`;
+    }
+    case 'exercise':
+      return t.entry.prompt;
+    case 'weight':
+      return `${t.entry.weight.toFixed(1)} kg`;
+  }
+};
+
+const loggedFor = (t: TrashedItem): string =>
+  dayLabel(t.kind === 'weight' ? t.entry.date.slice(0, 10) : t.dateKey);
+
+const daysLeft = (t: TrashedItem): number =>
+  Math.max(0, TRASH_RETENTION_DAYS - differenceInCalendarDays(new Date(), parseISO(t.deletedAt)));
+
+export const RecycleBinScreen: React.FC<RecycleBinScreenProps> = ({ onBack }) => {
+  const [items, setItems] = useState<TrashedItem[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const reload = useCallback(() => {
+    dataStorage.loadTrash().then(setItems).catch(() => setItems([]));
+  }, []);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  const handleRestore = async (t: TrashedItem) => {
+    setBusyId(t.id);
+    try {
+      await dataStorage.restoreFromTrash(t.id);
+    } catch (error) {
+      console.error('Restoring from trash failed', error);
+      Alert.alert('Error', 'Could not restore that item. Please try again.');
+    } finally {
+      setBusyId(null);
+      reload();
+    }
+  };
+
+  const handleDelete = (t: TrashedItem) => {
+    Alert.alert(
+      'Delete forever?',
+      `${describeItem(t)}\n\nThis can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await dataStorage.deleteFromTrash(t.id);
+            reload();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmpty = () => {
+    Alert.alert(
+      'Empty Recycle Bin?',
+      'Everything in the bin is deleted for good. This can\'t be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty',
+          style: 'destructive',
+          onPress: async () => {
+            await dataStorage.emptyTrash();
+            reload();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: Acid.moss }]} edges={['top', 'bottom']}>
+      <View style={[styles.header, { borderBottomColor: Acid.hair }]}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color={Acid.tx} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: Acid.tx }]}>Recycle Bin</Text>
+        {items && items.length > 0 ? (
+          <TouchableOpacity onPress={handleEmpty} style={styles.headerRight}>
+            <Text style={[styles.emptyButton, { color: Acid.error }]}>Empty</Text>
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerRight} />
+        )}
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={[styles.description, { color: Acid.tx2 }]}>
+          Deleted meals, exercises and weigh-ins stay here for {TRASH_RETENTION_DAYS} days. Restoring one puts it back on the day it was logged, on every device.
+        </Text>
+
+        {items === null && <ActivityIndicator color={Acid.lime} />}
+
+        {items?.length === 0 && (
+          <Text style={[styles.empty, { color: Acid.tx3 }]}>The recycle bin is empty.</Text>
+        )}
+
+        {items?.map((t) => (
+          <View key={t.id} style={[styles.card, { backgroundColor: Acid.mossDeep, borderColor: Acid.hair }]}>
+            <View style={styles.cardHeader}>
+              <Feather name={KIND_ICONS[t.kind] as any} size={18} color={Acid.tx2} />
+              <Text style={[styles.cardTitle, { color: Acid.tx }]}>{KIND_LABELS[t.kind]}</Text>
+              <Text style={[styles.cardMeta, { color: Acid.tx3 }]}>{loggedFor(t)}</Text>
+            </View>
+            <Text style={[styles.itemText, { color: Acid.tx }]} numberOfLines={2}>{describeItem(t)}</Text>
+            <Text style={[styles.cardMeta, { color: Acid.tx2 }]}>
+              Deleted {format(parseISO(t.deletedAt), "MMM d 'at' h:mm a")} · {daysLeft(t)} {daysLeft(t) === 1 ? 'day' : 'days'} left
+            </Text>
+
+            <View style={styles.actions}>
+              <TouchableOpacity onPress={() => handleDelete(t)} style={[styles.button, { borderColor: Acid.hair2 }]}>
+                <Text style={[styles.buttonText, { color: Acid.tx2 }]}>Delete</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleRestore(t)}
+                disabled={busyId !== null}
+                style={[styles.button, { backgroundColor: Acid.lime, borderColor: Acid.lime }]}
+              >
+                {busyId === t.id ? (
+                  <ActivityIndicator size="small" color={Acid.moss} />
+                ) : (
+                  <Text style={[styles.buttonText, { color: Acid.moss }]}>Restore</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: { padding: 8 },
+  headerTitle: { fontSize: Typography.fontSize.xl, fontWeight: Typography.fontWeight.semiBold },
+  headerRight: { width: 56, alignItems: 'flex-end' },
+  emptyButton: { fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold },
+  content: { padding: 16 },
+  description: { fontSize: Typography.fontSize.md, marginBottom: 24, lineHeight: 22 },
+  empty: { fontSize: Typography.fontSize.md, textAlign: 'center', marginTop: 24 },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 8 },
+  cardTitle: { flex: 1, fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold },
+  cardMeta: { fontSize: Typography.fontSize.sm, lineHeight: 18 },
+  itemText: { fontSize: Typography.fontSize.md, marginBottom: 6 },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, marginTop: 12 },
+  button: {
+    minWidth: 92,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  buttonText: { fontSize: Typography.fontSize.sm, fontWeight: Typography.fontWeight.semiBold },
+});
@@ -16,8 +16,9 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Feather, MaterialCommunityIcons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Updates from 'expo-updates';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
 import { Typography } from '../constants/typography';
 import { Acid } from '../constants/acid';
 import { APP_VERSION } from '../constants/appVersion';
@@ -26,12 +27,23 @@ import { usePreferences } from '../contexts/PreferencesContext';
 import { featureFlags } from '../config/featureFlags';
 import { dataStorage } from '../services/dataStorage';
 import { authService } from '../services/authService';
+import { dataExportService, ExportKind } from '../services/dataExportService';
+import { historyImportService, IMPORT_SOURCE_LABELS, IMPORT_DATES_AMBIGUOUS, DateOrder } from '../services/historyImportService';
 import { useUser } from '../contexts/UserContext';
 import { SettingItem, SettingSection } from '../components/SettingsComponents';
 import { NotificationSettingsScreen } from './NotificationSettingsScreen';
 import { IntegrationsScreen } from './IntegrationsScreen';
+import { SyncConflictsScreen } from './SyncConflictsScreen';
+import { RecycleBinScreen } from './RecycleBinScreen';
+import { PersonalFoodsScreen } from './PersonalFoodsScreen';
+import { RecipesScreen } from './RecipesScreen';
+import { MealTemplatesScreen } from './MealTemplatesScreen';
+import { FailedSyncsScreen } from './FailedSyncsScreen';
+import { SyncDiagnosticsScreen } from './SyncDiagnosticsScreen';
 import { CalorieBankConfig } from '../services/dataStorage';
 import { enableCalorieBank, disableCalorieBank, updateCalorieBankSettings, archiveInProgressCycle } from '../services/calorieBankService';
+import { setBarcodeSource } from '../services/foodDatabaseService';
+import { fixtureBarcodeSource } from '../services/barcodeFixtures';
 import { getDayName } from '../utils/calorieBankEngine';
 import { format, startOfDay } from 'date-fns';
 
@@ -50,6 +62,10 @@ interface SettingsScreenProps {
   onHowItWorks?: () => void;
   renderAccountScreen?: (onBack: () => void) => React.ReactNode;
   onAccountClose?: () => void;
+  // A restore writes a day Home may be holding in memory, so Home reloads it
+  onRecycleBinClose?: () => void;
+  // Home offers templates above the input bar, so it reloads them after edits
+  onMealTemplatesClose?: () => void;
 }
 
 export const SettingsScreen: React.FC<SettingsScreenProps> = ({
@@ -67,6 +83,8 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
   onHowItWorks,
   renderAccountScreen,
   onAccountClose,
+  onRecycleBinClose,
+  onMealTemplatesClose,
 }) => {
   const { weightUnit, setWeightUnit } = usePreferences();
   // Source of truth for whether the user is signed in. Reactive — when
@@ -76,9 +94,13 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
   const isSignedIn = !!accountInfo?.email;
 
   // Slide-up panel state
-  type SlideUpType = 'account' | 'notifications' | 'connections' | 'weightUnit' | 'dynamic' | 'smartSuggest' | 'patternDetection' | 'weeklyOverview' | 'grocery' | 'calorieBank';
+  type SlideUpType = 'account' | 'notifications' | 'connections' | 'weightUnit' | 'dynamic' | 'smartSuggest' | 'patternDetection' | 'weeklyOverview' | 'grocery' | 'calorieBank' | 'syncConflicts' | 'failedSyncs' | 'syncDiagnostics' | 'recycleBin' | 'personalFoods' | 'recipes' | 'mealTemplates';
   const [activeSlideUp, setActiveSlideUp] = useState<SlideUpType | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [openConflictCount, setOpenConflictCount] = useState(0);
+  const [deadLetterCount, setDeadLetterCount] = useState(0);
   const adminTapCount = useRef(0);
   const adminTapTimer = useRef<NodeJS.Timeout | null>(null);
   const activeSlideUpRef = useRef<SlideUpType | null>(null);
@@ -143,6 +165,15 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     }).start();
   };
 
+  const refreshSyncCounts = () => {
+    dataStorage.loadSyncConflicts()
+      .then((list) => setOpenConflictCount(list.filter((c) => !c.restoredAt).length))
+      .catch(() => {});
+    dataStorage.loadDeadLetters()
+      .then((list) => setDeadLetterCount(list.length))
+      .catch(() => {});
+  };
+
   const closeSlideUp = () => {
     const closingType = activeSlideUpRef.current;
     Animated.timing(slideUpAnim, {
@@ -157,6 +188,15 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
         // refresh its own state and the auth listener will propagate.
         onAccountClose?.();
       }
+      if (closingType === 'syncConflicts' || closingType === 'failedSyncs' || closingType === 'syncDiagnostics') {
+        refreshSyncCounts();
+      }
+      if (closingType === 'recycleBin') {
+        onRecycleBinClose?.();
+      }
+      if (closingType === 'mealTemplates') {
+        onMealTemplatesClose?.();
+      }
     });
   };
 
@@ -184,6 +224,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
 
   useEffect(() => {
     checkFeatureFlags();
+    refreshSyncCounts();
   }, []);
 
   const checkFeatureFlags = async () => {
@@ -233,6 +274,89 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     await dataStorage.savePreferences({ dynamicAdjustmentThreshold: val });
   };
 
+  const runExport = async (kind: ExportKind) => {
+    setIsExporting(true);
+    try {
+      await dataExportService.exportAndShare(kind);
+    } catch (error) {
+      console.error('Data export failed', error);
+      Alert.alert('Export Failed', 'Could not build your export. Nothing was shared, please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportData = () => {
+    if (isExporting) return;
+    Alert.alert(
+      'Download My Data',
+      'The full archive has everything: meals, exercise, weigh-ins, water, goals and settings. The CSVs open in any spreadsheet.',
+      [
+        { text: 'Full archive (JSON)', onPress: () => runExport('archive') },
+        { text: 'Foods (CSV)', onPress: () => runExport('foods') },
+        { text: 'Weigh-ins (CSV)', onPress: () => runExport('weights') },
+        { text: 'Exercise (CSV)', onPress: () => runExport('exercises') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const handleImportHistory = async () => {
+    if (isImporting) return;
+    let text: string;
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) return;
+      const asset = picked.assets[0];
+
+      // On web the picker hands back a blob: URL that FileSystem can't read
+      text = Platform.OS === 'web'
+        ? await (await fetch(asset.uri)).text()
+        : await FileSystem.readAsStringAsync(asset.uri);
+    } catch (error: any) {
+      console.error('History import failed', error);
+      Alert.alert('Import Failed', 'Could not read that file. Nothing was imported.');
+      return;
+    }
+    await runImport(text);
+  };
+
+  const runImport = async (text: string, dateOrder?: DateOrder) => {
+    setIsImporting(true);
+    try {
+      const result = await historyImportService.importCsv(text, dateOrder);
+
+      const lines = [
+        `${result.meals} meals across ${result.days} days imported from ${IMPORT_SOURCE_LABELS[result.source]}.`,
+      ];
+      if (result.alreadyImported > 0) lines.push(`${result.alreadyImported} meals were already here and were skipped.`);
+      if (result.skippedRows > 0) lines.push(`${result.skippedRows} rows had no date or nutrition and were left out.`);
+      Alert.alert('Import Complete', lines.join('\n\n'));
+    } catch (error: any) {
+      // Every date in the file fits both readings, so only the person who made
+      // it can say which. Nothing has been written yet
+      if (error?.message === IMPORT_DATES_AMBIGUOUS) {
+        Alert.alert(
+          'Which way are the dates?',
+          'Every date in this file could be read either way. How did your old app write 25 March?',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: '03/25 (month first)', onPress: () => { void runImport(text, 'month-first'); } },
+            { text: '25/03 (day first)', onPress: () => { void runImport(text, 'day-first'); } },
+          ]
+        );
+        return;
+      }
+      console.error('History import failed', error);
+      Alert.alert('Import Failed', error?.message || 'Could not read that file. Nothing was imported.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleClearCache = () => {
     Alert.alert(
       'Clear All Data',
@@ -248,7 +372,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
             // re-pulled after the reload below. Best effort: if offline, proceed.
             try { await dataStorage.flushSyncQueue(); } catch { /* proceed regardless */ }
             try {
-              await AsyncStorage.clear();
+              await dataStorage.clearAllData();
             } catch (error) {
               Alert.alert('Error', 'Failed to clear data. Please try again.');
               return;
@@ -547,6 +671,64 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
 
         {/* Data Management */}
         <SettingSection title="Data Management">
+          <SettingItem
+            icon="download"
+            title="Download My Data"
+            subtitle={isExporting ? 'Preparing…' : 'Export your log as a JSON archive or CSV'}
+            onPress={handleExportData}
+          />
+          <SettingItem
+            icon="upload"
+            title="Import History"
+            subtitle={isImporting ? 'Importing…' : 'Bring your log over from MyFitnessPal, Cronometer or Lose It!'}
+            onPress={handleImportHistory}
+          />
+          <SettingItem
+            icon="book"
+            title="My Foods"
+            subtitle="Your own foods and saved labels, used instead of an estimate"
+            onPress={() => openSlideUp('personalFoods')}
+          />
+          <SettingItem
+            icon="layers"
+            title="My Recipes"
+            subtitle="Cook once, log it by the bowl all week"
+            onPress={() => openSlideUp('recipes')}
+          />
+          <SettingItem
+            icon="zap"
+            title="Meal Templates"
+            subtitle="Meals you log in one tap, with the numbers they were saved with"
+            onPress={() => openSlideUp('mealTemplates')}
+          />
+          <SettingItem
+            icon="rotate-ccw"
+            title="Recycle Bin"
+            subtitle="Restore meals, exercises and weigh-ins deleted in the last 30 days"
+            onPress={() => openSlideUp('recycleBin')}
+          />
+          <SettingItem
+            icon="git-merge"
+            title="Sync Conflicts"
+            subtitle={openConflictCount > 0
+              ? `${openConflictCount} edit${openConflictCount === 1 ? '' : 's'} replaced by a newer one. Review or restore`
+              : 'Edits replaced by a newer one on another device'}
+            onPress={() => openSlideUp('syncConflicts')}
+          />
+          <SettingItem
+            icon="alert-triangle"
+            title="Failed Syncs"
+            subtitle={deadLetterCount > 0
+              ? `${deadLetterCount} change${deadLetterCount === 1 ? '' : 's'} could not reach the cloud. Retry or discard`
+              : 'Nothing waiting'}
+            onPress={() => openSlideUp('failedSyncs')}
+          />
+          <SettingItem
+            icon="activity"
+            title="Sync Diagnostics"
+            subtitle="Queue, live updates and cloud counts, for support"
+            onPress={() => openSlideUp('syncDiagnostics')}
+          />
           <SettingItem
             icon="trash-2"
             title="Clear Cache"
@@ -572,6 +754,14 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
                 Alert.alert('Done', 'Plateau data injected.');
               }}
             />
+            <SettingItem
+              title="Use Barcode Fixtures"
+              subtitle="Scan lookups read barcodeFixtures.ts until restart"
+              onPress={() => {
+                setBarcodeSource(fixtureBarcodeSource);
+                Alert.alert('Done', 'Barcode lookups now use the local fixtures.');
+              }}
+            />
           </SettingSection>
         )}
 
@@ -639,6 +829,41 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
               <IntegrationsScreen onBack={closeSlideUp} />
             )}
 
+            {/* ── Sync Conflicts ── */}
+            {activeSlideUp === 'syncConflicts' && (
+              <SyncConflictsScreen onBack={closeSlideUp} />
+            )}
+
+            {/* ── Failed Syncs ── */}
+            {activeSlideUp === 'failedSyncs' && (
+              <FailedSyncsScreen onBack={closeSlideUp} />
+            )}
+
+            {/* ── Sync Diagnostics ── */}
+            {activeSlideUp === 'syncDiagnostics' && (
+              <SyncDiagnosticsScreen onBack={closeSlideUp} />
+            )}
+
+            {/* ── Recycle Bin ── */}
+            {activeSlideUp === 'recycleBin' && (
+              <RecycleBinScreen onBack={closeSlideUp} />
+            )}
+
+            {/* ── My Foods ── */}
+            {activeSlideUp === 'personalFoods' && (
+              <PersonalFoodsScreen onBack={closeSlideUp} />
+            )}
+
+            {/* ── My Recipes ── */}
+            {activeSlideUp === 'recipes' && (
+              <RecipesScreen onBack={closeSlideUp} />
+            )}
+
+            {/* ── Meal Templates ── */}
+            {activeSlideUp === 'mealTemplates' && (
+              <MealTemplatesScreen onBack={closeSlideUp} />
+            )}
+
             {/* ── Weight Unit ── */}
             {activeSlideUp === 'weightUnit' && (
               <View style={{ flex: 1 }}>
@@ -0,0 +1,195 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { dataStorage, SyncConflict } from '../services/dataStorage';
+
+interface SyncConflictsScreenProps {
+  onBack: () => void;
+}
+
+const ENTITY_LABELS: Record<SyncConflict['entity'], string> = {
+  meal: 'Meal',
+  weight: 'Weigh-in',
+  exercise: 'Exercise',
+  goals: 'Goals',
+  preferences: 'Preferences',
+};
+
+const ENTITY_ICONS: Record<SyncConflict['entity'], string> = {
+  meal: 'coffee',
+  weight: 'trending-down',
+  exercise: 'activity',
+  goals: 'target',
+  preferences: 'sliders',
+};
+
+// One line saying what the dropped version held, enough to recognise it
+const describeDropped = (c: SyncConflict): string => {
+  switch (c.entity) {
+    case 'meal': {
+      const kcal = Math.round(c.dropped.meal.foods.reduce((sum, f) => sum + (f.calories || 0), 0));
+      return `${c.dropped.meal.prompt} · ${kcal} kcal`;
+    }
+    case 'weight':
+      return `${c.dropped.weight.toFixed(1)} kg on ${format(parseISO(c.dropped.date), 'MMM d')}`;
+    case 'exercise':
+      return c.dropped.entry.prompt;
+    case 'goals':
+      return `${Math.round(c.dropped.calories)} kcal a day`;
+    case 'preferences':
+      return 'Units and reminder settings';
+  }
+};
+
+const formatWhen = (iso?: string) => {
+  if (!iso) return 'unknown time';
+  try {
+    return format(parseISO(iso), "MMM d 'at' h:mm a");
+  } catch {
+    return 'unknown time';
+  }
+};
+
+export const SyncConflictsScreen: React.FC<SyncConflictsScreenProps> = ({ onBack }) => {
+  const [conflicts, setConflicts] = useState<SyncConflict[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const reload = useCallback(() => {
+    dataStorage.loadSyncConflicts().then(setConflicts).catch(() => setConflicts([]));
+  }, []);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  const handleRestore = (c: SyncConflict) => {
+    Alert.alert(
+      'Restore this version?',
+      `${describeDropped(c)}\n\nIt replaces what you have now on every device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            setBusyId(c.id);
+            try {
+              await dataStorage.restoreSyncConflict(c.id);
+            } catch (error) {
+              console.error('Restoring sync conflict failed', error);
+              Alert.alert('Error', 'Could not restore that version. Please try again.');
+            } finally {
+              setBusyId(null);
+              reload();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDismiss = async (c: SyncConflict) => {
+    await dataStorage.dismissSyncConflict(c.id);
+    reload();
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: Acid.moss }]} edges={['top', 'bottom']}>
+      <View style={[styles.header, { borderBottomColor: Acid.hair }]}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color={Acid.tx} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: Acid.tx }]}>Sync Conflicts</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={[styles.description, { color: Acid.tx2 }]}>
+          When two devices edit the same thing before they sync, the newer edit wins. The other version is kept here so you can bring it back.
+        </Text>
+
+        {conflicts === null && <ActivityIndicator color={Acid.lime} />}
+
+        {conflicts?.length === 0 && (
+          <Text style={[styles.empty, { color: Acid.tx3 }]}>No conflicts. Everything synced cleanly.</Text>
+        )}
+
+        {conflicts?.map((c) => (
+          <View key={c.id} style={[styles.card, { backgroundColor: Acid.mossDeep, borderColor: Acid.hair }]}>
+            <View style={styles.cardHeader}>
+              <Feather name={ENTITY_ICONS[c.entity] as any} size={18} color={Acid.tx2} />
+              <Text style={[styles.cardTitle, { color: Acid.tx }]}>{ENTITY_LABELS[c.entity]}</Text>
+              <Text style={[styles.cardMeta, { color: Acid.tx3 }]}>{formatWhen(c.detectedAt)}</Text>
+            </View>
+            <Text style={[styles.dropped, { color: Acid.tx }]} numberOfLines={2}>{describeDropped(c)}</Text>
+            <Text style={[styles.cardMeta, { color: Acid.tx2 }]}>
+              {c.kept === 'remote'
+                ? `Edited here ${formatWhen(c.droppedUpdatedAt)}, replaced by a newer edit from another device.`
+                : `From another device ${formatWhen(c.droppedUpdatedAt)}, replaced by a newer edit made here.`}
+            </Text>
+
+            {c.restoredAt ? (
+              <Text style={[styles.cardMeta, { color: Acid.good, marginTop: 10 }]}>Restored {formatWhen(c.restoredAt)}</Text>
+            ) : (
+              <View style={styles.actions}>
+                <TouchableOpacity onPress={() => handleDismiss(c)} style={[styles.button, { borderColor: Acid.hair2 }]}>
+                  <Text style={[styles.buttonText, { color: Acid.tx2 }]}>Dismiss</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleRestore(c)}
+                  disabled={busyId !== null}
+                  style={[styles.button, { backgroundColor: Acid.lime, borderColor: Acid.lime }]}
+                >
+                  {busyId === c.id ? (
+                    <ActivityIndicator size="small" color={Acid.moss} />
+                  ) : (
+                    <Text style={[styles.buttonText, { color: Acid.moss }]}>Restore</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: { padding: 8 },
+  headerTitle: { fontSize: Typography.fontSize.xl, fontWeight: Typography.fontWeight.semiBold },
+  headerRight: { width: 40 },
+  content: { padding: 16 },
+  description: { fontSize: Typography.fontSize.md, marginBottom: 24, lineHeight: 22 },
+  empty: { fontSize: Typography.fontSize.md, textAlign: 'center', marginTop: 24 },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 8 },
+  cardTitle: { flex: 1, fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold },
+  cardMeta: { fontSize: Typography.fontSize.sm, lineHeight: 18 },
+  dropped: { fontSize: Typography.fontSize.md, marginBottom: 6 },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, marginTop: 12 },
+  button: {
+    minWidth: 92,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  buttonText: { fontSize: Typography.fontSize.sm, fontWeight: Typography.fontWeight.semiBold },
+});
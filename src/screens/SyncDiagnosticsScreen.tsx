@@ -0,0 +1,237 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Acid } from '../constants/acid';
+import { Typography } from '../constants/typography';
+import { APP_VERSION } from '../constants/appVersion';
+import { dataStorage, SyncDiagnostics } from '../services/dataStorage';
+import { getRealtimeStatus, RealtimeStatus } from '../services/realtimeSyncService';
+
+interface SyncDiagnosticsScreenProps {
+  onBack: () => void;
+}
+
+const when = (ms: number | null) =>
+  ms ? `${format(new Date(ms), 'MMM d, HH:mm:ss')} (${formatDistanceToNow(new Date(ms), { addSuffix: true })})` : 'Never';
+
+// Plain text so it pastes cleanly into an email or a support chat
+const buildReport = (d: SyncDiagnostics, rt: RealtimeStatus): string => {
+  const queue = Object.entries(d.queueByEntity).map(([entity, n]) => `${entity}=${n}`).join(', ') || 'empty';
+  const remote = d.remote
+    ? `meals=${d.remote.meals} weights=${d.remote.weights} summaries=${d.remote.summaries}`
+    : 'unavailable';
+  return [
+    `TrackKcal v${APP_VERSION} sync report, ${new Date().toISOString()}`,
+    `signed in: ${d.signedIn ? 'yes' : 'no'}`,
+    `queue: ${d.queueDepth} (${queue}), retrying ${d.retryingOps}`,
+    `failed syncs: ${d.deadLetters}, open conflicts: ${d.openConflicts}`,
+    `last meals fetch: ${d.lastMealsSyncAt ? new Date(d.lastMealsSyncAt).toISOString() : 'never'}`,
+    `realtime: ${rt.status}${rt.statusAt ? ` since ${new Date(rt.statusAt).toISOString()}` : ''}, last event ${rt.lastEventAt ? new Date(rt.lastEventAt).toISOString() : 'none'}`,
+    `realtime events: ${Object.entries(rt.lastEventByEntity).map(([entity, at]) => `${entity}=${new Date(at!).toISOString()}`).join(', ') || 'none'}`,
+    `local: meals=${d.local.meals} (${d.local.mealDays} days) weights=${d.local.weights} summaries=${d.local.summaries}`,
+    `remote: ${remote}`,
+    `local schema: v${d.localSchema.version} of v${d.localSchema.latest}${d.localSchema.lastError ? ` (failed: ${d.localSchema.lastError})` : ''}`,
+  ].join('\n');
+};
+
+const Row = ({ label, value, warn }: { label: string; value: string; warn?: boolean }) => (
+  <View style={[styles.row, { borderBottomColor: Acid.hair }]}>
+    <Text style={[styles.rowLabel, { color: Acid.tx2 }]}>{label}</Text>
+    <Text style={[styles.rowValue, { color: warn ? Acid.error : Acid.tx }]}>{value}</Text>
+  </View>
+);
+
+export const SyncDiagnosticsScreen: React.FC<SyncDiagnosticsScreenProps> = ({ onBack }) => {
+  const [diagnostics, setDiagnostics] = useState<SyncDiagnostics | null>(null);
+  const [realtime, setRealtime] = useState<RealtimeStatus>(getRealtimeStatus());
+  const [isResyncing, setIsResyncing] = useState(false);
+
+  const reload = useCallback(async () => {
+    setRealtime(getRealtimeStatus());
+    try {
+      setDiagnostics(await dataStorage.getSyncDiagnostics());
+    } catch (error) {
+      console.error('Loading sync diagnostics failed', error);
+    }
+  }, []);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  const handleResync = () => {
+    Alert.alert(
+      'Force Full Resync',
+      'Sends anything waiting, then reloads your meals, weigh-ins, exercise and stats from the cloud. Nothing on this device is deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Resync',
+          onPress: async () => {
+            setIsResyncing(true);
+            try {
+              await dataStorage.forceFullResync();
+            } catch (error) {
+              console.error('Full resync failed', error);
+              Alert.alert('Resync Failed', 'Could not finish the resync. Check your connection and try again.');
+            } finally {
+              setIsResyncing(false);
+              reload();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!diagnostics) return;
+    await Clipboard.setStringAsync(buildReport(diagnostics, realtime));
+    Alert.alert('Copied', 'The sync report is on your clipboard. Paste it into your message to support.');
+  };
+
+  const d = diagnostics;
+  const countRow = (label: string, local: number, remote: number | undefined) => (
+    <Row
+      label={label}
+      value={`${local} here · ${remote ?? '—'} cloud`}
+      warn={remote !== undefined && remote !== local}
+    />
+  );
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: Acid.moss }]} edges={['top', 'bottom']}>
+      <View style={[styles.header, { borderBottomColor: Acid.hair }]}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Feather name="arrow-left" size={24} color={Acid.tx} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: Acid.tx }]}>Sync Diagnostics</Text>
+        <TouchableOpacity onPress={reload} style={styles.backButton}>
+          <Feather name="refresh-cw" size={20} color={Acid.tx2} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {!d ? (
+          <ActivityIndicator color={Acid.lime} />
+        ) : (
+          <>
+            <Text style={[styles.sectionTitle, { color: Acid.tx3 }]}>Queue</Text>
+            <Row label="Waiting to sync" value={String(d.queueDepth)} warn={d.queueDepth > 0 && d.signedIn} />
+            {Object.entries(d.queueByEntity).map(([entity, n]) => (
+              <Row key={entity} label={`  ${entity.replace(/_/g, ' ')}`} value={String(n)} />
+            ))}
+            <Row label="Retrying after an error" value={String(d.retryingOps)} warn={d.retryingOps > 0} />
+            <Row label="Failed syncs" value={String(d.deadLetters)} warn={d.deadLetters > 0} />
+            <Row label="Open conflicts" value={String(d.openConflicts)} />
+
+            <Text style={[styles.sectionTitle, { color: Acid.tx3 }]}>Connection</Text>
+            <Row label="Signed in" value={d.signedIn ? 'Yes' : 'No'} warn={!d.signedIn} />
+            <Row label="Last meals fetch" value={when(d.lastMealsSyncAt)} />
+            <Row
+              label="Live updates"
+              value={realtime.status === 'IDLE' ? 'Off' : realtime.status}
+              warn={d.signedIn && realtime.status !== 'SUBSCRIBED'}
+            />
+            <Row label="Last live update" value={when(realtime.lastEventAt)} />
+            {Object.entries(realtime.lastEventByEntity).map(([entity, at]) => (
+              <Row key={entity} label={`  ${entity}`} value={when(at ?? null)} />
+            ))}
+
+            <Text style={[styles.sectionTitle, { color: Acid.tx3 }]}>Records</Text>
+            {countRow('Meals', d.local.meals, d.remote?.meals)}
+            {countRow('Weigh-ins', d.local.weights, d.remote?.weights)}
+            {countRow('Day summaries', d.local.summaries, d.remote?.summaries)}
+            {!d.remote && d.signedIn && (
+              <Text style={[styles.note, { color: Acid.tx3 }]}>Cloud counts are unavailable right now.</Text>
+            )}
+            <Row
+              label="Local data version"
+              value={`${d.localSchema.version} of ${d.localSchema.latest}`}
+              warn={d.localSchema.version < d.localSchema.latest}
+            />
+            {d.localSchema.lastError && (
+              <Text style={[styles.note, { color: Acid.error }]}>Update step failed: {d.localSchema.lastError}</Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: Acid.lime }]}
+              onPress={handleResync}
+              disabled={isResyncing || !d.signedIn}
+            >
+              {isResyncing ? (
+                <ActivityIndicator color={Acid.moss} size="small" />
+              ) : (
+                <>
+                  <Feather name="refresh-cw" size={18} color={Acid.moss} />
+                  <Text style={[styles.primaryButtonText, { color: Acid.moss }]}>Force Full Resync</Text>
+                </>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.secondaryButton, { borderColor: Acid.hair2 }]} onPress={handleCopy}>
+              <Feather name="copy" size={16} color={Acid.tx2} />
+              <Text style={[styles.secondaryButtonText, { color: Acid.tx2 }]}>Copy Report for Support</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: { padding: 8 },
+  headerTitle: { fontSize: Typography.fontSize.xl, fontWeight: Typography.fontWeight.semiBold },
+  content: { padding: 16 },
+  sectionTitle: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semiBold,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 20,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  rowLabel: { fontSize: Typography.fontSize.md },
+  rowValue: { fontSize: Typography.fontSize.md, fontWeight: '500', flexShrink: 1, textAlign: 'right' },
+  note: { fontSize: Typography.fontSize.sm, marginTop: 8 },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 28,
+  },
+  primaryButtonText: { fontSize: Typography.fontSize.md, fontWeight: Typography.fontWeight.semiBold },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 12,
+    marginBottom: 32,
+  },
+  secondaryButtonText: { fontSize: Typography.fontSize.md },
+});
@@ -961,7 +961,7 @@ export const WeightTrackerScreen: React.FC<WeightTrackerScreenProps> = ({
     // Simplified deletion using object reference
     Alert.alert(
       'Delete Entry',
-      `Delete weight entry for ${format(entry.date, 'd MMM yyyy')}?`,
+      `Delete weight entry for ${format(entry.date, 'd MMM yyyy')}? You can restore it from Settings > Recycle Bin for 30 days.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
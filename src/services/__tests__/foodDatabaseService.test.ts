@@ -0,0 +1,144 @@
+import { fixtureBarcodeSource } from '../barcodeFixtures';
+import {
+  FoodLabel,
+  lookupBarcode,
+  normaliseBarcode,
+  packGrams,
+  servingGrams,
+  setBarcodeSource,
+} from '../foodDatabaseService';
+
+const labelWith = (fields: Partial<FoodLabel>): FoodLabel => ({
+  name: 'Test',
+  brand: null,
+  code: '',
+  servingSize: null,
+  quantity: null,
+  per100g: { calories: 100, protein: 0, carbs: 25, fibre: 0, sugar: null, fat: 0, saturatedFat: null, sodiumMg: null },
+  ...fields,
+});
+
+describe('normaliseBarcode', () => {
+  it('keeps a valid EAN-13 as it is', () => {
+    expect(normaliseBarcode('2000000000015')).toBe('2000000000015');
+  });
+
+  it('files UPC-A under its EAN-13 form', () => {
+    expect(normaliseBarcode('042100005264')).toBe('0042100005264');
+  });
+
+  it('ignores spaces and dashes a typed code carries', () => {
+    expect(normaliseBarcode('0 42100-00526 4')).toBe('0042100005264');
+  });
+
+  it('rejects a code whose check digit fails', () => {
+    expect(normaliseBarcode('2000000000016')).toBeNull();
+    expect(normaliseBarcode('042100005265')).toBeNull();
+  });
+
+  it('rejects lengths no barcode has', () => {
+    expect(normaliseBarcode('12345')).toBeNull();
+  });
+
+  it('keeps an eight digit code whose EAN-8 check holds', () => {
+    expect(normaliseBarcode('20000004')).toBe('20000004');
+    expect(normaliseBarcode('20000004', 'ean8')).toBe('20000004');
+  });
+
+  it('expands an eight digit code that only holds as UPC-E', () => {
+    expect(normaliseBarcode('04252614')).toBe('0042100005264');
+    expect(normaliseBarcode('04252614', 'upc_e')).toBe('0042100005264');
+  });
+
+  it('takes the scanner at its word when it says UPC-E', () => {
+    // Valid both ways. Typed, EAN-8 wins; scanned as UPC-E, it is expanded
+    expect(normaliseBarcode('01000009')).toBe('01000009');
+    expect(normaliseBarcode('01000009', 'upc_e')).toBe('0010000000009');
+    expect(normaliseBarcode('01234565')).toBe('01234565');
+    expect(normaliseBarcode('01234565', 'upc_e')).toBe('0012345000065');
+  });
+
+  it('rejects a UPC-E scan that does not expand to a valid UPC-A', () => {
+    expect(normaliseBarcode('04252611', 'upc_e')).toBeNull();
+    expect(normaliseBarcode('04252611')).toBeNull();
+  });
+});
+
+describe('lookupBarcode against the fixtures', () => {
+  beforeEach(() => setBarcodeSource(fixtureBarcodeSource));
+  afterEach(() => setBarcodeSource(null));
+
+  it('turns a record into a label', async () => {
+    const label = await lookupBarcode('2000000000015');
+    expect(label).toMatchObject({
+      name: 'Fresh Laban Full Fat',
+      brand: 'Fixture Dairy',
+      code: '2000000000015',
+      servingSize: '250 ml',
+      quantity: '1 L',
+    });
+    expect(label?.per100g.calories).toBe(60);
+    // salt 0.13 g is 52 mg of sodium
+    expect(label?.per100g.sodiumMg).toBe(52);
+  });
+
+  it('adds fibre back into EU style carbohydrate', async () => {
+    const label = await lookupBarcode('2000000000022');
+    expect(label?.per100g.carbs).toBe(36);
+    expect(label?.per100g.fibre).toBe(6);
+  });
+
+  it('drops a record that fails arithmetic', async () => {
+    await expect(lookupBarcode('2000000000039')).resolves.toBeNull();
+  });
+
+  it('finds an EAN-8 product', async () => {
+    const label = await lookupBarcode('20000004', 'ean8');
+    expect(label?.name).toBe('Chocolate Wafer');
+  });
+
+  it('answers null for a valid code the source does not have', async () => {
+    await expect(lookupBarcode('2000000000046')).resolves.toBeNull();
+  });
+
+  it('never asks the source about a code that fails its check digit', async () => {
+    const source = jest.fn(fixtureBarcodeSource);
+    setBarcodeSource(source);
+    await expect(lookupBarcode('2000000000016')).resolves.toBeNull();
+    expect(source).not.toHaveBeenCalled();
+  });
+
+  it('passes the source the normalised code', async () => {
+    const source = jest.fn(fixtureBarcodeSource);
+    setBarcodeSource(source);
+    await lookupBarcode('04252614', 'upc_e');
+    expect(source).toHaveBeenCalledWith('0042100005264');
+  });
+
+  it('throws when the lookup itself fails', async () => {
+    setBarcodeSource(async () => { throw new Error('Open Food Facts answered 503'); });
+    await expect(lookupBarcode('2000000000015')).rejects.toThrow('503');
+  });
+});
+
+describe('serving and pack grams', () => {
+  it('reads millilitres and litres as grams', () => {
+    expect(servingGrams(labelWith({ servingSize: '250 ml' }))).toBe(250);
+    expect(packGrams(labelWith({ quantity: '1 L' }))).toBe(1000);
+    expect(packGrams(labelWith({ quantity: '1,5 l' }))).toBe(1500);
+  });
+
+  it('finds the weight inside a longer serving', () => {
+    expect(servingGrams(labelWith({ servingSize: '2 slices (80 g)' }))).toBe(80);
+  });
+
+  it('gives the whole pack for a multipack', () => {
+    expect(packGrams(labelWith({ quantity: '6 x 25 g' }))).toBe(150);
+    expect(packGrams(labelWith({ quantity: '4×30g' }))).toBe(120);
+  });
+
+  it('is null when there is no weight to read', () => {
+    expect(servingGrams(labelWith({ servingSize: null }))).toBeNull();
+    expect(servingGrams(labelWith({ servingSize: '1 bar' }))).toBeNull();
+  });
+});
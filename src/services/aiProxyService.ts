@@ -45,6 +45,14 @@ interface AIResponse {
 
 const DEFAULT_AI_TIMEOUT_MS = 60_000;
 
+// The request never left the phone: no signal, airplane mode, DNS. Unlike a
+// timeout or an error from the proxy, this one is worth waiting out, so the
+// offline queue keys on it and on nothing else
+export const AI_UNREACHABLE = 'AI_UNREACHABLE';
+
+export const isAIUnreachable = (e: unknown): boolean =>
+  e instanceof Error && e.message === AI_UNREACHABLE;
+
 function isAbortError(e: any): boolean {
   if (!e) return false;
   if (e.name === 'AbortError') return true;
@@ -95,6 +103,7 @@ export async function invokeAI(request: AIRequest): Promise<AIResponse> {
 
     const aborted = controller.signal.aborted || isAbortError(err);
     const isTimeout = aborted && !callerSignal?.aborted;
+    if (!aborted && err instanceof TypeError) throw new Error(AI_UNREACHABLE);
     const message = isTimeout
       ? `AI proxy (${request.call_type || 'unknown'}) timed out after ${timeoutMs}ms`
       : (err?.message || 'AI request failed');
@@ -118,6 +127,13 @@ export async function invokeAI(request: AIRequest): Promise<AIResponse> {
   clearTimeout(timer);
   if (callerSignal) callerSignal.removeEventListener('abort', onCallerAbort);
 
+  // supabase-js reports a fetch that never connected as an error rather than
+  // throwing. An aborted one looks the same, and that is a timeout
+  if (error?.name === 'FunctionsFetchError' && !controller.signal.aborted) {
+    if (__DEV__) console.warn('[invokeAI] could not reach the proxy:', error.context?.message ?? error.message);
+    throw new Error(AI_UNREACHABLE);
+  }
+
   if (error) {
     let message = error.message || 'AI request failed';
 
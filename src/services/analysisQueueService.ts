@@ -0,0 +1,379 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { AppState, Platform } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { analyzeFoodWithChatGPT, analyzePhotoReading, readFoodPhoto } from './openaiService';
+import { isAIUnreachable } from './aiProxyService';
+import { dataStorage } from './dataStorage';
+import { ParsedFood } from '../utils/foodNutrition';
+import type { ClockSlot } from '../utils/mealSlots';
+
+// Meals logged while the food AI cannot be reached. The words or the photo are
+// kept on the device and analysed later, so nobody on a flight or in a
+// basement gym has to type their lunch twice.
+//
+// The queue only holds the input. The meal it becomes is written by whoever
+// registered with start(), through the same path a live analysis takes, and a
+// job leaves the queue only once that write has landed. If the app dies in
+// between, the job is still here on the next launch.
+//
+// The same list is the journal of live analyses. A meal being analysed right
+// now is written here as 'running' before the AI is called and removed when
+// the call settles. A 'running' job found at launch was cut off by the app
+// dying, and is queued again rather than lost.
+
+const QUEUE_KEY = '@trackkal:analysisQueue';
+const PHOTO_DIR = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}queued-analyses/` : null;
+
+// 15s, 30s, 1m, 2m... capped at 30 minutes. Coming back to the app or getting
+// a connection back skips the wait.
+const BASE_DELAY_MS = 15_000;
+const MAX_DELAY_MS = 30 * 60_000;
+// A job that has failed this often with a connection up is not waiting for the
+// network. It stops retrying by itself and waits for a tap.
+const MAX_ATTEMPTS = 8;
+
+export interface QueuedAnalysis {
+  id: string; // the id the meal gets, so its row keeps its place in the log
+  dateKey: string; // yyyy-MM-dd the meal is logged on
+  kind: 'text' | 'photo';
+  prompt: string; // what was typed, or the photo's note
+  imageUri?: string;
+  timestamp: number; // when it was logged; the meal keeps this time
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt: number; // ms
+  state: 'running' | 'queued' | 'failed';
+  lastError?: string;
+}
+
+export interface AnalysisOutcome {
+  foods: ParsedFood[];
+  summary?: string;
+  mealSlot?: ClockSlot;
+}
+
+type ApplyOutcome = (job: QueuedAnalysis, outcome: AnalysisOutcome) => Promise<void>;
+
+let applyOutcome: ApplyOutcome | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let draining: Promise<void> | null = null;
+const listeners = new Set<(jobs: QueuedAnalysis[]) => void>();
+// Journaled this session, so still owned by a live call. Anything else marked
+// 'running' is left over from a session that died
+const liveIds = new Set<string>();
+
+async function readQueue(): Promise<QueuedAnalysis[]> {
+  try {
+    const raw = await AsyncStorage.getItem(QUEUE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Every change goes through here, one at a time, so a job finishing never
+// races a new one being added
+let writeChain: Promise<unknown> = Promise.resolve();
+function updateQueue(fn: (jobs: QueuedAnalysis[]) => QueuedAnalysis[]): Promise<QueuedAnalysis[]> {
+  const next = writeChain.then(async () => {
+    const jobs = fn(await readQueue());
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(jobs));
+    listeners.forEach((listener) => {
+      try {
+        listener(jobs);
+      } catch (e) {
+        if (__DEV__) console.error('[analysisQueue] listener threw:', e);
+      }
+    });
+    return jobs;
+  });
+  writeChain = next.catch(() => {});
+  return next;
+}
+
+const backoff = (attempts: number) => Math.min(BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_DELAY_MS);
+
+// The picker hands back a cache path the OS may clear while we wait. Keep our
+// own copy. On web there is no file system and the uri is used as is.
+async function keepPhoto(id: string, imageUri: string): Promise<string> {
+  if (!PHOTO_DIR || Platform.OS === 'web') return imageUri;
+  try {
+    await FileSystem.makeDirectoryAsync(PHOTO_DIR, { intermediates: true });
+    const ext = imageUri.toLowerCase().endsWith('.png') ? 'png' : 'jpg';
+    const kept = `${PHOTO_DIR}${id}.${ext}`;
+    await FileSystem.copyAsync({ from: imageUri, to: kept });
+    return kept;
+  } catch (e) {
+    if (__DEV__) console.warn('[analysisQueue] could not keep the photo, using the original:', e);
+    return imageUri;
+  }
+}
+
+async function dropPhoto(job: QueuedAnalysis): Promise<void> {
+  if (!PHOTO_DIR || !job.imageUri?.startsWith(PHOTO_DIR)) return;
+  try {
+    await FileSystem.deleteAsync(job.imageUri, { idempotent: true });
+  } catch { /* an orphaned file is harmless */ }
+}
+
+// Null means the AI could not be reached and the job should wait. A thrown
+// error means it was reached and had nothing to say, or the photo could not be
+// read at all; either way it counts toward MAX_ATTEMPTS.
+async function analyze(job: QueuedAnalysis): Promise<AnalysisOutcome | null> {
+  if (job.kind === 'photo') {
+    if (!job.imageUri) throw new Error('The photo is missing');
+    let reading;
+    try {
+      reading = await readFoodPhoto(job.imageUri);
+    } catch (e) {
+      if (__DEV__) console.warn('[analysisQueue] photo read failed:', e);
+      if (isAIUnreachable(e)) return null;
+      throw e;
+    }
+    const note = job.prompt !== 'Photo' ? job.prompt : undefined;
+    const result = await analyzePhotoReading(reading, note);
+    if (!result.foods?.length) throw new Error('No food found in the photo');
+    return { foods: result.foods, summary: result.summary, mealSlot: result.mealSlot };
+  }
+
+  // Nobody is there to answer a clarifying question, so none is asked
+  const result = await analyzeFoodWithChatGPT(job.prompt, false);
+  if (result.aiUnavailable) return null;
+  if (result.foods.length === 0) throw new Error('No food recognised');
+  return { foods: result.foods, summary: result.summary, mealSlot: result.mealSlot };
+}
+
+async function runJob(job: QueuedAnalysis): Promise<void> {
+  let outcome: AnalysisOutcome | null = null;
+  let error: string | undefined;
+  try {
+    outcome = await analyze(job);
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  // Deleted from the log while the call was out
+  if (!(await readQueue()).some((j) => j.id === job.id)) return;
+
+  if (outcome && applyOutcome) {
+    try {
+      await applyOutcome(job, outcome);
+    } catch (e) {
+      // Analysed but not saved. Keep the job; the next pass costs another call
+      // but loses nothing
+      if (__DEV__) console.error('[analysisQueue] saving the result failed:', e);
+      outcome = null;
+      error = e instanceof Error ? e.message : String(e);
+    }
+    if (outcome) {
+      // The photo stays: the meal shows it now
+      await updateQueue((jobs) => jobs.filter((j) => j.id !== job.id));
+      return;
+    }
+  }
+
+  await updateQueue((jobs) => jobs.map((j) => {
+    if (j.id !== job.id) return j;
+    const attempts = j.attempts + 1;
+    // Still offline: keep waiting however long that takes. Reached but unable
+    // to read it: give up after a few tries
+    const giveUp = error !== undefined && attempts >= MAX_ATTEMPTS;
+    return {
+      ...j,
+      attempts,
+      nextAttemptAt: Date.now() + backoff(attempts),
+      state: giveUp ? 'failed' : 'queued',
+      lastError: error ?? 'Could not reach the food AI',
+    };
+  }));
+}
+
+async function drainDue(): Promise<void> {
+  const now = Date.now();
+  const due = (await readQueue()).filter((j) => j.state === 'queued' && j.nextAttemptAt <= now);
+  for (const job of due) {
+    await runJob(job);
+  }
+}
+
+function schedule(jobs: QueuedAnalysis[]): void {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  if (!applyOutcome) return;
+  const waiting = jobs.filter((j) => j.state === 'queued');
+  if (waiting.length === 0) return;
+  const soonest = Math.min(...waiting.map((j) => j.nextAttemptAt));
+  timer = setTimeout(() => { analysisQueue.kick(); }, Math.max(0, soonest - Date.now()));
+}
+
+type AnalysisInput = Pick<QueuedAnalysis, 'id' | 'dateKey' | 'kind' | 'prompt' | 'imageUri' | 'timestamp'>;
+
+async function putJob(input: AnalysisInput, state: 'running' | 'queued'): Promise<QueuedAnalysis[]> {
+  // A journaled photo already has its copy; reuse it rather than copying again
+  const existing = (await readQueue()).find((j) => j.id === input.id);
+  const imageUri = existing?.imageUri ?? (input.imageUri ? await keepPhoto(input.id, input.imageUri) : undefined);
+  const job: QueuedAnalysis = {
+    ...input,
+    imageUri,
+    queuedAt: existing?.queuedAt ?? new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: Date.now() + BASE_DELAY_MS,
+    state,
+  };
+  return updateQueue((current) => [...current.filter((j) => j.id !== job.id), job]);
+}
+
+// Jobs cut off by the app dying. A photo whose file is gone cannot be read
+// again, so it is marked failed; it still shows in the log so it can be deleted.
+// One whose meal was saved before the app died is done, and only the entry goes
+async function recoverInterrupted(): Promise<void> {
+  let orphans = (await readQueue()).filter((j) => j.state === 'running' && !liveIds.has(j.id));
+  if (orphans.length === 0) return;
+
+  const landed: QueuedAnalysis[] = [];
+  for (const job of orphans) {
+    try {
+      const day = await dataStorage.getDailyLog(job.dateKey);
+      if (day.some((m) => m.id === job.id && m.foods.length > 0)) landed.push(job);
+    } catch { /* unreadable day: analyse it again rather than guess */ }
+  }
+  if (landed.length > 0) {
+    const landedIds = new Set(landed.map((j) => j.id));
+    await updateQueue((jobs) => jobs.filter((j) => !(landedIds.has(j.id) && j.state === 'running')));
+    for (const job of landed) await dropPhoto(job);
+    orphans = orphans.filter((j) => !landedIds.has(j.id));
+    if (orphans.length === 0) return;
+  }
+
+  const missing = new Set<string>();
+  for (const job of orphans) {
+    if (job.kind !== 'photo') continue;
+    if (!job.imageUri) {
+      missing.add(job.id);
+      continue;
+    }
+    if (Platform.OS === 'web') continue;
+    try {
+      const info = await FileSystem.getInfoAsync(job.imageUri);
+      if (!info.exists) missing.add(job.id);
+    } catch {
+      missing.add(job.id);
+    }
+  }
+
+  const ids = new Set(orphans.map((j) => j.id));
+  await updateQueue((jobs) => jobs.map((j) => {
+    if (!ids.has(j.id) || j.state !== 'running') return j;
+    return missing.has(j.id)
+      ? { ...j, state: 'failed' as const, lastError: 'The photo is no longer on this device' }
+      : { ...j, state: 'queued' as const, nextAttemptAt: 0, lastError: 'Interrupted when the app closed' };
+  }));
+}
+
+export const analysisQueue = {
+  async list(): Promise<QueuedAnalysis[]> {
+    return readQueue();
+  },
+
+  // Wait for the connection, then analyse
+  async enqueue(input: AnalysisInput): Promise<void> {
+    liveIds.delete(input.id);
+    schedule(await putJob(input, 'queued'));
+  },
+
+  // Record a live analysis before its AI call goes out. settle() closes it
+  async journal(input: AnalysisInput): Promise<void> {
+    liveIds.add(input.id);
+    await putJob(input, 'running');
+  },
+
+  // The live call is over, however it went. A job enqueue() turned into a
+  // queued one is kept; only the journal entry goes
+  async settle(id: string): Promise<void> {
+    if (!liveIds.delete(id)) return;
+    const settled = (await readQueue()).find((j) => j.id === id && j.state === 'running');
+    if (!settled) return;
+    await updateQueue((current) => current.filter((j) => !(j.id === id && j.state === 'running')));
+    // The logged meal points at the picker's copy, not ours
+    await dropPhoto(settled);
+  },
+
+  async remove(id: string): Promise<void> {
+    const removed = (await readQueue()).find((j) => j.id === id);
+    const jobs = await updateQueue((current) => current.filter((j) => j.id !== id));
+    if (removed) await dropPhoto(removed);
+    schedule(jobs);
+  },
+
+  // A tap on a waiting or given-up row: try now and start the count over
+  async retryNow(id: string): Promise<void> {
+    await updateQueue((current) => current.map((j) =>
+      j.id === id ? { ...j, state: 'queued' as const, attempts: 0, nextAttemptAt: 0 } : j
+    ));
+    this.kick();
+  },
+
+  // Runs every job that is due. Called by the timer.
+  kick(): void {
+    if (!applyOutcome || draining) return;
+    draining = drainDue()
+      .catch((e) => { if (__DEV__) console.error('[analysisQueue] drain failed:', e); })
+      .finally(async () => {
+        draining = null;
+        schedule(await readQueue());
+      });
+  },
+
+  // The connection may be back: the app came to the foreground, the device
+  // got a connection, or a live analysis just got through. Waiting jobs stop waiting.
+  wake(): void {
+    updateQueue((jobs) => jobs.map((j) => (j.state === 'queued' ? { ...j, nextAttemptAt: 0 } : j)))
+      .then(() => this.kick())
+      .catch(() => {});
+  },
+
+  // Tells listeners about every change, starting with the queue as it is now
+  subscribe(listener: (jobs: QueuedAnalysis[]) => void): () => void {
+    listeners.add(listener);
+    readQueue().then((jobs) => { if (listeners.has(listener)) listener(jobs); });
+    return () => { listeners.delete(listener); };
+  },
+
+  /**
+   * Starts the worker. `apply` saves a finished analysis as a meal; the job is
+   * dropped only after it resolves. Returns a stop function.
+   */
+  start(apply: ApplyOutcome): () => void {
+    applyOutcome = apply;
+    const appState = AppState.addEventListener('change', (next) => {
+      if (next === 'active') this.wake();
+    });
+    const onOnline = () => this.wake();
+    const web = Platform.OS === 'web' && typeof window !== 'undefined';
+    if (web) window.addEventListener('online', onOnline);
+    // Fires once on subscribe and again on every change. Only the step from
+    // no connection to a usable one matters
+    let reachable: boolean | null = null;
+    const stopNetInfo = NetInfo.addEventListener((state) => {
+      const now = state.isConnected === true && state.isInternetReachable !== false;
+      if (now && reachable === false) this.wake();
+      reachable = now;
+    });
+
+    // Anything left from the last session is due straight away
+    recoverInterrupted()
+      .catch((e) => { if (__DEV__) console.error('[analysisQueue] recovery failed:', e); })
+      .finally(() => this.wake());
+
+    return () => {
+      applyOutcome = null;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      appState.remove();
+      stopNetInfo();
+      if (web) window.removeEventListener('online', onOnline);
+    };
+  },
+};
@@ -1,5 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { dataStorage } from './dataStorage';
+import { dataStorage, MealRevision, MealTotals } from './dataStorage';
 import { mixpanelService } from './mixpanelService';
 
 const ANALYTICS_KEY = '@trackkal:analytics';
@@ -274,6 +274,22 @@ class AnalyticsService {
     mixpanelService.track('meal_prompt_edit');
   }
 
+  // Every recorded meal edit. source 'user' on a food_edit is a person
+  // overriding an AI estimate; the kcal delta says by how much.
+  trackMealRevision(
+    change: MealRevision['change'],
+    source: MealRevision['source'],
+    before: MealTotals,
+    after: MealTotals,
+  ): void {
+    mixpanelService.track('meal_revision', {
+      change,
+      source,
+      kcal_before: before.calories,
+      kcal_delta: after.calories - before.calories,
+    });
+  }
+
   async trackFoodItemRemoval(): Promise<void> {
     await this.initialize();
     this.analytics.foodItemRemovals++;
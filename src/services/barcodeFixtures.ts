@@ -0,0 +1,48 @@
+import type { BarcodeSource, OffProduct } from './foodDatabaseService';
+
+/**
+ * Stand-in product records for the barcode lookup, in the shape Open Food
+ * Facts returns, so they go through the same parsing and sanity checks as the
+ * real thing. Every code is in the 20-29 range GS1 keeps for in-store use, so
+ * none of them can collide with a real product on a shelf.
+ *
+ * Wired in with setBarcodeSource(fixtureBarcodeSource).
+ */
+export const BARCODE_FIXTURES: Record<string, OffProduct> = {
+  // A drink, with a serving and a pack in millilitres
+  '2000000000015': {
+    code: '2000000000015',
+    product_name: 'Fresh Laban Full Fat',
+    brands: 'Fixture Dairy',
+    serving_size: '250 ml',
+    quantity: '1 L',
+    nutriments: { 'energy-kcal_100g': 60, proteins_100g: 3.2, carbohydrates_100g: 4.6, fat_100g: 3.2, sugars_100g: 4.6, 'saturated-fat_100g': 2.1, salt_100g: 0.13 },
+  },
+  // EU style carbohydrate, so fibre has to be added back
+  '2000000000022': {
+    code: '2000000000022',
+    product_name: 'High Protein Khaboos',
+    brands: 'Fixture Bakery',
+    serving_size: '2 slices (80 g)',
+    quantity: '440 g',
+    nutriments: { 'energy-kcal_100g': 250, proteins_100g: 20, carbohydrates_100g: 30, fiber_100g: 6, fat_100g: 5, sugars_100g: 3 },
+  },
+  // A record that fails arithmetic and must come back as not found
+  '2000000000039': {
+    code: '2000000000039',
+    product_name: 'Impossible Biscuit',
+    brands: 'Fixture Snacks',
+    nutriments: { 'energy-kcal_100g': 986, proteins_100g: 6, carbohydrates_100g: 217, fat_100g: 12 },
+  },
+  // EAN-8, a multipack, and no stated serving
+  '20000004': {
+    code: '20000004',
+    product_name: 'Chocolate Wafer',
+    brands: 'Fixture Snacks',
+    serving_size: null,
+    quantity: '6 x 25 g',
+    nutriments: { 'energy-kcal_100g': 530, proteins_100g: 6, carbohydrates_100g: 60, fiber_100g: 2, fat_100g: 29, sugars_100g: 45 },
+  },
+};
+
+export const fixtureBarcodeSource: BarcodeSource = async (code) => BARCODE_FIXTURES[code] ?? null;
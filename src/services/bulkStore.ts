@@ -0,0 +1,425 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import { addDays, format, parseISO } from 'date-fns';
+import type { DailySummary, MealEntry, SyncOperation } from './dataStorage';
+
+// The four stores that grow with history: meal day shards, daily summaries,
+// the sync queue and the food-analysis cache. As AsyncStorage JSON blobs every
+// change rewrote the whole blob, and every range read meant getAllKeys plus a
+// filter. On device they now live in SQLite, one row per day, summary, op or
+// cache entry, keyed so a date range is an index scan.
+//
+// Web has no native SQLite, so there the same API runs on the AsyncStorage
+// layout these stores always used. dataStorage talks only to this module and
+// never to either layout directly.
+
+// The AsyncStorage layout: live on web, and the source of the one-time
+// migration everywhere else.
+const LEGACY_KEYS = {
+  mealDayPrefix: '@trackkal:log:',
+  summaries: '@trackkal:summaries',
+  syncQueue: '@trackkal:syncQueue',
+  foodCachePrefix: '@food_cache:',
+};
+
+const DB_NAME = 'trackkcal.db';
+const MIGRATED_FLAG = 'migratedFromAsyncStorage';
+// The same fact kept where it can be read when the database cannot be opened.
+// Once it is set the history lives only in SQLite, and falling back to
+// AsyncStorage would show an empty log and strand whatever was written to it
+const MIGRATED_MARKER = '@trackkal:bulkStoreMigrated';
+const OPEN_ATTEMPTS = 3;
+
+interface BulkStore {
+  getMealDay(date: string): Promise<MealEntry[] | null>;
+  // Oldest first. Days with no row are left out
+  getMealDaysInRange(from: string, to: string): Promise<[string, MealEntry[]][]>;
+  getAllMealDays(): Promise<[string, MealEntry[]][]>;
+  listMealDays(): Promise<string[]>;
+  // An empty list removes the day
+  setMealDay(date: string, meals: MealEntry[]): Promise<void>;
+  setMealDays(byDate: Record<string, MealEntry[]>): Promise<void>;
+  getSummaries(): Promise<Record<string, DailySummary>>;
+  getSummary(date: string): Promise<DailySummary | null>;
+  // Upserts only the given days; every other day is left as it was
+  putSummaries(byDate: Record<string, DailySummary>): Promise<void>;
+  replaceSummaries(byDate: Record<string, DailySummary>): Promise<void>;
+  readSyncQueue(): Promise<SyncOperation[]>;
+  appendSyncOperation(op: SyncOperation): Promise<void>;
+  replaceSyncQueue(ops: SyncOperation[]): Promise<void>;
+  getFoodCache(key: string): Promise<string | null>;
+  setFoodCache(key: string, value: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const parseOr = <T>(raw: string | null | undefined, fallback: T): T => {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const daysBetween = (from: string, to: string): string[] => {
+  const days: string[] = [];
+  const last = parseISO(to);
+  for (let d = parseISO(from); d <= last; d = addDays(d, 1)) days.push(format(d, 'yyyy-MM-dd'));
+  return days;
+};
+
+// ── AsyncStorage (web) ──
+
+const asyncStorageStore: BulkStore = {
+  async getMealDay(date) {
+    return parseOr<MealEntry[] | null>(await AsyncStorage.getItem(LEGACY_KEYS.mealDayPrefix + date), null);
+  },
+
+  async getMealDaysInRange(from, to) {
+    const days = daysBetween(from, to);
+    const pairs = await AsyncStorage.multiGet(days.map((d) => LEGACY_KEYS.mealDayPrefix + d));
+    const out: [string, MealEntry[]][] = [];
+    pairs.forEach(([, raw], i) => {
+      const meals = parseOr<MealEntry[] | null>(raw, null);
+      if (meals) out.push([days[i], meals]);
+    });
+    return out;
+  },
+
+  async getAllMealDays() {
+    const days = await this.listMealDays();
+    const pairs = await AsyncStorage.multiGet(days.map((d) => LEGACY_KEYS.mealDayPrefix + d));
+    const out: [string, MealEntry[]][] = [];
+    pairs.forEach(([, raw], i) => {
+      const meals = parseOr<MealEntry[] | null>(raw, null);
+      if (meals) out.push([days[i], meals]);
+    });
+    return out;
+  },
+
+  async listMealDays() {
+    const keys = await AsyncStorage.getAllKeys();
+    return keys
+      .filter((k) => k.startsWith(LEGACY_KEYS.mealDayPrefix))
+      .map((k) => k.slice(LEGACY_KEYS.mealDayPrefix.length))
+      .sort();
+  },
+
+  async setMealDay(date, meals) {
+    if (meals.length === 0) {
+      await AsyncStorage.removeItem(LEGACY_KEYS.mealDayPrefix + date);
+    } else {
+      await AsyncStorage.setItem(LEGACY_KEYS.mealDayPrefix + date, JSON.stringify(meals));
+    }
+  },
+
+  async setMealDays(byDate) {
+    const entries = Object.entries(byDate);
+    const removals = entries.filter(([, meals]) => meals.length === 0).map(([d]) => LEGACY_KEYS.mealDayPrefix + d);
+    const writes = entries
+      .filter(([, meals]) => meals.length > 0)
+      .map(([d, meals]) => [LEGACY_KEYS.mealDayPrefix + d, JSON.stringify(meals)] as [string, string]);
+    if (writes.length > 0) await AsyncStorage.multiSet(writes);
+    if (removals.length > 0) await AsyncStorage.multiRemove(removals);
+  },
+
+  async getSummaries() {
+    return parseOr<Record<string, DailySummary>>(await AsyncStorage.getItem(LEGACY_KEYS.summaries), {});
+  },
+
+  async getSummary(date) {
+    return (await this.getSummaries())[date] ?? null;
+  },
+
+  async putSummaries(byDate) {
+    if (Object.keys(byDate).length === 0) return;
+    const current = await this.getSummaries();
+    await AsyncStorage.setItem(LEGACY_KEYS.summaries, JSON.stringify({ ...current, ...byDate }));
+  },
+
+  async replaceSummaries(byDate) {
+    await AsyncStorage.setItem(LEGACY_KEYS.summaries, JSON.stringify(byDate));
+  },
+
+  async readSyncQueue() {
+    const parsed = parseOr<unknown>(await AsyncStorage.getItem(LEGACY_KEYS.syncQueue), []);
+    return Array.isArray(parsed) ? parsed : [];
+  },
+
+  async appendSyncOperation(op) {
+    await this.replaceSyncQueue([...(await this.readSyncQueue()), op]);
+  },
+
+  async replaceSyncQueue(ops) {
+    if (ops.length === 0) {
+      await AsyncStorage.removeItem(LEGACY_KEYS.syncQueue);
+    } else {
+      await AsyncStorage.setItem(LEGACY_KEYS.syncQueue, JSON.stringify(ops));
+    }
+  },
+
+  async getFoodCache(key) {
+    return AsyncStorage.getItem(LEGACY_KEYS.foodCachePrefix + key);
+  },
+
+  async setFoodCache(key, value) {
+    await AsyncStorage.setItem(LEGACY_KEYS.foodCachePrefix + key, value);
+  },
+
+  async clear() {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((k) =>
+      k.startsWith(LEGACY_KEYS.mealDayPrefix)
+      || k.startsWith(LEGACY_KEYS.foodCachePrefix)
+      || k === LEGACY_KEYS.summaries
+      || k === LEGACY_KEYS.syncQueue
+    ));
+  },
+};
+
+// ── SQLite (iOS, Android) ──
+
+const SCHEMA = `
+PRAGMA journal_mode = WAL;
+CREATE TABLE IF NOT EXISTS meal_days (date TEXT PRIMARY KEY NOT NULL, meals TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS daily_summaries (date TEXT PRIMARY KEY NOT NULL, summary TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS sync_queue (seq INTEGER PRIMARY KEY AUTOINCREMENT, op TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS food_cache (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL);
+`;
+
+const rowsToDays = (rows: { date: string; meals: string }[]): [string, MealEntry[]][] => {
+  const out: [string, MealEntry[]][] = [];
+  for (const row of rows) {
+    const meals = parseOr<MealEntry[] | null>(row.meals, null);
+    if (meals) out.push([row.date, meals]);
+  }
+  return out;
+};
+
+// Copies the AsyncStorage layout into the tables in one transaction, then
+// drops the old keys. The flag is written inside the same transaction, so a
+// crash part way leaves nothing half-moved: the copy just runs again.
+async function migrateFromAsyncStorage(db: SQLite.SQLiteDatabase): Promise<void> {
+  const done = await db.getFirstAsync<{ value: string }>('SELECT value FROM meta WHERE key = ?', MIGRATED_FLAG);
+  if (done) {
+    // Installs that migrated before the marker existed get it now
+    if (!(await AsyncStorage.getItem(MIGRATED_MARKER))) await AsyncStorage.setItem(MIGRATED_MARKER, done.value);
+    return;
+  }
+
+  const keys = await AsyncStorage.getAllKeys();
+  const dayKeys = keys.filter((k) => k.startsWith(LEGACY_KEYS.mealDayPrefix));
+  const cacheKeys = keys.filter((k) => k.startsWith(LEGACY_KEYS.foodCachePrefix));
+  const oldKeys = [...dayKeys, ...cacheKeys, LEGACY_KEYS.summaries, LEGACY_KEYS.syncQueue];
+  const values = new Map(await AsyncStorage.multiGet(oldKeys));
+
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    for (const key of dayKeys) {
+      const raw = values.get(key);
+      if (raw && parseOr<unknown>(raw, null)) {
+        await txn.runAsync('INSERT OR REPLACE INTO meal_days (date, meals) VALUES (?, ?)', key.slice(LEGACY_KEYS.mealDayPrefix.length), raw);
+      }
+    }
+    const summaries = parseOr<Record<string, DailySummary>>(values.get(LEGACY_KEYS.summaries), {});
+    for (const [date, summary] of Object.entries(summaries)) {
+      await txn.runAsync('INSERT OR REPLACE INTO daily_summaries (date, summary) VALUES (?, ?)', date, JSON.stringify(summary));
+    }
+    const queue = parseOr<unknown>(values.get(LEGACY_KEYS.syncQueue), []);
+    for (const op of Array.isArray(queue) ? queue : []) {
+      await txn.runAsync('INSERT INTO sync_queue (op) VALUES (?)', JSON.stringify(op));
+    }
+    for (const key of cacheKeys) {
+      const raw = values.get(key);
+      if (raw) await txn.runAsync('INSERT OR REPLACE INTO food_cache (key, value) VALUES (?, ?)', key.slice(LEGACY_KEYS.foodCachePrefix.length), raw);
+    }
+    await txn.runAsync('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', MIGRATED_FLAG, new Date().toISOString());
+  });
+  await AsyncStorage.setItem(MIGRATED_MARKER, new Date().toISOString());
+
+  try {
+    await AsyncStorage.multiRemove(oldKeys);
+  } catch (error) {
+    // Harmless leftovers: nothing reads the old keys once the flag is set
+    console.warn('[bulkStore] could not remove migrated AsyncStorage keys', error);
+  }
+}
+
+function sqliteStore(db: SQLite.SQLiteDatabase): BulkStore {
+  return {
+    async getMealDay(date) {
+      const row = await db.getFirstAsync<{ meals: string }>('SELECT meals FROM meal_days WHERE date = ?', date);
+      return parseOr<MealEntry[] | null>(row?.meals, null);
+    },
+
+    async getMealDaysInRange(from, to) {
+      return rowsToDays(await db.getAllAsync<{ date: string; meals: string }>(
+        'SELECT date, meals FROM meal_days WHERE date BETWEEN ? AND ? ORDER BY date', from, to,
+      ));
+    },
+
+    async getAllMealDays() {
+      return rowsToDays(await db.getAllAsync<{ date: string; meals: string }>('SELECT date, meals FROM meal_days ORDER BY date'));
+    },
+
+    async listMealDays() {
+      const rows = await db.getAllAsync<{ date: string }>('SELECT date FROM meal_days ORDER BY date');
+      return rows.map((r) => r.date);
+    },
+
+    async setMealDay(date, meals) {
+      if (meals.length === 0) {
+        await db.runAsync('DELETE FROM meal_days WHERE date = ?', date);
+      } else {
+        await db.runAsync('INSERT OR REPLACE INTO meal_days (date, meals) VALUES (?, ?)', date, JSON.stringify(meals));
+      }
+    },
+
+    async setMealDays(byDate) {
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const [date, meals] of Object.entries(byDate)) {
+          if (meals.length === 0) {
+            await txn.runAsync('DELETE FROM meal_days WHERE date = ?', date);
+          } else {
+            await txn.runAsync('INSERT OR REPLACE INTO meal_days (date, meals) VALUES (?, ?)', date, JSON.stringify(meals));
+          }
+        }
+      });
+    },
+
+    async getSummaries() {
+      const rows = await db.getAllAsync<{ date: string; summary: string }>('SELECT date, summary FROM daily_summaries');
+      const out: Record<string, DailySummary> = {};
+      for (const row of rows) {
+        const summary = parseOr<DailySummary | null>(row.summary, null);
+        if (summary) out[row.date] = summary;
+      }
+      return out;
+    },
+
+    async getSummary(date) {
+      const row = await db.getFirstAsync<{ summary: string }>('SELECT summary FROM daily_summaries WHERE date = ?', date);
+      return parseOr<DailySummary | null>(row?.summary, null);
+    },
+
+    async putSummaries(byDate) {
+      const entries = Object.entries(byDate);
+      if (entries.length === 0) return;
+      if (entries.length === 1) {
+        const [date, summary] = entries[0];
+        await db.runAsync('INSERT OR REPLACE INTO daily_summaries (date, summary) VALUES (?, ?)', date, JSON.stringify(summary));
+        return;
+      }
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        for (const [date, summary] of entries) {
+          await txn.runAsync('INSERT OR REPLACE INTO daily_summaries (date, summary) VALUES (?, ?)', date, JSON.stringify(summary));
+        }
+      });
+    },
+
+    async replaceSummaries(byDate) {
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        await txn.runAsync('DELETE FROM daily_summaries');
+        for (const [date, summary] of Object.entries(byDate)) {
+          await txn.runAsync('INSERT INTO daily_summaries (date, summary) VALUES (?, ?)', date, JSON.stringify(summary));
+        }
+      });
+    },
+
+    async readSyncQueue() {
+      const rows = await db.getAllAsync<{ op: string }>('SELECT op FROM sync_queue ORDER BY seq');
+      const out: SyncOperation[] = [];
+      for (const row of rows) {
+        const op = parseOr<SyncOperation | null>(row.op, null);
+        if (op) out.push(op);
+      }
+      return out;
+    },
+
+    async appendSyncOperation(op) {
+      await db.runAsync('INSERT INTO sync_queue (op) VALUES (?)', JSON.stringify(op));
+    },
+
+    async replaceSyncQueue(ops) {
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        await txn.runAsync('DELETE FROM sync_queue');
+        for (const op of ops) {
+          await txn.runAsync('INSERT INTO sync_queue (op) VALUES (?)', JSON.stringify(op));
+        }
+      });
+    },
+
+    async getFoodCache(key) {
+      const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM food_cache WHERE key = ?', key);
+      return row?.value ?? null;
+    },
+
+    async setFoodCache(key, value) {
+      await db.runAsync('INSERT OR REPLACE INTO food_cache (key, value) VALUES (?, ?)', key, value);
+    },
+
+    // Keeps meta: the migration flag must survive, or the next launch would
+    // copy in whatever the AsyncStorage wipe left behind. The marker goes back
+    // too, since clearing all data wipes AsyncStorage first
+    async clear() {
+      await db.execAsync('DELETE FROM meal_days; DELETE FROM daily_summaries; DELETE FROM sync_queue; DELETE FROM food_cache;');
+      await AsyncStorage.setItem(MIGRATED_MARKER, new Date().toISOString());
+    },
+  };
+}
+
+async function openSqlite(): Promise<BulkStore> {
+  const db = await SQLite.openDatabaseAsync(DB_NAME);
+  await db.execAsync(SCHEMA);
+  await migrateFromAsyncStorage(db);
+  return sqliteStore(db);
+}
+
+async function openStore(): Promise<BulkStore> {
+  if (Platform.OS === 'web') return asyncStorageStore;
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= OPEN_ATTEMPTS; attempt++) {
+    try {
+      return await openSqlite();
+    } catch (error) {
+      lastError = error;
+      console.warn(`[bulkStore] SQLite open failed (attempt ${attempt}/${OPEN_ATTEMPTS}):`, error);
+      if (attempt < OPEN_ATTEMPTS) await new Promise((resolve) => setTimeout(resolve, 200 * attempt));
+    }
+  }
+  // Until the migration commits, the data is still in AsyncStorage, so this
+  // fallback reads the same history the app had yesterday. After it, the
+  // history is only in SQLite and the error has to reach the caller
+  if (await AsyncStorage.getItem(MIGRATED_MARKER).catch(() => null)) throw lastError;
+  console.error('[bulkStore] SQLite unavailable, staying on AsyncStorage:', lastError);
+  return asyncStorageStore;
+}
+
+// A failed open is not remembered, so the next read tries again rather than
+// failing for the rest of the session
+let storePromise: Promise<BulkStore> | null = null;
+const store = () =>
+  (storePromise ??= openStore().catch((error) => {
+    storePromise = null;
+    throw error;
+  }));
+
+export const bulkStore = {
+  getMealDay: async (date: string) => (await store()).getMealDay(date),
+  getMealDaysInRange: async (from: string, to: string) => (await store()).getMealDaysInRange(from, to),
+  getAllMealDays: async () => (await store()).getAllMealDays(),
+  listMealDays: async () => (await store()).listMealDays(),
+  setMealDay: async (date: string, meals: MealEntry[]) => (await store()).setMealDay(date, meals),
+  setMealDays: async (byDate: Record<string, MealEntry[]>) => (await store()).setMealDays(byDate),
+  getSummaries: async () => (await store()).getSummaries(),
+  getSummary: async (date: string) => (await store()).getSummary(date),
+  putSummaries: async (byDate: Record<string, DailySummary>) => (await store()).putSummaries(byDate),
+  replaceSummaries: async (byDate: Record<string, DailySummary>) => (await store()).replaceSummaries(byDate),
+  readSyncQueue: async () => (await store()).readSyncQueue(),
+  appendSyncOperation: async (op: SyncOperation) => (await store()).appendSyncOperation(op),
+  replaceSyncQueue: async (ops: SyncOperation[]) => (await store()).replaceSyncQueue(ops),
+  getFoodCache: async (key: string) => (await store()).getFoodCache(key),
+  setFoodCache: async (key: string, value: string) => (await store()).setFoodCache(key, value),
+  clear: async () => (await store()).clear(),
+};
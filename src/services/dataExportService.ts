@@ -0,0 +1,149 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { format } from 'date-fns';
+import { dataStorage, DataExport } from './dataStorage';
+import { ParsedFood } from '../utils/foodNutrition';
+
+export type ExportKind = 'archive' | 'foods' | 'weights' | 'exercises';
+
+// Micro columns in the order a spreadsheet reader expects them: carbs detail,
+// fats detail, then minerals, then vitamins. Any field the model didn't return
+// for a food is left blank rather than written as 0, so "unknown" survives.
+const FOOD_MICRO_COLUMNS: Array<keyof ParsedFood> = [
+  'dietary_fiber',
+  'sugar',
+  'added_sugars',
+  'sugar_alcohols',
+  'net_carbs',
+  'saturated_fat',
+  'trans_fat',
+  'polyunsaturated_fat',
+  'monounsaturated_fat',
+  'cholesterol_mg',
+  'sodium_mg',
+  'calcium_mg',
+  'iron_mg',
+  'potassium_mg',
+  'magnesium_mg',
+  'zinc_mg',
+  'omega_3_g',
+  'vitamin_a_mcg',
+  'vitamin_c_mg',
+  'vitamin_d_mcg',
+  'vitamin_e_mg',
+  'vitamin_k_mcg',
+  'vitamin_b12_mcg',
+];
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const timeOf = (timestamp: number): string =>
+  Number.isFinite(timestamp) ? format(new Date(timestamp), 'HH:mm') : '';
+
+export const foodsToCsv = (data: DataExport): string => {
+  const header = [
+    'date', 'time', 'meal_id', 'meal_prompt', 'food', 'quantity', 'unit', 'weight_g',
+    'calories', 'protein_g', 'carbs_g', 'fat_g', ...FOOD_MICRO_COLUMNS,
+  ];
+  const rows: unknown[][] = [];
+  Object.keys(data.meals).sort().forEach((dateKey) => {
+    data.meals[dateKey].forEach((meal) => {
+      meal.foods.forEach((food) => {
+        rows.push([
+          dateKey, timeOf(meal.timestamp), meal.id, meal.prompt, food.name, food.quantity, food.unit,
+          food.weight_g, food.calories, food.protein, food.carbs, food.fat,
+          ...FOOD_MICRO_COLUMNS.map((key) => food[key]),
+        ]);
+      });
+    });
+  });
+  return toCsv(header, rows);
+};
+
+export const weightsToCsv = (data: DataExport): string =>
+  toCsv(
+    ['date', 'weight_kg'],
+    data.weightEntries.map((entry) => [entry.date.slice(0, 10), entry.weight])
+  );
+
+export const exercisesToCsv = (data: DataExport): string => {
+  const header = ['date', 'time', 'entry_id', 'entry_prompt', 'exercise', 'duration_minutes', 'intensity', 'calories', 'notes'];
+  const rows: unknown[][] = [];
+  Object.keys(data.exercises).sort().forEach((dateKey) => {
+    data.exercises[dateKey].forEach((entry) => {
+      entry.exercises.forEach((ex) => {
+        rows.push([
+          dateKey, timeOf(entry.timestamp), entry.id, entry.prompt, ex.name,
+          ex.duration_minutes, ex.intensity, ex.calories, ex.notes,
+        ]);
+      });
+    });
+  });
+  return toCsv(header, rows);
+};
+
+// The browser has no share sheet worth using for files, so the PWA just
+// downloads. Blob plus a throwaway anchor is the only route every browser takes.
+const downloadOnWeb = (filename: string, contents: string, mimeType: string) => {
+  const doc = (globalThis as any).document;
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const anchor = doc.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  doc.body.appendChild(anchor);
+  anchor.click();
+  doc.body.removeChild(anchor);
+  URL.revokeObjectURL(url);
+};
+
+const shareFile = async (filename: string, contents: string, mimeType: string, UTI: string) => {
+  if (Platform.OS === 'web') {
+    downloadOnWeb(filename, contents, mimeType);
+    return;
+  }
+  const uri = `${FileSystem.cacheDirectory}${filename}`;
+  await FileSystem.writeAsStringAsync(uri, contents, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType, UTI, dialogTitle: filename });
+};
+
+export const dataExportService = {
+  /**
+   * Builds one export and hands it to the share sheet (or downloads it on web).
+   * The archive is the whole DataExport as JSON, the thing to keep if you're
+   * leaving. The CSVs are flat views for people who want their log in a
+   * spreadsheet or in front of a dietitian. Throws on failure so the caller
+   * can tell the user; a silent nothing looks like the export worked.
+   */
+  async exportAndShare(kind: ExportKind): Promise<void> {
+    const data = await dataStorage.exportAllData();
+    const stamp = format(new Date(), 'yyyy-MM-dd');
+
+    switch (kind) {
+      case 'archive':
+        await shareFile(
+          `trackkcal-export-${stamp}.json`,
+          JSON.stringify(data, null, 2),
+          'application/json',
+          'public.json'
+        );
+        return;
+      case 'foods':
+        await shareFile(`trackkcal-foods-${stamp}.csv`, foodsToCsv(data), 'text/csv', 'public.comma-separated-values-text');
+        return;
+      case 'weights':
+        await shareFile(`trackkcal-weights-${stamp}.csv`, weightsToCsv(data), 'text/csv', 'public.comma-separated-values-text');
+        return;
+      case 'exercises':
+        await shareFile(`trackkcal-exercises-${stamp}.csv`, exercisesToCsv(data), 'text/csv', 'public.comma-separated-values-text');
+        return;
+    }
+  },
+};
@@ -1,14 +1,18 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ExerciseEntry } from '../components/ExerciseLogSection';
 import { supabaseDataService, isAuthNotReady } from './supabaseDataService';
+import { bulkStore } from './bulkStore';
+import { LocalMigration, LocalSchemaState, readLocalSchemaState, runLocalMigrations } from './localMigrations';
 import { isSupabaseConfigured, supabase } from './supabaseClient';
 import { generateId, ensureUUID } from '../utils/uuid';
 import { ParsedFood } from '../utils/foodNutrition';
+import type { FoodLabel } from './foodDatabaseService';
 import { calculateStreak } from '../utils/streakUtils';
-import { parseISO, format } from 'date-fns';
+import { parseISO, format, addDays } from 'date-fns';
 import { FREE_PREMIUM_LAUNCH } from '../config/featureFlags';
 import { DietChange, DietPlanId } from '../utils/dietPlans';
 import { trialFrom } from '../utils/trial';
+import { APP_VERSION } from '../constants/appVersion';
 
 // --- Write serialization to prevent race conditions on rapid saves ---
 // Per-key promise chain: ensures read-modify-write operations for the same
@@ -34,7 +38,36 @@ export interface MealEntry {
   date?: string; // Optional if we store it by date key
   userId?: string;
   isLoading?: boolean;
-  loadingState?: 'analyzing' | 'done' | 'failed';
+  loadingState?: 'analyzing' | 'queued' | 'done' | 'failed'; // queued/failed: see analysisQueueService
+  revisions?: MealRevision[]; // oldest first; see utils/mealRevisions
+  mealSlot?: MealSlot; // named by the user or the prompt; absent means go by the clock
+  mealSlotLabel?: string; // what the user calls a 'custom' slot, like "pre-workout"
+}
+
+// See utils/mealSlots
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'custom';
+
+export interface MealTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+// One edit to a logged meal. It holds what the meal looked like just before the
+// edit, so a revert is a copy back. It rides inside the meal, so it syncs with it.
+export interface MealRevision {
+  id: string;
+  at: string; // ISO timestamp
+  change: 'prompt' | 'food_edit' | 'food_removed' | 'revert';
+  // Who produced the new numbers: a re-analysis of an edited prompt, or the
+  // user typing over the estimate. The 'user' share is how often AI gets corrected
+  source: 'ai' | 'user';
+  device: string; // Platform.OS of the device that made the edit
+  foodName?: string; // the food a food_edit or food_removed touched
+  before: { prompt: string; summary?: string; foods: ParsedFood[] };
+  beforeTotals: MealTotals;
+  afterTotals: MealTotals;
 }
 
 // Premium: Calorie Bank Config
@@ -94,6 +127,33 @@ export interface WeeklyActionPlan {
   generatedAt: string;
 }
 
+// Bumped whenever a field in DataExport changes meaning, so anything reading an
+// old archive (an importer, a dietitian's script) can tell which shape it holds.
+export const DATA_EXPORT_VERSION = 1;
+
+// Everything this device knows about the user, in one document. What "Download my
+// data" hands over, and the only shape an archive is ever written in.
+export interface DataExport {
+  version: number;
+  exportedAt: string; // ISO timestamp
+  appVersion: string;
+  meals: Record<string, MealEntry[]>; // yyyy-MM-dd -> the day's log
+  exercises: Record<string, ExerciseEntry[]>;
+  weightEntries: WeightEntry[];
+  waterLog: Record<string, number>; // yyyy-MM-dd -> ml
+  dailySummaries: Record<string, DailySummary>;
+  goals: ExtendedGoalData | null;
+  dietHistory: DietChange[];
+  calorieBank: {
+    config: CalorieBankConfig | null;
+    completedCycles: CalorieBankCompletedCycle[];
+  };
+  savedPrompts: SavedPrompt[];
+  personalFoods: PersonalFood[];
+  recipes: Recipe[];
+  mealTemplates: MealTemplate[];
+}
+
 const STORAGE_KEYS = {
   GOALS: '@trackkal:goals',
   DIET_HISTORY: '@trackkal:dietHistory',
@@ -114,19 +174,18 @@ const STORAGE_KEYS = {
   REFERRAL_REDEMPTIONS: '@trackkal:referralRedemptions',
   REFERRAL_REWARDS: '@trackkal:referralRewards',
   SAVED_PROMPTS: '@trackkal:savedPrompts',
-  SYNC_QUEUE: '@trackkal:syncQueue',
+  PERSONAL_FOODS: '@trackkal:personalFoods',
+  RECIPES: '@trackkal:recipes',
+  MEAL_TEMPLATES: '@trackkal:mealTemplates',
   STREAK_FREEZE: '@trackkal:streakFreeze',
   ADJUSTMENT_HISTORY: '@trackkal:adjustmentHistory',
   ANALYTICS_FEEDBACK: '@trackkal:analyticsFeedback',
-  SUMMARIES: '@trackkal:summaries',
   // TrackLifts' training ledger, cached so the home paints without a network wait
   LIFTS_DAYS: '@trackkal:liftsDays',
   LIFTS_SUPPLEMENTS: '@trackkal:liftsSupplements',
   // Premium
   DETECTED_PATTERNS: '@trackkal:detectedPatterns',
   WEEKLY_ACTION_PLAN: '@trackkal:weeklyActionPlan',
-  // Helper to generate daily keys
-  dailyLog: (date: string) => `@trackkal:log:${date}`,
   USER_METRICS_SNAPSHOT: '@trackkal:userMetricsSnapshot',
   INSIGHTS: '@trackkal:insights',
   COACH_DISMISS_DATE: '@trackkal:coachDismissDate',
@@ -142,10 +201,24 @@ const STORAGE_KEYS = {
   CALORIE_BANK_CONFIG: '@trackkal:calorieBankConfig',
   CALORIE_BANK_COMPLETED_CYCLES: '@trackkal:calorieBankCompletedCycles',
   CALORIE_BANK_CYCLE_RESET_SEEN: '@trackkal:calorieBankCycleResetSeen',
-  // Records the timestamp of the last successful fetchMeals from Supabase.
+  // Records the timestamp of the last successful meals pull from Supabase.
   // Used to distinguish "local meal pending sync" from "local meal previously synced
   // but now deleted on remote" so deleted meals do not re-appear.
   LAST_MEALS_SYNC_AT: '@trackkal:lastMealsSyncAt',
+  // Where the next meals pull starts: the newest remote change already merged
+  // (server updated_at/deleted_at, not this device's clock) and when the last
+  // full pull ran. See MealsPullCursor.
+  MEALS_PULL_CURSOR: '@trackkal:mealsPullCursor',
+  // Water: the yyyy-MM-dd -> ml map, plus when each day was last tapped. The
+  // stamps live in their own key so the map keeps the shape screens read.
+  WATER_LOG: '@trackkal:waterLog',
+  WATER_LOG_STAMPS: '@trackkal:waterLogStamps',
+  // The losing side of every sync conflict, newest first, for review and restore
+  SYNC_CONFLICTS: '@trackkal:syncConflicts',
+  // Ops that ran out of retries, parked with their last error instead of dropped
+  SYNC_DEAD_LETTERS: '@trackkal:syncDeadLetters',
+  // Deleted meals, exercises and weigh-ins, newest first, kept for restore
+  TRASH: '@trackkal:trash',
 };
 
 // ... (rest of file)
@@ -173,6 +246,7 @@ export interface ExtendedGoalData {
   trackingGoal?: string;
   activityLevel?: 'sedentary' | 'light' | 'moderate' | 'very';
   dietPlan?: DietPlanId;
+  updatedAt?: string; // stamped by saveGoals
 }
 
 export interface WeightEntry {
@@ -242,6 +316,7 @@ export interface Preferences {
   lastAdjustmentWeight?: number; // Weight at last adjustment (baseline)
   smartSuggestEnabled?: boolean; // New feature toggle
   smartReminderPreferences?: SmartReminderPreferences;
+  updatedAt?: string; // stamped by savePreferences
 }
 
 // Single source of truth for preference defaults. Used on load (to fill missing
@@ -328,6 +403,83 @@ export interface SavedPrompt {
   updatedAt: string;
 }
 
+// The ParsedFood fields a personal food can carry beyond the label macros.
+// Per 100 g, same units as the field names say.
+export type PersonalFoodMicroKey =
+  | 'added_sugars' | 'trans_fat' | 'cholesterol_mg' | 'calcium_mg' | 'iron_mg'
+  | 'potassium_mg' | 'magnesium_mg' | 'zinc_mg' | 'omega_3_g' | 'vitamin_a_mcg'
+  | 'vitamin_c_mg' | 'vitamin_d_mcg' | 'vitamin_e_mg' | 'vitamin_k_mcg' | 'vitamin_b12_mcg';
+
+// A food the user has the real figures for, read off a label in their hand or
+// typed in. Same numbers as a FoodLabel, plus the weights the amount picker
+// needs, already in grams, and the names they call it by when logging.
+export interface PersonalFood {
+  id: string;
+  name: string;
+  brand: string | null;
+  per100g: FoodLabel['per100g'];
+  micros: Partial<Record<PersonalFoodMicroKey, number>>;
+  servingG: number | null;
+  servingLabel: string | null; // as printed, e.g. "1 bar (45 g)"
+  packG: number | null;
+  aliases: string[];
+  source: 'label_photo' | 'custom';
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Rows saved before aliases and micros existed get them empty
+const normalizePersonalFood = (f: PersonalFood): PersonalFood => ({
+  ...f,
+  micros: f.micros || {},
+  aliases: Array.isArray(f.aliases) ? f.aliases : [],
+});
+
+// One line of a recipe as the user typed it, and the foods it was resolved to
+// when they added it. Resolved once, so the recipe's totals never drift.
+export interface RecipeIngredient {
+  id: string;
+  text: string; // e.g. "500 g beef mince"
+  foods: ParsedFood[];
+}
+
+// A pot cooked once and eaten over several meals. The yield is either a number
+// of servings, a cooked weight, or both; nutrition per serving or per gram is
+// the ingredient totals divided by it.
+export interface Recipe {
+  id: string;
+  name: string;
+  aliases: string[];
+  ingredients: RecipeIngredient[];
+  servings: number | null;
+  servingLabel: string | null; // what one serving is called, e.g. "bowl"
+  cookedWeightG: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A logged meal kept with its analysed foods, so logging it again is a copy of
+// those exact numbers rather than another trip through the analysis. A
+// SavedPrompt only keeps the words.
+export interface MealTemplate {
+  id: string;
+  name: string;
+  foods: ParsedFood[];
+  useCount: number;
+  lastUsedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Past this, a new template has to replace one, and the user is asked which.
+// Two devices can merge to more; nothing is dropped to get back under it
+export const MAX_MEAL_TEMPLATES = 20;
+
+// Most used first; among equals, the one used or made most recently
+const byTemplateUse = (a: MealTemplate, b: MealTemplate) =>
+  b.useCount - a.useCount ||
+  new Date(b.lastUsedAt ?? b.createdAt).getTime() - new Date(a.lastUsedAt ?? a.createdAt).getTime();
+
 export interface StreakFreezeData {
   freezesAvailable: number; // 0-2
   lastResetDate: string; // ISO date string of start of current month
@@ -591,6 +743,86 @@ function invalidateMealsCache() {
 // Exposed for the realtime subscription to drop the cache when another device writes.
 export { invalidateMealsCache };
 
+// The tables the realtime hub listens to, named for what they hold on the device
+export type RemoteEntity = 'meals' | 'weights' | 'exercises' | 'goals' | 'preferences' | 'water';
+
+// Meals are pulled as deltas: only rows changed since the cursor. A full pull
+// still runs on a fresh install, after sign-out, and once a day, because only
+// a full pull notices a row that vanished without a soft-delete.
+interface MealsPullCursor {
+  since: string | null;
+  fullPullAt: number;
+}
+const FULL_MEALS_PULL_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Re-read a little before the cursor. Rows written in the same instant as the
+// newest one we saw, or stamped by a device whose clock runs slow, would
+// otherwise fall just behind it. Applying a row twice is harmless.
+const MEALS_PULL_OVERLAP_MS = 2 * 60 * 1000;
+
+async function readMealsPullCursor(): Promise<MealsPullCursor | null> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEYS.MEALS_PULL_CURSOR);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+const mealTouch = (m: MealEntry) => Math.max(
+  typeof m.timestamp === 'number' ? m.timestamp : 0,
+  m.updatedAt ? new Date(m.updatedAt).getTime() : 0,
+);
+
+// Persist merged shards back to local. Take the per-date write lock and
+// re-read the shard inside it, so a meal saved during the network fetch
+// (which the pre-fetch snapshot never saw) is preserved instead of being
+// clobbered by the stale merge. Deletions the merge made are still honored.
+async function persistMergedShards(
+  dates: Iterable<string>,
+  snapshot: Record<string, MealEntry[]>,
+  merged: Record<string, MealEntry[]>,
+): Promise<void> {
+  for (const date of dates) {
+    await withWriteLock('log:' + date, async () => {
+      const current = (await bulkStore.getMealDay(date)) || [];
+      const snapshotIds = new Set((snapshot[date] || []).map((m) => m.id));
+      const mergedIds = new Set((merged[date] || []).map((m) => m.id));
+      // Keep meals added to disk AFTER our snapshot (a concurrent save). Do not
+      // resurrect snapshot meals the merge intentionally dropped.
+      const additions = current.filter((m) => !snapshotIds.has(m.id) && !mergedIds.has(m.id));
+      const finalDay = [...(merged[date] || []), ...additions].sort((a, b) => a.timestamp - b.timestamp);
+      merged[date] = finalDay; // reflect concurrent additions in the returned value too
+      await bulkStore.setMealDay(date, finalDay);
+      if (finalDay.length === 0) delete merged[date];
+    });
+  }
+}
+
+/**
+ * Fire-and-forget push of one day's water total, queued when signed out or
+ * offline. Same shape as syncMealsToSupabase, for the same reason.
+ */
+function syncWaterToSupabase(payload: WaterSyncPayload): void {
+  void (async () => {
+    try {
+      const accountInfo = await getCachedAccountInfo();
+      if (!accountInfo?.supabaseUserId && !accountInfo?.email) {
+        await enqueueSyncOperation({ entity: 'water', action: 'upsert', payload });
+        return;
+      }
+      try {
+        const newer = await supabaseDataService.upsertWaterLog(accountInfo, [payload]);
+        if (Object.keys(newer).length > 0) await applyRemoteWaterLog(accountInfo, newer);
+      } catch (error) {
+        if (__DEV__) console.warn('[syncWaterToSupabase] upsert failed, queueing:', error);
+        await enqueueSyncOperation({ entity: 'water', action: 'upsert', payload });
+      }
+    } catch (e) {
+      if (__DEV__) console.warn('[syncWaterToSupabase] unexpected error', e);
+    }
+  })();
+}
+
 /**
  * Push meals for a given date to Supabase. Called from every meal save path.
  * If signed in, upserts directly. On error, queues for later retry. If signed
@@ -623,6 +855,33 @@ const mergeSummariesByDate = (
   return out;
 };
 
+// Per day, the later tap wins. A day with no stamp predates water sync and was
+// never pushed anywhere, so any cloud value for it is newer by definition.
+const mergeWaterLog = (
+  remote: Record<string, WaterSyncPayload>,
+  local: Record<string, number>,
+  localStamps: Record<string, string>,
+): { log: Record<string, number>; stamps: Record<string, string>; toPush: WaterSyncPayload[] } => {
+  const log: Record<string, number> = {};
+  const stamps: Record<string, string> = {};
+  const toPush: WaterSyncPayload[] = [];
+  const now = new Date().toISOString();
+
+  for (const [date, r] of Object.entries(remote)) {
+    log[date] = r.ml;
+    stamps[date] = r.updatedAt;
+  }
+  for (const [date, ml] of Object.entries(local)) {
+    const r = remote[date];
+    const stamp = localStamps[date];
+    if (r && (!stamp || stamp < r.updatedAt)) continue;
+    log[date] = ml;
+    stamps[date] = stamp || now;
+    if (!r || r.ml !== ml) toPush.push({ date, ml, updatedAt: stamps[date] });
+  }
+  return { log, stamps, toPush };
+};
+
 const mergeUnlocks = (
   remote: Record<string, { unlockedAt: string; seenAt?: string }>,
   local: Record<string, { unlockedAt: string; seenAt?: string }>,
@@ -649,7 +908,7 @@ const mergeUnlocks = (
 async function pullDerivedFromSupabase(accountInfo: AccountInfo | null): Promise<void> {
   if (!accountInfo?.supabaseUserId) return;
   try {
-    const [insights, patterns, plan, unlocks, summaries, bankConfig, cycles] = await Promise.all([
+    const [insights, patterns, plan, unlocks, summaries, bankConfig, cycles, water] = await Promise.all([
       supabaseDataService.fetchInsights(accountInfo).catch(() => [] as Insight[]),
       supabaseDataService.fetchDetectedPatterns(accountInfo).catch(() => [] as DetectedPattern[]),
       supabaseDataService.fetchWeeklyActionPlan(accountInfo).catch(() => null),
@@ -657,6 +916,7 @@ async function pullDerivedFromSupabase(accountInfo: AccountInfo | null): Promise
       supabaseDataService.fetchDailySummaries(accountInfo).catch(() => ({} as Record<string, DailySummary>)),
       supabaseDataService.fetchCalorieBankConfig(accountInfo).catch(() => null),
       supabaseDataService.fetchCompletedCycles(accountInfo).catch(() => [] as CalorieBankCompletedCycle[]),
+      supabaseDataService.fetchWaterLog(accountInfo).catch(() => ({} as Record<string, WaterSyncPayload>)),
     ]);
 
     const readLocal = async <T>(key: string, fallback: T): Promise<T> => {
@@ -682,8 +942,7 @@ async function pullDerivedFromSupabase(accountInfo: AccountInfo | null): Promise
     const mergedUnlocks = mergeUnlocks(unlocks, await readLocal<Record<string, { unlockedAt: string; seenAt?: string }>>(STORAGE_KEYS.INSIGHT_UNLOCKS, {}));
     if (Object.keys(mergedUnlocks).length > 0) writes.push([STORAGE_KEYS.INSIGHT_UNLOCKS, JSON.stringify(mergedUnlocks)]);
 
-    const mergedSummaries = mergeSummariesByDate(summaries, await readLocal<Record<string, DailySummary>>(STORAGE_KEYS.SUMMARIES, {}));
-    if (Object.keys(mergedSummaries).length > 0) writes.push([STORAGE_KEYS.SUMMARIES, JSON.stringify(mergedSummaries)]);
+    const mergedSummaries = mergeSummariesByDate(summaries, await bulkStore.getSummaries());
 
     // Calorie bank config has no updatedAt and the user toggles it by hand, so it
     // is SEED-ONLY: write the remote copy only when there is no local config at all
@@ -694,11 +953,101 @@ async function pullDerivedFromSupabase(accountInfo: AccountInfo | null): Promise
     if (writes.length > 0) {
       await AsyncStorage.multiSet(writes);
     }
+    await bulkStore.putSummaries(mergedSummaries);
+
+    await applyRemoteWaterLog(accountInfo, water);
   } catch (e) {
     if (__DEV__) console.warn('[pullDerivedFromSupabase] failed:', e);
   }
 }
 
+// Water is merged both ways rather than backfilled by the push: a blind push
+// would let a phone that was off for a week overwrite today's count from the
+// other device. Days this device wins on go up after the merge.
+async function applyRemoteWaterLog(accountInfo: AccountInfo, remote: Record<string, WaterSyncPayload>): Promise<void> {
+  let toPush: WaterSyncPayload[] = [];
+  await withWriteLock('waterLog', async () => {
+    const [logRaw, stampsRaw] = await Promise.all([
+      AsyncStorage.getItem(STORAGE_KEYS.WATER_LOG),
+      AsyncStorage.getItem(STORAGE_KEYS.WATER_LOG_STAMPS),
+    ]);
+    const merged = mergeWaterLog(remote, logRaw ? JSON.parse(logRaw) : {}, stampsRaw ? JSON.parse(stampsRaw) : {});
+    if (Object.keys(merged.log).length > 0) {
+      await AsyncStorage.multiSet([
+        [STORAGE_KEYS.WATER_LOG, JSON.stringify(merged.log)],
+        [STORAGE_KEYS.WATER_LOG_STAMPS, JSON.stringify(merged.stamps)],
+      ]);
+    }
+    toPush = merged.toPush;
+  });
+
+  if (toPush.length > 0) {
+    try {
+      const newer = await supabaseDataService.upsertWaterLog(accountInfo, toPush);
+      // another device tapped while this merge ran; its total stands
+      if (Object.keys(newer).length > 0) await applyRemoteWaterLog(accountInfo, newer);
+    } catch (error) {
+      if (__DEV__) console.warn('[applyRemoteWaterLog] water push failed, queueing:', error);
+      for (const payload of toPush) {
+        await enqueueSyncOperation({ entity: 'water', action: 'upsert', payload });
+      }
+    }
+  }
+}
+
+/**
+ * Brings one entity up to date after the realtime hub reports that its table
+ * changed. Meals only need the cache dropped. Weights and exercises need
+ * nothing, since their loaders already merge remote rows in.
+ *
+ * Goals and preferences are local-first: the loaders keep every local field,
+ * which would hide an edit made on the other phone. So the cloud copy is taken
+ * here, but only when it was edited after ours. Both carry the editing
+ * device's own stamp (edited_at), so that is edit time against edit time. A
+ * row with no stamp was written before there was one and never beats a local
+ * edit. Water goes through the same per-day merge as the sign-in pull.
+ */
+export async function applyRemoteChange(entity: RemoteEntity): Promise<void> {
+  if (entity === 'meals') {
+    invalidateMealsCache();
+    return;
+  }
+  if (entity === 'weights' || entity === 'exercises') return;
+
+  const accountInfo = await getCachedAccountInfo();
+  if (!accountInfo?.supabaseUserId) return;
+
+  if (entity === 'goals') {
+    const remote = await supabaseDataService.fetchNutritionGoals(accountInfo);
+    if (!remote) return;
+    await withWriteLock('goals', async () => {
+      const raw = await AsyncStorage.getItem(STORAGE_KEYS.GOALS);
+      const local: ExtendedGoalData | null = raw ? JSON.parse(raw) : null;
+      if (local?.updatedAt && (!remote.updatedAt || remote.updatedAt <= local.updatedAt)) return;
+      // Fields the cloud row does not carry stay as they are
+      await AsyncStorage.setItem(STORAGE_KEYS.GOALS, JSON.stringify({ ...local, ...remote }));
+    });
+  } else if (entity === 'preferences') {
+    const remote = await supabaseDataService.fetchPreferences(accountInfo);
+    if (!remote) return;
+    await withWriteLock('preferences', async () => {
+      const raw = await AsyncStorage.getItem(STORAGE_KEYS.PREFERENCES);
+      const local: Preferences | null = raw ? JSON.parse(raw) : null;
+      if (local?.updatedAt && (!remote.updatedAt || remote.updatedAt <= local.updatedAt)) return;
+      // Only what kcal_prefs stores. The rest of the fetched copy is defaults
+      // for columns the table lacks, and would reset those settings here
+      await AsyncStorage.setItem(STORAGE_KEYS.PREFERENCES, JSON.stringify({
+        ...PREFERENCES_DEFAULTS,
+        ...local,
+        ...prefsFingerprint(remote),
+        updatedAt: remote.updatedAt,
+      }));
+    });
+  } else if (entity === 'water') {
+    await applyRemoteWaterLog(accountInfo, await supabaseDataService.fetchWaterLog(accountInfo));
+  }
+}
+
 /**
  * One-shot push of every locally-cached entity to Supabase. Called on the first
  * SIGNED_IN of a session so existing local data (logged before this device was
@@ -713,35 +1062,30 @@ async function pullDerivedFromSupabase(accountInfo: AccountInfo | null): Promise
 async function pushDerivedToSupabase(accountInfo: AccountInfo | null): Promise<void> {
   if (!accountInfo?.supabaseUserId) return;
   try {
-    const allKeys = await AsyncStorage.getAllKeys();
-    const shardKeys = allKeys.filter((k) => k.startsWith('@trackkal:log:'));
-
     const [
       insightsRaw,
       patternsRaw,
       planRaw,
       unlocksRaw,
-      summariesRaw,
+      summaries,
       bankConfigRaw,
       cyclesRaw,
       weightsRaw,
       goalsRaw,
       prefsRaw,
-      mealPairs,
+      mealDays,
     ] = await Promise.all([
       AsyncStorage.getItem(STORAGE_KEYS.INSIGHTS),
       AsyncStorage.getItem(STORAGE_KEYS.DETECTED_PATTERNS),
       AsyncStorage.getItem(STORAGE_KEYS.WEEKLY_ACTION_PLAN),
       AsyncStorage.getItem(STORAGE_KEYS.INSIGHT_UNLOCKS),
-      AsyncStorage.getItem(STORAGE_KEYS.SUMMARIES),
+      bulkStore.getSummaries(),
       AsyncStorage.getItem(STORAGE_KEYS.CALORIE_BANK_CONFIG),
       AsyncStorage.getItem(STORAGE_KEYS.CALORIE_BANK_COMPLETED_CYCLES),
       AsyncStorage.getItem(STORAGE_KEYS.WEIGHT_ENTRIES),
       AsyncStorage.getItem(STORAGE_KEYS.GOALS),
       AsyncStorage.getItem(STORAGE_KEYS.PREFERENCES),
-      shardKeys.length > 0
-        ? AsyncStorage.multiGet(shardKeys)
-        : Promise.resolve([] as [string, string | null][]),
+      bulkStore.getAllMealDays(),
     ]);
 
     const insights: Insight[] = insightsRaw ? JSON.parse(insightsRaw) : [];
@@ -752,19 +1096,13 @@ async function pushDerivedToSupabase(accountInfo: AccountInfo | null): Promise<v
     const unlocks: Record<string, { unlockedAt: string; seenAt?: string }> = unlocksRaw
       ? JSON.parse(unlocksRaw)
       : {};
-    const summaries: Record<string, DailySummary> = summariesRaw ? JSON.parse(summariesRaw) : {};
     const bankConfig: CalorieBankConfig | null = bankConfigRaw ? JSON.parse(bankConfigRaw) : null;
     const cycles: CalorieBankCompletedCycle[] = cyclesRaw ? JSON.parse(cyclesRaw) : [];
     const weightEntries: WeightEntry[] = weightsRaw ? JSON.parse(weightsRaw) : [];
 
     const mealPayloads: MealSyncPayload[] = [];
-    mealPairs.forEach(([key, value]) => {
-      if (!value) return;
-      const dateKey = key.replace('@trackkal:log:', '');
-      try {
-        const dayMeals = JSON.parse(value) as MealEntry[];
-        dayMeals.forEach((meal) => mealPayloads.push({ meal, dateKey }));
-      } catch { /* skip corrupt shard */ }
+    mealDays.forEach(([dateKey, dayMeals]) => {
+      dayMeals.forEach((meal) => mealPayloads.push({ meal, dateKey }));
     });
 
     const weightPayloads: WeightSyncPayload[] = weightEntries
@@ -807,8 +1145,17 @@ async function pushDerivedToSupabase(accountInfo: AccountInfo | null): Promise<v
 /**
  * Fire-and-forget background sync. Local writes return immediately; cloud
  * sync runs out-of-band. Per CLAUDE.md: never block UX on a network call.
+ *
+ * Only the meals that changed come here, and they go through the same compare
+ * the queue runs: a meal another device edited later is not written over. Its
+ * cloud copy comes down instead and this edit goes to the conflict log.
  */
-function syncMealsToSupabase(date: string, meals: MealEntry[], removedIds: string[] = []): void {
+function syncMealsToSupabase(
+  date: string,
+  meals: MealEntry[],
+  removedIds: string[] = [],
+  baseAt?: Map<string, string | undefined>,
+): void {
   if ((!meals || meals.length === 0) && removedIds.length === 0) return;
   void (async () => {
     try {
@@ -826,14 +1173,23 @@ function syncMealsToSupabase(date: string, meals: MealEntry[], removedIds: strin
       }
 
       if (payloads.length > 0) {
-        try {
-          await supabaseDataService.upsertMeals(accountInfo, payloads);
-        } catch (error) {
-          if (__DEV__) console.warn('[syncMealsToSupabase] upsert failed, queueing:', error);
-          for (const payload of payloads) {
-            await enqueueSyncOperation({ entity: 'meal', action: 'upsert', payload });
+        const { ops, applyWinners } = await reconcileQueueWithRemote(
+          payloads.map((payload): SyncOperation => ({ entity: 'meal', action: 'upsert', payload })),
+          accountInfo,
+          baseAt,
+        );
+        const winning = ops.flatMap((op) => (op.entity === 'meal' && op.action === 'upsert' ? [op.payload] : []));
+        if (winning.length > 0) {
+          try {
+            await supabaseDataService.upsertMeals(accountInfo, winning);
+          } catch (error) {
+            if (__DEV__) console.warn('[syncMealsToSupabase] upsert failed, queueing:', error);
+            for (const payload of winning) {
+              await enqueueSyncOperation({ entity: 'meal', action: 'upsert', payload });
+            }
           }
         }
+        await applyWinners();
       }
 
       // Soft-delete meals removed from the list. Without this the remote copy
@@ -854,6 +1210,52 @@ function syncMealsToSupabase(date: string, meals: MealEntry[], removedIds: strin
   })();
 }
 
+/**
+ * Same as syncMealsToSupabase, for the exercises saveExercises changed. It runs
+ * after the save lets go of the exercises lock, which a winning cloud copy
+ * needs to come down.
+ */
+function syncExercisesToSupabase(changed: ExerciseEntry[], removedIds: string[]): void {
+  if (changed.length === 0 && removedIds.length === 0) return;
+  void (async () => {
+    try {
+      const accountInfo = await getCachedAccountInfo();
+      if (!accountInfo?.supabaseUserId) {
+        if (changed.length > 0) await enqueueSyncOperation({ entity: 'exercise', action: 'upsert', payload: changed });
+        if (removedIds.length > 0) await enqueueSyncOperation({ entity: 'exercise', action: 'delete', payload: { ids: removedIds } });
+        return;
+      }
+
+      if (changed.length > 0) {
+        const { ops, applyWinners } = await reconcileQueueWithRemote(
+          [{ entity: 'exercise', action: 'upsert', payload: changed }],
+          accountInfo,
+        );
+        const winning = ops.flatMap((op) => (op.entity === 'exercise' && op.action === 'upsert' ? op.payload : []));
+        if (winning.length > 0) {
+          try {
+            await supabaseDataService.upsertExercises(accountInfo, winning);
+          } catch (error) {
+            console.error('Error syncing exercises to Supabase:', error);
+            await enqueueSyncOperation({ entity: 'exercise', action: 'upsert', payload: winning });
+          }
+        }
+        await applyWinners();
+      }
+      if (removedIds.length > 0) {
+        try {
+          await supabaseDataService.deleteExercises(accountInfo, removedIds);
+        } catch (error) {
+          console.error('Error deleting exercises from Supabase:', error);
+          await enqueueSyncOperation({ entity: 'exercise', action: 'delete', payload: { ids: removedIds } });
+        }
+      }
+    } catch (e) {
+      if (__DEV__) console.warn('[syncExercisesToSupabase] unexpected error', e);
+    }
+  })();
+}
+
 // On PWA cold open the local ACCOUNT_INFO cache is often empty (iOS Safari ITP
 // eviction or a fresh storage partition) even though the Supabase session is
 // valid. Every gated remote read keys off getCachedAccountInfo().supabaseUserId,
@@ -978,20 +1380,35 @@ export type WeightSyncPayload = {
   updatedAt: string;
 };
 
-type SyncOperation =
+export type WaterSyncPayload = {
+  date: string; // yyyy-MM-dd
+  ml: number;
+  updatedAt: string;
+};
+
+export type SyncOperation =
   | { entity: 'meal'; action: 'upsert'; payload: MealSyncPayload }
   | { entity: 'meal'; action: 'delete'; payload: { id: string } }
+  | { entity: 'meal'; action: 'restore'; payload: { id: string } }
   | { entity: 'weight'; action: 'upsert'; payload: WeightSyncPayload }
   | { entity: 'weight'; action: 'delete'; payload: { id: string } }
   | { entity: 'goals'; action: 'upsert'; payload: ExtendedGoalData }
   | { entity: 'exercise'; action: 'upsert'; payload: ExerciseEntry[] }
   | { entity: 'exercise'; action: 'delete'; payload: { ids: string[] } }
+  | { entity: 'exercise'; action: 'restore'; payload: { ids: string[] } }
+  | { entity: 'water'; action: 'upsert'; payload: WaterSyncPayload }
   | { entity: 'push_token'; action: 'upsert'; payload: { token: string; deviceInfo?: any } }
   | { entity: 'push_token'; action: 'revoke'; payload: { token: string } }
   | { entity: 'push_history'; action: 'upsert'; payload: PushBroadcastRecord }
   | { entity: 'push_history'; action: 'update_click'; payload: { id: string } }
   | { entity: 'saved_prompt'; action: 'upsert'; payload: SavedPrompt }
   | { entity: 'saved_prompt'; action: 'delete'; payload: { id: string } }
+  | { entity: 'personal_food'; action: 'upsert'; payload: PersonalFood }
+  | { entity: 'personal_food'; action: 'delete'; payload: { id: string } }
+  | { entity: 'recipe'; action: 'upsert'; payload: Recipe }
+  | { entity: 'recipe'; action: 'delete'; payload: { id: string } }
+  | { entity: 'meal_template'; action: 'upsert'; payload: MealTemplate }
+  | { entity: 'meal_template'; action: 'delete'; payload: { id: string } }
   | { entity: 'preferences'; action: 'upsert'; payload: Preferences }
   | { entity: 'settings'; action: 'upsert'; payload: { entryCount?: number; deviceInfo?: any } }
   | { entity: 'referral_code'; action: 'upsert'; payload: ReferralCode }
@@ -1000,12 +1417,42 @@ type SyncOperation =
   | { entity: 'streak_freeze'; action: 'upsert'; payload: StreakFreezeData }
   | { entity: 'analytics_event'; action: 'log'; payload: AnalyticsEvent };
 
+// The version a conflict threw away, by entity. Exactly what that side held, so
+// a restore puts it back as it was rather than a reconstruction of it.
+type SyncConflictRecord =
+  | { entity: 'meal'; dropped: MealSyncPayload }
+  | { entity: 'weight'; dropped: WeightSyncPayload }
+  | { entity: 'exercise'; dropped: { entry: ExerciseEntry; dateKey: string } }
+  | { entity: 'goals'; dropped: ExtendedGoalData }
+  | { entity: 'preferences'; dropped: Preferences };
+
+export type SyncConflict = SyncConflictRecord & {
+  id: string;
+  recordId: string; // meal or exercise id, the weigh-in day, or the entity for singletons
+  kept: 'local' | 'remote';
+  keptUpdatedAt?: string;
+  droppedUpdatedAt?: string;
+  detectedAt: string;
+  restoredAt?: string;
+};
+
+// What a delete took off the device, exactly as it was stored, so a restore
+// puts back the same record under the same id
+export type TrashRecord =
+  | { kind: 'meal'; dateKey: string; meal: MealEntry }
+  | { kind: 'exercise'; dateKey: string; entry: ExerciseEntry }
+  | { kind: 'weight'; entry: WeightEntry };
+
+export type TrashedItem = TrashRecord & {
+  id: string;
+  deletedAt: string;
+};
+
+export const TRASH_RETENTION_DAYS = 30;
+
 const readSyncQueue = async (): Promise<SyncOperation[]> => {
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_QUEUE);
-    if (!data) return [];
-    const parsed = JSON.parse(data);
-    return Array.isArray(parsed) ? parsed : [];
+    return await bulkStore.readSyncQueue();
   } catch (error) {
     console.error('Error reading sync queue:', error);
     return [];
@@ -1014,11 +1461,7 @@ const readSyncQueue = async (): Promise<SyncOperation[]> => {
 
 const writeSyncQueue = async (queue: SyncOperation[]): Promise<void> => {
   try {
-    if (queue.length === 0) {
-      await AsyncStorage.removeItem(STORAGE_KEYS.SYNC_QUEUE);
-    } else {
-      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_QUEUE, JSON.stringify(queue));
-    }
+    await bulkStore.replaceSyncQueue(queue);
   } catch (error) {
     console.error('Error writing sync queue:', error);
   }
@@ -1026,21 +1469,72 @@ const writeSyncQueue = async (queue: SyncOperation[]): Promise<void> => {
 
 const MAX_SYNC_ATTEMPTS = 5;
 
-// All read-modify-write on the SYNC_QUEUE key goes through one lock so a flush
-// and an enqueue can never interleave and silently drop or double-run ops.
+export interface SyncDiagnostics {
+  queueDepth: number;
+  queueByEntity: Record<string, number>;
+  retryingOps: number; // ops that have failed at least once and are waiting to go again
+  deadLetters: number;
+  openConflicts: number;
+  lastMealsSyncAt: number | null; // ms of the last successful meals pull
+  signedIn: boolean;
+  local: { meals: number; mealDays: number; weights: number; summaries: number };
+  remote: { meals: number; weights: number; summaries: number } | null;
+  localSchema: { version: number; latest: number; lastError: string | null };
+}
+
+export interface DeadLetter {
+  id: string;
+  op: SyncOperation;
+  error: string; // the last failure, as the queue saw it
+  attempts: number;
+  failedAt: string;
+}
+
+const readDeadLetters = async (): Promise<DeadLetter[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_DEAD_LETTERS);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeDeadLetters = async (letters: DeadLetter[]): Promise<void> => {
+  if (letters.length === 0) {
+    await AsyncStorage.removeItem(STORAGE_KEYS.SYNC_DEAD_LETTERS);
+  } else {
+    await AsyncStorage.setItem(STORAGE_KEYS.SYNC_DEAD_LETTERS, JSON.stringify(letters));
+  }
+};
+
+const describeSyncError = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String((error as any).message);
+  return String(error);
+};
+
+// All writes to the sync queue go through one lock so a flush and an enqueue
+// can never interleave and silently drop or double-run ops.
 const enqueueSyncOperation = async (op: SyncOperation): Promise<void> => {
   await withWriteLock('syncQueue', async () => {
-    const queue = await readSyncQueue();
-    queue.push(op);
-    await writeSyncQueue(queue);
+    try {
+      await bulkStore.appendSyncOperation(op);
+    } catch (error) {
+      console.error('Error writing sync queue:', error);
+    }
   });
 };
 
-const executeSyncOperation = async (op: SyncOperation, accountInfo: AccountInfo) => {
+// May hand back a step to run once the queue lock is released, for cloud
+// copies that turned out newer than the op and have to come down
+const executeSyncOperation = async (op: SyncOperation, accountInfo: AccountInfo): Promise<(() => Promise<void>) | void> => {
   switch (op.entity) {
     case 'meal':
       if (op.action === 'upsert') {
         await supabaseDataService.upsertMeals(accountInfo, [op.payload]);
+      } else if (op.action === 'restore') {
+        await supabaseDataService.restoreMeals(accountInfo, [op.payload.id]);
       } else {
         await supabaseDataService.deleteMeals(accountInfo, [op.payload.id]);
       }
@@ -1060,10 +1554,18 @@ const executeSyncOperation = async (op: SyncOperation, accountInfo: AccountInfo)
     case 'exercise':
       if (op.action === 'upsert') {
         await supabaseDataService.upsertExercises(accountInfo, op.payload);
+      } else if (op.action === 'restore') {
+        await supabaseDataService.restoreExercises(accountInfo, op.payload.ids);
       } else {
         await supabaseDataService.deleteExercises(accountInfo, op.payload.ids);
       }
       break;
+    case 'water':
+      if (op.action === 'upsert') {
+        const newer = await supabaseDataService.upsertWaterLog(accountInfo, [op.payload]);
+        if (Object.keys(newer).length > 0) return () => applyRemoteWaterLog(accountInfo, newer);
+      }
+      break;
     case 'push_token':
       if (op.action === 'upsert') {
         await supabaseDataService.upsertPushToken(accountInfo, op.payload.token, op.payload.deviceInfo);
@@ -1085,6 +1587,27 @@ const executeSyncOperation = async (op: SyncOperation, accountInfo: AccountInfo)
         await supabaseDataService.deleteSavedPrompt(accountInfo, op.payload.id);
       }
       break;
+    case 'personal_food':
+      if (op.action === 'upsert') {
+        await supabaseDataService.upsertPersonalFood(accountInfo, op.payload);
+      } else {
+        await supabaseDataService.deletePersonalFood(accountInfo, op.payload.id);
+      }
+      break;
+    case 'recipe':
+      if (op.action === 'upsert') {
+        await supabaseDataService.upsertRecipe(accountInfo, op.payload);
+      } else {
+        await supabaseDataService.deleteRecipe(accountInfo, op.payload.id);
+      }
+      break;
+    case 'meal_template':
+      if (op.action === 'upsert') {
+        await supabaseDataService.upsertMealTemplate(accountInfo, op.payload);
+      } else {
+        await supabaseDataService.deleteMealTemplate(accountInfo, op.payload.id);
+      }
+      break;
     case 'preferences':
       if (op.action === 'upsert') {
         await supabaseDataService.savePreferences(accountInfo, op.payload);
@@ -1126,17 +1649,388 @@ const executeSyncOperation = async (op: SyncOperation, accountInfo: AccountInfo)
   }
 };
 
+// ── Conflict-aware replay ──
+// A queued upsert can be hours old by the time it runs, and another device may
+// have written the same record since. Before replaying, each versioned upsert is
+// compared with the cloud copy by updatedAt:
+//   - no cloud copy, or the same content: replay as before
+//   - local is newer: local wins and is replayed
+//   - cloud is newer: the op is dropped and the cloud copy is written locally
+// Whichever side loses is kept in the conflict log so nothing is ever lost
+// without a trace. Ties go to the cloud, since it is the copy other devices
+// already see. A cloud copy with no version (older rows) never beats local.
+const MAX_SYNC_CONFLICTS = 100;
+
+const readSyncConflicts = async (): Promise<SyncConflict[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_CONFLICTS);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Recycle bin. Local only: the cloud copy of a deleted meal or exercise is
+// already just soft-deleted, so a restore only has to clear that mark again.
+// Items past TRASH_RETENTION_DAYS are dropped the next time the bin is read.
+const MAX_TRASH_ITEMS = 500;
+
+const trashRecordId = (r: TrashRecord): string =>
+  r.kind === 'meal' ? r.meal.id : r.kind === 'exercise' ? r.entry.id : r.entry.id || r.entry.date;
+
+const readTrash = async (): Promise<TrashedItem[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEYS.TRASH);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const isTrashExpired = (item: TrashedItem, now: number) =>
+  now - new Date(item.deletedAt).getTime() > TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+const addToTrash = async (record: TrashRecord): Promise<void> => {
+  await withWriteLock('trash', async () => {
+    const now = Date.now();
+    const recordId = trashRecordId(record);
+    const existing = (await readTrash()).filter(
+      (t) => !isTrashExpired(t, now) && !(t.kind === record.kind && trashRecordId(t) === recordId)
+    );
+    const item = { ...record, id: generateId(), deletedAt: new Date(now).toISOString() } as TrashedItem;
+    await AsyncStorage.setItem(STORAGE_KEYS.TRASH, JSON.stringify([item, ...existing].slice(0, MAX_TRASH_ITEMS)));
+  });
+};
+
+// A delete still waiting in the queue would run after the restore and take the
+// row away again, so the restored ids come out of any pending delete first
+const dropQueuedDeletes = async (op: SyncOperation): Promise<void> => {
+  const ids = new Set<string>(
+    op.entity === 'meal' && op.action === 'restore' ? [op.payload.id]
+      : op.entity === 'exercise' && op.action === 'restore' ? op.payload.ids
+        : [],
+  );
+  if (ids.size === 0) return;
+  await withWriteLock('syncQueue', async () => {
+    const queue = await readSyncQueue();
+    const next: SyncOperation[] = [];
+    for (const queued of queue) {
+      if (queued.entity === 'meal' && queued.action === 'delete' && op.entity === 'meal') {
+        if (!ids.has(queued.payload.id)) next.push(queued);
+      } else if (queued.entity === 'exercise' && queued.action === 'delete' && op.entity === 'exercise') {
+        const left = queued.payload.ids.filter((id) => !ids.has(id));
+        if (left.length > 0) next.push({ ...queued, payload: { ids: left } });
+      } else {
+        next.push(queued);
+      }
+    }
+    if (next.length !== queue.length || next.some((q, i) => q !== queue[i])) await writeSyncQueue(next);
+  });
+};
+
+// Undeletes in the cloud now, or from the queue once signed in and online
+const syncRestore = async (op: SyncOperation): Promise<void> => {
+  await dropQueuedDeletes(op);
+  const accountInfo = await getCachedAccountInfo();
+  if (!accountInfo?.supabaseUserId && !accountInfo?.email) {
+    await enqueueSyncOperation(op);
+    return;
+  }
+  try {
+    const followUp = await executeSyncOperation(op, accountInfo);
+    if (followUp) await followUp();
+  } catch (error) {
+    if (__DEV__) console.warn(`[syncRestore] ${op.entity} restore failed, queueing:`, error);
+    await enqueueSyncOperation(op);
+  }
+};
+
+const recordSyncConflicts = async (conflicts: SyncConflict[]): Promise<void> => {
+  if (conflicts.length === 0) return;
+  await withWriteLock('syncConflicts', async () => {
+    const existing = await readSyncConflicts();
+    const next = [...conflicts, ...existing].slice(0, MAX_SYNC_CONFLICTS);
+    await AsyncStorage.setItem(STORAGE_KEYS.SYNC_CONFLICTS, JSON.stringify(next));
+  });
+};
+
+// Keys in a fixed order. Postgres jsonb hands objects back with their keys
+// reordered, so a meal that went up and came back down stringifies differently
+const canonical = (x: unknown): unknown => {
+  if (Array.isArray(x)) return x.map(canonical);
+  if (!x || typeof x !== 'object') return x;
+  return Object.fromEntries(Object.keys(x).sort().map((k) => [k, canonical((x as Record<string, unknown>)[k])]));
+};
+
+// Content without the stamps, so two saves of the same thing never count as a conflict
+const sameContent = (a: unknown, b: unknown): boolean => {
+  const strip = (x: any) => {
+    if (!x || typeof x !== 'object') return x;
+    const { updatedAt: _u, _attempts: _a, ...rest } = x;
+    return rest;
+  };
+  return JSON.stringify(canonical(strip(a))) === JSON.stringify(canonical(strip(b)));
+};
+
+// Goals and preferences only round-trip some fields through the cloud. Compare
+// just those, or every save would look like a conflict with its own echo
+const goalsFingerprint = (g: ExtendedGoalData) => ({
+  calories: g.calories || null,
+  protein: g.proteinGrams || null,
+  carbs: g.carbsGrams || null,
+  fat: g.fatGrams || null,
+  goal: g.goal || null,
+  dietPlan: g.dietPlan || null,
+  currentWeightKg: g.currentWeightKg || null,
+  targetWeightKg: g.targetWeightKg || null,
+});
+
+const prefsFingerprint = (p: Preferences) => ({
+  notificationsEnabled: p.notificationsEnabled,
+  mealReminders: p.mealReminders,
+});
+
+type ConflictVerdict = 'replay' | 'local' | 'remote';
+
+const judge = (localAt: string | undefined, remoteAt: string | undefined, same: boolean): ConflictVerdict => {
+  if (same || !remoteAt) return 'replay';
+  return (localAt || '') > remoteAt ? 'local' : 'remote';
+};
+
+const noWinners = async () => {};
+
+// Whether the local copy is still no newer than the cloud copy that beat it.
+// A save that landed after the queue was judged is newer, and is kept
+const stillLoses = (local: { updatedAt?: string } | undefined, remoteAt: string | undefined) =>
+  !local || (local.updatedAt || '') <= (remoteAt || '');
+
+/**
+ * Checks the queue against the cloud and returns the ops still worth running,
+ * plus a step that brings the winning cloud copies down. Cloud reads are
+ * batched per entity and only made for entities that are actually queued. If
+ * a read fails the ops run as they always did: a flaky network must not hold
+ * the whole queue hostage.
+ *
+ * The caller runs applyWinners once it has let go of the queue lock. It takes
+ * the same locks the saves do, and a save can hold its lock while it queues,
+ * so taking them under the queue lock could deadlock.
+ *
+ * The live pushes run through here too. They pass baseAt, the stamp each meal
+ * had before the edit, which says exactly which cloud copy the edit was made on.
+ */
+const reconcileQueueWithRemote = async (
+  queue: SyncOperation[],
+  account: AccountInfo,
+  baseAt?: Map<string, string | undefined>,
+): Promise<{ ops: SyncOperation[]; applyWinners: () => Promise<void> }> => {
+  const mealIds = queue.flatMap((op) => (op.entity === 'meal' && op.action === 'upsert' ? [op.payload.meal.id] : []));
+  const exerciseIds = queue.flatMap((op) => (op.entity === 'exercise' && op.action === 'upsert' ? op.payload.map((e) => e.id) : []));
+  const has = (entity: SyncOperation['entity']) => queue.some((op) => op.entity === entity && op.action === 'upsert');
+
+  let remoteMeals: Record<string, MealSyncPayload> = {};
+  let remoteExercises: Record<string, { entry: ExerciseEntry; dateKey: string }> = {};
+  let remoteWeights = new Map<string, WeightEntry>();
+  let remoteGoals: ExtendedGoalData | null = null;
+  let remotePrefs: Preferences | null = null;
+  try {
+    const [meals, exercises, weights, goals, prefs] = await Promise.all([
+      mealIds.length > 0 ? supabaseDataService.fetchMealsByIds(account, mealIds) : Promise.resolve({}),
+      exerciseIds.length > 0 ? supabaseDataService.fetchExercisesByIds(account, exerciseIds) : Promise.resolve({}),
+      has('weight') ? supabaseDataService.fetchWeightEntries(account) : Promise.resolve([] as WeightEntry[]),
+      has('goals') ? supabaseDataService.fetchNutritionGoals(account) : Promise.resolve(null),
+      has('preferences') ? supabaseDataService.fetchPreferences(account) : Promise.resolve(null),
+    ]);
+    remoteMeals = meals;
+    remoteExercises = exercises;
+    remoteWeights = new Map(weights.map((w) => [w.date.slice(0, 10), w]));
+    remoteGoals = goals;
+    remotePrefs = prefs;
+  } catch (e) {
+    if (__DEV__) console.warn('[reconcileQueueWithRemote] cloud read failed, replaying as-is:', e);
+    return { ops: queue, applyWinners: noWinners };
+  }
+
+  // When local beats the cloud on a meal, the cloud copy is only a lost edit if
+  // it changed after this device last pulled. Anything older is the version the
+  // local edit was made on top of, and logging it would flag every offline edit
+  const lastPullRaw = await AsyncStorage.getItem(STORAGE_KEYS.LAST_MEALS_SYNC_AT).catch(() => null);
+  const lastPullAt = lastPullRaw ? Number(lastPullRaw) || 0 : 0;
+
+  const conflicts: SyncConflict[] = [];
+  const detectedAt = new Date().toISOString();
+  const conflict = (c: SyncConflictRecord & Omit<SyncConflict, 'id' | 'detectedAt' | 'entity' | 'dropped'>) =>
+    conflicts.push({ ...c, id: generateId(), detectedAt } as SyncConflict);
+
+  const remoteMealWins: MealSyncPayload[] = [];
+  const remoteExerciseWins: Array<{ entry: ExerciseEntry; dateKey: string }> = [];
+  const remoteWeightWins: WeightEntry[] = [];
+  let remoteGoalsWin = false;
+  let remotePrefsWin = false;
+
+  const out: SyncOperation[] = [];
+  for (const op of queue) {
+    if (op.action !== 'upsert') { out.push(op); continue; }
+
+    if (op.entity === 'meal') {
+      const local = op.payload;
+      const remote = remoteMeals[local.meal.id];
+      const verdict = judge(local.meal.updatedAt, remote?.meal.updatedAt, !!remote && sameContent(local.meal, remote.meal));
+      if (verdict === 'remote') {
+        conflict({ entity: 'meal', recordId: local.meal.id, kept: 'remote', keptUpdatedAt: remote.meal.updatedAt, dropped: local, droppedUpdatedAt: local.meal.updatedAt });
+        remoteMealWins.push(remote);
+        continue;
+      }
+      const editedOnTop = baseAt?.has(local.meal.id)
+        ? (remote.meal.updatedAt || '') <= (baseAt.get(local.meal.id) || '')
+        : Date.parse(remote.meal.updatedAt || '') <= lastPullAt;
+      if (verdict === 'local' && !editedOnTop) {
+        conflict({ entity: 'meal', recordId: local.meal.id, kept: 'local', keptUpdatedAt: local.meal.updatedAt, dropped: remote, droppedUpdatedAt: remote.meal.updatedAt });
+      }
+      out.push(op);
+    } else if (op.entity === 'weight') {
+      const local = op.payload;
+      const day = local.date.slice(0, 10);
+      const remote = remoteWeights.get(day);
+      // weight_log keeps only created_at, so a later edit of a day on another
+      // device is invisible here. Weights only conflict when the cloud's first
+      // write for the day came after this edit
+      const verdict = judge(local.updatedAt, remote?.updatedAt, !!remote && remote.weight === local.weight);
+      if (verdict === 'remote') {
+        conflict({ entity: 'weight', recordId: day, kept: 'remote', keptUpdatedAt: remote!.updatedAt, dropped: local, droppedUpdatedAt: local.updatedAt });
+        remoteWeightWins.push(remote!);
+        continue;
+      }
+      out.push(op);
+    } else if (op.entity === 'exercise') {
+      // One op carries the whole list. Losing entries are trimmed out of it
+      const keep: ExerciseEntry[] = [];
+      for (const entry of op.payload) {
+        const remote = remoteExercises[entry.id];
+        const verdict = judge(entry.updatedAt, remote?.entry.updatedAt, !!remote && sameContent(
+          { ...entry, timestamp: undefined },
+          { ...remote.entry, timestamp: undefined },
+        ));
+        if (verdict === 'remote') {
+          const dateKey = format(new Date(entry.timestamp), 'yyyy-MM-dd');
+          conflict({ entity: 'exercise', recordId: entry.id, kept: 'remote', keptUpdatedAt: remote.entry.updatedAt, dropped: { entry, dateKey }, droppedUpdatedAt: entry.updatedAt });
+          remoteExerciseWins.push(remote);
+          continue;
+        }
+        keep.push(entry);
+      }
+      if (keep.length > 0) out.push({ ...op, payload: keep });
+    } else if (op.entity === 'goals') {
+      const verdict = judge(op.payload.updatedAt, remoteGoals?.updatedAt, !!remoteGoals && sameContent(goalsFingerprint(op.payload), goalsFingerprint(remoteGoals)));
+      if (verdict === 'remote') {
+        conflict({ entity: 'goals', recordId: 'goals', kept: 'remote', keptUpdatedAt: remoteGoals!.updatedAt, dropped: op.payload, droppedUpdatedAt: op.payload.updatedAt });
+        remoteGoalsWin = true;
+        continue;
+      }
+      out.push(op);
+    } else if (op.entity === 'preferences') {
+      const verdict = judge(op.payload.updatedAt, remotePrefs?.updatedAt, !!remotePrefs && sameContent(prefsFingerprint(op.payload), prefsFingerprint(remotePrefs)));
+      if (verdict === 'remote') {
+        conflict({ entity: 'preferences', recordId: 'preferences', kept: 'remote', keptUpdatedAt: remotePrefs!.updatedAt, dropped: op.payload, droppedUpdatedAt: op.payload.updatedAt });
+        remotePrefsWin = true;
+        continue;
+      }
+      out.push(op);
+    } else {
+      out.push(op);
+    }
+  }
+
+  if (conflicts.length === 0) return { ops: out, applyWinners: noWinners };
+  await recordSyncConflicts(conflicts);
+
+  // Bring the winning cloud copies down, straight into storage. Going through
+  // the save methods would push them right back up through this same queue
+  const applyWinners = async () => {
+    try {
+      const byDay = new Map<string, MealSyncPayload[]>();
+      remoteMealWins.forEach((p) => byDay.set(p.dateKey, [...(byDay.get(p.dateKey) || []), p]));
+      for (const [dateKey, wins] of byDay) {
+        await withWriteLock('log:' + dateKey, async () => {
+          const day = (await bulkStore.getMealDay(dateKey)) || [];
+          const current = new Map(day.map((m) => [m.id, m]));
+          const landing = wins.filter((w) => stillLoses(current.get(w.meal.id), w.meal.updatedAt));
+          if (landing.length === 0) return;
+          const winIds = new Set(landing.map((w) => w.meal.id));
+          const next = [...day.filter((m) => !winIds.has(m.id)), ...landing.map((w) => w.meal)].sort((a, b) => a.timestamp - b.timestamp);
+          await bulkStore.setMealDay(dateKey, next);
+          invalidateMealsCache();
+          await dataStorage.updateSummaryForDate(dateKey, next);
+        });
+      }
+
+      if (remoteExerciseWins.length > 0) {
+        await withWriteLock('exercises', async () => {
+          const raw = await AsyncStorage.getItem(STORAGE_KEYS.EXERCISES);
+          const all: Record<string, ExerciseEntry[]> = raw ? JSON.parse(raw) : {};
+          const current = new Map(Object.values(all).flat().map((e) => [e.id, e]));
+          const landing = remoteExerciseWins.filter((w) => stillLoses(current.get(w.entry.id), w.entry.updatedAt));
+          if (landing.length === 0) return;
+          const winIds = new Set(landing.map((w) => w.entry.id));
+          Object.keys(all).forEach((d) => { all[d] = all[d].filter((e) => !winIds.has(e.id)); });
+          landing.forEach(({ entry, dateKey }) => { all[dateKey] = [...(all[dateKey] || []), entry]; });
+          await AsyncStorage.setItem(STORAGE_KEYS.EXERCISES, JSON.stringify(all));
+        });
+      }
+
+      if (remoteWeightWins.length > 0) {
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.WEIGHT_ENTRIES);
+        const entries: WeightEntry[] = raw ? JSON.parse(raw) : [];
+        const wins = new Map(remoteWeightWins.map((w) => [w.date.slice(0, 10), w]));
+        const next = entries.map((e) => wins.get(e.date.slice(0, 10)) ?? e);
+        await AsyncStorage.setItem(STORAGE_KEYS.WEIGHT_ENTRIES, JSON.stringify(next));
+      }
+
+      if (remoteGoalsWin && remoteGoals) {
+        const goals = remoteGoals;
+        await withWriteLock('goals', async () => {
+          const raw = await AsyncStorage.getItem(STORAGE_KEYS.GOALS);
+          const local: ExtendedGoalData | null = raw ? JSON.parse(raw) : null;
+          if (!stillLoses(local ?? undefined, goals.updatedAt)) return;
+          // the cloud row lacks some profile fields, so lay it over local, not instead of it
+          await AsyncStorage.setItem(STORAGE_KEYS.GOALS, JSON.stringify({ ...(local || {}), ...goals }));
+        });
+      }
+
+      if (remotePrefsWin && remotePrefs) {
+        const prefs = remotePrefs;
+        await withWriteLock('preferences', async () => {
+          const raw = await AsyncStorage.getItem(STORAGE_KEYS.PREFERENCES);
+          const local: Partial<Preferences> = raw ? JSON.parse(raw) : {};
+          if (!stillLoses(local, prefs.updatedAt)) return;
+          await AsyncStorage.setItem(STORAGE_KEYS.PREFERENCES, JSON.stringify({ ...PREFERENCES_DEFAULTS, ...local, ...prefsFingerprint(prefs), updatedAt: prefs.updatedAt }));
+        });
+      }
+    } catch (e) {
+      console.error('Error applying remote conflict winners locally:', e);
+    }
+  };
+
+  return { ops: out, applyWinners };
+};
+
 const processSyncQueue = async (accountInfo: AccountInfo | null): Promise<void> => {
   if (!accountInfo || (!accountInfo.supabaseUserId && !accountInfo.email)) return;
   const account = accountInfo; // non-null from here
+  const afterQueue: Array<() => Promise<void>> = [];
   await withWriteLock('syncQueue', async () => {
-    const queue = await readSyncQueue();
-    if (queue.length === 0) return;
+    const queued = await readSyncQueue();
+    if (queued.length === 0) return;
+    const { ops: queue, applyWinners } = await reconcileQueueWithRemote(queued, account);
+    afterQueue.push(applyWinners);
 
     const remaining: SyncOperation[] = [];
+    const deadLetters: DeadLetter[] = [];
     for (const op of queue) {
       try {
-        await executeSyncOperation(op, account);
+        const followUp = await executeSyncOperation(op, account);
+        if (followUp) afterQueue.push(followUp);
       } catch (error) {
         // No live session yet. Keep the op exactly as it was and stop: the
         // whole queue is blocked on the same thing, and spending attempts on
@@ -1146,10 +2040,19 @@ const processSyncQueue = async (accountInfo: AccountInfo | null): Promise<void>
           continue;
         }
         // Do NOT abort the whole queue on one bad op (head-of-line blocking).
-        // Retry this op up to a cap, then drop it so every later op still syncs.
+        // Retry this op up to a cap, then park it in the dead-letter store so
+        // every later op still syncs and this one can be replayed by hand.
         const attempts = ((op as any)._attempts || 0) + 1;
         if (attempts >= MAX_SYNC_ATTEMPTS) {
-          console.error(`Dropping sync op ${op.entity}/${op.action} after ${attempts} attempts:`, error);
+          console.error(`Parking sync op ${op.entity}/${op.action} after ${attempts} attempts:`, error);
+          const { _attempts: _drop, ...clean } = op as any;
+          deadLetters.push({
+            id: generateId(),
+            op: clean as SyncOperation,
+            error: describeSyncError(error),
+            attempts,
+            failedAt: new Date().toISOString(),
+          });
         } else {
           remaining.push({ ...op, _attempts: attempts } as unknown as SyncOperation);
         }
@@ -1157,7 +2060,13 @@ const processSyncQueue = async (accountInfo: AccountInfo | null): Promise<void>
     }
 
     await writeSyncQueue(remaining);
+    if (deadLetters.length > 0) {
+      await withWriteLock('syncDeadLetters', async () => {
+        await writeDeadLetters([...(await readDeadLetters()), ...deadLetters]);
+      });
+    }
   });
+  for (const apply of afterQueue) await apply();
 };
 
 const ensureMealMetadata = (mealsByDate: Record<string, MealEntry[]>) => {
@@ -1333,6 +2242,21 @@ const mergeWeightEntries = (remote: WeightEntry[], local: WeightEntry[]): Weight
   return Array.from(mergedMap.values());
 };
 
+// Pushes one template, or queues it when signed out or the push fails
+async function syncMealTemplateToSupabase(template: MealTemplate): Promise<void> {
+  const accountInfo = await getCachedAccountInfo();
+  if (accountInfo?.supabaseUserId) {
+    try {
+      await supabaseDataService.upsertMealTemplate(accountInfo, template);
+    } catch (error) {
+      console.error('Error syncing meal template to Supabase:', error);
+      await enqueueSyncOperation({ entity: 'meal_template', action: 'upsert', payload: template });
+    }
+  } else {
+    await enqueueSyncOperation({ entity: 'meal_template', action: 'upsert', payload: template });
+  }
+}
+
 export const dataStorage = {
   // Cross-device pull for derived/settings state. Called from the auth listener
   // on SIGNED_IN so insights / patterns / plans / unlocks / summaries / calorie
@@ -1374,6 +2298,7 @@ export const dataStorage = {
         const allKeys = await AsyncStorage.getAllKeys();
         const toRemove = allKeys.filter((k) => !preserve.has(k));
         if (toRemove.length > 0) await AsyncStorage.multiRemove(toRemove);
+        await bulkStore.clear();
         invalidateMealsCache();
         await AsyncStorage.setItem(STORAGE_KEYS.LAST_CONTENT_OWNER, identity);
         return true;
@@ -1399,6 +2324,266 @@ export const dataStorage = {
     await processSyncQueue(accountInfo);
   },
 
+  // ── Sync diagnostics ──
+  // Everything support asks about when "my meals are missing on my iPad", read
+  // without side effects: no queue flush, no merge, nothing written.
+  async getSyncDiagnostics(): Promise<SyncDiagnostics> {
+    const accountInfo = await getCachedAccountInfo();
+    const signedIn = !!(accountInfo?.supabaseUserId || accountInfo?.email);
+
+    const [queue, letters, conflicts, lastSyncRaw, mealDayList, weightsRaw, summaryMap, remote, schema] = await Promise.all([
+      readSyncQueue(),
+      readDeadLetters(),
+      readSyncConflicts(),
+      AsyncStorage.getItem(STORAGE_KEYS.LAST_MEALS_SYNC_AT),
+      bulkStore.getAllMealDays().catch(() => [] as [string, MealEntry[]][]),
+      AsyncStorage.getItem(STORAGE_KEYS.WEIGHT_ENTRIES),
+      bulkStore.getSummaries().catch(() => ({} as Record<string, DailySummary>)),
+      signedIn ? supabaseDataService.fetchSyncCounts(accountInfo).catch(() => null) : Promise.resolve(null),
+      readLocalSchemaState(),
+    ]);
+
+    const queueByEntity: Record<string, number> = {};
+    queue.forEach((op) => { queueByEntity[op.entity] = (queueByEntity[op.entity] || 0) + 1; });
+
+    let meals = 0;
+    let mealDays = 0;
+    mealDayList.forEach(([, day]) => {
+      if (day.length > 0) mealDays++;
+      meals += day.length;
+    });
+
+    let weights = 0;
+    try { weights = weightsRaw ? (JSON.parse(weightsRaw) as WeightEntry[]).length : 0; } catch { /* */ }
+    const summaries = Object.keys(summaryMap).length;
+
+    return {
+      queueDepth: queue.length,
+      queueByEntity,
+      retryingOps: queue.filter((op) => ((op as any)._attempts || 0) > 0).length,
+      deadLetters: letters.length,
+      openConflicts: conflicts.filter((c) => !c.restoredAt).length,
+      lastMealsSyncAt: lastSyncRaw ? Number(lastSyncRaw) || null : null,
+      signedIn,
+      local: { meals, mealDays, weights, summaries },
+      remote,
+      localSchema: {
+        version: schema.version,
+        latest: LOCAL_MIGRATIONS[LOCAL_MIGRATIONS.length - 1].version,
+        // Only while the failed step is still pending; a later success clears it
+        lastError: schema.inProgress ? schema.history[schema.history.length - 1]?.error ?? null : null,
+      },
+    };
+  },
+
+  // The support "turn it off and on again". Drains the queue, re-pulls the
+  // derived state, then drops the meals cache and runs the full loaders so every
+  // local-first merge happens against a fresh copy of the cloud. Local data is
+  // never cleared first: a resync that could lose unsynced edits isn't one.
+  async forceFullResync(): Promise<void> {
+    const accountInfo = await getCachedAccountInfo();
+    await processSyncQueue(accountInfo);
+    await pullDerivedFromSupabase(accountInfo);
+    // Dropping the cursor makes the reload below a full pull, not a delta
+    await AsyncStorage.removeItem(STORAGE_KEYS.MEALS_PULL_CURSOR);
+    invalidateMealsCache();
+    await this.loadMeals();
+    await this.loadWeightEntries();
+    await this.loadExercises();
+    await this.loadSavedPrompts();
+    await this.loadPersonalFoods();
+    await this.loadRecipes();
+    await this.loadMealTemplates();
+  },
+
+  // ── Dead letters ──
+  // Ops the queue gave up on. Nothing here ever syncs on its own again; the
+  // user decides, from Settings, whether each one goes back or goes away.
+  async loadDeadLetters(): Promise<DeadLetter[]> {
+    return readDeadLetters();
+  },
+
+  async discardDeadLetter(id: string): Promise<void> {
+    await withWriteLock('syncDeadLetters', async () => {
+      await writeDeadLetters((await readDeadLetters()).filter((l) => l.id !== id));
+    });
+  },
+
+  // Every parked op goes back on the queue with a fresh set of attempts, and the
+  // queue runs straight away. Anything that fails five more times lands back here.
+  // A letter only leaves this list once its op is on the queue, so a failed
+  // write or the app dying halfway leaves the rest parked, not gone.
+  async retryAllDeadLetters(): Promise<void> {
+    const letters = await readDeadLetters();
+    const requeued = new Set<string>();
+    for (const letter of letters) {
+      await withWriteLock('syncQueue', async () => {
+        try {
+          await bulkStore.appendSyncOperation(letter.op);
+          requeued.add(letter.id);
+        } catch (error) {
+          console.error('Error writing sync queue:', error);
+        }
+      });
+    }
+    if (requeued.size > 0) {
+      await withWriteLock('syncDeadLetters', async () => {
+        await writeDeadLetters((await readDeadLetters()).filter((l) => !requeued.has(l.id)));
+      });
+    }
+    await this.flushSyncQueue();
+  },
+
+  // ── Sync conflicts ──
+  // Newest first. Restored ones stay listed, marked, so the history reads true.
+  async loadSyncConflicts(): Promise<SyncConflict[]> {
+    return readSyncConflicts();
+  },
+
+  async dismissSyncConflict(id: string): Promise<void> {
+    await withWriteLock('syncConflicts', async () => {
+      const conflicts = await readSyncConflicts();
+      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_CONFLICTS, JSON.stringify(conflicts.filter((c) => c.id !== id)));
+    });
+  },
+
+  // Puts the version a conflict dropped back in place, as a fresh edit. It goes
+  // through the normal save path, so it syncs out and now wins on every device.
+  async restoreSyncConflict(id: string): Promise<boolean> {
+    const conflict = (await readSyncConflicts()).find((c) => c.id === id);
+    if (!conflict || conflict.restoredAt) return false;
+    const now = new Date().toISOString();
+
+    switch (conflict.entity) {
+      case 'meal': {
+        const { meal, dateKey } = conflict.dropped;
+        const day = await this.getDailyLog(dateKey);
+        const next = [...day.filter((m) => m.id !== meal.id), { ...meal, updatedAt: now }]
+          .sort((a, b) => a.timestamp - b.timestamp);
+        await this.saveDailyLog(dateKey, next);
+        break;
+      }
+      case 'weight': {
+        const dropped = conflict.dropped;
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.WEIGHT_ENTRIES);
+        const entries: WeightEntry[] = raw ? JSON.parse(raw) : [];
+        const day = dropped.date.slice(0, 10);
+        const next = [
+          ...entries.filter((e) => e.date.slice(0, 10) !== day),
+          { id: dropped.id, date: dropped.date, weight: dropped.weight, updatedAt: now },
+        ];
+        await this.saveWeightEntries(next.map((e) => ({ ...e, date: parseISO(e.date) })));
+        break;
+      }
+      case 'exercise': {
+        const { entry, dateKey } = conflict.dropped;
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.EXERCISES);
+        const all: Record<string, ExerciseEntry[]> = raw ? JSON.parse(raw) : {};
+        Object.keys(all).forEach((d) => { all[d] = all[d].filter((e) => e.id !== entry.id); });
+        all[dateKey] = [...(all[dateKey] || []), entry];
+        await this.saveExercises(all);
+        break;
+      }
+      case 'goals':
+        await this.saveGoals(conflict.dropped);
+        break;
+      case 'preferences':
+        await this.savePreferences(conflict.dropped);
+        break;
+    }
+
+    await withWriteLock('syncConflicts', async () => {
+      const conflicts = await readSyncConflicts();
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.SYNC_CONFLICTS,
+        JSON.stringify(conflicts.map((c) => (c.id === id ? { ...c, restoredAt: now } : c))),
+      );
+    });
+    return true;
+  },
+
+  // ── Recycle bin ──
+  // Callers put the record here as they delete it; deleteWeightEntry does it
+  // itself. The delete itself still goes through the normal save path.
+  async moveToTrash(record: TrashRecord): Promise<void> {
+    try {
+      await addToTrash(record);
+    } catch (error) {
+      console.error('Error moving item to trash:', error);
+    }
+  },
+
+  // Newest first. Anything past retention is purged here, on the way out.
+  async loadTrash(): Promise<TrashedItem[]> {
+    let live: TrashedItem[] = [];
+    await withWriteLock('trash', async () => {
+      const all = await readTrash();
+      const now = Date.now();
+      live = all.filter((t) => !isTrashExpired(t, now));
+      if (live.length !== all.length) {
+        await AsyncStorage.setItem(STORAGE_KEYS.TRASH, JSON.stringify(live));
+      }
+    });
+    return live;
+  },
+
+  async deleteFromTrash(id: string): Promise<void> {
+    await withWriteLock('trash', async () => {
+      const next = (await readTrash()).filter((t) => t.id !== id);
+      await AsyncStorage.setItem(STORAGE_KEYS.TRASH, JSON.stringify(next));
+    });
+  },
+
+  async emptyTrash(): Promise<void> {
+    await withWriteLock('trash', () => AsyncStorage.removeItem(STORAGE_KEYS.TRASH));
+  },
+
+  // Puts the record back as a fresh edit through the normal save path, which
+  // rebuilds the day's summary and syncs (or queues) the upsert. Meals and
+  // exercises are soft-deleted in the cloud, so they also get an explicit
+  // undelete. Returns what was restored, or null if it was no longer in the bin.
+  async restoreFromTrash(id: string): Promise<TrashedItem | null> {
+    const item = (await readTrash()).find((t) => t.id === id);
+    if (!item) return null;
+    const now = new Date().toISOString();
+
+    switch (item.kind) {
+      case 'meal': {
+        const day = await this.getDailyLog(item.dateKey);
+        const next = [...day.filter((m) => m.id !== item.meal.id), { ...item.meal, updatedAt: now }]
+          .sort((a, b) => a.timestamp - b.timestamp);
+        await this.saveDailyLog(item.dateKey, next);
+        await syncRestore({ entity: 'meal', action: 'restore', payload: { id: item.meal.id } });
+        break;
+      }
+      case 'exercise': {
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.EXERCISES);
+        const all: Record<string, ExerciseEntry[]> = raw ? JSON.parse(raw) : {};
+        Object.keys(all).forEach((d) => { all[d] = all[d].filter((e) => e.id !== item.entry.id); });
+        all[item.dateKey] = [...(all[item.dateKey] || []), item.entry].sort((a, b) => a.timestamp - b.timestamp);
+        await this.saveExercises(all);
+        await syncRestore({ entity: 'exercise', action: 'restore', payload: { ids: [item.entry.id] } });
+        break;
+      }
+      case 'weight': {
+        // The cloud row was hard-deleted, so the upsert alone brings it back.
+        // One weigh-in per day, same as everywhere else: it replaces that day's
+        const raw = await AsyncStorage.getItem(STORAGE_KEYS.WEIGHT_ENTRIES);
+        const entries: WeightEntry[] = raw ? JSON.parse(raw) : [];
+        const day = item.entry.date.slice(0, 10);
+        const next = [
+          ...entries.filter((e) => e.date.slice(0, 10) !== day),
+          { ...item.entry, updatedAt: now },
+        ];
+        await this.saveWeightEntries(next.map((e) => ({ ...e, date: parseISO(e.date) })));
+        break;
+      }
+    }
+
+    await this.deleteFromTrash(id);
+    return item;
+  },
+
   async loadDietHistory(): Promise<DietChange[]> {
     try {
       const raw = await AsyncStorage.getItem(STORAGE_KEYS.DIET_HISTORY);
@@ -1410,14 +2595,15 @@ export const dataStorage = {
   },
 
   // Save goals with all profile data
-  async saveGoals(goals: ExtendedGoalData): Promise<void> {
+  async saveGoals(input: ExtendedGoalData): Promise<void> {
+    const goals: ExtendedGoalData = { ...input, updatedAt: new Date().toISOString() };
     try {
       // Every path that changes a diet lands here, so this is the one place the
       // switch can be caught. Without it the coach sees the new diet with no
       // idea it is new, and cannot explain the numbers that came before it.
       await recordDietChange(goals.dietPlan);
 
-      await AsyncStorage.setItem(STORAGE_KEYS.GOALS, JSON.stringify(goals));
+      await withWriteLock('goals', () => AsyncStorage.setItem(STORAGE_KEYS.GOALS, JSON.stringify(goals)));
 
       // Sync to Supabase if user is logged in. Email-only counts: the writer can
       // resolve the app user from the live session during the sign-up window.
@@ -1484,16 +2670,52 @@ export const dataStorage = {
     }
   },
 
-  // --- DAILY LOG SHARDING HELPERS ---
-
-  async getDailyLog(date: string): Promise<MealEntry[]> {
-    try {
-      const json = await AsyncStorage.getItem(STORAGE_KEYS.dailyLog(date));
-      return json ? JSON.parse(json) : [];
-    } catch (error) {
-      console.error(`Error loading daily log for ${date}:`, error);
-      return [];
+  // --- DAILY LOG SHARDING HELPERS ---
+
+  async getDailyLog(date: string): Promise<MealEntry[]> {
+    try {
+      return (await bulkStore.getMealDay(date)) || [];
+    } catch (error) {
+      console.error(`Error loading daily log for ${date}:`, error);
+      return [];
+    }
+  },
+
+  // Day shards from `from` to `to` inclusive (yyyy-MM-dd), oldest first, one
+  // store read per batch of days, so a year of history never sits in memory at
+  // once the way loadMeals holds it. Days with nothing logged are skipped.
+  // Local only, like getDailyLog: loadMeals is what pulls from the cloud.
+  async *iterateMealsInRange(
+    from: string,
+    to: string,
+    batchDays: number = 31,
+  ): AsyncGenerator<[string, MealEntry[]]> {
+    const last = parseISO(to);
+    for (let batchStart = parseISO(from); batchStart <= last; batchStart = addDays(batchStart, batchDays)) {
+      const batchEnd = addDays(batchStart, batchDays - 1);
+      const fromKey = format(batchStart, 'yyyy-MM-dd');
+      const toKey = format(batchEnd < last ? batchEnd : last, 'yyyy-MM-dd');
+      let days: [string, MealEntry[]][] = [];
+      try {
+        days = await bulkStore.getMealDaysInRange(fromKey, toKey);
+      } catch (error) {
+        console.error(`Error loading daily logs ${fromKey}..${toKey}:`, error);
+        continue;
+      }
+      for (const day of days) {
+        if (day[1].length > 0) yield day;
+      }
+    }
+  },
+
+  // The same days collected into a map keyed by date, for callers that need
+  // the whole window at once. Keep the window to what the screen shows.
+  async getMealsInRange(from: string, to: string): Promise<Record<string, MealEntry[]>> {
+    const byDate: Record<string, MealEntry[]> = {};
+    for await (const [date, meals] of this.iterateMealsInRange(from, to)) {
+      byDate[date] = meals;
     }
+    return byDate;
   },
 
   async saveDailyLog(date: string, meals: MealEntry[]): Promise<void> {
@@ -1507,16 +2729,25 @@ export const dataStorage = {
         );
 
         // Diff against what was previously persisted so meals removed from the
-        // list are soft-deleted in Supabase too, not just dropped locally.
+        // list are soft-deleted in Supabase too, not just dropped locally, and
+        // only meals that changed are pushed. Pushing the whole day wrote this
+        // device's stale copy of every other meal over edits made elsewhere.
         let removedIds: string[] = [];
+        let changed = persistable;
+        const baseAt = new Map<string, string | undefined>();
         try {
-          const prevRaw = await AsyncStorage.getItem(STORAGE_KEYS.dailyLog(date));
-          const prev: MealEntry[] = prevRaw ? JSON.parse(prevRaw) : [];
+          const prev = (await bulkStore.getMealDay(date)) || [];
           const nextIds = new Set(persistable.map((m) => m.id));
           removedIds = prev.filter((m) => m.id && !nextIds.has(m.id)).map((m) => m.id);
-        } catch { /* if prev is unreadable, skip the deletion diff */ }
+          const prevById = new Map(prev.map((m) => [m.id, m]));
+          changed = persistable.filter((m) => {
+            const before = prevById.get(m.id);
+            return !before || !sameContent(before, m) || before.updatedAt !== m.updatedAt;
+          });
+          changed.forEach((m) => { if (prevById.has(m.id)) baseAt.set(m.id, prevById.get(m.id)!.updatedAt); });
+        } catch { /* if prev is unreadable, push the whole day as before */ }
 
-        await AsyncStorage.setItem(STORAGE_KEYS.dailyLog(date), JSON.stringify(persistable));
+        await bulkStore.setMealDay(date, persistable);
         invalidateMealsCache();
 
         // Update summary automatically
@@ -1524,7 +2755,7 @@ export const dataStorage = {
 
         // Fire-and-forget cloud sync. Local write is done; never block UX
         // on the network. Falls back to the sync queue on failure.
-        syncMealsToSupabase(date, persistable, removedIds);
+        syncMealsToSupabase(date, changed, removedIds, baseAt);
       } catch (error) {
         console.error(`Error saving daily log for ${date}:`, error);
       }
@@ -1533,7 +2764,7 @@ export const dataStorage = {
 
   async deleteDailyLog(date: string): Promise<void> {
     try {
-      await AsyncStorage.removeItem(STORAGE_KEYS.dailyLog(date));
+      await bulkStore.setMealDay(date, []);
       invalidateMealsCache();
       await this.updateSummaryForDate(date, []);
     } catch (error) {
@@ -1541,39 +2772,33 @@ export const dataStorage = {
     }
   },
 
-  async migrateLegacyMealsToShards(): Promise<void> {
+  // Runs every pending step in LOCAL_MIGRATIONS. Never throws: a failed step
+  // is recorded and retried on the next launch
+  async runLocalMigrations(): Promise<LocalSchemaState | null> {
     try {
-      const legacyJson = await AsyncStorage.getItem(STORAGE_KEYS.MEALS);
-      if (!legacyJson) return; // Already migrated or empty
-
-      console.log('Migrating legacy meals to shards...');
-      const legacyMeals: Record<string, MealEntry[]> = JSON.parse(legacyJson);
-
-      const keys = Object.keys(legacyMeals);
-      const pairs: [string, string][] = keys.map(date => [
-        STORAGE_KEYS.dailyLog(date),
-        JSON.stringify(legacyMeals[date])
-      ]);
-
-      if (pairs.length > 0) {
-        try {
-          await AsyncStorage.multiSet(pairs);
-        } catch (e) {
-          for (const [k, v] of pairs) {
-            await AsyncStorage.setItem(k, v);
-          }
-        }
-      }
+      return await runLocalMigrations(LOCAL_MIGRATIONS);
+    } catch (error) {
+      console.error('Error running local migrations:', error);
+      return null;
+    }
+  },
 
-      await AsyncStorage.removeItem(STORAGE_KEYS.MEALS);
-      console.log('Migration to shards complete.');
+  // Throws so the migration runner can record the failure and retry
+  async migrateLegacyMealsToShards(): Promise<void> {
+    const legacyJson = await AsyncStorage.getItem(STORAGE_KEYS.MEALS);
+    if (!legacyJson) return; // Already migrated or empty
 
-      // Also ensure summaries exist
-      await this.migrateMealsToSummaries();
+    console.log('Migrating legacy meals to shards...');
+    const legacyMeals: Record<string, MealEntry[]> = JSON.parse(legacyJson);
 
-    } catch (error) {
-      console.error('Error migrating to shards:', error);
+    if (Object.keys(legacyMeals).length > 0) {
+      await bulkStore.setMealDays(legacyMeals);
     }
+
+    // Removed last, so a crash before this point re-runs the copy, which
+    // overwrites the same days with the same data
+    await AsyncStorage.removeItem(STORAGE_KEYS.MEALS);
+    console.log('Migration to shards complete.');
   },
 
   // Save all meals (Legacy wrapper/Batched)
@@ -1612,26 +2837,19 @@ export const dataStorage = {
   },
 
   async _loadMealsInternal(): Promise<Record<string, MealEntry[]>> {
-    // First check if we need to migrate
+    // Normally done at startup by runLocalMigrations. Kept for a load that
+    // beats it there. It must not chain into migrateMealsToSummaries, which
+    // calls loadMeals and would wait on this same load forever
     const legacy = await AsyncStorage.getItem(STORAGE_KEYS.MEALS);
     if (legacy) {
-      await this.migrateLegacyMealsToShards();
+      try {
+        await this.migrateLegacyMealsToShards();
+      } catch (error) {
+        console.error('Error migrating to shards:', error);
+      }
     }
 
-    // Load all keys matching pattern
-    const allKeys = await AsyncStorage.getAllKeys();
-    const shardKeys = allKeys.filter(k => k.startsWith('@trackkal:log:'));
-
-    const localByDate: Record<string, MealEntry[]> = {};
-    if (shardKeys.length > 0) {
-      const pairs = await AsyncStorage.multiGet(shardKeys);
-      pairs.forEach(([key, value]) => {
-        if (value) {
-          const date = key.replace('@trackkal:log:', '');
-          localByDate[date] = JSON.parse(value);
-        }
-      });
-    }
+    const localByDate: Record<string, MealEntry[]> = Object.fromEntries(await bulkStore.getAllMealDays());
 
     // If user is signed in, pull remote meals and merge. This restores meals after sign-in on a
     // fresh device, after a sign-out (which clears local), or any case where local is missing.
@@ -1641,7 +2859,14 @@ export const dataStorage = {
     }
 
     try {
-      const remoteByDate = await supabaseDataService.fetchMeals(accountInfo);
+      const cursor = await readMealsPullCursor();
+      if (cursor?.since && Date.now() - cursor.fullPullAt < FULL_MEALS_PULL_INTERVAL_MS) {
+        return await this._pullMealChanges(localByDate, accountInfo, cursor);
+      }
+
+      const snapshot = await supabaseDataService.fetchMeals(accountInfo);
+      if (!snapshot) return localByDate;
+      const remoteByDate = snapshot.byDate;
 
       // Read the last successful sync timestamp BEFORE we overwrite it. Local meals older
       // than this timestamp have been seen by remote at least once. If they are missing from
@@ -1672,19 +2897,14 @@ export const dataStorage = {
         // OR (b) IN remote (no-op since remote already added them, but harmless).
         // Local meals older than last sync that are NOT in remote = previously synced and now
         // deleted on remote. We drop them.
-        const touchOf = (m: MealEntry) => Math.max(
-          typeof m.timestamp === 'number' ? m.timestamp : 0,
-          m.updatedAt ? new Date(m.updatedAt).getTime() : 0,
-        );
-
         for (const localMeal of local) {
-          const latestLocalTouch = touchOf(localMeal);
+          const latestLocalTouch = mealTouch(localMeal);
 
           if (remoteIds.has(localMeal.id)) {
             // In BOTH local and remote: keep the NEWER version. Do not blindly let
             // remote win and discard a fresh local edit that has not synced yet.
             const remoteMeal = byId.get(localMeal.id)!;
-            if (latestLocalTouch > touchOf(remoteMeal)) byId.set(localMeal.id, localMeal);
+            if (latestLocalTouch > mealTouch(remoteMeal)) byId.set(localMeal.id, localMeal);
             continue;
           }
 
@@ -1712,33 +2932,14 @@ export const dataStorage = {
         }
       }
 
-      // Persist merged shards back to local. Take the per-date write lock and
-      // re-read the shard inside it, so a meal saved during the network fetch above
-      // (which our pre-fetch snapshot never saw) is preserved instead of being
-      // clobbered by the stale merge. Deletions the merge made are still honored.
-      for (const date of datesToPersist) {
-        await withWriteLock('log:' + date, async () => {
-          const curRaw = await AsyncStorage.getItem(STORAGE_KEYS.dailyLog(date));
-          const current: MealEntry[] = curRaw ? JSON.parse(curRaw) : [];
-          const snapshotIds = new Set((localByDate[date] || []).map((m) => m.id));
-          const mergedIds = new Set(merged[date].map((m) => m.id));
-          // Keep meals added to disk AFTER our snapshot (a concurrent save). Do not
-          // resurrect snapshot meals the merge intentionally dropped.
-          const additions = current.filter((m) => !snapshotIds.has(m.id) && !mergedIds.has(m.id));
-          const finalDay = [...merged[date], ...additions].sort((a, b) => a.timestamp - b.timestamp);
-          merged[date] = finalDay; // reflect concurrent additions in the returned value too
-          if (finalDay.length === 0) {
-            await AsyncStorage.removeItem(STORAGE_KEYS.dailyLog(date));
-          } else {
-            await AsyncStorage.setItem(STORAGE_KEYS.dailyLog(date), JSON.stringify(finalDay));
-          }
-        });
-      }
+      await persistMergedShards(datesToPersist, localByDate, merged);
 
       // Record this sync, but NEVER advance past the oldest still-pending meal, so a
       // meal whose upsert has not landed yet is never later mistaken for deleted.
       const nextSyncAt = minPendingTouch === Infinity ? Date.now() : (minPendingTouch - 1);
       await AsyncStorage.setItem(STORAGE_KEYS.LAST_MEALS_SYNC_AT, String(nextSyncAt));
+      const nextCursor: MealsPullCursor = { since: snapshot.cursor, fullPullAt: Date.now() };
+      await AsyncStorage.setItem(STORAGE_KEYS.MEALS_PULL_CURSOR, JSON.stringify(nextCursor));
 
       return merged;
     } catch (error) {
@@ -1747,61 +2948,129 @@ export const dataStorage = {
     }
   },
 
-  // Save exercises by date
-  async saveExercises(exercisesByDate: Record<string, ExerciseEntry[]>): Promise<void> {
-    try {
-      // Diff against the previously persisted exercises so removed entries get
-      // soft-deleted in Supabase too. Without this, an exercise deletion never
-      // synced and the remote copy resurrected it on the next load.
-      let removedIds: string[] = [];
-      let prevCount = 0;
-      try {
-        const prevRaw = await AsyncStorage.getItem(STORAGE_KEYS.EXERCISES);
-        const prev: Record<string, ExerciseEntry[]> = prevRaw ? JSON.parse(prevRaw) : {};
-        const prevIds = new Set(Object.values(prev).flat().map((e) => e.id).filter(Boolean));
-        prevCount = prevIds.size;
-        const nextIds = new Set(Object.values(exercisesByDate).flat().map((e) => e.id));
-        removedIds = ([...prevIds] as string[]).filter((id) => !nextIds.has(id));
-      } catch { /* if prev is unreadable, skip the deletion diff */ }
-
-      // Safety valve (same class that wiped weight history): an empty map on top
-      // of existing exercises is a reset race, not a save. Bail rather than let
-      // the deletion diff soft-delete everything.
-      if (Object.values(exercisesByDate).flat().length === 0 && prevCount > 0) {
-        if (__DEV__) console.warn('saveExercises: refused to overwrite existing exercises with an empty map');
-        return;
-      }
-
-      await AsyncStorage.setItem(STORAGE_KEYS.EXERCISES, JSON.stringify(exercisesByDate));
+  // Apply only what changed remotely since the cursor. Unlike the full merge,
+  // a local meal missing from the response means nothing here: it simply did
+  // not change. Deletions arrive explicitly, as soft-deleted rows.
+  async _pullMealChanges(
+    localByDate: Record<string, MealEntry[]>,
+    accountInfo: AccountInfo,
+    cursor: MealsPullCursor,
+  ): Promise<Record<string, MealEntry[]>> {
+    const since = new Date(new Date(cursor.since!).getTime() - MEALS_PULL_OVERLAP_MS).toISOString();
+    const changes = await supabaseDataService.fetchMealChanges(accountInfo, since);
+    if (!changes) return localByDate;
+
+    const lastSyncRaw = await AsyncStorage.getItem(STORAGE_KEYS.LAST_MEALS_SYNC_AT);
+    const lastSyncAt = lastSyncRaw ? parseInt(lastSyncRaw, 10) : 0;
+
+    const dateOf = new Map<string, string>();
+    for (const [date, meals] of Object.entries(localByDate)) {
+      for (const m of meals) dateOf.set(m.id, date);
+    }
+    const merged: Record<string, MealEntry[]> = { ...localByDate };
+    const datesToPersist = new Set<string>();
+    const remove = (id: string) => {
+      const date = dateOf.get(id);
+      if (!date) return;
+      merged[date] = (merged[date] || []).filter((m) => m.id !== id);
+      dateOf.delete(id);
+      datesToPersist.add(date);
+    };
 
-      const accountInfo = await getCachedAccountInfo();
-      const allExercises = Object.values(exercisesByDate).flat();
+    for (const id of changes.deletedIds) {
+      if (__DEV__ && dateOf.has(id)) console.log(`[loadMeals] dropping meal ${id} deleted on another device`);
+      remove(id);
+    }
 
-      if (!accountInfo?.supabaseUserId) {
-        if (allExercises.length > 0) await enqueueSyncOperation({ entity: 'exercise', action: 'upsert', payload: allExercises });
-        if (removedIds.length > 0) await enqueueSyncOperation({ entity: 'exercise', action: 'delete', payload: { ids: removedIds } });
-        return;
+    const seenIds = new Set<string>();
+    for (const [date, remoteMeals] of Object.entries(changes.byDate)) {
+      for (const remoteMeal of remoteMeals) {
+        seenIds.add(remoteMeal.id);
+        const localDate = dateOf.get(remoteMeal.id);
+        if (localDate) {
+          // Same rule as the full merge: a newer local edit that has not synced
+          // yet beats the remote copy.
+          const localMeal = merged[localDate].find((m) => m.id === remoteMeal.id)!;
+          if (mealTouch(localMeal) > mealTouch(remoteMeal)) continue;
+          remove(remoteMeal.id); // the row may have moved to another day
+        }
+        merged[date] = [...(merged[date] || []), remoteMeal].sort((a, b) => a.timestamp - b.timestamp);
+        dateOf.set(remoteMeal.id, date);
+        datesToPersist.add(date);
       }
+    }
 
-      if (allExercises.length > 0) {
-        try {
-          await supabaseDataService.upsertExercises(accountInfo, allExercises);
-        } catch (error) {
-          console.error('Error syncing exercises to Supabase:', error);
-          await enqueueSyncOperation({ entity: 'exercise', action: 'upsert', payload: allExercises });
-        }
+    await persistMergedShards(datesToPersist, localByDate, merged);
+
+    // Same watermark rule as the full merge. A local meal edited since the last
+    // pull that the delta did not return has not reached the server yet.
+    let minPendingTouch = Infinity;
+    for (const meals of Object.values(merged)) {
+      for (const m of meals) {
+        const touch = mealTouch(m);
+        if (touch > lastSyncAt && !seenIds.has(m.id) && touch < minPendingTouch) minPendingTouch = touch;
       }
-      if (removedIds.length > 0) {
+    }
+    const nextSyncAt = minPendingTouch === Infinity ? Date.now() : (minPendingTouch - 1);
+    await AsyncStorage.setItem(STORAGE_KEYS.LAST_MEALS_SYNC_AT, String(nextSyncAt));
+    const nextCursor: MealsPullCursor = { since: changes.cursor ?? cursor.since, fullPullAt: cursor.fullPullAt };
+    await AsyncStorage.setItem(STORAGE_KEYS.MEALS_PULL_CURSOR, JSON.stringify(nextCursor));
+
+    return merged;
+  },
+
+  // Save exercises by date
+  async saveExercises(input: Record<string, ExerciseEntry[]>): Promise<void> {
+    let sync = null as { changed: ExerciseEntry[]; removedIds: string[] } | null;
+    await withWriteLock('exercises', async () => {
+      try {
+        // Diff against the previously persisted exercises so removed entries get
+        // soft-deleted in Supabase too. Without this, an exercise deletion never
+        // synced and the remote copy resurrected it on the next load.
+        let removedIds: string[] = [];
+        let prevCount = 0;
+        let prevById = new Map<string, ExerciseEntry>();
         try {
-          await supabaseDataService.deleteExercises(accountInfo, removedIds);
-        } catch (error) {
-          console.error('Error deleting exercises from Supabase:', error);
-          await enqueueSyncOperation({ entity: 'exercise', action: 'delete', payload: { ids: removedIds } });
+          const prevRaw = await AsyncStorage.getItem(STORAGE_KEYS.EXERCISES);
+          const prev: Record<string, ExerciseEntry[]> = prevRaw ? JSON.parse(prevRaw) : {};
+          prevById = new Map(Object.values(prev).flat().filter((e) => e.id).map((e) => [e.id, e]));
+          const prevIds = new Set(prevById.keys());
+          prevCount = prevIds.size;
+          const nextIds = new Set(Object.values(input).flat().map((e) => e.id));
+          removedIds = ([...prevIds] as string[]).filter((id) => !nextIds.has(id));
+        } catch { /* if prev is unreadable, skip the deletion diff */ }
+
+        // Stamp what changed, so the sync queue can tell this edit from another
+        // device's. Untouched entries keep the stamp they had, and stay home
+        const now = new Date().toISOString();
+        const exercisesByDate: Record<string, ExerciseEntry[]> = {};
+        const changed: ExerciseEntry[] = [];
+        Object.keys(input).forEach((dateKey) => {
+          exercisesByDate[dateKey] = input[dateKey].map((entry) => {
+            const prev = prevById.get(entry.id);
+            if (prev && sameContent(prev, entry)) return { ...entry, updatedAt: prev.updatedAt || entry.updatedAt };
+            const stamped = { ...entry, updatedAt: now };
+            changed.push(stamped);
+            return stamped;
+          });
+        });
+
+        // Safety valve (same class that wiped weight history): an empty map on top
+        // of existing exercises is a reset race, not a save. Bail rather than let
+        // the deletion diff soft-delete everything.
+        if (Object.values(exercisesByDate).flat().length === 0 && prevCount > 0) {
+          if (__DEV__) console.warn('saveExercises: refused to overwrite existing exercises with an empty map');
+          return;
         }
+
+        await AsyncStorage.setItem(STORAGE_KEYS.EXERCISES, JSON.stringify(exercisesByDate));
+        sync = { changed, removedIds };
+      } catch (error) {
+        console.error('Error saving exercises:', error);
       }
-    } catch (error) {
-      console.error('Error saving exercises:', error);
-    }
+    });
+    // Out of the lock: a cloud copy that wins takes it to come down
+    if (sync) syncExercisesToSupabase(sync.changed, sync.removedIds);
   },
 
   // Load exercises
@@ -1902,7 +3171,9 @@ export const dataStorage = {
       const list: WeightEntry[] = raw ? JSON.parse(raw) : [];
       // the family weight_log is keyed by day, so the cloud delete targets
       // the entry's date. Capture it before the entry leaves the list
-      const target = list.find((e) => e.id === id)?.date ?? id;
+      const entry = list.find((e) => e.id === id);
+      const target = entry?.date ?? id;
+      if (entry) await addToTrash({ kind: 'weight', entry });
       await AsyncStorage.setItem(STORAGE_KEYS.WEIGHT_ENTRIES, JSON.stringify(list.filter((e) => e.id !== id)));
 
       const accountInfo = await getCachedAccountInfo();
@@ -2265,7 +3536,7 @@ export const dataStorage = {
       try {
         const raw = await AsyncStorage.getItem(STORAGE_KEYS.PREFERENCES);
         const current: Partial<Preferences> = raw ? JSON.parse(raw) : {};
-        const merged: Preferences = { ...PREFERENCES_DEFAULTS, ...current, ...patch };
+        const merged: Preferences = { ...PREFERENCES_DEFAULTS, ...current, ...patch, updatedAt: new Date().toISOString() };
         await AsyncStorage.setItem(STORAGE_KEYS.PREFERENCES, JSON.stringify(merged));
 
         // Sync the full merged object to Supabase if signed in. Email-only counts:
@@ -2583,6 +3854,312 @@ export const dataStorage = {
     }
   },
 
+  // ── Personal foods ──
+  // This device's copy only, newest edit first. Fast enough to read before
+  // every analysis, which is why it never touches the network.
+  async loadLocalPersonalFoods(): Promise<PersonalFood[]> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEYS.PERSONAL_FOODS);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed)
+        ? parsed
+          .filter((f: PersonalFood) => typeof f?.id === 'string' && typeof f?.name === 'string' && !!f?.per100g)
+          .map(normalizePersonalFood)
+        : [];
+    } catch (error) {
+      console.error('Error loading personal foods:', error);
+      return [];
+    }
+  },
+
+  // Local merged with the cloud, the way saved prompts are, except that an
+  // edited food can exist on both sides: the later updatedAt wins.
+  async loadPersonalFoods(): Promise<PersonalFood[]> {
+    const localFoods = await this.loadLocalPersonalFoods();
+    const accountInfo = await getCachedAccountInfo();
+    await processSyncQueue(accountInfo);
+    if (!accountInfo?.supabaseUserId) return localFoods;
+    try {
+      const remoteFoods = await supabaseDataService.fetchPersonalFoods(accountInfo);
+      if (!remoteFoods) return localFoods;
+      // Merged against a fresh read inside the lock. A food saved while the
+      // fetch was out (a label confirmed as My Foods opens) is in that read and
+      // not in the one above, and writing the older list back would drop it
+      let list: PersonalFood[] = localFoods;
+      await withWriteLock('personalFoods', async () => {
+        const merged = new Map<string, PersonalFood>();
+        (await this.loadLocalPersonalFoods()).forEach((f) => merged.set(f.id, f));
+        remoteFoods.forEach((f) => {
+          const local = merged.get(f.id);
+          if (!local || new Date(f.updatedAt).getTime() >= new Date(local.updatedAt).getTime()) {
+            merged.set(f.id, normalizePersonalFood(f));
+          }
+        });
+        list = Array.from(merged.values()).sort(
+          (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+        );
+        await AsyncStorage.setItem(STORAGE_KEYS.PERSONAL_FOODS, JSON.stringify(list));
+      });
+      return list;
+    } catch (error) {
+      console.error('Error fetching personal foods from Supabase:', error);
+      return localFoods;
+    }
+  },
+
+  // Insert or replace by id. A re-edited food moves back to the top
+  async savePersonalFood(food: PersonalFood): Promise<void> {
+    try {
+      await withWriteLock('personalFoods', async () => {
+        const existing = await this.loadLocalPersonalFoods();
+        const next = [food, ...existing.filter((f) => f.id !== food.id)];
+        await AsyncStorage.setItem(STORAGE_KEYS.PERSONAL_FOODS, JSON.stringify(next));
+      });
+
+      const accountInfo = await getCachedAccountInfo();
+      if (accountInfo?.supabaseUserId) {
+        try {
+          await supabaseDataService.upsertPersonalFood(accountInfo, food);
+        } catch (error) {
+          console.error('Error syncing personal food to Supabase:', error);
+          await enqueueSyncOperation({ entity: 'personal_food', action: 'upsert', payload: food });
+        }
+      } else {
+        await enqueueSyncOperation({ entity: 'personal_food', action: 'upsert', payload: food });
+      }
+    } catch (error) {
+      console.error('Error saving personal food:', error);
+    }
+  },
+
+  async removePersonalFood(id: string): Promise<void> {
+    try {
+      await withWriteLock('personalFoods', async () => {
+        const next = (await this.loadLocalPersonalFoods()).filter((f) => f.id !== id);
+        await AsyncStorage.setItem(STORAGE_KEYS.PERSONAL_FOODS, JSON.stringify(next));
+      });
+
+      const accountInfo = await getCachedAccountInfo();
+      if (accountInfo?.supabaseUserId) {
+        try {
+          await supabaseDataService.deletePersonalFood(accountInfo, id);
+        } catch (error) {
+          console.error('Error deleting personal food from Supabase:', error);
+          await enqueueSyncOperation({ entity: 'personal_food', action: 'delete', payload: { id } });
+        }
+      } else {
+        await enqueueSyncOperation({ entity: 'personal_food', action: 'delete', payload: { id } });
+      }
+    } catch (error) {
+      console.error('Error removing personal food:', error);
+    }
+  },
+
+  // ── Recipes ──
+  // Same shape as personal foods: a fast local read for the analysis path, a
+  // merged read for screens, and writes that sync or queue.
+  async loadLocalRecipes(): Promise<Recipe[]> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEYS.RECIPES);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed)
+        ? parsed.filter((r: Recipe) => typeof r?.id === 'string' && typeof r?.name === 'string' && Array.isArray(r?.ingredients))
+        : [];
+    } catch (error) {
+      console.error('Error loading recipes:', error);
+      return [];
+    }
+  },
+
+  async loadRecipes(): Promise<Recipe[]> {
+    const localRecipes = await this.loadLocalRecipes();
+    const accountInfo = await getCachedAccountInfo();
+    await processSyncQueue(accountInfo);
+    if (!accountInfo?.supabaseUserId) return localRecipes;
+    try {
+      const remoteRecipes = await supabaseDataService.fetchRecipes(accountInfo);
+      if (!remoteRecipes) return localRecipes;
+      // Merged inside the lock against a fresh read, as personal foods are, so
+      // a recipe saved during the fetch survives the write back
+      let list: Recipe[] = localRecipes;
+      await withWriteLock('recipes', async () => {
+        const merged = new Map<string, Recipe>();
+        (await this.loadLocalRecipes()).forEach((r) => merged.set(r.id, r));
+        remoteRecipes.forEach((r) => {
+          const local = merged.get(r.id);
+          if (!local || new Date(r.updatedAt).getTime() >= new Date(local.updatedAt).getTime()) {
+            merged.set(r.id, r);
+          }
+        });
+        list = Array.from(merged.values()).sort(
+          (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+        );
+        await AsyncStorage.setItem(STORAGE_KEYS.RECIPES, JSON.stringify(list));
+      });
+      return list;
+    } catch (error) {
+      console.error('Error fetching recipes from Supabase:', error);
+      return localRecipes;
+    }
+  },
+
+  async saveRecipe(recipe: Recipe): Promise<void> {
+    try {
+      await withWriteLock('recipes', async () => {
+        const existing = await this.loadLocalRecipes();
+        const next = [recipe, ...existing.filter((r) => r.id !== recipe.id)];
+        await AsyncStorage.setItem(STORAGE_KEYS.RECIPES, JSON.stringify(next));
+      });
+
+      const accountInfo = await getCachedAccountInfo();
+      if (accountInfo?.supabaseUserId) {
+        try {
+          await supabaseDataService.upsertRecipe(accountInfo, recipe);
+        } catch (error) {
+          console.error('Error syncing recipe to Supabase:', error);
+          await enqueueSyncOperation({ entity: 'recipe', action: 'upsert', payload: recipe });
+        }
+      } else {
+        await enqueueSyncOperation({ entity: 'recipe', action: 'upsert', payload: recipe });
+      }
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+    }
+  },
+
+  async removeRecipe(id: string): Promise<void> {
+    try {
+      await withWriteLock('recipes', async () => {
+        const next = (await this.loadLocalRecipes()).filter((r) => r.id !== id);
+        await AsyncStorage.setItem(STORAGE_KEYS.RECIPES, JSON.stringify(next));
+      });
+
+      const accountInfo = await getCachedAccountInfo();
+      if (accountInfo?.supabaseUserId) {
+        try {
+          await supabaseDataService.deleteRecipe(accountInfo, id);
+        } catch (error) {
+          console.error('Error deleting recipe from Supabase:', error);
+          await enqueueSyncOperation({ entity: 'recipe', action: 'delete', payload: { id } });
+        }
+      } else {
+        await enqueueSyncOperation({ entity: 'recipe', action: 'delete', payload: { id } });
+      }
+    } catch (error) {
+      console.error('Error removing recipe:', error);
+    }
+  },
+
+  // ── Meal templates ──
+  // Synced like recipes, but always handed out most used first
+  async loadLocalMealTemplates(): Promise<MealTemplate[]> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEYS.MEAL_TEMPLATES);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed)
+        ? parsed
+          .filter((t: MealTemplate) => typeof t?.id === 'string' && Array.isArray(t?.foods))
+          .sort(byTemplateUse)
+        : [];
+    } catch (error) {
+      console.error('Error loading meal templates:', error);
+      return [];
+    }
+  },
+
+  async loadMealTemplates(): Promise<MealTemplate[]> {
+    const localTemplates = await this.loadLocalMealTemplates();
+    const accountInfo = await getCachedAccountInfo();
+    await processSyncQueue(accountInfo);
+    if (!accountInfo?.supabaseUserId) return localTemplates;
+    try {
+      const remoteTemplates = await supabaseDataService.fetchMealTemplates(accountInfo);
+      if (!remoteTemplates) return localTemplates;
+      // Merged inside the lock against a fresh read. A template logged while
+      // the fetch was out has a higher useCount there, and the read above
+      // would write the old count back
+      let list: MealTemplate[] = localTemplates;
+      await withWriteLock('mealTemplates', async () => {
+        const merged = new Map<string, MealTemplate>();
+        (await this.loadLocalMealTemplates()).forEach((t) => merged.set(t.id, t));
+        remoteTemplates.forEach((t) => {
+          const local = merged.get(t.id);
+          if (!local || new Date(t.updatedAt).getTime() >= new Date(local.updatedAt).getTime()) {
+            merged.set(t.id, t);
+          }
+        });
+        list = Array.from(merged.values()).sort(byTemplateUse);
+        await AsyncStorage.setItem(STORAGE_KEYS.MEAL_TEMPLATES, JSON.stringify(list));
+      });
+      return list;
+    } catch (error) {
+      console.error('Error fetching meal templates from Supabase:', error);
+      return localTemplates;
+    }
+  },
+
+  // Insert or replace by id. Never evicts: a delete here is a delete on every
+  // device, and the cap is enforced where the user can be asked first
+  async saveMealTemplate(template: MealTemplate): Promise<void> {
+    try {
+      await withWriteLock('mealTemplates', async () => {
+        const others = (await this.loadLocalMealTemplates()).filter((t) => t.id !== template.id);
+        const next = [template, ...others].sort(byTemplateUse);
+        await AsyncStorage.setItem(STORAGE_KEYS.MEAL_TEMPLATES, JSON.stringify(next));
+      });
+
+      await syncMealTemplateToSupabase(template);
+    } catch (error) {
+      console.error('Error saving meal template:', error);
+    }
+  },
+
+  async removeMealTemplate(id: string): Promise<void> {
+    try {
+      await withWriteLock('mealTemplates', async () => {
+        const next = (await this.loadLocalMealTemplates()).filter((t) => t.id !== id);
+        await AsyncStorage.setItem(STORAGE_KEYS.MEAL_TEMPLATES, JSON.stringify(next));
+      });
+
+      const accountInfo = await getCachedAccountInfo();
+      if (accountInfo?.supabaseUserId) {
+        try {
+          await supabaseDataService.deleteMealTemplate(accountInfo, id);
+        } catch (error) {
+          console.error('Error deleting meal template from Supabase:', error);
+          await enqueueSyncOperation({ entity: 'meal_template', action: 'delete', payload: { id } });
+        }
+      } else {
+        await enqueueSyncOperation({ entity: 'meal_template', action: 'delete', payload: { id } });
+      }
+    } catch (error) {
+      console.error('Error removing meal template:', error);
+    }
+  },
+
+  // Counts a one-tap log, which is what the ordering runs on. Read, count and
+  // write happen under one lock, or two quick taps both count from the same
+  // number and one of them is lost
+  async recordMealTemplateUse(id: string): Promise<MealTemplate | null> {
+    let used = null as MealTemplate | null;
+    try {
+      await withWriteLock('mealTemplates', async () => {
+        const all = await this.loadLocalMealTemplates();
+        const template = all.find((t) => t.id === id);
+        if (!template) return;
+        const now = new Date().toISOString();
+        const counted = { ...template, useCount: template.useCount + 1, lastUsedAt: now, updatedAt: now };
+        used = counted;
+        const next = all.map((t) => (t.id === id ? counted : t)).sort(byTemplateUse);
+        await AsyncStorage.setItem(STORAGE_KEYS.MEAL_TEMPLATES, JSON.stringify(next));
+      });
+      if (used) await syncMealTemplateToSupabase(used);
+    } catch (error) {
+      console.error('Error recording meal template use:', error);
+    }
+    return used;
+  },
+
   async saveSavedPrompts(prompts: SavedPrompt[]): Promise<void> {
     try {
       await AsyncStorage.setItem(STORAGE_KEYS.SAVED_PROMPTS, JSON.stringify(prompts));
@@ -2950,8 +4527,7 @@ export const dataStorage = {
   // Daily Summary (Lightweight) Methods
   async loadDailySummaries(): Promise<Record<string, DailySummary>> {
     try {
-      const json = await AsyncStorage.getItem(STORAGE_KEYS.SUMMARIES);
-      return json ? JSON.parse(json) : {};
+      return await bulkStore.getSummaries();
     } catch (error) {
       console.error('Error loading summaries:', error);
       return {};
@@ -2960,7 +4536,7 @@ export const dataStorage = {
 
   async saveDailySummaries(summaries: Record<string, DailySummary>): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.SUMMARIES, JSON.stringify(summaries));
+      await bulkStore.replaceSummaries(summaries);
 
       const accountInfo = await getCachedAccountInfo();
       if (accountInfo?.supabaseUserId) {
@@ -2973,6 +4549,24 @@ export const dataStorage = {
     }
   },
 
+  // One day's summary, written and synced on its own. A meal save lands here,
+  // so it must not rewrite or re-upload every other day
+  async saveDailySummary(dateKey: string, summary: DailySummary): Promise<void> {
+    try {
+      await bulkStore.putSummaries({ [dateKey]: summary });
+
+      const accountInfo = await getCachedAccountInfo();
+      if (accountInfo?.supabaseUserId) {
+        void supabaseDataService.upsertDailySummaries(accountInfo, { [dateKey]: summary }).catch((err) => {
+          if (__DEV__) console.warn('daily summary sync failed', err);
+        });
+      }
+    } catch (error) {
+      console.error('Error saving summary:', error);
+    }
+  },
+
+
   // ---- The family wall, kcal side ----
 
   // Signed out returns null and the questionnaire asks everything, which is
@@ -3175,43 +4769,38 @@ export const dataStorage = {
     const supps = await this.loadLiftsSupplements().catch(() => [] as LiftsSupplement[]);
     return withWriteLock('summaries', async () => {
       try {
-        const summaries = await this.loadDailySummaries();
+        const prior = await bulkStore.getSummary(dateKey);
         const newSummary = this.applySupplements(
           this.recalculateDailySummary(dateKey, mealsForDay),
           supps,
         );
         // Keep the goal a day already carried. Re-editing an old meal must not
         // rewrite history with today's target
-        const prior = summaries[dateKey];
         newSummary.goalCalories = prior?.goalCalories ?? (goals?.calories || undefined);
         newSummary.goalProtein = prior?.goalProtein ?? (goals?.proteinGrams || undefined);
-        summaries[dateKey] = newSummary;
-        await this.saveDailySummaries(summaries);
+        await this.saveDailySummary(dateKey, newSummary);
       } catch (e) {
         console.error("Error updating summary for date", e);
       }
     });
   },
 
+  // Throws so the migration runner can record the failure and retry
   async migrateMealsToSummaries(): Promise<void> {
-    try {
-      const existingSummaries = await this.loadDailySummaries();
-      if (Object.keys(existingSummaries).length > 0) return;
+    const existingSummaries = await bulkStore.getSummaries();
+    if (Object.keys(existingSummaries).length > 0) return;
 
-      console.log('No daily summaries found, performing initial migration...');
-      const allMeals = await this.loadMeals();
-      const newSummaries: Record<string, DailySummary> = {};
+    console.log('No daily summaries found, performing initial migration...');
+    const allMeals = await this.loadMeals();
+    const newSummaries: Record<string, DailySummary> = {};
 
-      Object.keys(allMeals).forEach(dateKey => {
-        newSummaries[dateKey] = this.recalculateDailySummary(dateKey, allMeals[dateKey]);
-      });
+    Object.keys(allMeals).forEach(dateKey => {
+      newSummaries[dateKey] = this.recalculateDailySummary(dateKey, allMeals[dateKey]);
+    });
 
-      if (Object.keys(newSummaries).length > 0) {
-        await this.saveDailySummaries(newSummaries);
-        console.log('Initial daily summaries migration complete.');
-      }
-    } catch (error) {
-      console.error('Migration failed', error);
+    if (Object.keys(newSummaries).length > 0) {
+      await this.saveDailySummaries(newSummaries);
+      console.log('Initial daily summaries migration complete.');
     }
   },
 
@@ -3411,12 +5000,12 @@ export const dataStorage = {
     // Never persist an optimistic skeleton (in-memory UX only).
     if ((meal as any).isLoading || (meal as any).loadingState === 'analyzing') return;
     // Use per-date lock to serialize the read-modify-write cycle.
-    // Writes directly to AsyncStorage + updates summary to avoid nested lock
+    // Writes the day directly + updates summary to avoid nested lock
     // with saveDailyLog (which holds the same per-date lock).
     return withWriteLock('log:' + date, async () => {
       const dayMeals = await dataStorage.getDailyLog(date);
       const updated = [...dayMeals, meal];
-      await AsyncStorage.setItem(STORAGE_KEYS.dailyLog(date), JSON.stringify(updated));
+      await bulkStore.setMealDay(date, updated);
       invalidateMealsCache();
       await dataStorage.updateSummaryForDate(date, updated);
 
@@ -3761,6 +5350,7 @@ export const dataStorage = {
     try {
       markSignedOut();
       await AsyncStorage.clear();
+      await bulkStore.clear();
       invalidateMealsCache();
     } catch (e) {
       console.error('Error clearing all local data:', e);
@@ -3781,10 +5371,12 @@ export const dataStorage = {
       markSignedOut();
       await AsyncStorage.multiRemove([
         STORAGE_KEYS.ACCOUNT_INFO,
-        STORAGE_KEYS.SYNC_QUEUE,
+        STORAGE_KEYS.SYNC_DEAD_LETTERS,
+        STORAGE_KEYS.MEALS_PULL_CURSOR,
         STORAGE_KEYS.PUSH_TOKENS,
         STORAGE_KEYS.USER_PLAN,
       ]);
+      await bulkStore.replaceSyncQueue([]);
       // Drop the cached meals: the next loadMeals re-fetches under the new auth state
       // (or returns just local if signed out) instead of serving stale signed-in data.
       invalidateMealsCache();
@@ -4046,12 +5638,13 @@ export const dataStorage = {
     }
   },
 
-  // ── Water log (local-first; cloud sync pending a water table) ─────
+  // ── Water log (local-first, synced to water_log) ─────
   // One map of yyyy-MM-dd -> milliliters. Kept intentionally simple: water is
-  // a tap-counter habit, not a ledger of entries.
+  // a tap-counter habit, not a ledger of entries. The cloud row holds the day's
+  // total, so a tap pushes the new total, never the delta.
   async loadWaterLog(): Promise<Record<string, number>> {
     try {
-      const raw = await AsyncStorage.getItem('@trackkal:waterLog');
+      const raw = await AsyncStorage.getItem(STORAGE_KEYS.WATER_LOG);
       return raw ? JSON.parse(raw) : {};
     } catch {
       return {};
@@ -4059,12 +5652,23 @@ export const dataStorage = {
   },
 
   async addWater(dateKey: string, deltaMl: number): Promise<number> {
-    const log = await this.loadWaterLog();
-    const next = Math.max(0, Math.round((log[dateKey] || 0) + deltaMl));
-    log[dateKey] = next;
-    try {
-      await AsyncStorage.setItem('@trackkal:waterLog', JSON.stringify(log));
-    } catch { /* keep the in-memory value; next write retries */ }
+    let next = 0;
+    const updatedAt = new Date().toISOString();
+    await withWriteLock('waterLog', async () => {
+      const log = await this.loadWaterLog();
+      next = Math.max(0, Math.round((log[dateKey] || 0) + deltaMl));
+      log[dateKey] = next;
+      try {
+        const stampsRaw = await AsyncStorage.getItem(STORAGE_KEYS.WATER_LOG_STAMPS);
+        const stamps: Record<string, string> = stampsRaw ? JSON.parse(stampsRaw) : {};
+        stamps[dateKey] = updatedAt;
+        await AsyncStorage.multiSet([
+          [STORAGE_KEYS.WATER_LOG, JSON.stringify(log)],
+          [STORAGE_KEYS.WATER_LOG_STAMPS, JSON.stringify(stamps)],
+        ]);
+      } catch { /* keep the in-memory value; next write retries */ }
+    });
+    syncWaterToSupabase({ date: dateKey, ml: next, updatedAt });
     return next;
   },
 
@@ -4112,6 +5716,78 @@ export const dataStorage = {
   async setCycleResetSeen(cycleStartDate: string): Promise<void> {
     await AsyncStorage.setItem(STORAGE_KEYS.CALORIE_BANK_CYCLE_RESET_SEEN, cycleStartDate);
   },
-};
 
+  // ── Data export ──
+
+  // Walks every store this module owns and returns it as one archive. Goes
+  // through the same loaders the screens use, so a signed-in export carries the
+  // cloud copy merged in, not just whatever this phone happened to cache. A
+  // meal history that cannot be read fails the export: an archive without it
+  // would look complete and is not.
+  async exportAllData(): Promise<DataExport> {
+    const [
+      meals,
+      exercises,
+      weights,
+      waterLog,
+      dailySummaries,
+      goals,
+      dietHistory,
+      bankConfig,
+      completedCycles,
+      savedPrompts,
+      personalFoods,
+      recipes,
+      mealTemplates,
+    ] = await Promise.all([
+      this.loadMeals(),
+      this.loadExercises(),
+      this.loadWeightEntries(),
+      this.loadWaterLog(),
+      this.loadDailySummaries(),
+      this.loadGoals(),
+      this.loadDietHistory(),
+      this.loadCalorieBankConfig(),
+      this.loadCompletedCycles(),
+      this.loadSavedPrompts(),
+      this.loadPersonalFoods(),
+      this.loadRecipes(),
+      this.loadMealTemplates(),
+    ]);
+
+    // Optimistic skeletons are screen state. They never belong in an archive
+    const persistedMeals: Record<string, MealEntry[]> = {};
+    Object.keys(meals).sort().forEach((dateKey) => {
+      const day = (meals[dateKey] || []).filter((m) => !m.isLoading && m.loadingState !== 'analyzing');
+      if (day.length > 0) persistedMeals[dateKey] = day;
+    });
+
+    return {
+      version: DATA_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      appVersion: APP_VERSION,
+      meals: persistedMeals,
+      exercises,
+      weightEntries: weights.map(normalizeWeightEntry).sort((a, b) => (a.date < b.date ? -1 : 1)),
+      waterLog,
+      dailySummaries,
+      goals,
+      dietHistory,
+      calorieBank: { config: bankConfig, completedCycles },
+      savedPrompts,
+      personalFoods,
+      recipes,
+      mealTemplates,
+    };
+  },
+};
 
+// The device's schema history, oldest first. Append only: a build that has
+// shipped a step has recorded its version on devices, so renumbering or
+// removing it would skip or repeat work. Each step must be safe to re-run
+// (see localMigrations.ts). Steps 1 and 2 predate the registry and are no-ops
+// on any device that already ran them ad hoc.
+const LOCAL_MIGRATIONS: LocalMigration[] = [
+  { version: 1, name: 'legacy meals blob to day shards', run: () => dataStorage.migrateLegacyMealsToShards() },
+  { version: 2, name: 'daily summaries from meals', run: () => dataStorage.migrateMealsToSummaries() },
+];
@@ -1,4 +1,6 @@
 import { sanitizeForAI } from '../utils/sanitizeAI';
+import { ParsedFood } from '../utils/foodNutrition';
+import { generateId } from '../utils/uuid';
 
 /**
  * Open Food Facts lookup for packaged, branded food.
@@ -15,6 +17,7 @@ import { sanitizeForAI } from '../utils/sanitizeAI';
  */
 
 const SEARCH_URL = 'https://search.openfoodfacts.org/search';
+const PRODUCT_URL = 'https://world.openfoodfacts.org/api/v2/product';
 const UA = 'TrackKcal/1.0 (trackkcal@gmail.com)';
 const TIMEOUT_MS = 4000;
 
@@ -72,6 +75,24 @@ export interface FoodLabel {
   };
 }
 
+type OffNutriment =
+  | 'energy-kcal_100g' | 'proteins_100g' | 'carbohydrates_100g' | 'fat_100g' | 'fiber_100g'
+  | 'sugars_100g' | 'saturated-fat_100g' | 'sodium_100g' | 'salt_100g';
+
+/**
+ * A product record as Open Food Facts returns it, cut down to the fields this
+ * file reads. Crowd sourced, so every field can be missing, null or a string
+ * where a number belongs; toLabel checks each one.
+ */
+export interface OffProduct {
+  code?: string | number;
+  product_name?: string | null;
+  brands?: string | string[] | null;
+  serving_size?: string | null;
+  quantity?: string | null;
+  nutriments?: { [K in OffNutriment]?: number | string | null };
+}
+
 const num = (v: unknown): number | null => {
   const n = Number(v);
   return Number.isFinite(n) && n >= 0 ? n : null;
@@ -87,7 +108,7 @@ const tokens = (s: string): string[] =>
  * carbohydrate than there is food. Anything that fails arithmetic is dropped
  * rather than shown to a user as a label.
  */
-const isSane = (l: FoodLabel['per100g']): boolean => {
+export const isSane = (l: FoodLabel['per100g']): boolean => {
   const mass = l.protein + l.carbs + l.fat;
   if (mass > 100) return false;
   if (l.calories <= 0 || l.calories > 900) return false;
@@ -96,7 +117,7 @@ const isSane = (l: FoodLabel['per100g']): boolean => {
   return Math.abs(implied - l.calories) / l.calories <= 0.30;
 };
 
-const toLabel = (hit: any): FoodLabel | null => {
+const toLabel = (hit: OffProduct): FoodLabel | null => {
   const n = hit?.nutriments || {};
   const calories = num(n['energy-kcal_100g']);
   const protein = num(n.proteins_100g);
@@ -244,7 +265,7 @@ export async function lookupPackagedFood(query: string): Promise<FoodLabel | nul
     const res = await fetch(url, { headers: { 'User-Agent': UA }, signal: controller.signal });
     if (!res.ok) return null;
     const data = await res.json();
-    const hits: any[] = Array.isArray(data?.hits) ? data.hits : [];
+    const hits: OffProduct[] = Array.isArray(data?.hits) ? data.hits : [];
 
     let best: FoodLabel | null = null;
     let bestScore = 0;
@@ -293,3 +314,135 @@ export function labelToPanelLine(label: FoodLabel): string {
   const pack = label.quantity ? ` Pack size: ${sanitizeForAI(label.quantity)}.` : '';
   return `LABEL PANEL for ${name} (per 100g): ${rows}.${serving}${pack} Source: Open Food Facts barcode ${label.code}.`;
 }
+
+const checkDigitHolds = (digits: string): boolean => {
+  const body = digits.slice(0, -1);
+  const sum = body.split('').reverse().reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+// UPC-E is UPC-A with its zeros squeezed out, and where they went depends on
+// the last of the six middle digits. The check digit is the UPC-A one
+function expandUpcE(digits: string): string | null {
+  if (digits.length !== 8 || (digits[0] !== '0' && digits[0] !== '1')) return null;
+  const [ns, d1, d2, d3, d4, d5, d6, check] = digits.split('');
+  const middle =
+    d6 <= '2' ? `${d1}${d2}${d6}0000${d3}${d4}${d5}`
+    : d6 === '3' ? `${d1}${d2}${d3}00000${d4}${d5}`
+    : d6 === '4' ? `${d1}${d2}${d3}${d4}00000${d5}`
+    : `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${ns}${middle}${check}`;
+}
+
+/**
+ * A barcode as the scanner read it, checked and put in the form Open Food
+ * Facts files products under. UPC-A is EAN-13 with a leading zero, and the
+ * database only knows the EAN form. An eight digit code is EAN-8 or UPC-E:
+ * the scanner's type decides, and a typed one is whichever check digit holds.
+ * Null for anything that fails its check digit, which is how a half-read code
+ * shows up.
+ */
+export function normaliseBarcode(raw: string, type?: string): string | null {
+  let digits = raw.replace(/\D/g, '');
+  if (digits.length === 8) {
+    const upcA = expandUpcE(digits);
+    const saidUpcE = !!type && /upc[_-]?e/i.test(type);
+    if (upcA && checkDigitHolds(upcA) && (saidUpcE || !checkDigitHolds(digits))) digits = upcA;
+    else if (saidUpcE) return null;
+  }
+  if (![8, 12, 13, 14].includes(digits.length)) return null;
+  if (!checkDigitHolds(digits)) return null;
+  return digits.length === 12 ? `0${digits}` : digits;
+}
+
+/** Fetches the raw product record for a normalised barcode, or null. */
+export type BarcodeSource = (code: string) => Promise<OffProduct | null>;
+
+const fetchProduct: BarcodeSource = async (code) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    const url = `${PRODUCT_URL}/${code}.json?fields=code,product_name,brands,serving_size,quantity,nutriments`;
+    const res = await fetch(url, { headers: { 'User-Agent': UA }, signal: controller.signal });
+    // 404 is the database saying it has no such product. Anything else that is
+    // not ok (a 5xx, a 429) is the lookup failing, not an answer
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Open Food Facts answered ${res.status}`);
+    const data = await res.json();
+    return data?.status === 1 ? data.product : null;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+let barcodeSource: BarcodeSource = fetchProduct;
+
+/**
+ * Swaps where barcodes are looked up. Tests and the developer tools point this
+ * at the fixtures in barcodeFixtures.ts so the scan flow runs without the
+ * network; null puts Open Food Facts back.
+ */
+export function setBarcodeSource(source: BarcodeSource | null): void {
+  barcodeSource = source ?? fetchProduct;
+}
+
+/**
+ * Resolves a scanned code to its label. Unlike the text search there is no
+ * guessing here: a code names exactly one product, so the only way to be wrong
+ * is a bad record, and toLabel already drops those. Throws when the lookup
+ * could not be made, so the scanner can tell "not in the database" from
+ * "no connection".
+ */
+export async function lookupBarcode(raw: string, type?: string): Promise<FoodLabel | null> {
+  const code = normaliseBarcode(raw, type);
+  if (!code) return null;
+  const product = await barcodeSource(code);
+  if (!product) return null;
+  const label = toLabel(product);
+  return label ? { ...label, code: label.code || code } : null;
+}
+
+// "30 g", "250ml", "1.5 L", "1 kg" to grams, with a millilitre taken as a gram.
+// Multipacks ("6 x 125 g") give the whole pack
+const gramsIn = (text: string | null): number | null => {
+  if (!text) return null;
+  const m = text.toLowerCase().replace(',', '.').match(/(?:(\d+)\s*[x×]\s*)?(\d+(?:\.\d+)?)\s*(kg|g|gr|ml|cl|l)\b/);
+  if (!m) return null;
+  const scale = { kg: 1000, g: 1, gr: 1, ml: 1, cl: 10, l: 1000 }[m[3] as 'kg' | 'g' | 'gr' | 'ml' | 'cl' | 'l'];
+  const grams = parseFloat(m[2]) * scale * (m[1] ? Number(m[1]) : 1);
+  return grams > 0 ? Math.round(grams) : null;
+};
+
+/** Grams in one stated serving, when the label gives one. */
+export const servingGrams = (label: FoodLabel): number | null => gramsIn(label.servingSize);
+
+/** Grams in the whole pack, when the label gives it. */
+export const packGrams = (label: FoodLabel): number | null => gramsIn(label.quantity);
+
+/**
+ * A label at a given weight, as a logged food. The figures are the
+ * manufacturer's, so it goes in at high confidence.
+ */
+export function labelToParsedFood(label: FoodLabel, weightG: number, quantity: number, unit: string): ParsedFood {
+  const p = label.per100g;
+  const at = (per100: number) => Math.round((per100 * weightG) / 100 * 10) / 10;
+  return {
+    id: generateId(),
+    name: [label.brand, label.name].filter(Boolean).join(' '),
+    quantity,
+    unit,
+    weight_g: Math.round(weightG),
+    calories: Math.round((p.calories * weightG) / 100),
+    protein: at(p.protein),
+    carbs: at(p.carbs),
+    fat: at(p.fat),
+    dietary_fiber: at(p.fibre),
+    sugar: p.sugar != null ? at(p.sugar) : undefined,
+    saturated_fat: p.saturatedFat != null ? at(p.saturatedFat) : undefined,
+    sodium_mg: p.sodiumMg != null ? Math.round((p.sodiumMg * weightG) / 100) : undefined,
+    confidence: 'high',
+    confidence_reason: label.code
+      ? `Scanned barcode ${label.code}. Figures are from the package label on Open Food Facts.`
+      : 'Figures are from the nutrition label you photographed and confirmed.',
+  };
+}
@@ -0,0 +1,381 @@
+import { parse, isValid, format } from 'date-fns';
+import { dataStorage, MealEntry } from './dataStorage';
+import { ParsedFood } from '../utils/foodNutrition';
+import { generateId } from '../utils/uuid';
+
+export type ImportSource = 'myfitnesspal' | 'cronometer' | 'loseit';
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  myfitnesspal: 'MyFitnessPal',
+  cronometer: 'Cronometer',
+  loseit: 'Lose It!',
+};
+
+// Thrown when a file's slash dates read both month-first and day-first. The
+// caller asks which it is and runs the import again with the answer
+export const IMPORT_DATES_AMBIGUOUS = 'IMPORT_DATES_AMBIGUOUS';
+
+export type DateOrder = 'month-first' | 'day-first';
+
+export interface ImportResult {
+  source: ImportSource;
+  days: number;
+  meals: number;
+  foods: number;
+  skippedRows: number; // unreadable date or no calories
+  alreadyImported: number; // meals skipped because an earlier import brought them in
+}
+
+type NumericField = Exclude<
+  { [K in keyof ParsedFood]: ParsedFood[K] extends number | undefined ? K : never }[keyof ParsedFood],
+  undefined
+>;
+
+interface SourceSpec {
+  // Every one of these headers must be present for the file to count as this source
+  signature: string[];
+  date: string;
+  time?: string;
+  meal?: string;
+  name?: string;
+  quantity?: string;
+  units?: string;
+  amount?: string; // "1.00 cup" in a single column (Cronometer)
+  skipIf?: (row: Record<string, string>) => boolean;
+  // Header -> field, with an optional factor for sources that use other units
+  columns: Record<string, { field: NumericField; factor?: number }>;
+}
+
+// Header names are matched lowercased and trimmed. These are the columns each
+// app writes today; anything we don't recognise is ignored rather than guessed at.
+const SOURCES: Record<ImportSource, SourceSpec> = {
+  // MFP's "Nutrition" export is one row per meal with the meal's totals, not
+  // per food. Its vitamin A/C, calcium and iron columns are % daily value, so
+  // we leave them out rather than store a percentage as milligrams.
+  myfitnesspal: {
+    signature: ['date', 'meal', 'calories', 'carbohydrates (g)', 'protein (g)'],
+    date: 'date',
+    meal: 'meal',
+    columns: {
+      'calories': { field: 'calories' },
+      'protein (g)': { field: 'protein' },
+      'carbohydrates (g)': { field: 'carbs' },
+      'fat (g)': { field: 'fat' },
+      'saturated fat': { field: 'saturated_fat' },
+      'polyunsaturated fat': { field: 'polyunsaturated_fat' },
+      'monounsaturated fat': { field: 'monounsaturated_fat' },
+      'trans fat': { field: 'trans_fat' },
+      'cholesterol': { field: 'cholesterol_mg' },
+      'sodium (mg)': { field: 'sodium_mg' },
+      'potassium': { field: 'potassium_mg' },
+      'fiber': { field: 'dietary_fiber' },
+      'sugar': { field: 'sugar' },
+    },
+  },
+  cronometer: {
+    signature: ['day', 'group', 'food name', 'energy (kcal)'],
+    date: 'day',
+    time: 'time',
+    meal: 'group',
+    name: 'food name',
+    amount: 'amount',
+    columns: {
+      'energy (kcal)': { field: 'calories' },
+      'protein (g)': { field: 'protein' },
+      'carbs (g)': { field: 'carbs' },
+      'fat (g)': { field: 'fat' },
+      'fiber (g)': { field: 'dietary_fiber' },
+      'net carbs (g)': { field: 'net_carbs' },
+      'sugars (g)': { field: 'sugar' },
+      'added sugars (g)': { field: 'added_sugars' },
+      'sugar alcohol (g)': { field: 'sugar_alcohols' },
+      'saturated (g)': { field: 'saturated_fat' },
+      'trans-fats (g)': { field: 'trans_fat' },
+      'polyunsaturated (g)': { field: 'polyunsaturated_fat' },
+      'monounsaturated (g)': { field: 'monounsaturated_fat' },
+      'omega-3 (g)': { field: 'omega_3_g' },
+      'cholesterol (mg)': { field: 'cholesterol_mg' },
+      'sodium (mg)': { field: 'sodium_mg' },
+      'calcium (mg)': { field: 'calcium_mg' },
+      'iron (mg)': { field: 'iron_mg' },
+      'potassium (mg)': { field: 'potassium_mg' },
+      'magnesium (mg)': { field: 'magnesium_mg' },
+      'zinc (mg)': { field: 'zinc_mg' },
+      'vitamin a (µg)': { field: 'vitamin_a_mcg' },
+      'vitamin c (mg)': { field: 'vitamin_c_mg' },
+      'vitamin d (iu)': { field: 'vitamin_d_mcg', factor: 1 / 40 },
+      'vitamin e (mg)': { field: 'vitamin_e_mg' },
+      'vitamin k (µg)': { field: 'vitamin_k_mcg' },
+      'b12 (cobalamin) (µg)': { field: 'vitamin_b12_mcg' },
+    },
+  },
+  loseit: {
+    signature: ['date', 'name', 'meal', 'quantity', 'units', 'calories'],
+    date: 'date',
+    meal: 'meal',
+    name: 'name',
+    quantity: 'quantity',
+    units: 'units',
+    // Lose It keeps entries you deleted in the export, flagged rather than dropped
+    skipIf: (row) => /^(true|yes|1)$/i.test(row['deleted'] || ''),
+    columns: {
+      'calories': { field: 'calories' },
+      'protein (g)': { field: 'protein' },
+      'carbohydrates (g)': { field: 'carbs' },
+      'fat (g)': { field: 'fat' },
+      'saturated fat (g)': { field: 'saturated_fat' },
+      'sugars (g)': { field: 'sugar' },
+      'fiber (g)': { field: 'dietary_fiber' },
+      'cholesterol (mg)': { field: 'cholesterol_mg' },
+      'sodium (mg)': { field: 'sodium_mg' },
+    },
+  },
+};
+
+const DETECT_ORDER: ImportSource[] = ['cronometer', 'loseit', 'myfitnesspal'];
+
+// Used when a source gives no time of day. Roughly when people eat each meal,
+// so time-of-day patterns on imported history aren't all stacked at midnight.
+const SLOT_HOURS: Record<string, number> = {
+  breakfast: 8,
+  lunch: 13,
+  dinner: 19,
+  snacks: 16,
+  snack: 16,
+};
+
+// One reading per file, never per row. 05/03/2026 is 3 May in a US export and
+// 5 March nearly everywhere else, and it parses either way; reading each row on
+// its own put 05/03 in May and 25/03 in March in the same file. So every date in
+// the file is tried against each reading and only one that fits them all is used.
+const DATE_FORMATS: Array<{ order?: DateOrder; patterns: string[] }> = [
+  { patterns: ['yyyy-MM-dd'] },
+  { order: 'month-first', patterns: ['MM/dd/yyyy', 'M/d/yyyy'] },
+  { order: 'day-first', patterns: ['dd/MM/yyyy', 'd/M/yyyy'] },
+  { patterns: ['MMM d, yyyy'] },
+];
+
+/** RFC 4180 CSV: quoted fields, doubled quotes, newlines inside quotes. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const src = text.replace(/^\uFEFF/, ''); // Excel-saved files start with a BOM
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some((c) => c.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some((c) => c.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+export const detectImportSource = (headers: string[]): ImportSource | null => {
+  const present = new Set(headers.map((h) => h.trim().toLowerCase()));
+  // Most specific first. An MFP export's headers are a subset of Lose It's
+  const match = DETECT_ORDER.find((source) =>
+    SOURCES[source].signature.every((h) => present.has(h))
+  );
+  return match ?? null;
+};
+
+const parseDateKey = (raw: string, patterns: string[]): string | null => {
+  const value = raw.trim();
+  for (const fmt of patterns) {
+    const d = parse(value, fmt, new Date());
+    if (isValid(d)) return format(d, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+// The reading that fits every date in the file. Rows no reading can parse are
+// left to be skipped one by one, as before; they don't decide anything
+const detectDatePatterns = (values: string[], order?: DateOrder): string[] => {
+  const dated = values.filter((v) => DATE_FORMATS.some((f) => parseDateKey(v, f.patterns)));
+  const fits = DATE_FORMATS.filter((f) => dated.every((v) => parseDateKey(v, f.patterns)));
+  if (fits.length === 0) {
+    throw new Error('The dates in this file are in more than one format. Export it again and retry.');
+  }
+  if (fits.length === 1) return fits[0].patterns;
+  const chosen = order && fits.find((f) => f.order === order);
+  if (chosen) return chosen.patterns;
+  // Only the two slash readings can both fit: every day in the file is 12 or under
+  throw new Error(IMPORT_DATES_AMBIGUOUS);
+};
+
+// Exports written with a comma for the decimal point ("1,5") would otherwise
+// lose the comma and read ten times over. Decided once per file, like dates:
+// a comma with other than three digits after it, or a dot grouping thousands
+// in front of one, can only be a decimal comma. "1,500" alone stays fifteen hundred.
+const usesDecimalComma = (values: string[]): boolean =>
+  values.some((raw) => {
+    const v = raw.trim();
+    return /^-?\d+,(\d{1,2}|\d{4,})$/.test(v) || /^-?\d{4,},\d+$/.test(v) || /^-?\d{1,3}(\.\d{3})+,\d+$/.test(v);
+  });
+
+const toNumber = (raw: string | undefined, decimalComma = false): number | undefined => {
+  if (raw === undefined) return undefined;
+  const value = decimalComma
+    ? raw.replace(/\.(?=\d{3}(\D|$))/g, '').replace(',', '.')
+    : raw.replace(/,/g, '');
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const timestampFor = (dateKey: string, time: string | undefined, slot: string): number => {
+  const day = parse(dateKey, 'yyyy-MM-dd', new Date());
+  const hm = time?.match(/^(\d{1,2}):(\d{2})/);
+  if (hm) {
+    day.setHours(parseInt(hm[1], 10), parseInt(hm[2], 10), 0, 0);
+  } else {
+    day.setHours(SLOT_HOURS[slot.toLowerCase()] ?? 12, 0, 0, 0);
+  }
+  return day.getTime();
+};
+
+// The marker that makes a re-import safe. One imported meal per (source, day,
+// slot), and its summary says so, so running the same file twice skips what
+// is already there instead of doubling the day.
+const importSummary = (source: ImportSource, slot: string) =>
+  `Imported from ${IMPORT_SOURCE_LABELS[source]} · ${slot}`;
+
+const rowToFood = (
+  spec: SourceSpec,
+  row: Record<string, string>,
+  fallbackName: string,
+  decimalComma: boolean,
+): ParsedFood | null => {
+  const food: ParsedFood = {
+    id: generateId(),
+    name: (spec.name && row[spec.name]?.trim()) || fallbackName,
+    quantity: 1,
+    unit: 'serving',
+    weight_g: 0,
+    calories: 0,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+  };
+
+  Object.entries(spec.columns).forEach(([header, { field, factor }]) => {
+    const n = toNumber(row[header], decimalComma);
+    if (n !== undefined) food[field] = Math.round(n * (factor ?? 1) * 100) / 100;
+  });
+  if (!food.calories && !food.protein && !food.carbs && !food.fat) return null;
+
+  if (spec.quantity) food.quantity = toNumber(row[spec.quantity], decimalComma) ?? 1;
+  if (spec.units && row[spec.units]?.trim()) food.unit = row[spec.units].trim();
+  if (spec.amount && row[spec.amount]) {
+    const m = row[spec.amount].trim().match(/^([\d.,]+)\s*(.*)$/);
+    if (m) {
+      food.quantity = toNumber(m[1], decimalComma) ?? 1;
+      if (m[2]) food.unit = m[2];
+    }
+  }
+  if (/^(g|gram|grams)$/i.test(food.unit)) food.weight_g = food.quantity;
+  return food;
+};
+
+export const historyImportService = {
+  /**
+   * Turns another app's export into our own day shards. Each (day, meal slot)
+   * becomes one MealEntry, saved through saveDailyLog so summaries rebuild and
+   * the cloud sync picks the meals up exactly as if they'd been logged here.
+   * Meals already on a day are left alone; imported ones sit alongside them.
+   *
+   * dateOrder answers IMPORT_DATES_AMBIGUOUS for a file whose dates read
+   * either way; it is ignored when the dates themselves settle it.
+   */
+  async importCsv(text: string, dateOrder?: DateOrder): Promise<ImportResult> {
+    const rows = parseCsv(text);
+    if (rows.length < 2) throw new Error('That file is empty.');
+
+    const headers = rows[0].map((h) => h.trim().toLowerCase());
+    const source = detectImportSource(headers);
+    if (!source) {
+      throw new Error('This does not look like a MyFitnessPal, Cronometer or Lose It! export.');
+    }
+    const spec = SOURCES[source];
+
+    const records = rows.slice(1).map((cells) => {
+      const row: Record<string, string> = {};
+      headers.forEach((h, i) => { row[h] = cells[i] ?? ''; });
+      return row;
+    }).filter((row) => !spec.skipIf?.(row));
+
+    const datePatterns = detectDatePatterns(records.map((row) => row[spec.date] || ''), dateOrder);
+    const numericHeaders = [...Object.keys(spec.columns), spec.quantity].filter((h): h is string => !!h);
+    const decimalComma = usesDecimalComma(records.flatMap((row) => [
+      ...numericHeaders.map((h) => row[h] || ''),
+      spec.amount ? (row[spec.amount] || '').trim().split(/\s/)[0] : '',
+    ]));
+
+    // dateKey -> slot -> foods, plus the earliest time seen for that slot
+    const grouped = new Map<string, Map<string, { foods: ParsedFood[]; time?: string }>>();
+    let skippedRows = 0;
+
+    records.forEach((row) => {
+      const dateKey = parseDateKey(row[spec.date] || '', datePatterns);
+      const slot = (spec.meal && row[spec.meal]?.trim()) || 'Uncategorized';
+      const food = dateKey ? rowToFood(spec, row, `${slot} (${IMPORT_SOURCE_LABELS[source]})`, decimalComma) : null;
+      if (!dateKey || !food) { skippedRows++; return; }
+
+      const day = grouped.get(dateKey) ?? new Map();
+      const bucket = day.get(slot) ?? { foods: [] };
+      bucket.foods.push(food);
+      const time = spec.time ? row[spec.time]?.trim() : undefined;
+      if (time && (!bucket.time || time < bucket.time)) bucket.time = time;
+      day.set(slot, bucket);
+      grouped.set(dateKey, day);
+    });
+
+    const result: ImportResult = { source, days: 0, meals: 0, foods: 0, skippedRows, alreadyImported: 0 };
+    const now = new Date().toISOString();
+
+    for (const dateKey of Array.from(grouped.keys()).sort()) {
+      const existing = await dataStorage.getDailyLog(dateKey);
+      const seen = new Set(existing.map((m) => m.summary));
+      const additions: MealEntry[] = [];
+
+      grouped.get(dateKey)!.forEach(({ foods, time }, slot) => {
+        const summary = importSummary(source, slot);
+        if (seen.has(summary)) { result.alreadyImported++; return; }
+        additions.push({
+          id: generateId(),
+          prompt: foods.map((f) => f.name).join(', '),
+          summary,
+          foods,
+          timestamp: timestampFor(dateKey, time, slot),
+          updatedAt: now,
+          date: dateKey,
+        });
+        result.foods += foods.length;
+      });
+
+      if (additions.length === 0) continue;
+      const merged = [...existing, ...additions].sort((a, b) => a.timestamp - b.timestamp);
+      await dataStorage.saveDailyLog(dateKey, merged);
+      result.days++;
+      result.meals += additions.length;
+    }
+
+    return result;
+  },
+};
@@ -0,0 +1,110 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Versioned migrations for data kept on the device. Each step has a version
+// number, and the device stores the highest version it has finished, so a step
+// runs once per install, in order. Adding a step means appending to the
+// registry with the next number. Never renumber or remove a step a released
+// build has shipped.
+//
+// Before a step runs, it is marked as started. If the app dies partway
+// through, the next launch finds that mark and runs the same step again. So
+// every step must be safe to re-run over its own partial output.
+
+const STATE_KEY = '@trackkal:localSchema';
+const HISTORY_LIMIT = 50;
+
+export interface LocalMigration {
+  version: number; // 1, 2, 3... strictly increasing through the registry
+  name: string;
+  run: () => Promise<void>;
+}
+
+export interface LocalMigrationRecord {
+  version: number;
+  name: string;
+  startedAt: string;
+  finishedAt: string;
+  ok: boolean;
+  resumed?: boolean; // the step had been started before and never finished
+  error?: string;
+}
+
+export interface LocalSchemaState {
+  version: number; // highest step finished; 0 on a fresh install
+  inProgress?: { version: number; startedAt: string };
+  history: LocalMigrationRecord[];
+}
+
+export async function readLocalSchemaState(): Promise<LocalSchemaState> {
+  try {
+    const raw = await AsyncStorage.getItem(STATE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed && typeof parsed.version === 'number') {
+      return { ...parsed, history: Array.isArray(parsed.history) ? parsed.history : [] };
+    }
+  } catch {
+    // Unreadable state reads as a fresh install. Steps are re-runnable, so
+    // the worst case is repeating work that was already done
+  }
+  return { version: 0, history: [] };
+}
+
+const writeState = (state: LocalSchemaState) =>
+  AsyncStorage.setItem(STATE_KEY, JSON.stringify({ ...state, history: state.history.slice(-HISTORY_LIMIT) }));
+
+async function runPending(registry: LocalMigration[]): Promise<LocalSchemaState> {
+  const state = await readLocalSchemaState();
+
+  for (const step of registry) {
+    if (step.version <= state.version) continue;
+
+    const resumed = state.inProgress?.version === step.version;
+    const startedAt = new Date().toISOString();
+    state.inProgress = { version: step.version, startedAt };
+    await writeState(state);
+
+    try {
+      await step.run();
+    } catch (error) {
+      // Left at the last good version, with the mark still set. The next
+      // launch retries this step, and later steps wait because they may
+      // depend on it
+      state.history.push({
+        version: step.version,
+        name: step.name,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        ok: false,
+        resumed: resumed || undefined,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await writeState(state);
+      console.error(`[localMigrations] v${step.version} ${step.name} failed:`, error);
+      return state;
+    }
+
+    state.version = step.version;
+    delete state.inProgress;
+    state.history.push({
+      version: step.version,
+      name: step.name,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      ok: true,
+      resumed: resumed || undefined,
+    });
+    await writeState(state);
+  }
+
+  return state;
+}
+
+let running: Promise<LocalSchemaState> | null = null;
+
+// Startup and a foregrounded app can both ask at once; they share one run
+export function runLocalMigrations(registry: LocalMigration[]): Promise<LocalSchemaState> {
+  if (!running) {
+    running = runPending(registry).finally(() => { running = null; });
+  }
+  return running;
+}
@@ -1,21 +1,27 @@
 // OpenAI API service for food analysis
-import { ParsedFood } from '../utils/foodNutrition';
+import { ParsedFood, checkAgainstDatabase } from '../utils/foodNutrition';
 import { invokeAI } from './aiProxyService';
 import * as FileSystem from 'expo-file-system/legacy';
 import { generateId } from '../utils/uuid';
 import { chatCoachService } from './chatCoachService';
 import { sanitizeForAI, sanitizeObjectForAI } from '../utils/sanitizeAI';
 import { hashPrompt } from '../utils/promptVersion';
-import { lookupPackagedFood, labelToPanelLine, mentionsSomethingUnfamiliar } from './foodDatabaseService';
+import { lookupPackagedFood, labelToPanelLine, mentionsSomethingUnfamiliar, FoodLabel, isSane, packGrams, servingGrams } from './foodDatabaseService';
 import { searchNutrition, resultsToPromptBlock } from './webSearchService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { bulkStore } from './bulkStore';
+import { dataStorage } from './dataStorage';
+import { findPersonalFoodsIn, personalFoodPanelLine } from '../utils/personalFoods';
+import { findRecipesIn, matchRecipeMeal, recipePanelLine } from '../utils/recipes';
+import { checkHouseholdMeasures, extractStatedWeightG } from '../utils/householdMeasures';
+import { ClockSlot, slotFromPrompt } from '../utils/mealSlots';
 import * as Sentry from '@sentry/react-native';
 
 // ─── Food Analysis Cache ───────────────────────────────────────
-// Caches AI results in AsyncStorage so repeat meals return instantly.
-// Cache entries are tagged with a hash of the prompt that produced them; when the
-// prompt text changes, the hash changes and old entries are silently invalidated.
-const FOOD_CACHE_PREFIX = '@food_cache:';
+// Caches AI results on device (SQLite, or AsyncStorage on web) so repeat meals
+// return instantly. Cache entries are tagged with a hash of the prompt that
+// produced them; when the prompt text changes, the hash changes and old entries
+// are silently invalidated.
 
 interface CachedFoodResult {
   foods: Omit<ParsedFood, 'id'>[];
@@ -30,8 +36,7 @@ function normalizeFoodInput(input: string): string {
 
 async function getCachedFood(input: string, expectedVersion: string): Promise<CachedFoodResult | null> {
   try {
-    const key = FOOD_CACHE_PREFIX + normalizeFoodInput(input);
-    const raw = await AsyncStorage.getItem(key);
+    const raw = await bulkStore.getFoodCache(normalizeFoodInput(input));
     if (!raw) return null;
     const parsed = JSON.parse(raw) as CachedFoodResult;
     if (parsed.promptVersion !== expectedVersion) return null;
@@ -43,11 +48,10 @@ async function getCachedFood(input: string, expectedVersion: string): Promise<Ca
 
 async function setCachedFood(input: string, foods: ParsedFood[], summary: string | undefined, version: string): Promise<void> {
   try {
-    const key = FOOD_CACHE_PREFIX + normalizeFoodInput(input);
     // Strip IDs before caching — fresh IDs are generated on each cache hit
     const stripped = foods.map(({ id, ...rest }) => rest);
     const entry: CachedFoodResult = { foods: stripped, summary, cachedAt: Date.now(), promptVersion: version };
-    await AsyncStorage.setItem(key, JSON.stringify(entry));
+    await bulkStore.setFoodCache(normalizeFoodInput(input), JSON.stringify(entry));
   } catch {
     // Cache write failure is non-critical
   }
@@ -162,6 +166,7 @@ OR
 B) If you have enough info (or are making safe assumptions):
 {
       "summary": "String (Short, clean summary with emojis, e.g. '🍜 2 Packets of Noodles, 🍎 1 Apple')",
+      "meal_slot": "breakfast" | "lunch" | "dinner" | "snack" | null,
       "items": [
         {
           "log_name": "String",
@@ -198,60 +203,13 @@ B) If you have enough info (or are making safe assumptions):
       ]
     }
 
+- Set \`meal_slot\` only when the user says which meal this was ("for lunch I had...", "Dinner: rice and dal", "iftar"). Never work it out from the food or the time of day: "a breakfast burrito" names a food, not a meal, and a night-shift worker's dinner can be at 4am. When they name none, or more than one, use null.
 - Return ONLY valid JSON.
 `;
 
 // Cache version derived from the prompt text — bumps automatically when the prompt changes.
 const AGENTIC_PROMPT_VERSION = hashPrompt(AGENTIC_ANALYSIS_PROMPT);
 
-// Words that imply the food is liquid. When present, "oz" / "ounce" is treated
-// as fluid oz (~29.57 g for water-density beverages) instead of weight oz (~28.35 g).
-// Close enough for most drinks; will be slightly off for honey or oils but those
-// are rarely ordered "by the ounce."
-const LIQUID_FOOD_KEYWORDS = [
-  'water', 'milk', 'juice', 'coffee', 'tea', 'soda', 'cola', 'pepsi', 'sprite',
-  'beer', 'wine', 'champagne', 'cocktail', 'whiskey', 'vodka', 'gin', 'rum', 'tequila',
-  'smoothie', 'shake', 'milkshake', 'protein shake', 'kombucha', 'lemonade', 'iced tea',
-  'broth', 'stock', 'soup', 'oil', 'sauce', 'syrup', 'honey', 'cream',
-  'lassi', 'ayran', 'jallab', 'tamarind drink', 'qamar al-din',
-];
-
-function hasLiquidContext(input: string): boolean {
-  const lower = input.toLowerCase();
-  return LIQUID_FOOD_KEYWORDS.some(kw => lower.includes(kw));
-}
-
-/**
- * Extract a single explicit weight from the user's input, returned in grams.
- * Supports g, grams, oz, ounces, lb, lbs, pounds, kg, kilograms, ml, l, liters.
- * For "oz" in a liquid context, uses fluid oz conversion.
- * Returns null if no weight, multiple weights, or ambiguous input.
- */
-function extractStatedWeightG(input: string): number | null {
-  if (!input) return null;
-  const re = /(\d+(?:\.\d+)?)\s*(kg|kilograms?|kilos?|g|grams?|oz|ounces?|fl\.?\s*oz|fluid\s*ounces?|lbs?|pounds?|ml|millilit(?:er|re)s?|l|lit(?:er|re)s?)\b/gi;
-  const matches: Array<{ value: number; unit: string }> = [];
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(input)) !== null) {
-    matches.push({ value: parseFloat(m[1]), unit: m[2].toLowerCase().replace(/\s+/g, '') });
-  }
-  if (matches.length !== 1) return null; // 0 or multiple weights, do not enforce
-
-  const { value, unit } = matches[0];
-  if (unit.startsWith('kg') || unit.startsWith('kilo')) return value * 1000;
-  if (unit.startsWith('lb') || unit.startsWith('pound')) return value * 453.592;
-  // Volume units — assume water density (~1 g/ml).
-  if (unit === 'ml' || unit.startsWith('millilit')) return value;
-  if (unit === 'l' || unit.startsWith('lit')) return value * 1000;
-  // Explicit fluid oz (e.g. "12 fl oz") always uses liquid conversion.
-  if (unit.startsWith('floz') || unit.startsWith('fluidounce')) return value * 29.5735;
-  if (unit.startsWith('oz') || unit.startsWith('ounce')) {
-    // Plain "oz" — depends on context. Liquid food → fluid oz; otherwise weight oz.
-    return value * (hasLiquidContext(input) ? 29.5735 : 28.3495);
-  }
-  return value; // grams
-}
-
 /**
  * If the user gave an explicit total weight and the AI returned a different weight for a
  * single-item meal, scale the nutrition values proportionally and override the weight.
@@ -470,6 +428,7 @@ const AGENTIC_RESPONSE_SCHEMA = {
   properties: {
     clarification_question: { type: ['string', 'null'] },
     summary: { type: ['string', 'null'] },
+    meal_slot: { type: ['string', 'null'], enum: ['breakfast', 'lunch', 'dinner', 'snack', null] },
     items: {
       type: ['array', 'null'],
       items: {
@@ -496,7 +455,7 @@ const AGENTIC_RESPONSE_SCHEMA = {
       },
     },
   },
-  required: ['clarification_question', 'summary', 'items'],
+  required: ['clarification_question', 'summary', 'meal_slot', 'items'],
   additionalProperties: false,
 };
 
@@ -515,17 +474,29 @@ export async function analyzeFoodWithChatGPT(
   foodInput: string,
   allowClarification: boolean = true,
   lookupQuery?: string | null,
-): Promise<{ foods: ParsedFood[], summary?: string, clarificationQuestion?: string, aiUnavailable?: boolean }> {
+): Promise<{ foods: ParsedFood[], summary?: string, mealSlot?: ClockSlot, clarificationQuestion?: string, aiUnavailable?: boolean }> {
   try {
     if (__DEV__) console.log('Starting Agentic Analysis for:', foodInput);
 
+    // A serving of one of the user's recipes is arithmetic on totals they
+    // already resolved. No model, no network, so it works offline too
+    const recipes = await dataStorage.loadLocalRecipes();
+    const recipeMeal = matchRecipeMeal(foodInput, recipes);
+    if (recipeMeal) return { foods: [recipeMeal], summary: recipeMeal.name, mealSlot: slotFromPrompt(foodInput) ?? undefined };
+
+    // The user's own foods outrank everything, the cache included: a cached
+    // answer predates whatever they last corrected in the library
+    const ownRecipes = findRecipesIn(foodInput, recipes);
+    const personal = findPersonalFoodsIn(ownRecipes.rest, await dataStorage.loadLocalPersonalFoods());
+    const ownMatches = ownRecipes.matches.length + personal.matches.length;
+
     // ── Cache check: return near-instantly for repeat meals ──
-    const cached = await getCachedFood(foodInput, AGENTIC_PROMPT_VERSION);
+    const cached = ownMatches ? null : await getCachedFood(foodInput, AGENTIC_PROMPT_VERSION);
     if (cached && cached.foods.length > 0) {
       if (__DEV__) console.log('Cache HIT for:', foodInput);
       await new Promise(resolve => setTimeout(resolve, 300)); // Brief delay so UI transition feels smooth
       const cachedFoods: ParsedFood[] = cached.foods.map(f => ({ ...f, id: generateId() }));
-      return { foods: cachedFoods, summary: cached.summary };
+      return { foods: cachedFoods, summary: cached.summary, mealSlot: slotFromPrompt(foodInput) ?? undefined };
     }
 
     // Look the product up before asking anyone to guess at it. Google and the
@@ -535,8 +506,11 @@ export async function analyzeFoodWithChatGPT(
     // Nothing to look up when every word is ordinary food. A biryani has no
     // manufacturer, so searching for one costs three seconds and a billed query
     // to learn nothing. A caller that already knows the answer says so instead.
+    // Nor is there any point chasing a food the user has already given us the
+    // label for, so only what their library does not cover gets looked up.
+    const unresolved = ownMatches ? personal.rest : foodInput;
     const target = lookupQuery === undefined
-      ? (mentionsSomethingUnfamiliar(foodInput) ? foodInput : null)
+      ? (mentionsSomethingUnfamiliar(unresolved) ? unresolved : null)
       : lookupQuery;
     const [results, label] = target
       ? await Promise.all([searchNutrition(target), lookupPackagedFood(target)])
@@ -551,6 +525,14 @@ export async function analyzeFoodWithChatGPT(
       if (__DEV__) console.log('[FoodAnalysis] label hit:', label.brand, label.name, label.code);
       userContent = `${userContent}\n\n${labelToPanelLine(label)}`;
     }
+    for (const recipe of ownRecipes.matches) {
+      if (__DEV__) console.log('[FoodAnalysis] recipe:', recipe.name);
+      userContent = `${userContent}\n\n${recipePanelLine(recipe)}`;
+    }
+    for (const food of personal.matches) {
+      if (__DEV__) console.log('[FoodAnalysis] personal food:', food.brand, food.name);
+      userContent = `${userContent}\n\n${personalFoodPanelLine(food)}`;
+    }
 
     let finalPrompt = AGENTIC_ANALYSIS_PROMPT;
     if (!allowClarification) {
@@ -598,14 +580,16 @@ export async function analyzeFoodWithChatGPT(
     // 1) If the user gave an explicit weight, scale to match.
     // 2) If the AI swapped a specific food identity (thigh→breast, salmon→tuna),
     //    rewrite log_name to keep the user's term.
+    // 3) If a known dish comes out far off its usual density, or a cup or
+    //    katori of something far off what that measure of it weighs, flag it.
     const scaledItems = enforceStatedWeight(foodInput, result.items || []);
     const items = enforceFoodIdentity(foodInput, scaledItems);
-    const finalFoods: ParsedFood[] = [];
+    const aiFoods: ParsedFood[] = [];
 
     for (const item of items) {
       // Physics before arithmetic: fix the scale, then reconcile the calories
       rescaleIfPer100g(item);
-      finalFoods.push({
+      aiFoods.push({
         id: generateId(),
         name: item.log_name,
         quantity: item.quantity,
@@ -636,6 +620,7 @@ export async function analyzeFoodWithChatGPT(
         confidence_reason: item.confidence_reason,
       });
     }
+    const finalFoods = checkAgainstDatabase(checkHouseholdMeasures(aiFoods));
 
     // ── Build a fallback summary if the AI returned items but skipped the summary. ──
     // The strict json_schema allows summary to be null, but the meal row UX needs SOMETHING
@@ -652,11 +637,15 @@ export async function analyzeFoodWithChatGPT(
     }
 
     // ── Cache the result for future instant lookups ──
-    if (finalFoods.length > 0) {
+    if (finalFoods.length > 0 && ownMatches === 0) {
       setCachedFood(foodInput, finalFoods, finalSummary, AGENTIC_PROMPT_VERSION);
     }
 
-    return { foods: finalFoods, summary: finalSummary };
+    // The model reads phrasing the patterns miss; the patterns cover a model
+    // that left it null
+    const mealSlot: ClockSlot | undefined = result.meal_slot ?? slotFromPrompt(foodInput) ?? undefined;
+
+    return { foods: finalFoods, summary: finalSummary, mealSlot };
 
   } catch (error) {
     if (__DEV__) console.error('Error in agentic food analysis:', error);
@@ -919,14 +908,17 @@ const searchQueryForReading = (r: VisionReading): string | null => {
  * Restarting both doubled the wait for the exact people who were trying to help
  * us get it right, which is the wrong way round.
  */
-export async function readFoodPhoto(imageUri: string): Promise<VisionReading> {
+const imageDataUrlFor = async (imageUri: string): Promise<string> => {
   if (__DEV__) console.log('Reading image as base64 from URI:', imageUri);
   const base64Image = await FileSystem.readAsStringAsync(imageUri, {
     encoding: FileSystem.EncodingType.Base64,
   });
-
   const imageFormat = imageUri.toLowerCase().endsWith('.png') ? 'png' : 'jpeg';
-  const imageDataUrl = `data:image/${imageFormat};base64,${base64Image}`;
+  return `data:image/${imageFormat};base64,${base64Image}`;
+};
+
+export async function readFoodPhoto(imageUri: string): Promise<VisionReading> {
+  const imageDataUrl = await imageDataUrlFor(imageUri);
 
   if (__DEV__) console.log('Sending request to OpenAI Vision API (Reader Mode)...');
 
@@ -961,7 +953,7 @@ export async function readFoodPhoto(imageUri: string): Promise<VisionReading> {
 export async function analyzePhotoReading(
   reading: VisionReading,
   note?: string,
-): Promise<{ foods: ParsedFood[], summary?: string }> {
+): Promise<{ foods: ParsedFood[], summary?: string, mealSlot?: ClockSlot }> {
   let description = describeReading(reading);
   if (!description.trim() && !note?.trim()) throw new Error('Vision AI found nothing to log');
 
@@ -978,7 +970,180 @@ export async function analyzePhotoReading(
     ?? (note?.trim() && mentionsSomethingUnfamiliar(note) ? note.trim() : null);
 
   const result = await analyzeFoodWithChatGPT(description, false, lookupTarget);
-  return { foods: result.foods, summary: result.summary };
+  // Only the note can name the meal. A camera that sees pancakes has not been
+  // told it was breakfast
+  return { foods: result.foods, summary: result.summary, mealSlot: note?.trim() ? result.mealSlot : undefined };
+}
+
+// The label mode is for a photo the user took on purpose of the panel itself,
+// usually a regional product Open Food Facts has never seen. Nothing here is
+// estimated: every figure is a transcription, and the user confirms it before
+// anything is saved.
+const LABEL_READER_PROMPT = `You are transcribing the nutrition facts panel in a photo, digit for digit.
+
+Copy only what is printed and legible. Never fill a figure from what the product usually contains, and never work one figure out from another. A blurred or cropped number is null.
+
+Panels print one or two columns. Record the per 100 g (or per 100 ml) column in per_100g and the per serving (or per piece, per bar, per pack) column in per_serving. Leave a column null if the panel does not print it.
+
+Energy: put the kcal figure in calories and the kJ figure in energy_kj, each only if printed. Never convert one into the other.
+Sodium: give milligrams. If only salt is printed, put it in salt_g and leave sodium null.
+carbs_include_fiber is true when the carbohydrate figure is a total that already contains fibre (US style, "Total Carbohydrate" with fibre indented under it), and false when fibre is listed as its own line beside carbohydrate (EU style).
+
+serving_size_label is the serving exactly as printed ("1 bar (45 g)", "2 pieces"). serving_size_g is its weight in grams or ml if printed, else null. net_weight_label is the pack size as printed ("6 x 30 g", "500 ml").
+
+Read the product and brand names only if printed on the part of the pack in frame.`;
+
+const LABEL_COLUMN_SCHEMA = {
+  type: ['object', 'null'],
+  additionalProperties: false,
+  required: ['calories', 'energy_kj', 'protein_g', 'carbs_g', 'fat_g', 'fiber_g', 'sugar_g', 'saturated_fat_g', 'sodium_mg', 'salt_g'],
+  properties: {
+    calories: { type: ['number', 'null'] },
+    energy_kj: { type: ['number', 'null'] },
+    protein_g: { type: ['number', 'null'] },
+    carbs_g: { type: ['number', 'null'] },
+    fat_g: { type: ['number', 'null'] },
+    fiber_g: { type: ['number', 'null'] },
+    sugar_g: { type: ['number', 'null'] },
+    saturated_fat_g: { type: ['number', 'null'] },
+    sodium_mg: { type: ['number', 'null'] },
+    salt_g: { type: ['number', 'null'] },
+  },
+};
+
+const LABEL_READER_SCHEMA = {
+  type: 'json_schema' as const,
+  json_schema: {
+    name: 'nutrition_label',
+    strict: true,
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['brand', 'product', 'serving_size_label', 'serving_size_g', 'net_weight_label', 'carbs_include_fiber', 'per_100g', 'per_serving'],
+      properties: {
+        brand: { type: ['string', 'null'] },
+        product: { type: ['string', 'null'] },
+        serving_size_label: { type: ['string', 'null'] },
+        serving_size_g: { type: ['number', 'null'] },
+        net_weight_label: { type: ['string', 'null'] },
+        carbs_include_fiber: { type: 'boolean' },
+        per_100g: LABEL_COLUMN_SCHEMA,
+        per_serving: LABEL_COLUMN_SCHEMA,
+      },
+    },
+  },
+};
+
+interface LabelColumn {
+  calories: number | null;
+  energy_kj: number | null;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fat_g: number | null;
+  fiber_g: number | null;
+  sugar_g: number | null;
+  saturated_fat_g: number | null;
+  sodium_mg: number | null;
+  salt_g: number | null;
+}
+
+export interface ReadLabel {
+  label: FoodLabel;
+  servingG: number | null;
+  packG: number | null;
+  /** The panel had no per 100 g column, so it was scaled up from per serving. */
+  fromServing: boolean;
+  /** Whether the figures pass the same arithmetic check Open Food Facts rows do. */
+  addsUp: boolean;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Reads a photographed nutrition panel into label form, per 100 g. Null when
+ * no usable column could be read. Throws when the call itself fails, so the
+ * caller can tell "could not read it" from "could not reach the reader".
+ */
+export async function readNutritionLabel(imageUri: string): Promise<ReadLabel | null> {
+  const imageDataUrl = await imageDataUrlFor(imageUri);
+  const data = await invokeAI({
+    model: 'gpt-4o',
+    messages: [
+      { role: 'system', content: LABEL_READER_PROMPT },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Transcribe this nutrition panel.' },
+          { type: 'image_url', image_url: { url: imageDataUrl } },
+        ],
+      },
+    ],
+    max_tokens: 600,
+    response_format: LABEL_READER_SCHEMA,
+    call_type: 'nutrition-label-vision',
+  });
+
+  const raw = data.choices[0]?.message?.content;
+  if (!raw) throw new Error('No reading from Vision AI');
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw.replace(/```json/g, '').replace(/```/g, '').trim());
+  } catch {
+    return null;
+  }
+  if (__DEV__) console.log('Label reading:', JSON.stringify(parsed));
+
+  const servingLabel: string | null = typeof parsed?.serving_size_label === 'string' ? parsed.serving_size_label : null;
+  const servingG: number | null = Number(parsed?.serving_size_g) > 0 ? Number(parsed.serving_size_g) : null;
+
+  // Much of the world prints energy in kJ only. The reader copies what is
+  // there and the conversion happens here, where it cannot be misremembered
+  const withKcal = (col: any): LabelColumn | null => {
+    if (!col) return null;
+    if (col.calories != null) return col;
+    const kj = Number(col.energy_kj);
+    return col.energy_kj != null && Number.isFinite(kj) ? { ...col, calories: kj / 4.184 } : null;
+  };
+
+  // Prefer the printed per 100 g column. A per serving column alone only
+  // helps when the serving weight is printed too
+  const per100 = withKcal(parsed?.per_100g);
+  const perServing = withKcal(parsed?.per_serving);
+  const column = per100 ?? (perServing && servingG ? perServing : null);
+  if (!column) return null;
+  const scale = per100 ? 1 : 100 / (servingG as number);
+  const at = (v: number | null) => (v != null && Number.isFinite(Number(v)) ? Number(v) * scale : null);
+
+  const fibre = at(column.fiber_g) ?? 0;
+  const carbs = at(column.carbs_g) ?? 0;
+  const sodium = at(column.sodium_mg) ?? (column.salt_g != null ? (at(column.salt_g) as number) / 2.5 * 1000 : null);
+  const per100g: FoodLabel['per100g'] = {
+    calories: Math.round(at(column.calories) as number),
+    protein: round1(at(column.protein_g) ?? 0),
+    // Totals convention: fibre counts inside carbohydrate
+    carbs: round1(parsed.carbs_include_fiber ? carbs : carbs + fibre),
+    fibre: round1(fibre),
+    sugar: column.sugar_g != null ? round1(at(column.sugar_g) as number) : null,
+    fat: round1(at(column.fat_g) ?? 0),
+    saturatedFat: column.saturated_fat_g != null ? round1(at(column.saturated_fat_g) as number) : null,
+    sodiumMg: sodium != null ? Math.round(sodium) : null,
+  };
+
+  const label: FoodLabel = {
+    name: typeof parsed.product === 'string' && parsed.product.trim() ? parsed.product.trim() : 'Labelled food',
+    brand: typeof parsed.brand === 'string' && parsed.brand.trim() ? parsed.brand.trim() : null,
+    code: '',
+    servingSize: servingLabel,
+    quantity: typeof parsed.net_weight_label === 'string' ? parsed.net_weight_label : null,
+    per100g,
+  };
+  return {
+    label,
+    servingG: servingG ?? servingGrams(label),
+    packG: packGrams(label),
+    fromServing: !per100,
+    addsUp: isSane(per100g),
+  };
 }
 
 /**
@@ -986,7 +1151,7 @@ export async function analyzePhotoReading(
  * was left on the plate, what was asked of the kitchen, or that the loaf in
  * frame was only two slices' worth, so this is the only channel for any of it.
  */
-export async function analyzeFoodFromImage(imageUri: string, note?: string): Promise<{ foods: ParsedFood[], summary?: string }> {
+export async function analyzeFoodFromImage(imageUri: string, note?: string): Promise<{ foods: ParsedFood[], summary?: string, mealSlot?: ClockSlot }> {
   try {
     const reading = await readFoodPhoto(imageUri);
     return await analyzePhotoReading(reading, note);
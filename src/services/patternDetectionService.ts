@@ -44,13 +44,21 @@ export const patternDetectionService = {
 
             const days: EngineDay[] = [];
             const today = new Date();
+            const windowStart = new Date(today);
+            windowStart.setDate(today.getDate() - WINDOW_DAYS);
+            const yesterday = new Date(today);
+            yesterday.setDate(today.getDate() - 1);
+            const mealsByDate = await dataStorage.getMealsInRange(
+                format(windowStart, 'yyyy-MM-dd'),
+                format(yesterday, 'yyyy-MM-dd'),
+            );
 
             for (let i = WINDOW_DAYS; i >= 1; i--) {
                 const date = new Date(today);
                 date.setDate(today.getDate() - i);
                 const dateKey = format(date, 'yyyy-MM-dd');
 
-                const meals = await dataStorage.getDailyLog(dateKey);
+                const meals = mealsByDate[dateKey] || [];
                 if (meals.length === 0) continue;
 
                 const timestamps = meals.map(m => m.timestamp);
@@ -61,6 +69,7 @@ export const patternDetectionService = {
                     const loggedSameDay = format(new Date(m.timestamp), 'yyyy-MM-dd') === dateKey;
                     return {
                         hour: loggedSameDay && !batchLogged ? new Date(m.timestamp).getHours() : -1,
+                        slot: m.mealSlot,
                         calories: m.foods.reduce((s, f) => s + (Number.isFinite(f.calories) ? f.calories : 0), 0),
                         protein: m.foods.reduce((s, f) => s + (Number.isFinite(f.protein) ? f.protein : 0), 0),
                         foods: m.foods.map(f => ({ name: f.name, protein: Number.isFinite(f.protein) ? f.protein : 0 })),
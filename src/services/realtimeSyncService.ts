@@ -0,0 +1,122 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { applyRemoteChange, RemoteEntity } from './dataStorage';
+
+/**
+ * Realtime hub for everything the user logs, scoped to a single user.
+ *
+ * One channel carries a listener per table. When any device writes a row for
+ * this user, the matching local state is brought up to date (see
+ * applyRemoteChange), then every registered listener hears which entity
+ * changed, typically to re-read it into React state.
+ *
+ * Self-fired events (this device wrote the row) also fire here. The local copy
+ * is already current, so the extra re-read is redundant but harmless — it just
+ * reconciles whatever the server stored back into local.
+ *
+ * Requires each table in the supabase_realtime publication on the family
+ * project. kcal_food_logs was added in migration
+ * 20260810000002_kcal_client_reality, the rest in
+ * docs/sql/2026-10-19-realtime-publication.sql.
+ */
+
+export type RealtimeEntity = RemoteEntity;
+
+const TABLES: Record<RealtimeEntity, string> = {
+  meals: 'kcal_food_logs',
+  weights: 'weight_log',
+  exercises: 'kcal_exercise_logs',
+  goals: 'kcal_goals',
+  preferences: 'kcal_prefs',
+  water: 'water_log',
+};
+
+let activeChannel: RealtimeChannel | null = null;
+let activeUserId: string | null = null;
+
+const listeners = new Set<(entity: RealtimeEntity) => void>();
+
+// What the channel last told us, kept for the sync diagnostics screen. 'IDLE'
+// means nothing is subscribed; the rest are supabase-js channel statuses
+// (SUBSCRIBED, CHANNEL_ERROR, TIMED_OUT, CLOSED).
+export interface RealtimeStatus {
+  status: string;
+  statusAt: number | null; // ms
+  lastEventAt: number | null; // ms of the last row change received, any table
+  lastEventByEntity: Partial<Record<RealtimeEntity, number>>;
+}
+
+let channelStatus: RealtimeStatus = { status: 'IDLE', statusAt: null, lastEventAt: null, lastEventByEntity: {} };
+
+export function getRealtimeStatus(): RealtimeStatus {
+  return { ...channelStatus, lastEventByEntity: { ...channelStatus.lastEventByEntity } };
+}
+
+/**
+ * Registers a listener for remote changes. Listeners outlive the channel, so a
+ * screen can register once and keep hearing events across sign-in changes.
+ * Returns the unregister function.
+ */
+export function onRealtimeChange(listener: (entity: RealtimeEntity) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+async function handleChange(entity: RealtimeEntity): Promise<void> {
+  const now = Date.now();
+  channelStatus = {
+    ...channelStatus,
+    lastEventAt: now,
+    lastEventByEntity: { ...channelStatus.lastEventByEntity, [entity]: now },
+  };
+  try {
+    await applyRemoteChange(entity);
+  } catch (e) {
+    // Listeners still run: their loaders fetch remote on their own
+    if (__DEV__) console.error(`[realtime] applying ${entity} change failed:`, e);
+  }
+  listeners.forEach((listener) => {
+    try {
+      listener(entity);
+    } catch (e) {
+      if (__DEV__) console.error('[realtime] listener threw:', e);
+    }
+  });
+}
+
+export function subscribeRealtimeForUser(appUserId: string): void {
+  if (!supabase || !appUserId) return;
+
+  // Already subscribed for this user — no-op.
+  if (activeUserId === appUserId && activeChannel) return;
+
+  // Different user (or stale channel) — tear down before subscribing again.
+  unsubscribeRealtime();
+
+  activeUserId = appUserId;
+  let channel = supabase.channel(`trackkcal:user:${appUserId}`);
+  for (const [entity, table] of Object.entries(TABLES) as Array<[RealtimeEntity, string]>) {
+    channel = channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, filter: `user_id=eq.${appUserId}` },
+      () => { void handleChange(entity); },
+    );
+  }
+  activeChannel = channel.subscribe((status) => {
+    channelStatus = { ...channelStatus, status, statusAt: Date.now() };
+    if (__DEV__) console.log(`[realtime] channel status: ${status}`);
+  });
+}
+
+export function unsubscribeRealtime(): void {
+  if (activeChannel && supabase) {
+    try {
+      supabase.removeChannel(activeChannel);
+    } catch (e) {
+      if (__DEV__) console.error('[realtime] removeChannel failed:', e);
+    }
+  }
+  activeChannel = null;
+  activeUserId = null;
+  channelStatus = { status: 'IDLE', statusAt: Date.now(), lastEventAt: null, lastEventByEntity: {} };
+}
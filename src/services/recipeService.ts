@@ -0,0 +1,29 @@
+import { dataStorage } from './dataStorage';
+import { analyzeFoodWithChatGPT } from './openaiService';
+import { ParsedFood, parseQuantityAndSize, wordsBesidesAmounts } from '../utils/foodNutrition';
+import { findPersonalFoodsIn, personalFoodToParsedFood } from '../utils/personalFoods';
+
+/**
+ * One recipe line, as typed, resolved to foods. A line that is just an amount
+ * of something in My Foods is worked out from its figures on the device. Any
+ * other line goes through the normal analysis, which still reads My Foods as
+ * label truth, with clarification off since there is no one to ask mid-recipe.
+ * Throws when the model could not be reached, so the line is not saved as
+ * nothing.
+ */
+export async function resolveIngredient(text: string): Promise<ParsedFood[]> {
+  const { matches, rest } = findPersonalFoodsIn(text, await dataStorage.loadLocalPersonalFoods());
+  if (matches.length === 1 && wordsBesidesAmounts(rest).length === 0) {
+    const food = matches[0];
+    const { quantity, sizeMultiplier, weightG } = parseQuantityAndSize(rest);
+    if (weightG !== undefined) return [personalFoodToParsedFood(food, weightG, weightG, 'g')];
+    if (food.servingG) {
+      const servings = quantity * sizeMultiplier;
+      return [personalFoodToParsedFood(food, food.servingG * servings, servings, servings === 1 ? 'serving' : 'servings')];
+    }
+  }
+
+  const result = await analyzeFoodWithChatGPT(text, false);
+  if (result.aiUnavailable) throw new Error('Food analysis is unavailable');
+  return result.foods;
+}
@@ -12,6 +12,7 @@ import {
   isPremiumEntitled,
 } from './dataStorage';
 import { generateId } from '../utils/uuid';
+import { mealSlotOf } from '../utils/mealSlots';
 import { analyticsService } from './analyticsService';
 
 const STORAGE_KEYS = {
@@ -38,20 +39,10 @@ const GENERIC_MESSAGES: Record<string, { title: string; body: string }> = {
 
 // ---- Helpers ----
 
-function classifyMealSlot(hour: number): MealTimingPattern['mealSlot'] {
-  if (hour >= 5 && hour <= 10) return 'breakfast';
-  if (hour >= 11 && hour <= 14) return 'lunch';
-  if (hour >= 15 && hour <= 20) return 'dinner';
-  return 'snack';
-}
-
 function getLoggedSlotsToday(todayMeals: MealEntry[]): Set<string> {
   const slots = new Set<string>();
   for (const meal of todayMeals) {
-    if (meal.timestamp) {
-      const hour = new Date(meal.timestamp).getHours();
-      slots.add(classifyMealSlot(hour));
-    }
+    if (meal.timestamp || meal.mealSlot) slots.add(mealSlotOf(meal));
   }
   return slots;
 }
@@ -90,18 +81,16 @@ async function computeMealTimingPatterns(lookbackDays = 14): Promise<ReminderPat
   let daysWithData = 0;
 
   const summaries = await dataStorage.loadDailySummaries();
+  const mealsByDate = await dataStorage.getMealsInRange(
+    format(subDays(today, lookbackDays), 'yyyy-MM-dd'),
+    format(subDays(today, 1), 'yyyy-MM-dd'),
+  );
 
   for (let i = 1; i <= lookbackDays; i++) {
     const date = subDays(today, i);
     const dateKey = format(date, 'yyyy-MM-dd');
 
-    let meals: MealEntry[];
-    try {
-      meals = await dataStorage.getDailyLog(dateKey);
-    } catch {
-      continue;
-    }
-
+    const meals: MealEntry[] = mealsByDate[dateKey] || [];
     if (meals.length === 0) continue;
     daysWithData++;
 
@@ -109,7 +98,10 @@ async function computeMealTimingPatterns(lookbackDays = 14): Promise<ReminderPat
       if (!meal.timestamp) continue;
       const mealDate = new Date(meal.timestamp);
       const minutesSinceMidnight = mealDate.getHours() * 60 + mealDate.getMinutes();
-      const slot = classifyMealSlot(mealDate.getHours());
+      // A named slot keeps its own clock: breakfast at 18:00 after a night
+      // shift teaches the reminder when this person has breakfast
+      const slot = mealSlotOf(meal);
+      if (slot === 'custom') continue;
       slots[slot].push(minutesSinceMidnight);
     }
 
@@ -8,6 +8,9 @@ import type {
   Preferences,
   PushBroadcastRecord,
   SavedPrompt,
+  PersonalFood,
+  Recipe,
+  MealTemplate,
   ReferralRedemption,
   ReferralReward,
   MealEntry,
@@ -24,6 +27,7 @@ import type {
   HabitSignal,
   LiftsDay,
   LiftsSupplement,
+  WaterSyncPayload,
 } from './dataStorage';
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -195,6 +199,54 @@ function mapWeightRows(records: { date: string; weight_kg: number; source_app: s
   return [...byDate.values()].map((x) => x.entry).sort((a, b) => (a.date < b.date ? -1 : 1));
 }
 
+function mapExerciseRow(row: any): ExerciseEntry {
+  return {
+    id: row.id,
+    prompt: row.prompt || row.description,
+    exercises: (row.exercises_jsonb as any) || [],
+    timestamp: new Date(row.created_at).getTime(),
+    updatedAt: row.updated_at || undefined,
+  };
+}
+
+export interface MealsSnapshot {
+  byDate: Record<string, MealEntry[]>;
+  cursor: string | null; // newest updated_at/deleted_at seen, ISO
+}
+
+export interface MealChanges extends MealsSnapshot {
+  deletedIds: string[];
+}
+
+// PostgREST caps a response at 1000 rows, so a long history has to be paged.
+// Null if any page fails: a partial history must never be merged as complete.
+const FOOD_LOG_PAGE_SIZE = 1000;
+async function fetchAllFoodLogPages(
+  page: (from: number, to: number) => PromiseLike<{ data: SupabaseFoodLog[] | null; error: unknown }>
+): Promise<SupabaseFoodLog[] | null> {
+  const rows: SupabaseFoodLog[] = [];
+  for (let from = 0; ; from += FOOD_LOG_PAGE_SIZE) {
+    const { data, error } = await page(from, from + FOOD_LOG_PAGE_SIZE - 1);
+    if (error) {
+      console.error('Error fetching food logs from Supabase:', error);
+      return null;
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < FOOD_LOG_PAGE_SIZE) return rows;
+  }
+}
+
+function latestFoodLogChange(rows: SupabaseFoodLog[]): string | null {
+  let latest = 0;
+  for (const r of rows) {
+    for (const at of [r.updated_at, r.deleted_at]) {
+      const ms = at ? Date.parse(at) : NaN;
+      if (ms > latest) latest = ms;
+    }
+  }
+  return latest > 0 ? new Date(latest).toISOString() : null;
+}
+
 export const supabaseDataService = {
   async saveAccountToSupabase(info: AccountInfo): Promise<AppUser | null> {
     if (!info?.email) return null;
@@ -238,24 +290,73 @@ export const supabaseDataService = {
     }
   },
 
-  async fetchMeals(accountInfo: AccountInfo | null): Promise<Record<string, MealEntry[]>> {
-    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return {};
+  // The only write that clears deleted_at. Upserts leave it alone on purpose
+  // (see mealPayloadToRow), so a meal back from the recycle bin needs this too.
+  async restoreMeals(accountInfo: AccountInfo | null, mealIds: string[]): Promise<void> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email) || mealIds.length === 0) return;
     const user = await getOrCreateUser(accountInfo);
-    if (!user) return {};
+    if (!user) throw new Error(AUTH_NOT_READY);
 
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('kcal_food_logs')
-      .select('*')
+      .update({ deleted_at: null })
       .eq('user_id', user.id)
-      .is('deleted_at', null)
-      .order('logged_date', { ascending: true });
+      .in('id', mealIds);
 
     if (error) {
-      console.error('Error fetching food logs from Supabase:', error);
-      return {};
+      throw error;
     }
+  },
+
+  // The whole live history, paged, plus the newest change among it as the
+  // cursor for the next delta pull. Null on error: an empty result would read
+  // as "every meal was deleted elsewhere" to the merge in loadMeals.
+  async fetchMeals(accountInfo: AccountInfo | null): Promise<MealsSnapshot | null> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return null;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) return null;
+    const client = supabase;
+
+    const rows = await fetchAllFoodLogPages((from, to) =>
+      client
+        .from('kcal_food_logs')
+        .select('*')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('logged_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+    if (!rows) return null;
+
+    return { byDate: mapFoodLogRowToMeals(rows), cursor: latestFoodLogChange(rows) };
+  },
+
+  // Rows touched after `since`, soft-deletes included. Live rows come back
+  // grouped by day like fetchMeals; soft-deleted ones only as ids.
+  async fetchMealChanges(accountInfo: AccountInfo | null, since: string): Promise<MealChanges | null> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return null;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) return null;
+    const client = supabase;
 
-    return data ? mapFoodLogRowToMeals(data) : {};
+    const rows = await fetchAllFoodLogPages((from, to) =>
+      client
+        .from('kcal_food_logs')
+        .select('*')
+        .eq('user_id', user.id)
+        .or(`updated_at.gt.${since},deleted_at.gt.${since}`)
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+    if (!rows) return null;
+
+    return {
+      byDate: mapFoodLogRowToMeals(rows.filter((r) => !r.deleted_at)),
+      deletedIds: rows.filter((r) => r.deleted_at && r.id).map((r) => r.id as string),
+      cursor: latestFoodLogChange(rows),
+    };
   },
 
   async upsertWeightEntries(accountInfo: AccountInfo | null, payloads: WeightSyncPayload[]): Promise<void> {
@@ -376,6 +477,7 @@ export const supabaseDataService = {
         activity_level: goals.activityLevel || null,
         diet_plan: goals.dietPlan || null,
         is_active: true,
+        edited_at: goals.updatedAt || null,
       });
 
     if (insertError) {
@@ -451,6 +553,9 @@ export const supabaseDataService = {
       trackingGoal: data.tracking_goal || undefined,
       activityLevel: (data.activity_level as 'sedentary' | 'light' | 'moderate' | 'very') || undefined,
       dietPlan: (data.diet_plan as ExtendedGoalData['dietPlan']) || undefined,
+      // when the goal was edited, not when the row reached the cloud. Postgres
+      // writes +00:00 where toISOString writes Z; the compare reads strings
+      updatedAt: data.edited_at ? new Date(data.edited_at).toISOString() : undefined,
     };
   },
 
@@ -477,7 +582,7 @@ export const supabaseDataService = {
         calories_burned: totalCalories,
         logged_date: loggedDate,
         created_at: new Date(entry.timestamp).toISOString(),
-        updated_at: new Date().toISOString(),
+        updated_at: entry.updatedAt || new Date().toISOString(),
         // Omit deleted_at so re-upserting the full list never resurrects an
         // exercise soft-deleted on another device (same fix as mealPayloadToRow).
       };
@@ -509,6 +614,24 @@ export const supabaseDataService = {
     }
   },
 
+  // Same as restoreMeals, for exercise entries back from the recycle bin
+  async restoreExercises(accountInfo: AccountInfo | null, ids: string[]): Promise<void> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email) || ids.length === 0) return;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) throw new Error(AUTH_NOT_READY);
+
+    const { error } = await supabase
+      .from('kcal_exercise_logs')
+      .update({ deleted_at: null })
+      .eq('user_id', user.id)
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error restoring exercises in Supabase:', error);
+      throw error;
+    }
+  },
+
   async fetchExercises(accountInfo: AccountInfo | null): Promise<Record<string, ExerciseEntry[]>> {
     if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return {};
     const user = await getOrCreateUser(accountInfo);
@@ -532,18 +655,60 @@ export const supabaseDataService = {
     data.forEach((row) => {
       const dateKey = row.logged_date;
       if (!grouped[dateKey]) grouped[dateKey] = [];
-
-      grouped[dateKey].push({
-        id: row.id,
-        prompt: row.prompt || row.description,
-        exercises: (row.exercises_jsonb as any) || [],
-        timestamp: new Date(row.created_at).getTime(),
-      });
+      grouped[dateKey].push(mapExerciseRow(row));
     });
 
     return grouped;
   },
 
+  // Current cloud copies of specific records, for the sync queue's conflict
+  // check. Soft-deleted rows are left out: a queued upsert never resurrects them
+  // anyway, since the row mappers omit deleted_at.
+  async fetchMealsByIds(accountInfo: AccountInfo | null, ids: string[]): Promise<Record<string, MealSyncPayload>> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email) || ids.length === 0) return {};
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) return {};
+
+    const { data, error } = await supabase
+      .from('kcal_food_logs')
+      .select('*')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .in('id', ids);
+    // Throw rather than return empty: empty reads as "no cloud copy", which
+    // would wave every queued op through unchecked
+    if (error) throw error;
+
+    const out: Record<string, MealSyncPayload> = {};
+    Object.entries(mapFoodLogRowToMeals(data || [])).forEach(([dateKey, meals]) => {
+      meals.forEach((meal) => { out[meal.id] = { meal, dateKey }; });
+    });
+    return out;
+  },
+
+  async fetchExercisesByIds(
+    accountInfo: AccountInfo | null,
+    ids: string[],
+  ): Promise<Record<string, { entry: ExerciseEntry; dateKey: string }>> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email) || ids.length === 0) return {};
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) return {};
+
+    const { data, error } = await supabase
+      .from('kcal_exercise_logs')
+      .select('*')
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .in('id', ids);
+    if (error) throw error;
+
+    const out: Record<string, { entry: ExerciseEntry; dateKey: string }> = {};
+    (data || []).forEach((row) => {
+      out[row.id] = { entry: mapExerciseRow(row), dateKey: row.logged_date };
+    });
+    return out;
+  },
+
   // Push Tokens
   async upsertPushToken(accountInfo: AccountInfo | null, token: string, deviceInfo?: any): Promise<void> {
     if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email) || !token) return;
@@ -768,6 +933,234 @@ export const supabaseDataService = {
     );
   },
 
+  // Personal Foods
+  async upsertPersonalFood(accountInfo: AccountInfo | null, food: PersonalFood): Promise<void> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return;
+    const user = await getOrCreateUser(accountInfo);
+    // Throw, never silently no-op: the sync queue reads a resolved promise as
+    // success and dequeues the op forever. See the goals-sync postmortem.
+    if (!user) throw new Error(AUTH_NOT_READY);
+
+    const { error } = await supabase
+      .from('kcal_personal_foods')
+      .upsert(
+        {
+          id: food.id,
+          user_id: user.id,
+          name: food.name,
+          brand: food.brand,
+          per_100g: food.per100g,
+          micros: food.micros,
+          serving_g: food.servingG,
+          serving_label: food.servingLabel,
+          pack_g: food.packG,
+          aliases: food.aliases,
+          source: food.source,
+          created_at: food.createdAt,
+          updated_at: food.updatedAt,
+        },
+        { onConflict: 'id' }
+      );
+
+    if (error) {
+      console.error('Error upserting personal food to Supabase:', error);
+      throw error;
+    }
+  },
+
+  async deletePersonalFood(accountInfo: AccountInfo | null, id: string): Promise<void> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) throw new Error(AUTH_NOT_READY);
+
+    const { error } = await supabase.from('kcal_personal_foods').delete().eq('id', id).eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting personal food from Supabase:', error);
+      throw error;
+    }
+  },
+
+  // Null, not [], when the fetch failed, so a merge never reads an outage as
+  // "the cloud has no foods"
+  async fetchPersonalFoods(accountInfo: AccountInfo | null): Promise<PersonalFood[] | null> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return null;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('kcal_personal_foods')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching personal foods from Supabase:', error);
+      return null;
+    }
+
+    return (
+      data?.map((row) => ({
+        id: row.id,
+        name: row.name,
+        brand: row.brand ?? null,
+        per100g: row.per_100g,
+        micros: row.micros || {},
+        servingG: row.serving_g != null ? Number(row.serving_g) : null,
+        servingLabel: row.serving_label ?? null,
+        packG: row.pack_g != null ? Number(row.pack_g) : null,
+        aliases: Array.isArray(row.aliases) ? row.aliases : [],
+        source: row.source === 'label_photo' ? 'label_photo' : 'custom',
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      })) || []
+    );
+  },
+
+  // Recipes
+  async upsertRecipe(accountInfo: AccountInfo | null, recipe: Recipe): Promise<void> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) throw new Error(AUTH_NOT_READY);
+
+    const { error } = await supabase
+      .from('kcal_recipes')
+      .upsert(
+        {
+          id: recipe.id,
+          user_id: user.id,
+          name: recipe.name,
+          aliases: recipe.aliases,
+          ingredients: recipe.ingredients,
+          servings: recipe.servings,
+          serving_label: recipe.servingLabel,
+          cooked_weight_g: recipe.cookedWeightG,
+          created_at: recipe.createdAt,
+          updated_at: recipe.updatedAt,
+        },
+        { onConflict: 'id' }
+      );
+
+    if (error) {
+      console.error('Error upserting recipe to Supabase:', error);
+      throw error;
+    }
+  },
+
+  async deleteRecipe(accountInfo: AccountInfo | null, id: string): Promise<void> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) throw new Error(AUTH_NOT_READY);
+
+    const { error } = await supabase.from('kcal_recipes').delete().eq('id', id).eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting recipe from Supabase:', error);
+      throw error;
+    }
+  },
+
+  async fetchRecipes(accountInfo: AccountInfo | null): Promise<Recipe[] | null> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return null;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('kcal_recipes')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching recipes from Supabase:', error);
+      return null;
+    }
+
+    return (
+      data?.map((row) => ({
+        id: row.id,
+        name: row.name,
+        aliases: Array.isArray(row.aliases) ? row.aliases : [],
+        ingredients: Array.isArray(row.ingredients) ? row.ingredients : [],
+        servings: row.servings != null ? Number(row.servings) : null,
+        servingLabel: row.serving_label ?? null,
+        cookedWeightG: row.cooked_weight_g != null ? Number(row.cooked_weight_g) : null,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      })) || []
+    );
+  },
+
+  // Meal Templates
+  async upsertMealTemplate(accountInfo: AccountInfo | null, template: MealTemplate): Promise<void> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) throw new Error(AUTH_NOT_READY);
+
+    const { error } = await supabase
+      .from('kcal_meal_templates')
+      .upsert(
+        {
+          id: template.id,
+          user_id: user.id,
+          name: template.name,
+          foods: template.foods,
+          use_count: template.useCount,
+          last_used_at: template.lastUsedAt,
+          created_at: template.createdAt,
+          updated_at: template.updatedAt,
+        },
+        { onConflict: 'id' }
+      );
+
+    if (error) {
+      console.error('Error upserting meal template to Supabase:', error);
+      throw error;
+    }
+  },
+
+  async deleteMealTemplate(accountInfo: AccountInfo | null, id: string): Promise<void> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) throw new Error(AUTH_NOT_READY);
+
+    const { error } = await supabase.from('kcal_meal_templates').delete().eq('id', id).eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting meal template from Supabase:', error);
+      throw error;
+    }
+  },
+
+  async fetchMealTemplates(accountInfo: AccountInfo | null): Promise<MealTemplate[] | null> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return null;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('kcal_meal_templates')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('use_count', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching meal templates from Supabase:', error);
+      return null;
+    }
+
+    return (
+      data?.map((row) => ({
+        id: row.id,
+        name: row.name,
+        foods: Array.isArray(row.foods) ? row.foods : [],
+        useCount: Number(row.use_count) || 0,
+        lastUsedAt: row.last_used_at ?? null,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      })) || []
+    );
+  },
+
   // Preferences
   async savePreferences(accountInfo: AccountInfo | null, prefs: Preferences): Promise<void> {
     if (!isSupabaseConfigured() || !supabase) return;
@@ -783,6 +1176,7 @@ export const supabaseDataService = {
           user_id: user.id,
           notifications_enabled: prefs.notificationsEnabled,
           meal_reminders: prefs.mealReminders,
+          edited_at: prefs.updatedAt || null,
         },
         { onConflict: 'user_id' }
       );
@@ -844,6 +1238,7 @@ export const supabaseDataService = {
       },
       dynamicAdjustmentEnabled: data.dynamic_adjustment_enabled ?? false,
       dynamicAdjustmentThreshold: data.dynamic_adjustment_threshold ?? 3,
+      updatedAt: data.edited_at ? new Date(data.edited_at).toISOString() : undefined,
     };
   },
 
@@ -1551,6 +1946,106 @@ export const supabaseDataService = {
     return (data || []).map((row) => row.payload as CalorieBankCompletedCycle);
   },
 
+  // Row counts for the sync diagnostics screen. Weights are counted as days,
+  // the way the app shows them, since a day can hold a kcal and a Lifts row.
+  // Null when signed out or a count fails: "unknown" must not read as zero.
+  async fetchSyncCounts(
+    accountInfo: AccountInfo | null,
+  ): Promise<{ meals: number; weights: number; summaries: number } | null> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return null;
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) return null;
+
+    const [meals, summaries, weights] = await Promise.all([
+      supabase
+        .from('kcal_food_logs')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .is('deleted_at', null),
+      supabase
+        .from('kcal_daily_summaries')
+        .select('summary_date', { count: 'exact', head: true })
+        .eq('user_id', user.id),
+      supabase
+        .from('weight_log')
+        .select('date')
+        .eq('user_id', user.id),
+    ]);
+    if (meals.error || summaries.error || weights.error) {
+      console.error('fetchSyncCounts error:', meals.error || summaries.error || weights.error);
+      return null;
+    }
+    return {
+      meals: meals.count ?? 0,
+      summaries: summaries.count ?? 0,
+      weights: new Set((weights.data || []).map((r) => String(r.date))).size,
+    };
+  },
+
+  // Water: one row per day holding the day's total, so upserts are idempotent.
+  // A day the cloud already has a later total for is skipped rather than
+  // overwritten, and those newer rows come back so the caller can take them.
+  async upsertWaterLog(accountInfo: AccountInfo | null, payloads: WaterSyncPayload[]): Promise<Record<string, WaterSyncPayload>> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email) || payloads.length === 0) return {};
+    const user = await getOrCreateUser(accountInfo);
+    // Throw, never silently no-op: the sync queue reads a resolved promise as
+    // success and dequeues the op forever. See the goals-sync postmortem.
+    if (!user) throw new Error(AUTH_NOT_READY);
+
+    // same key twice in one statement is an error, so keep the latest per day
+    const byDate = new Map<string, WaterSyncPayload>();
+    for (const p of payloads) {
+      const prev = byDate.get(p.date);
+      if (!prev || prev.updatedAt <= p.updatedAt) byDate.set(p.date, p);
+    }
+
+    const { data: existing, error: readError } = await supabase
+      .from('water_log')
+      .select('logged_date, ml, updated_at')
+      .eq('user_id', user.id)
+      .in('logged_date', [...byDate.keys()]);
+    if (readError) throw readError;
+    const newer: Record<string, WaterSyncPayload> = {};
+    for (const row of existing || []) {
+      const mine = byDate.get(row.logged_date);
+      if (!mine || Date.parse(row.updated_at) < Date.parse(mine.updatedAt)) continue;
+      newer[row.logged_date] = { date: row.logged_date, ml: row.ml, updatedAt: new Date(row.updated_at).toISOString() };
+      byDate.delete(row.logged_date);
+    }
+    if (byDate.size === 0) return newer;
+
+    const rows = [...byDate.values()].map((p) => ({
+      user_id: user.id,
+      logged_date: p.date,
+      // the table checks 0..20000; clamp rather than have the queue retry a
+      // row the database will refuse forever
+      ml: Math.min(20000, Math.max(0, Math.round(p.ml))),
+      updated_at: p.updatedAt,
+    }));
+    const { error } = await supabase
+      .from('water_log')
+      .upsert(rows, { onConflict: 'user_id,logged_date' });
+    if (error) throw error;
+    return newer;
+  },
+
+  async fetchWaterLog(accountInfo: AccountInfo | null): Promise<Record<string, WaterSyncPayload>> {
+    if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return {};
+    const user = await getOrCreateUser(accountInfo);
+    if (!user) return {};
+    const { data, error } = await supabase
+      .from('water_log')
+      .select('logged_date, ml, updated_at')
+      .eq('user_id', user.id);
+    if (error) { console.error('fetchWaterLog error:', error); return {}; }
+    const out: Record<string, WaterSyncPayload> = {};
+    (data || []).forEach((row) => {
+      // Postgres writes +00:00 where toISOString writes Z; the merge compares strings
+      out[row.logged_date] = { date: row.logged_date, ml: row.ml, updatedAt: new Date(row.updated_at).toISOString() };
+    });
+    return out;
+  },
+
   async deleteAllUserData(accountInfo: AccountInfo | null): Promise<void> {
     if (!isSupabaseConfigured() || !supabase || (!accountInfo?.supabaseUserId && !accountInfo?.email)) return;
     const user = await getOrCreateUser(accountInfo);
@@ -1571,6 +2066,9 @@ export const supabaseDataService = {
         'kcal_prefs',
         'kcal_settings',
         'kcal_saved_prompts',
+        'kcal_personal_foods',
+        'kcal_recipes',
+        'kcal_meal_templates',
         'kcal_insights',
         'kcal_detected_patterns',
         'kcal_weekly_action_plans',
@@ -1,14 +1,24 @@
 // Food nutrition database and parsing utilities
+//
+// A small bundled list of what our users actually eat, so logging still works
+// with the AI proxy down and AI answers have something to be checked against.
+// Everything here is per 100 g, drinks per 100 ml counted as grams. Figures
+// are for the dish as usually served, oil and sugar included.
+
+import { generateId } from './uuid';
 
 export interface FoodItem {
   id: string;
   name: string;
   calories: number; // per 100g
   protein: number;  // per 100g
-  carbs: number;    // per 100g  
+  carbs: number;    // per 100g
   fat: number;      // per 100g
-  serving_size_g: number; // default serving size in grams
-  aliases: string[]; // alternative names
+  serving_size_g: number; // one typical serving in grams
+  serving_unit?: string; // what one serving is called ('plate', 'cup'); 'item' if unset
+  portions?: Record<string, number>; // other ways it is served, in grams each
+  aliases: string[]; // alternative names and spellings, lowercase
+  region?: 'gulf' | 'levant' | 'south_asia' | 'global';
 }
 
 export interface ParsedFood {
@@ -62,151 +72,657 @@ export interface ParsedFood {
   flavor?: string; // Optional flavor text
 }
 
-// Basic food database (you can expand this significantly)
 export const FOOD_DATABASE: FoodItem[] = [
+  // ── Gulf ──
+  {
+    id: 'machboos_chicken',
+    name: 'Chicken Machboos',
+    calories: 165, protein: 9, carbs: 21, fat: 5,
+    serving_size_g: 400, serving_unit: 'plate',
+    portions: { bowl: 250, cup: 180 },
+    aliases: ['machboos', 'majboos', 'machbous', 'machbus', 'chicken machboos', 'machboos dajaj', 'kabsa', 'kabsah', 'chicken kabsa'],
+    region: 'gulf',
+  },
+  {
+    id: 'machboos_lamb',
+    name: 'Lamb Machboos',
+    calories: 185, protein: 10, carbs: 20, fat: 7.5,
+    serving_size_g: 400, serving_unit: 'plate',
+    portions: { bowl: 250, cup: 180 },
+    aliases: ['lamb machboos', 'meat machboos', 'machboos lahm', 'lamb kabsa', 'meat kabsa'],
+    region: 'gulf',
+  },
+  {
+    id: 'mandi',
+    name: 'Chicken Mandi',
+    calories: 175, protein: 10, carbs: 20, fat: 6.5,
+    serving_size_g: 450, serving_unit: 'plate',
+    portions: { bowl: 250 },
+    aliases: ['mandi', 'chicken mandi', 'lamb mandi', 'madhbi', 'mathbi'],
+    region: 'gulf',
+  },
+  {
+    id: 'harees',
+    name: 'Harees',
+    calories: 110, protein: 6, carbs: 15, fat: 3,
+    serving_size_g: 250, serving_unit: 'bowl',
+    aliases: ['harees', 'harissa porridge', 'hareis'],
+    region: 'gulf',
+  },
+  {
+    id: 'thareed',
+    name: 'Thareed',
+    calories: 120, protein: 7, carbs: 14, fat: 4,
+    serving_size_g: 300, serving_unit: 'bowl',
+    aliases: ['thareed', 'tharid', 'threed'],
+    region: 'gulf',
+  },
+  {
+    id: 'balaleet',
+    name: 'Balaleet',
+    calories: 230, protein: 6, carbs: 35, fat: 7,
+    serving_size_g: 200, serving_unit: 'plate',
+    aliases: ['balaleet', 'balalit'],
+    region: 'gulf',
+  },
+  {
+    id: 'luqaimat',
+    name: 'Luqaimat',
+    calories: 350, protein: 4, carbs: 50, fat: 15,
+    serving_size_g: 15, serving_unit: 'piece',
+    portions: { plate: 150, bowl: 150 },
+    aliases: ['luqaimat', 'lugaimat', 'luqaimat balls', 'loqaimat'],
+    region: 'gulf',
+  },
+  {
+    id: 'karak',
+    name: 'Karak Chai',
+    calories: 70, protein: 2, carbs: 10, fat: 2.5,
+    serving_size_g: 150, serving_unit: 'cup',
+    portions: { glass: 150, mug: 300 },
+    aliases: ['karak', 'karak chai', 'chai karak', 'karak tea', 'masala chai', 'chai'],
+    region: 'gulf',
+  },
+  {
+    id: 'gahwa',
+    name: 'Arabic Coffee',
+    calories: 2, protein: 0.1, carbs: 0.3, fat: 0,
+    serving_size_g: 30, serving_unit: 'cup',
+    portions: { finjan: 30 },
+    aliases: ['gahwa', 'qahwa', 'kahwa', 'arabic coffee'],
+    region: 'gulf',
+  },
+  {
+    id: 'dates',
+    name: 'Dates',
+    calories: 277, protein: 1.8, carbs: 75, fat: 0.2,
+    serving_size_g: 10, serving_unit: 'piece',
+    portions: { bowl: 100, cup: 150 },
+    aliases: ['date', 'dates', 'tamr', 'khalas dates', 'sukkari dates'],
+    region: 'gulf',
+  },
+  {
+    id: 'medjool',
+    name: 'Medjool Dates',
+    calories: 277, protein: 1.8, carbs: 75, fat: 0.2,
+    serving_size_g: 24, serving_unit: 'piece',
+    aliases: ['medjool', 'medjool date', 'medjool dates', 'majdool'],
+    region: 'gulf',
+  },
+
+  // ── Levant and Egypt ──
+  {
+    id: 'shawarma_chicken',
+    name: 'Chicken Shawarma Sandwich',
+    calories: 215, protein: 12, carbs: 20, fat: 9.5,
+    serving_size_g: 250, serving_unit: 'sandwich',
+    portions: { wrap: 250, roll: 250 },
+    aliases: ['shawarma', 'shawerma', 'shwarma', 'chicken shawarma', 'shawarma sandwich', 'shawarma wrap', 'chicken shawarma sandwich'],
+    region: 'levant',
+  },
+  {
+    id: 'shawarma_meat',
+    name: 'Meat Shawarma Sandwich',
+    calories: 235, protein: 13, carbs: 19, fat: 12,
+    serving_size_g: 250, serving_unit: 'sandwich',
+    portions: { wrap: 250, roll: 250 },
+    aliases: ['meat shawarma', 'beef shawarma', 'lamb shawarma'],
+    region: 'levant',
+  },
+  {
+    id: 'shawarma_plate',
+    name: 'Shawarma Plate',
+    calories: 190, protein: 11, carbs: 17, fat: 9,
+    serving_size_g: 450, serving_unit: 'plate',
+    aliases: ['shawarma plate', 'shawarma platter', 'arabic shawarma'],
+    region: 'levant',
+  },
+  {
+    id: 'falafel',
+    name: 'Falafel',
+    calories: 333, protein: 13, carbs: 32, fat: 18,
+    serving_size_g: 17, serving_unit: 'piece',
+    portions: { sandwich: 220, wrap: 220, plate: 200 },
+    aliases: ['falafel', 'falafels', 'felafel', 'taameya', 'tameya'],
+    region: 'levant',
+  },
+  {
+    id: 'hummus',
+    name: 'Hummus',
+    calories: 166, protein: 7.9, carbs: 14.3, fat: 9.6,
+    serving_size_g: 60, serving_unit: 'serving',
+    portions: { bowl: 150, plate: 150, cup: 240, tbsp: 15, spoon: 15 },
+    aliases: ['hummus', 'houmous', 'humus', 'hommos', 'hummous'],
+    region: 'levant',
+  },
+  {
+    id: 'mutabbal',
+    name: 'Mutabbal',
+    calories: 130, protein: 2.5, carbs: 8, fat: 10,
+    serving_size_g: 60, serving_unit: 'serving',
+    portions: { bowl: 150, plate: 150, tbsp: 15, spoon: 15 },
+    aliases: ['mutabbal', 'moutabal', 'baba ganoush', 'baba ghanoush', 'baba ghanouj'],
+    region: 'levant',
+  },
+  {
+    id: 'tabbouleh',
+    name: 'Tabbouleh',
+    calories: 120, protein: 2, carbs: 12, fat: 7.5,
+    serving_size_g: 150, serving_unit: 'bowl',
+    portions: { plate: 200, cup: 160 },
+    aliases: ['tabbouleh', 'tabouleh', 'tabouli', 'tabbouli'],
+    region: 'levant',
+  },
+  {
+    id: 'fattoush',
+    name: 'Fattoush',
+    calories: 90, protein: 2, carbs: 10, fat: 5,
+    serving_size_g: 200, serving_unit: 'bowl',
+    portions: { plate: 250 },
+    aliases: ['fattoush', 'fatoush', 'fattush'],
+    region: 'levant',
+  },
+  {
+    id: 'foul',
+    name: 'Foul Medames',
+    calories: 110, protein: 7, carbs: 15, fat: 3,
+    serving_size_g: 250, serving_unit: 'bowl',
+    portions: { plate: 250, cup: 240 },
+    aliases: ['foul', 'ful', 'foul medames', 'ful medames', 'fool'],
+    region: 'levant',
+  },
+  {
+    id: 'manakish',
+    name: "Za'atar Manakish",
+    calories: 300, protein: 7, carbs: 38, fat: 14,
+    serving_size_g: 130, serving_unit: 'piece',
+    aliases: ['manakish', 'manakeesh', 'manaeesh', 'manousheh', 'zaatar manakish', 'zaatar bread'],
+    region: 'levant',
+  },
+  {
+    id: 'shish_tawook',
+    name: 'Shish Tawook',
+    calories: 165, protein: 25, carbs: 2, fat: 6.5,
+    serving_size_g: 100, serving_unit: 'skewer',
+    portions: { plate: 250, sandwich: 220 },
+    aliases: ['shish tawook', 'shish taouk', 'tawook', 'taouk', 'chicken tikka'],
+    region: 'levant',
+  },
+  {
+    id: 'kofta',
+    name: 'Kofta Kebab',
+    calories: 250, protein: 17, carbs: 4, fat: 18,
+    serving_size_g: 80, serving_unit: 'skewer',
+    portions: { plate: 250 },
+    aliases: ['kofta', 'kofta kebab', 'kafta', 'kebab', 'seekh kebab'],
+    region: 'levant',
+  },
+  {
+    id: 'halloumi',
+    name: 'Grilled Halloumi',
+    calories: 320, protein: 21, carbs: 2, fat: 25,
+    serving_size_g: 30, serving_unit: 'slice',
+    portions: { plate: 100 },
+    aliases: ['halloumi', 'hallomi', 'grilled halloumi'],
+    region: 'levant',
+  },
+  {
+    id: 'labneh',
+    name: 'Labneh',
+    calories: 150, protein: 6, carbs: 4, fat: 12,
+    serving_size_g: 30, serving_unit: 'serving',
+    portions: { tbsp: 15, spoon: 15, bowl: 120, cup: 240 },
+    aliases: ['labneh', 'labne', 'labnah', 'lebneh'],
+    region: 'levant',
+  },
+  {
+    id: 'laban',
+    name: 'Laban',
+    calories: 50, protein: 3.3, carbs: 4.5, fat: 1.8,
+    serving_size_g: 250, serving_unit: 'glass',
+    portions: { cup: 240, bottle: 360 },
+    aliases: ['laban', 'laban up', 'ayran', 'doogh', 'buttermilk', 'lassi'],
+    region: 'levant',
+  },
+  {
+    id: 'khubz',
+    name: 'Arabic Bread',
+    calories: 275, protein: 9, carbs: 55, fat: 1.2,
+    serving_size_g: 60, serving_unit: 'piece',
+    aliases: ['khubz', 'khubus', 'khobz', 'arabic bread', 'pita', 'pita bread', 'lebanese bread'],
+    region: 'levant',
+  },
+  {
+    id: 'kunafa',
+    name: 'Kunafa',
+    calories: 380, protein: 7, carbs: 45, fat: 19,
+    serving_size_g: 120, serving_unit: 'piece',
+    portions: { slice: 120, plate: 200 },
+    aliases: ['kunafa', 'knafeh', 'kanafeh', 'kunafeh', 'konafa'],
+    region: 'levant',
+  },
+
+  // ── South Asia ──
+  {
+    id: 'biryani_chicken',
+    name: 'Chicken Biryani',
+    calories: 170, protein: 8, carbs: 22, fat: 6,
+    serving_size_g: 350, serving_unit: 'plate',
+    portions: { bowl: 250, cup: 180 },
+    aliases: ['biryani', 'biriyani', 'briyani', 'chicken biryani', 'mutton biryani'],
+    region: 'south_asia',
+  },
+  {
+    id: 'chapati',
+    name: 'Chapati',
+    calories: 300, protein: 8, carbs: 46, fat: 9,
+    serving_size_g: 40, serving_unit: 'piece',
+    aliases: ['chapati', 'chapatti', 'chappati', 'roti', 'phulka', 'fulka'],
+    region: 'south_asia',
+  },
+  {
+    id: 'paratha',
+    name: 'Paratha',
+    calories: 326, protein: 6.4, carbs: 45, fat: 13,
+    serving_size_g: 80, serving_unit: 'piece',
+    aliases: ['paratha', 'parotta', 'porotta', 'prata', 'aloo paratha'],
+    region: 'south_asia',
+  },
+  {
+    id: 'naan',
+    name: 'Naan',
+    calories: 290, protein: 9, carbs: 50, fat: 5.5,
+    serving_size_g: 90, serving_unit: 'piece',
+    aliases: ['naan', 'nan bread', 'butter naan', 'garlic naan'],
+    region: 'south_asia',
+  },
+  {
+    id: 'dal',
+    name: 'Dal',
+    calories: 116, protein: 7, carbs: 17, fat: 2.5,
+    serving_size_g: 200, serving_unit: 'bowl',
+    portions: { cup: 200, plate: 250, katori: 150 },
+    aliases: ['dal', 'daal', 'dhal', 'dhall', 'dal tadka', 'dal fry', 'lentil curry', 'lentil soup', 'masoor dal', 'toor dal'],
+    region: 'south_asia',
+  },
+  {
+    id: 'chana_masala',
+    name: 'Chana Masala',
+    calories: 140, protein: 6, carbs: 18, fat: 5,
+    serving_size_g: 200, serving_unit: 'bowl',
+    portions: { cup: 200, plate: 250, katori: 150 },
+    aliases: ['chana masala', 'chole', 'chana', 'chickpea curry'],
+    region: 'south_asia',
+  },
+  {
+    id: 'butter_chicken',
+    name: 'Butter Chicken',
+    calories: 150, protein: 12, carbs: 5, fat: 9,
+    serving_size_g: 250, serving_unit: 'bowl',
+    portions: { cup: 240, plate: 300 },
+    aliases: ['butter chicken', 'murgh makhani', 'chicken makhani'],
+    region: 'south_asia',
+  },
+  {
+    id: 'samosa',
+    name: 'Samosa',
+    calories: 262, protein: 4.5, carbs: 30, fat: 14,
+    serving_size_g: 70, serving_unit: 'piece',
+    aliases: ['samosa', 'samosas', 'sambosa', 'sambusa', 'samboosa'],
+    region: 'south_asia',
+  },
+  {
+    id: 'idli',
+    name: 'Idli',
+    calories: 97, protein: 3, carbs: 20, fat: 0.4,
+    serving_size_g: 40, serving_unit: 'piece',
+    aliases: ['idli', 'idly', 'idlis'],
+    region: 'south_asia',
+  },
+  {
+    id: 'dosa',
+    name: 'Plain Dosa',
+    calories: 168, protein: 4, carbs: 29, fat: 3.7,
+    serving_size_g: 100, serving_unit: 'piece',
+    aliases: ['dosa', 'dosai', 'plain dosa', 'masala dosa'],
+    region: 'south_asia',
+  },
+
+  // ── Everyday basics ──
   {
     id: 'banana',
     name: 'Banana',
-    calories: 89,
-    protein: 1.1,
-    carbs: 22.8,
-    fat: 0.3,
+    calories: 89, protein: 1.1, carbs: 22.8, fat: 0.3,
     serving_size_g: 120, // 1 medium banana
-    aliases: ['bananas', 'banana']
+    aliases: ['bananas', 'banana'],
+    region: 'global',
   },
   {
     id: 'apple',
     name: 'Apple',
-    calories: 52,
-    protein: 0.3,
-    carbs: 13.8,
-    fat: 0.2,
+    calories: 52, protein: 0.3, carbs: 13.8, fat: 0.2,
     serving_size_g: 180, // 1 medium apple
-    aliases: ['apples', 'apple']
+    aliases: ['apples', 'apple'],
+    region: 'global',
   },
   {
     id: 'chicken_breast',
     name: 'Chicken Breast',
-    calories: 165,
-    protein: 31,
-    carbs: 0,
-    fat: 3.6,
+    calories: 165, protein: 31, carbs: 0, fat: 3.6,
     serving_size_g: 100,
-    aliases: ['chicken', 'chicken breast', 'grilled chicken']
+    portions: { piece: 170, plate: 200 },
+    aliases: ['chicken', 'chicken breast', 'grilled chicken'],
+    region: 'global',
   },
   {
     id: 'rice',
     name: 'White Rice',
-    calories: 130,
-    protein: 2.7,
-    carbs: 28,
-    fat: 0.3,
-    serving_size_g: 100, // cooked
-    aliases: ['rice', 'white rice', 'steamed rice']
+    calories: 130, protein: 2.7, carbs: 28, fat: 0.3,
+    serving_size_g: 150, serving_unit: 'cup', // cooked
+    portions: { bowl: 200, plate: 300 },
+    aliases: ['rice', 'white rice', 'steamed rice', 'basmati rice', 'plain rice'],
+    region: 'global',
   },
   {
     id: 'egg',
     name: 'Egg',
-    calories: 155,
-    protein: 13,
-    carbs: 1.1,
-    fat: 11,
+    calories: 155, protein: 13, carbs: 1.1, fat: 11,
     serving_size_g: 50, // 1 large egg
-    aliases: ['eggs', 'egg', 'boiled egg', 'scrambled egg']
+    aliases: ['eggs', 'egg', 'boiled egg', 'scrambled egg'],
+    region: 'global',
   },
-  // Add more foods as needed
 ];
 
-// Quantity and unit parsing patterns
-const QUANTITY_PATTERNS = [
-  { pattern: /(\d+\.?\d*)\s*(large|big)/i, multiplier: 1.3 },
-  { pattern: /(\d+\.?\d*)\s*(small|little)/i, multiplier: 0.7 },
-  { pattern: /(\d+\.?\d*)\s*(medium|med)/i, multiplier: 1.0 },
-  { pattern: /one|a\s+/i, quantity: 1 },
-  { pattern: /two/i, quantity: 2 },
-  { pattern: /three/i, quantity: 3 },
-  { pattern: /half|0\.5/i, quantity: 0.5 },
-  { pattern: /(\d+\.?\d*)/i, extract: true },
-];
+// What a serving word means when a dish has no size of its own for it
+const GENERIC_PORTIONS_G: Record<string, number> = {
+  cup: 240,
+  glass: 250,
+  mug: 300,
+  bottle: 330,
+  bowl: 250,
+  plate: 350,
+  katori: 150,
+  tbsp: 15,
+  spoon: 15,
+  tsp: 5,
+};
+
+// Ways people write a serving word, folded to one key
+const PORTION_WORDS: Record<string, string> = {
+  cup: 'cup', cups: 'cup',
+  glass: 'glass', glasses: 'glass',
+  mug: 'mug', mugs: 'mug',
+  bottle: 'bottle', bottles: 'bottle', can: 'bottle', cans: 'bottle',
+  bowl: 'bowl', bowls: 'bowl',
+  plate: 'plate', plates: 'plate', platter: 'plate',
+  katori: 'katori', katoris: 'katori',
+  piece: 'piece', pieces: 'piece', pcs: 'piece', pc: 'piece',
+  slice: 'slice', slices: 'slice',
+  skewer: 'skewer', skewers: 'skewer', stick: 'skewer', sticks: 'skewer',
+  sandwich: 'sandwich', sandwiches: 'sandwich', wrap: 'wrap', wraps: 'wrap', roll: 'roll', rolls: 'roll',
+  finjan: 'finjan',
+  tbsp: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  spoon: 'spoon', spoons: 'spoon', spoonful: 'spoon',
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, single: 1,
+  two: 2, couple: 2, three: 3, four: 4, five: 5, six: 6,
+  half: 0.5, quarter: 0.25,
+};
+
+const SIZE_WORDS: Record<string, number> = {
+  large: 1.3, big: 1.3,
+  medium: 1, regular: 1,
+  small: 0.7, little: 0.7, mini: 0.5,
+};
+
+// Words that describe a dish without changing what it is, so "plain grilled
+// halloumi" is still halloumi for the sanity check
+const DESCRIPTORS = new Set([
+  'plain', 'grilled', 'fresh', 'homemade', 'home', 'made', 'cooked', 'boiled', 'steamed',
+  'hot', 'cold', 'warm', 'small', 'medium', 'large', 'big', 'regular', 'portion', 'serving',
+  'of', 'with', 'and', 'the', 'a', 'an', 'style', 'arabic', 'indian', 'traditional',
+]);
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/['\u2019`]/g, '').replace(/[^a-z0-9./\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The longest alias wins, so "lamb machboos" is not read as the chicken one.
+// Aliases match whole words, with a plural s allowed.
+function matchFood(text: string): { food: FoodItem; alias: string } | null {
+  const haystack = normalize(text);
+  if (!haystack) return null;
+  let best: { food: FoodItem; alias: string } | null = null;
+  for (const food of FOOD_DATABASE) {
+    for (const raw of food.aliases) {
+      const alias = normalize(raw);
+      if (best && alias.length <= best.alias.length) continue;
+      if (new RegExp(`(?:^|\\s)${escapeRegExp(alias)}(?:e?s)?(?=\\s|$)`).test(haystack)) {
+        best = { food, alias };
+      }
+    }
+  }
+  return best;
+}
+
+// Words of the text the alias does not account for, ignoring descriptors and,
+// when asked, amounts. "Banana bread" leaves "bread", so it is not a banana
+function unmatchedWords(text: string, alias: string, allowAmounts: boolean): string[] {
+  const aliasWords = new Set(alias.split(' '));
+  return normalize(text).split(' ').filter((w) => {
+    if (!w || aliasWords.has(w) || aliasWords.has(w.replace(/e?s$/, '')) || DESCRIPTORS.has(w)) return false;
+    if (!allowAmounts) return true;
+    return !(w in NUMBER_WORDS || w in SIZE_WORDS || w in PORTION_WORDS || /^[\d./]+(?:g|gr|gm|gms|grams?|ml)?$/.test(w) || /^(?:g|gr|gm|gms|grams?|ml)$/.test(w));
+  });
+}
+
+// What is left of a phrase once amounts and descriptors are set aside. Empty
+// means the phrase was only an amount, like "2 large bowls of"
+export function wordsBesidesAmounts(text: string): string[] {
+  return unmatchedWords(text, '', true);
+}
 
 export function findFoodInDatabase(foodName: string): FoodItem | null {
-  const normalizedName = foodName.toLowerCase().trim();
-
-  return FOOD_DATABASE.find(food =>
-    food.aliases.some(alias =>
-      normalizedName.includes(alias.toLowerCase()) ||
-      alias.toLowerCase().includes(normalizedName)
-    )
-  ) || null;
+  return matchFood(foodName)?.food ?? null;
 }
 
-export function parseQuantityAndSize(input: string): { quantity: number; sizeMultiplier: number } {
+export function parseQuantityAndSize(input: string): {
+  quantity: number;
+  sizeMultiplier: number;
+  portion?: string; // a serving word from PORTION_WORDS, folded
+  weightG?: number; // an explicit "200g" / "300 ml"
+  stated: boolean; // false when every figure above is a default
+} {
+  const text = normalize(input);
   let quantity = 1;
   let sizeMultiplier = 1;
+  let portion: string | undefined;
+  let weightG: number | undefined;
+  let stated = false;
 
-  // Check for size modifiers (large, small, medium)
-  for (const pattern of QUANTITY_PATTERNS) {
-    const match = input.match(pattern.pattern);
-    if (match) {
-      if (pattern.multiplier) {
-        quantity = parseFloat(match[1]) || 1;
-        sizeMultiplier = pattern.multiplier;
-        break;
-      } else if (pattern.quantity) {
-        quantity = pattern.quantity;
-        break;
-      } else if (pattern.extract) {
-        quantity = parseFloat(match[1]) || 1;
-        break;
+  const weight = text.match(/(\d+(?:\.\d+)?)\s*(?:g|gr|gm|gms|grams?|ml)(?=\s|$)/);
+  if (weight) {
+    weightG = parseFloat(weight[1]);
+    stated = true;
+  }
+
+  // The weight already said how much, so its digits are not a count
+  const words = (weight ? text.replace(weight[0], ' ') : text).split(' ').filter(Boolean);
+  let counted = false;
+  for (const word of words) {
+    if (!counted) {
+      const fraction = word.match(/^(\d+)\/(\d+)$/);
+      const count = fraction && Number(fraction[2]) > 0
+        ? Number(fraction[1]) / Number(fraction[2])
+        : /^\d+(?:\.\d+)?$/.test(word) ? parseFloat(word) : NUMBER_WORDS[word];
+      if (count && count > 0) {
+        quantity = count;
+        counted = true;
+        // "a shawarma" is just the default; "two" or "3" is the user saying so
+        if (word !== 'a' && word !== 'an') stated = true;
+        continue;
       }
     }
+    if (word in SIZE_WORDS) {
+      sizeMultiplier = SIZE_WORDS[word];
+      stated = true;
+    } else if (!portion && word in PORTION_WORDS) {
+      portion = PORTION_WORDS[word];
+      stated = true;
+    }
   }
 
-  return { quantity, sizeMultiplier };
+  return { quantity, sizeMultiplier, portion, weightG, stated };
 }
 
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Reads foods out of plain words using only the bundled list. Deterministic
+ * and offline, so it is what the analysis falls back to when the AI proxy
+ * cannot be reached. All or nothing: if any part of the meal is not on the
+ * list, it returns nothing, and the meal waits for the AI rather than being
+ * logged half counted.
+ */
 export function parseFoodInput(input: string): ParsedFood[] {
   const parsedFoods: ParsedFood[] = [];
 
-  // Split by common delimiters (and, comma, etc.)
-  const foodItems = input.split(/,|\sand\s|\n/i).map(item => item.trim());
+  // Split by common delimiters (and, with, comma, plus, new line)
+  const foodItems = input.split(/,|\+|&|\n|\sand\s|\swith\s/i).map(item => item.trim());
 
   for (const item of foodItems) {
     if (!item) continue;
 
-    // Extract quantity and size information
-    const { quantity, sizeMultiplier } = parseQuantityAndSize(item);
-
-    // Try to identify the food
-    const food = findFoodInDatabase(item);
-
-    if (food) {
-      // Calculate actual weight based on serving size, quantity, and size modifier
-      const weight_g = food.serving_size_g * quantity * sizeMultiplier;
-
-      // Calculate nutrition values based on actual weight
-      const calories = Math.round((food.calories / 100) * weight_g);
-      const protein = Math.round(((food.protein / 100) * weight_g) * 10) / 10;
-      const carbs = Math.round(((food.carbs / 100) * weight_g) * 10) / 10;
-      const fat = Math.round(((food.fat / 100) * weight_g) * 10) / 10;
-
-      parsedFoods.push({
-        id: `${food.id}_${Date.now()}_${Math.random()}`,
-        name: food.name,
-        quantity,
-        unit: quantity === 1 ? 'item' : 'items',
-        weight_g: Math.round(weight_g),
-        calories,
-        protein,
-        carbs,
-        fat
-      });
-    }
+    const match = matchFood(item);
+    if (!match || unmatchedWords(item, match.alias, true).length > 0) return [];
+    const food = match.food;
+
+    const { quantity, sizeMultiplier, portion, weightG, stated } = parseQuantityAndSize(item);
+    const portionG = portion
+      ? food.portions?.[portion] ?? (portion === food.serving_unit ? food.serving_size_g : GENERIC_PORTIONS_G[portion])
+      : undefined;
+
+    // An explicit weight is the amount eaten. Otherwise count servings of the
+    // named size, or of the dish's usual one
+    const weight_g = weightG ?? (portionG ?? food.serving_size_g) * quantity * sizeMultiplier;
+    const unit = weightG !== undefined ? 'g' : (portionG !== undefined ? portion! : food.serving_unit || 'item');
+
+    parsedFoods.push({
+      id: generateId(),
+      name: food.name,
+      quantity: weightG !== undefined ? weightG : quantity,
+      unit,
+      weight_g: Math.round(weight_g),
+      calories: Math.round((food.calories / 100) * weight_g),
+      protein: round1((food.protein / 100) * weight_g),
+      carbs: round1((food.carbs / 100) * weight_g),
+      fat: round1((food.fat / 100) * weight_g),
+      confidence: stated ? 'medium' : 'low',
+      confidence_reason: stated
+        ? 'Offline estimate from the built-in food list.'
+        : `Offline estimate from the built-in food list, assuming one usual ${food.serving_unit || 'serving'}.`,
+    });
   }
 
   return parsedFoods;
 }
 
+// How far an AI figure may sit from the bundled one before it is flagged.
+// Recipes vary a lot, so only a clear outlier counts
+const SANITY_RATIO = 2;
+
+/**
+ * Checks AI results against the bundled list. An item that is plainly one of
+ * our dishes, with calories per gram far from what that dish usually has, is
+ * marked low confidence with the usual figure, so the explain modal can say
+ * why. The numbers themselves are left alone: the AI may know something about
+ * this plate that the list does not. Items the AI marked high confidence came
+ * from a label or a search result, and those outrank the list.
+ */
+export function checkAgainstDatabase(foods: ParsedFood[]): ParsedFood[] {
+  return foods.map((food) => {
+    if (food.confidence === 'high' || !(food.weight_g > 0) || !(food.calories > 0)) return food;
+    const match = matchFood(food.name);
+    if (!match || unmatchedWords(food.name, match.alias, false).length > 0) return food;
+
+    const per100 = (food.calories / food.weight_g) * 100;
+    const ratio = per100 / match.food.calories;
+    if (ratio <= SANITY_RATIO && ratio >= 1 / SANITY_RATIO) return food;
+    return {
+      ...food,
+      confidence: 'low',
+      confidence_reason: `${match.food.name} is usually about ${match.food.calories} kcal per 100 g; this estimate works out to ${Math.round(per100)}.`,
+    };
+  });
+}
+
+// Every number on a ParsedFood that scales with the amount eaten
+export type NutrientKey =
+  | 'calories' | 'protein' | 'carbs' | 'fat'
+  | 'dietary_fiber' | 'sugar' | 'added_sugars' | 'sugar_alcohols' | 'net_carbs'
+  | 'saturated_fat' | 'trans_fat' | 'polyunsaturated_fat' | 'monounsaturated_fat'
+  | 'cholesterol_mg' | 'sodium_mg' | 'calcium_mg' | 'iron_mg' | 'potassium_mg' | 'magnesium_mg' | 'zinc_mg' | 'omega_3_g'
+  | 'vitamin_a_mcg' | 'vitamin_c_mg' | 'vitamin_d_mcg' | 'vitamin_e_mg' | 'vitamin_k_mcg' | 'vitamin_b12_mcg';
+
+export const NUTRIENT_KEYS: NutrientKey[] = [
+  'calories', 'protein', 'carbs', 'fat',
+  'dietary_fiber', 'sugar', 'added_sugars', 'sugar_alcohols', 'net_carbs',
+  'saturated_fat', 'trans_fat', 'polyunsaturated_fat', 'monounsaturated_fat',
+  'cholesterol_mg', 'sodium_mg', 'calcium_mg', 'iron_mg', 'potassium_mg', 'magnesium_mg', 'zinc_mg', 'omega_3_g',
+  'vitamin_a_mcg', 'vitamin_c_mg', 'vitamin_d_mcg', 'vitamin_e_mg', 'vitamin_k_mcg', 'vitamin_b12_mcg',
+];
+
+// Every nutrient times `factor`, micros included. A micro the food never had
+// stays missing rather than turning into a zero
+export function scaleNutrients(food: ParsedFood, factor: number): ParsedFood {
+  const scaled: ParsedFood = { ...food };
+  for (const key of NUTRIENT_KEYS) {
+    const value = food[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      scaled[key] = key === 'calories' ? Math.round(value * factor) : round1(value * factor);
+    }
+  }
+  return scaled;
+}
+
+/**
+ * The same food in a different amount: nutrients, weight and quantity all
+ * move together. Always scale from the food as it was logged, not from an
+ * already scaled copy, or the rounding drifts with every tap.
+ */
+export function scaleParsedFood(food: ParsedFood, factor: number): ParsedFood {
+  const weight_g = Math.round(food.weight_g * factor);
+  return {
+    ...scaleNutrients(food, factor),
+    weight_g,
+    quantity: food.unit === 'g' ? weight_g : Math.round(food.quantity * factor * 100) / 100,
+  };
+}
+
 export function calculateTotalNutrition(foods: ParsedFood[]): {
   totalCalories: number;
   totalProtein: number;
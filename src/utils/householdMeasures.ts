@@ -0,0 +1,270 @@
+import { ParsedFood, findFoodInDatabase } from './foodNutrition';
+
+/**
+ * Household measures as grams. People log "2 cups of milk", "a katori of dal"
+ * or "a scoop of whey" far more often than a weight, so the amount has to be
+ * worked out from what the food is: a cup of honey is nearly twice the grams
+ * of a cup of oats, and a piece of naan is not a piece of date.
+ */
+
+export type MeasureUnit =
+  | 'g' | 'kg' | 'oz' | 'lb' // weight
+  | 'ml' | 'l' | 'fl oz' | 'cup' | 'glass' | 'tbsp' | 'tsp' // volume
+  | 'plate' | 'bowl' | 'katori' | 'handful' | 'scoop' | 'piece'; // servings that depend on the food
+
+export interface GramEstimate {
+  grams: number;
+  // 'weight' is a conversion, 'density' and 'serving' come from the tables
+  // for this food, 'assumed' is a generic figure because the food is unknown
+  basis: 'weight' | 'density' | 'serving' | 'assumed';
+}
+
+// Ways people write a unit, folded to one key
+const UNIT_WORDS: Record<string, MeasureUnit> = {
+  g: 'g', gr: 'g', gm: 'g', gms: 'g', gram: 'g', grams: 'g', gramme: 'g', grammes: 'g',
+  kg: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  ml: 'ml', mls: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  'fl oz': 'fl oz', floz: 'fl oz', 'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz',
+  cup: 'cup', cups: 'cup',
+  glass: 'glass', glasses: 'glass',
+  tbsp: 'tbsp', tbs: 'tbsp', tbl: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  plate: 'plate', plates: 'plate', platter: 'plate',
+  bowl: 'bowl', bowls: 'bowl',
+  katori: 'katori', katoris: 'katori',
+  handful: 'handful', handfuls: 'handful',
+  scoop: 'scoop', scoops: 'scoop',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece',
+};
+
+const GRAMS_PER: Partial<Record<MeasureUnit, number>> = { g: 1, kg: 1000, oz: 28.3495, lb: 453.592 };
+
+const ML_PER: Partial<Record<MeasureUnit, number>> = {
+  ml: 1, l: 1000, 'fl oz': 29.5735, cup: 240, glass: 250, tbsp: 15, tsp: 5,
+};
+
+// Words that make a food a drink or a pourable. Whole words, so "steak" is not
+// tea and "boiled eggs" are not oil
+const LIQUID_FOOD_KEYWORDS = [
+  'water', 'milk', 'juice', 'coffee', 'tea', 'soda', 'cola', 'pepsi', 'sprite',
+  'beer', 'wine', 'champagne', 'cocktail', 'whiskey', 'vodka', 'gin', 'rum', 'tequila',
+  'smoothie', 'shake', 'milkshake', 'protein shake', 'kombucha', 'lemonade', 'iced tea',
+  'broth', 'stock', 'soup', 'oil', 'sauce', 'syrup', 'honey', 'cream',
+  'lassi', 'ayran', 'jallab', 'tamarind drink', 'qamar al-din', 'laban', 'karak',
+];
+
+// Grams per ml. A plain drink is close to water; what matters is the foods
+// that are not: oil floats, honey sinks, and a cup of cereal is mostly air
+const DENSITY_G_PER_ML: Record<string, number> = {
+  water: 1, coffee: 1, tea: 1, karak: 1.03, soup: 1, broth: 1, stock: 1,
+  milk: 1.03, laban: 1.03, lassi: 1.04, ayran: 1.02, juice: 1.04, soda: 1.04, cola: 1.04,
+  smoothie: 1.05, shake: 1.05, beer: 1.01, wine: 0.99, whiskey: 0.95, vodka: 0.95,
+  yogurt: 1.05, yoghurt: 1.05, curd: 1.05, dahi: 1.05, labneh: 1.1, cream: 1,
+  'ice cream': 0.55, oil: 0.92, 'olive oil': 0.92, ghee: 0.91, butter: 0.96,
+  honey: 1.42, syrup: 1.33, 'date syrup': 1.4, dibs: 1.4, jam: 1.3,
+  tahini: 1.06, 'peanut butter': 1.08, hummus: 1.03, sauce: 1.05, ketchup: 1.15, mayonnaise: 0.94,
+  dal: 1.05, daal: 1.05, lentils: 0.85, sugar: 0.85, flour: 0.53, oats: 0.34,
+  rice: 0.79, pasta: 0.58, quinoa: 0.78, couscous: 0.73, cereal: 0.12, cornflakes: 0.12,
+  granola: 0.5, muesli: 0.45, nuts: 0.6, almonds: 0.6, peanuts: 0.6, cashews: 0.58, walnuts: 0.42,
+  raisins: 0.64, chickpeas: 0.7, beans: 0.7, salad: 0.2, lettuce: 0.2, spinach: 0.13,
+  vegetables: 0.55, berries: 0.6, 'fruit salad': 0.7, cheese: 0.47, 'protein powder': 0.4,
+  whey: 0.4, 'chia seeds': 0.68, 'mashed potato': 0.88, guacamole: 0.95,
+};
+
+// A solid with no density of its own, for cups and spoons of it. Most cooked
+// dishes sit around here. Anything measured in ml is taken as pourable instead
+const ASSUMED_SOLID_DENSITY = 0.8;
+
+const PIECE_G: Record<string, number> = {
+  egg: 50, banana: 118, apple: 180, orange: 130, date: 8, 'medjool date': 24,
+  roti: 40, chapati: 40, paratha: 80, naan: 90, pita: 60, khubz: 60, samosa: 60,
+  idli: 40, dosa: 80, vada: 50, cookie: 15, biscuit: 10, croissant: 60, donut: 60,
+  muffin: 110, tomato: 120, potato: 170, nugget: 18, strawberry: 12, bread: 30,
+};
+
+const HANDFUL_G: Record<string, number> = {
+  nuts: 28, almonds: 28, cashews: 28, peanuts: 28, pistachios: 28, walnuts: 28,
+  chips: 20, crisps: 20, popcorn: 10, raisins: 40, berries: 60, grapes: 80,
+  'cherry tomatoes': 80, spinach: 15, lettuce: 15, salad: 15, dates: 50,
+};
+
+const SCOOP_G: Record<string, number> = {
+  'protein powder': 31, whey: 31, protein: 31, 'ice cream': 65, gelato: 65, rice: 150, hummus: 60,
+};
+
+// What a serving measure comes to when nothing more is known about the food
+const ASSUMED_SERVING_G: Partial<Record<MeasureUnit, number>> = {
+  plate: 350, bowl: 250, katori: 150, handful: 30, scoop: 30,
+};
+
+const SERVING_TABLES: Partial<Record<MeasureUnit, Record<string, number>>> = {
+  piece: PIECE_G, handful: HANDFUL_G, scoop: SCOOP_G,
+};
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/['’`]/g, '').replace(/[^a-z0-9.\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (haystack: string, word: string) =>
+  new RegExp(`(?:^|\\s)${escapeRegExp(normalize(word))}(?:e?s)?(?=\\s|$)`).test(haystack);
+
+// The entry of a keyword table the food name matches, longest keyword first so
+// "peanut butter" is not read as butter
+function lookup(table: Record<string, number>, foodName: string): number | null {
+  const haystack = normalize(foodName);
+  const hit = Object.keys(table)
+    .sort((a, b) => b.length - a.length)
+    .find((key) => mentions(haystack, key));
+  return hit ? table[hit] : null;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export function hasLiquidContext(text: string): boolean {
+  const haystack = normalize(text);
+  return LIQUID_FOOD_KEYWORDS.some((kw) => mentions(haystack, kw));
+}
+
+/**
+ * A unit as written, folded to a MeasureUnit. Plain "oz" of a drink is a
+ * fluid ounce; of anything else it is a weight. Null for units this module
+ * cannot turn into grams, such as "slice" or "serving".
+ */
+export function normalizeUnit(raw: string, foodName = ''): MeasureUnit | null {
+  const unit = UNIT_WORDS[normalize(raw).replace(/\.$/, '')] ?? null;
+  if (unit === 'oz' && hasLiquidContext(foodName)) return 'fl oz';
+  return unit;
+}
+
+export function densityFor(foodName: string): { gPerMl: number; known: boolean } {
+  const density = lookup(DENSITY_G_PER_ML, foodName);
+  if (density != null) return { gPerMl: density, known: true };
+  return { gPerMl: hasLiquidContext(foodName) ? 1 : ASSUMED_SOLID_DENSITY, known: false };
+}
+
+/**
+ * An amount of a food in a household unit, as grams. Per-food figures come
+ * from the bundled dish list first, then the tables here. Null when there is
+ * nothing sensible to go on, like "a piece" of something we have never heard of.
+ */
+export function measureToGrams(amount: number, unit: MeasureUnit, foodName: string): GramEstimate | null {
+  if (!(amount > 0)) return null;
+
+  const perGram = GRAMS_PER[unit];
+  if (perGram != null) return { grams: amount * perGram, basis: 'weight' };
+
+  const perMl = ML_PER[unit];
+  if (perMl != null) {
+    const { gPerMl, known } = densityFor(foodName);
+    if (known) return { grams: amount * perMl * gPerMl, basis: 'density' };
+    const metric = unit === 'ml' || unit === 'l';
+    return { grams: amount * perMl * (metric ? 1 : gPerMl), basis: metric ? 'density' : 'assumed' };
+  }
+
+  const dish = findFoodInDatabase(foodName);
+  const dishG = dish?.portions?.[unit] ?? (dish?.serving_unit === unit ? dish.serving_size_g : undefined);
+  if (dishG != null) return { grams: amount * dishG, basis: 'serving' };
+
+  const table = SERVING_TABLES[unit];
+  const tableG = table ? lookup(table, foodName) : null;
+  if (tableG != null) return { grams: amount * tableG, basis: 'serving' };
+
+  const assumedG = ASSUMED_SERVING_G[unit];
+  return assumedG != null ? { grams: amount * assumedG, basis: 'assumed' } : null;
+}
+
+// The other way, for showing a weight in the unit the user thinks in
+export function gramsToMeasure(grams: number, unit: MeasureUnit, foodName: string): number | null {
+  const one = measureToGrams(1, unit, foodName);
+  return one && one.grams > 0 ? round1(grams / one.grams) : null;
+}
+
+const AMOUNT = String.raw`(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?)`;
+const STATED_UNITS = String.raw`(kg|kilograms?|kilos?|g|grams?|fl\.?\s*oz|fluid\s*ounces?|oz|ounces?|lbs?|pounds?|ml|millilit(?:er|re)s?|l|lit(?:er|re)s?|cups?|glass(?:es)?|tbsp|tablespoons?|tsp|teaspoons?)`;
+
+const parseAmount = (text: string): number => {
+  const [whole, fraction] = text.includes('/') && /\s/.test(text.trim()) ? text.trim().split(/\s+/) : ['0', text];
+  if (fraction.includes('/')) {
+    const [n, d] = fraction.split('/').map(Number);
+    return d > 0 ? Number(whole) + n / d : 0;
+  }
+  return parseFloat(fraction);
+};
+
+/**
+ * A single measured amount in the user's words, in grams: a weight, a metric
+ * volume, or a cup or spoon of a drink. Null when there is none or more than
+ * one, since a total is only enforceable for a one-item meal. A cup of rice is
+ * deliberately not a stated weight; it is only as good as the density guess,
+ * so checkHouseholdMeasures flags it instead of overriding the AI.
+ */
+export function extractStatedWeightG(input: string): number | null {
+  if (!input) return null;
+  const re = new RegExp(`${AMOUNT}\\s*${STATED_UNITS}(?=\\s|$|[.,;!?)])`, 'gi');
+  const found: Array<{ amount: number; unit: MeasureUnit }> = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(input)) !== null) {
+    const unit = normalizeUnit(m[2].replace(/\.\s*/, ' ').replace(/\s+/g, ' '), input);
+    if (unit) found.push({ amount: parseAmount(m[1]), unit });
+  }
+  if (found.length !== 1) return null;
+
+  const { amount, unit } = found[0];
+  const metric = GRAMS_PER[unit] != null || unit === 'ml' || unit === 'l' || unit === 'fl oz';
+  if (!metric && !hasLiquidContext(input)) return null;
+  const estimate = measureToGrams(amount, unit, input);
+  return estimate ? round1(estimate.grams) : null;
+}
+
+// How far an AI weight may sit from a household measure before it is flagged
+const MEASURE_RATIO = 1.6;
+
+/**
+ * Checks AI results logged in a household unit against what that unit of the
+ * food weighs. A clear mismatch is marked low confidence with the figure we
+ * expected, and the numbers are left alone, as checkAgainstDatabase does.
+ * Generic guesses never flag anything; they are not sure enough to.
+ */
+export function checkHouseholdMeasures(foods: ParsedFood[]): ParsedFood[] {
+  return foods.map((food) => {
+    if (food.confidence === 'high' || !(food.weight_g > 0)) return food;
+    const unit = normalizeUnit(food.unit || '', food.name);
+    if (!unit || GRAMS_PER[unit] != null) return food;
+    const expected = measureToGrams(food.quantity, unit, food.name);
+    if (!expected || expected.basis === 'assumed') return food;
+
+    const ratio = food.weight_g / expected.grams;
+    if (ratio <= MEASURE_RATIO && ratio >= 1 / MEASURE_RATIO) return food;
+    return {
+      ...food,
+      confidence: 'low',
+      confidence_reason: `${food.quantity} ${food.unit} of ${food.name} is usually about ${Math.round(expected.grams)} g; this estimate used ${Math.round(food.weight_g)} g.`,
+    };
+  });
+}
+
+/**
+ * The units a logged food can be re-portioned in: its own, grams, and ml for
+ * a drink. Its own unit comes first, since that is how the user described it.
+ */
+export function portionUnitsFor(food: ParsedFood): string[] {
+  const own = food.unit ? normalizeUnit(food.unit, food.name) : null;
+  const units = food.unit && own !== 'g' ? [food.unit, 'g'] : ['g'];
+  if (own !== 'ml' && hasLiquidContext(food.name)) units.push('ml');
+  return units;
+}
+
+// An amount in one of those units as a multiple of the food as logged. In its
+// own unit that is a plain ratio, which trusts the weight it was logged with
+// over any table here
+export function portionFactorFor(food: ParsedFood, amount: number, unit: string): number | null {
+  if (!(amount > 0)) return null;
+  if (unit === food.unit && food.quantity > 0) return amount / food.quantity;
+  const measure = normalizeUnit(unit, food.name);
+  const estimate = measure ? measureToGrams(amount, measure, food.name) : null;
+  return estimate && food.weight_g > 0 ? estimate.grams / food.weight_g : null;
+}
@@ -0,0 +1,84 @@
+import { Platform } from 'react-native';
+import { MealEntry, MealRevision, MealTotals } from '../services/dataStorage';
+import { ParsedFood } from './foodNutrition';
+import { generateId } from './uuid';
+
+// Every meal carries its history, and the whole meal is one synced row, so the
+// list is capped. The oldest edits go first.
+export const MAX_MEAL_REVISIONS = 20;
+
+export const mealTotals = (foods: ParsedFood[]): MealTotals => {
+  const sum = (key: keyof MealTotals) =>
+    Math.round(foods.reduce((acc, f) => acc + (Number(f[key]) || 0), 0) * 10) / 10;
+  return { calories: Math.round(sum('calories')), protein: sum('protein'), carbs: sum('carbs'), fat: sum('fat') };
+};
+
+interface MealChange {
+  prompt?: string;
+  summary?: string;
+  foods?: ParsedFood[];
+}
+
+/**
+ * Applies an edit to a meal and records what it replaced. An edit that changes
+ * nothing comes back as the same meal, with no revision.
+ */
+export const reviseMeal = (
+  meal: MealEntry,
+  next: MealChange,
+  change: MealRevision['change'],
+  source: MealRevision['source'],
+  foodName?: string,
+): MealEntry => {
+  const prompt = next.prompt ?? meal.prompt;
+  const summary = 'summary' in next ? next.summary : meal.summary;
+  const foods = next.foods ?? meal.foods;
+  if (prompt === meal.prompt && summary === meal.summary && JSON.stringify(foods) === JSON.stringify(meal.foods)) {
+    return meal;
+  }
+
+  const revision: MealRevision = {
+    id: generateId(),
+    at: new Date().toISOString(),
+    change,
+    source,
+    device: Platform.OS,
+    foodName,
+    before: { prompt: meal.prompt, summary: meal.summary, foods: meal.foods },
+    beforeTotals: mealTotals(meal.foods),
+    afterTotals: mealTotals(foods),
+  };
+  return {
+    ...meal,
+    prompt,
+    summary,
+    foods,
+    updatedAt: revision.at,
+    revisions: [...(meal.revisions || []), revision].slice(-MAX_MEAL_REVISIONS),
+  };
+};
+
+/**
+ * Puts the meal back the way it was just before the given revision. The revert
+ * is itself a revision, so it can be undone the same way. Null if the revision
+ * is no longer on the meal.
+ */
+export const revertMeal = (meal: MealEntry, revisionId: string): MealEntry | null => {
+  const target = (meal.revisions || []).find((r) => r.id === revisionId);
+  if (!target) return null;
+  return reviseMeal(meal, target.before, 'revert', 'user');
+};
+
+// One line for the history list
+export const describeRevision = (r: MealRevision): string => {
+  switch (r.change) {
+    case 'prompt':
+      return `Description changed from "${r.before.prompt}"`;
+    case 'food_edit':
+      return `Edited ${r.foodName || 'a food'}`;
+    case 'food_removed':
+      return `Removed ${r.foodName || 'a food'}`;
+    case 'revert':
+      return 'Reverted an earlier edit';
+  }
+};
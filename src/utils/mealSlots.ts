@@ -0,0 +1,82 @@
+import type { MealEntry, MealSlot } from '../services/dataStorage';
+
+/**
+ * Which meal a logged meal was. The user or the prompt can say so outright;
+ * otherwise it is guessed from the clock, which is right for most people and
+ * wrong for anyone on nights, or anyone logging yesterday's dinner this
+ * morning. Everything that groups meals by slot reads mealSlotOf.
+ */
+
+export type ClockSlot = Exclude<MealSlot, 'custom'>;
+
+export const MEAL_SLOTS: Array<{ key: ClockSlot; label: string }> = [
+  { key: 'breakfast', label: 'Breakfast' },
+  { key: 'lunch', label: 'Lunch' },
+  { key: 'dinner', label: 'Dinner' },
+  { key: 'snack', label: 'Snack' },
+];
+
+export function slotFromHour(hour: number): ClockSlot {
+  if (hour >= 5 && hour <= 10) return 'breakfast';
+  if (hour >= 11 && hour <= 14) return 'lunch';
+  if (hour >= 15 && hour <= 20) return 'dinner';
+  return 'snack';
+}
+
+export const mealSlotOf = (meal: Pick<MealEntry, 'mealSlot' | 'timestamp'>): MealSlot =>
+  meal.mealSlot ?? slotFromHour(new Date(meal.timestamp).getHours());
+
+export function mealSlotLabel(meal: Pick<MealEntry, 'mealSlot' | 'mealSlotLabel' | 'timestamp'>): string {
+  const slot = mealSlotOf(meal);
+  if (slot === 'custom') return meal.mealSlotLabel?.trim() || 'Other';
+  return MEAL_SLOTS.find((s) => s.key === slot)?.label ?? 'Snack';
+}
+
+const SLOT_WORDS: Record<string, ClockSlot> = {
+  breakfast: 'breakfast', brekkie: 'breakfast', suhoor: 'breakfast', sehri: 'breakfast',
+  lunch: 'lunch',
+  dinner: 'dinner', supper: 'dinner', iftar: 'dinner',
+  snack: 'snack', snacks: 'snack',
+};
+
+const WORD = '(breakfast|brekkie|lunch|dinner|supper|snacks?)';
+
+// Only phrasing that names the meal counts. "A breakfast burrito" is a food,
+// not a time, so the bare word is not enough; suhoor and iftar always are
+const SLOT_PATTERNS = [
+  new RegExp(`\\b(?:for|at|during|as)\\s+(?:a\\s+|my\\s+|the\\s+)?${WORD}\\b`, 'gi'),
+  new RegExp(`(?:^|[\\n.;])\\s*${WORD}\\s*[:\\-–]`, 'gi'),
+  new RegExp(`\\b${WORD}\\s+(?:was|is|today|yesterday|tonight)\\b`, 'gi'),
+  /\b(suhoor|sehri|iftar)\b/gi,
+];
+
+/**
+ * The slot a prompt names, as in "for lunch I had..." or "Dinner: rice and
+ * dal". Null when it names none, or more than one, since a prompt covering
+ * two meals is not one slot.
+ */
+export function slotFromPrompt(text: string): ClockSlot | null {
+  if (!text) return null;
+  const found = new Set<ClockSlot>();
+  for (const pattern of SLOT_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const slot = SLOT_WORDS[match[1].toLowerCase()];
+      if (slot) found.add(slot);
+    }
+  }
+  return found.size === 1 ? [...found][0] : null;
+}
+
+export type DayPart = 'morning' | 'afternoon' | 'evening';
+
+// The analysis screen's three parts of the day. A named meal goes where it
+// belongs whatever the clock said; snacks and unnamed meals go by the clock
+export function dayPartOf(meal: Pick<MealEntry, 'mealSlot' | 'timestamp'>): DayPart {
+  if (meal.mealSlot === 'breakfast') return 'morning';
+  if (meal.mealSlot === 'lunch') return 'afternoon';
+  if (meal.mealSlot === 'dinner') return 'evening';
+  const h = new Date(meal.timestamp).getHours();
+  if (h >= 4 && h < 12) return 'morning';
+  if (h >= 12 && h < 17) return 'afternoon';
+  return 'evening';
+}
@@ -0,0 +1,96 @@
+import type { MealEntry } from '../services/dataStorage';
+import { generateId } from './uuid';
+
+/**
+ * Copying and moving logged meals between days. A meal lands on the other day
+ * at the same clock time, or at the usual time of the slot picked, so "had
+ * this for breakfast yesterday" does not show up at 21:40.
+ */
+
+export type TransferSlot = 'keep' | 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export const TRANSFER_SLOTS: Array<{ key: TransferSlot; label: string }> = [
+  { key: 'keep', label: 'Same time' },
+  { key: 'breakfast', label: 'Breakfast' },
+  { key: 'lunch', label: 'Lunch' },
+  { key: 'dinner', label: 'Dinner' },
+  { key: 'snack', label: 'Snack' },
+];
+
+// Inside the hour windows the reminders read slots from, so a moved meal is
+// counted where the user put it
+const SLOT_TIMES: Record<Exclude<TransferSlot, 'keep'>, [number, number]> = {
+  breakfast: [8, 0],
+  lunch: [13, 0],
+  dinner: [19, 0],
+  snack: [21, 0],
+};
+
+// A moment on `dateKey` (yyyy-MM-dd, local) at the slot's time or at the
+// original meal's time of day
+export function retimeTo(timestamp: number, dateKey: string, slot: TransferSlot): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const original = new Date(timestamp || Date.now());
+  const [hours, minutes] = slot === 'keep' ? [original.getHours(), original.getMinutes()] : SLOT_TIMES[slot];
+  return new Date(year, month - 1, day, hours, minutes).getTime();
+}
+
+// What never travels with a meal: in-flight analysis state belongs to the
+// screen that started it
+function settled(meal: MealEntry): MealEntry {
+  const { isLoading, loadingState, ...rest } = meal;
+  return rest;
+}
+
+// Picking a slot names the meal as well as timing it. 'keep' leaves whatever
+// it was called before
+function slotted(meal: MealEntry, slot: TransferSlot): MealEntry {
+  if (slot === 'keep') return meal;
+  const { mealSlotLabel, ...rest } = meal;
+  return { ...rest, mealSlot: slot };
+}
+
+/**
+ * A new meal with the same foods on another day. Its own id and food ids, no
+ * history: it was logged just now, even if its numbers are old.
+ */
+export function copyMealTo(meal: MealEntry, dateKey: string, slot: TransferSlot): MealEntry {
+  const { revisions, ...rest } = slotted(settled(meal), slot);
+  return {
+    ...rest,
+    id: generateId(),
+    foods: meal.foods.map((f) => ({ ...f, id: generateId() })),
+    timestamp: retimeTo(meal.timestamp, dateKey, slot),
+    date: dateKey,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The same meal at another time, history kept. Across days it takes a new id:
+ * the old day's save soft-deletes the old id in the cloud, and that delete is
+ * not ordered against the new day's upsert, so reusing the id could lose it.
+ */
+export function moveMealTo(meal: MealEntry, fromDateKey: string, dateKey: string, slot: TransferSlot): MealEntry {
+  return {
+    ...slotted(settled(meal), slot),
+    id: dateKey === fromDateKey ? meal.id : generateId(),
+    timestamp: retimeTo(meal.timestamp, dateKey, slot),
+    date: dateKey,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// A whole day onto another, each meal at its own time. Meals still being
+// analysed are left behind; they have nothing to copy yet
+export const copyDayTo = (meals: MealEntry[], dateKey: string): MealEntry[] =>
+  meals
+    .filter((m) => !m.isLoading && m.loadingState !== 'queued' && m.loadingState !== 'failed' && m.foods.length > 0)
+    .map((m) => copyMealTo(m, dateKey, 'keep'));
+
+// Days list their meals in the order they were eaten, so a backfilled meal
+// goes in by time rather than at the end
+export function insertByTime(list: MealEntry[], meal: MealEntry): MealEntry[] {
+  const at = list.findIndex((m) => (m.timestamp || 0) > meal.timestamp);
+  return at === -1 ? [...list, meal] : [...list.slice(0, at), meal, ...list.slice(at)];
+}
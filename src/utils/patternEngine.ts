@@ -4,12 +4,15 @@
 // already eats. Confidence is a documented formula over sample size and
 // effect size, not a self grade.
 
+import type { MealSlot } from '../services/dataStorage';
+
 export interface EngineDay {
   date: string; // yyyy-MM-dd, local
   weekday: number; // 0=Sun..6=Sat
   // hour is -1 when the log time is not trustworthy as an eating time
-  // (backfilled onto a past date, or a batch logging session)
-  meals: { hour: number; calories: number; protein: number; foods: { name: string; protein: number }[] }[];
+  // (backfilled onto a past date, or a batch logging session). slot is only
+  // set when the user or the prompt named the meal, and then it outranks hour
+  meals: { hour: number; slot?: MealSlot; calories: number; protein: number; foods: { name: string; protein: number }[] }[];
   totalCalories: number;
   totalProtein: number;
 }
@@ -94,8 +97,11 @@ function detectWeekend(i: EngineInput): EngineFinding | null {
 function detectLateNight(i: EngineInput): EngineFinding | null {
   const qualifying = i.days.filter(d => d.totalCalories > 0 && hoursTrusted(d));
   if (qualifying.length < 7) return null;
+  // Breakfast or lunch at 23:00 is a night shift, not a late night
   const lateCals = (d: EngineDay) =>
-    d.meals.filter(m => m.hour >= 21 || m.hour < 4).reduce((s, m) => s + m.calories, 0);
+    d.meals
+      .filter(m => (m.hour >= 21 || m.hour < 4) && m.slot !== 'breakfast' && m.slot !== 'lunch')
+      .reduce((s, m) => s + m.calories, 0);
   const lateDays = qualifying.filter(d => lateCals(d) / d.totalCalories >= 0.25);
   if (lateDays.length < 5 || lateDays.length / qualifying.length < 0.4) return null;
   const share = lateDays.length / qualifying.length;
@@ -148,6 +154,10 @@ function detectBreakfastCorrelation(i: EngineInput): EngineFinding | null {
   const cutoff = overeatCutoff(i.calorieTarget, i.bankEnabled);
   const withBreakfast = i.days
     .map(d => {
+      // A meal named breakfast is the day's breakfast whatever the clock said,
+      // even on a day whose log times cannot be trusted
+      const named = d.meals.find(m => m.slot === 'breakfast');
+      if (named) return { d, breakfastProtein: named.protein };
       if (!hoursTrusted(d)) return null;
       const first = [...d.meals].sort((a, b) => a.hour - b.hour).find(m => m.hour >= 5);
       return first && first.hour < 11 ? { d, breakfastProtein: first.protein } : null;
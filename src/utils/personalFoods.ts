@@ -0,0 +1,116 @@
+import type { PersonalFood, PersonalFoodMicroKey } from '../services/dataStorage';
+import { FoodLabel, labelToParsedFood } from '../services/foodDatabaseService';
+import { ParsedFood } from './foodNutrition';
+import { sanitizeForAI } from './sanitizeAI';
+
+/**
+ * The user's own foods as the analysis sees them. A food they saved is a
+ * label they have already checked, so when its name turns up in what they
+ * typed it goes to the nutrition pass as a LABEL PANEL block, the same as an
+ * Open Food Facts hit, and the model only has to work out how much was eaten.
+ */
+
+export const MICRO_FIELDS: Array<{ key: PersonalFoodMicroKey; label: string; unit: string }> = [
+  { key: 'added_sugars', label: 'Added sugars', unit: 'g' },
+  { key: 'trans_fat', label: 'Trans fat', unit: 'g' },
+  { key: 'cholesterol_mg', label: 'Cholesterol', unit: 'mg' },
+  { key: 'calcium_mg', label: 'Calcium', unit: 'mg' },
+  { key: 'iron_mg', label: 'Iron', unit: 'mg' },
+  { key: 'potassium_mg', label: 'Potassium', unit: 'mg' },
+  { key: 'magnesium_mg', label: 'Magnesium', unit: 'mg' },
+  { key: 'zinc_mg', label: 'Zinc', unit: 'mg' },
+  { key: 'omega_3_g', label: 'Omega-3', unit: 'g' },
+  { key: 'vitamin_a_mcg', label: 'Vitamin A', unit: 'mcg' },
+  { key: 'vitamin_c_mg', label: 'Vitamin C', unit: 'mg' },
+  { key: 'vitamin_d_mcg', label: 'Vitamin D', unit: 'mcg' },
+  { key: 'vitamin_e_mg', label: 'Vitamin E', unit: 'mg' },
+  { key: 'vitamin_k_mcg', label: 'Vitamin K', unit: 'mcg' },
+  { key: 'vitamin_b12_mcg', label: 'Vitamin B12', unit: 'mcg' },
+];
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/['’`]/g, '').replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Every name the food answers to: what it is called, with and without the
+// brand, and whatever the user added
+const namesFor = (food: PersonalFood): string[] =>
+  [food.name, food.brand ? `${food.brand} ${food.name}` : '', ...food.aliases];
+
+/**
+ * The items named in a meal description, longest name first so "protein
+ * khaboos" is not taken for a plain "khaboos" the user also saved. Whole words
+ * only, with a plural s allowed. `rest` is the text with the matched names cut
+ * out, which is what is left for the product lookups to chase.
+ */
+export function findNamedIn<T>(text: string, items: T[], namesOf: (item: T) => string[]): { matches: T[]; rest: string } {
+  let haystack = normalize(text);
+  const candidates = items
+    .flatMap((item) => namesOf(item).map(normalize).filter(Boolean).map((name) => ({ item, name })))
+    .sort((a, b) => b.name.length - a.name.length);
+
+  const matches: T[] = [];
+  for (const { item, name } of candidates) {
+    const pattern = new RegExp(`(?:^|\\s)${escapeRegExp(name)}(?:e?s)?(?=\\s|$)`);
+    if (!pattern.test(haystack)) continue;
+    haystack = haystack.replace(pattern, ' ').replace(/\s+/g, ' ').trim();
+    if (!matches.includes(item)) matches.push(item);
+  }
+  return { matches, rest: haystack };
+}
+
+export const findPersonalFoodsIn = (text: string, foods: PersonalFood[]) => findNamedIn(text, foods, namesFor);
+
+export function personalFoodToLabel(food: PersonalFood): FoodLabel {
+  return {
+    name: food.name,
+    brand: food.brand,
+    code: '',
+    servingSize: food.servingLabel ?? (food.servingG ? `${food.servingG} g` : null),
+    quantity: food.packG ? `${food.packG} g` : null,
+    per100g: food.per100g,
+  };
+}
+
+// A weight of a saved food as a logged row, micros included. No model involved,
+// so it reads as the user's own figures rather than a label lookup
+export function personalFoodToParsedFood(food: PersonalFood, weightG: number, quantity: number, unit: string): ParsedFood {
+  const parsed: ParsedFood = labelToParsedFood(personalFoodToLabel(food), weightG, quantity, unit);
+  for (const { key } of MICRO_FIELDS) {
+    const per100 = food.micros[key];
+    if (per100 != null) parsed[key] = Math.round((per100 * weightG) / 100 * 10) / 10;
+  }
+  parsed.confidence_reason = `Figures are from ${food.name} in My Foods.`;
+  return parsed;
+}
+
+/**
+ * A saved food in the LABEL PANEL wire format labelToPanelLine uses, plus the
+ * micronutrients the user entered and the names they log it under.
+ */
+export function personalFoodPanelLine(food: PersonalFood): string {
+  const p = food.per100g;
+  const rows = [
+    `calories ${Math.round(p.calories)}`,
+    `protein ${p.protein}g`,
+    `carbs ${Math.round(p.carbs * 10) / 10}g total including fibre`,
+    `fibre ${p.fibre}g`,
+    p.sugar != null && `sugar ${p.sugar}g`,
+    `fat ${p.fat}g`,
+    p.saturatedFat != null && `saturated fat ${p.saturatedFat}g`,
+    p.sodiumMg != null && `sodium ${p.sodiumMg}mg`,
+    ...MICRO_FIELDS.map(({ key, label, unit }) =>
+      food.micros[key] != null && `${label.toLowerCase()} ${food.micros[key]}${unit}`),
+  ].filter(Boolean).join(', ');
+
+  const name = sanitizeForAI([food.brand, food.name].filter(Boolean).join(' '));
+  const serving = food.servingLabel ? ` Stated serving: ${sanitizeForAI(food.servingLabel)}.` : '';
+  const servingWeight = food.servingG ? ` One serving weighs ${food.servingG} g.` : '';
+  const pack = food.packG ? ` Pack size: ${food.packG} g.` : '';
+  const aliases = food.aliases.length ? ` The user also calls it: ${sanitizeForAI(food.aliases.join(', '))}.` : '';
+  const source = food.source === 'label_photo'
+    ? 'read off the packaging and checked by the user'
+    : 'entered by the user';
+  return `LABEL PANEL for ${name} (per 100g): ${rows}.${serving}${servingWeight}${pack}${aliases} Source: the user's own food library, ${source}.`;
+}
@@ -0,0 +1,140 @@
+import type { Recipe } from '../services/dataStorage';
+import { NUTRIENT_KEYS, NutrientKey, ParsedFood, parseQuantityAndSize, wordsBesidesAmounts } from './foodNutrition';
+import { findNamedIn } from './personalFoods';
+import { sanitizeForAI } from './sanitizeAI';
+import { generateId } from './uuid';
+
+/**
+ * Recipes as the logger sees them. A pot is resolved once, ingredient by
+ * ingredient, and every meal from it is a share of the totals: "1 bowl of my
+ * chili" is one serving's worth, "300 g of my chili" is that fraction of the
+ * cooked weight. Neither needs the model to guess what went into the pot.
+ */
+
+export interface RecipeTotals {
+  rawWeightG: number; // the ingredients as weighed, before cooking
+  nutrients: Partial<Record<NutrientKey, number>>; // a micro is absent when no ingredient had it
+}
+
+const CONFIDENCE_RANK = { low: 0, medium: 1, high: 2 } as const;
+
+// Words that can sit around a recipe's name without meaning anything else
+const FILLER = new Set(['my', 'our', 'mums', 'moms', 'servings', 'portions', 'helping', 'helpings']);
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export function recipeTotals(recipe: Recipe): RecipeTotals {
+  const nutrients: Partial<Record<NutrientKey, number>> = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  let rawWeightG = 0;
+  for (const food of recipe.ingredients.flatMap((i) => i.foods)) {
+    rawWeightG += food.weight_g || 0;
+    for (const key of NUTRIENT_KEYS) {
+      const value = food[key];
+      if (typeof value === 'number' && Number.isFinite(value)) nutrients[key] = (nutrients[key] ?? 0) + value;
+    }
+  }
+  return { rawWeightG, nutrients };
+}
+
+// The weight the pot comes to. Without a cooked weight the raw ingredients
+// stand in for it, which overstates it for anything that loses water
+export const recipeYieldG = (recipe: Recipe, totals = recipeTotals(recipe)): number =>
+  recipe.cookedWeightG ?? totals.rawWeightG;
+
+export const recipeServingG = (recipe: Recipe, totals = recipeTotals(recipe)): number | null =>
+  recipe.servings ? recipeYieldG(recipe, totals) / recipe.servings : null;
+
+/**
+ * A share of the pot as one logged row. `servings` needs the recipe to have a
+ * serving count, `grams` works from the cooked weight. Confidence is that of
+ * the shakiest ingredient, since the whole is only as sure as its worst part.
+ */
+export function recipePortion(recipe: Recipe, amount: { servings: number } | { grams: number }): ParsedFood | null {
+  const totals = recipeTotals(recipe);
+  const yieldG = recipeYieldG(recipe, totals);
+  const fraction = 'servings' in amount
+    ? (recipe.servings ? amount.servings / recipe.servings : null)
+    : (yieldG > 0 ? amount.grams / yieldG : null);
+  if (fraction == null || !(fraction > 0)) return null;
+
+  const food: ParsedFood = {
+    id: generateId(),
+    name: recipe.name,
+    quantity: 'servings' in amount ? amount.servings : amount.grams,
+    unit: 'servings' in amount ? (recipe.servingLabel || 'serving') : 'g',
+    weight_g: Math.round(yieldG * fraction),
+    calories: 0,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+  };
+  for (const key of NUTRIENT_KEYS) {
+    const total = totals.nutrients[key];
+    if (total != null) food[key] = key === 'calories' ? Math.round(total * fraction) : round1(total * fraction);
+  }
+
+  const foods = recipe.ingredients.flatMap((i) => i.foods);
+  food.confidence = foods.reduce<'low' | 'medium' | 'high'>(
+    (worst, f) => (CONFIDENCE_RANK[f.confidence ?? 'medium'] < CONFIDENCE_RANK[worst] ? f.confidence ?? 'medium' : worst),
+    'high',
+  );
+  const split = 'servings' in amount
+    ? `split into ${recipe.servings} ${recipe.servings === 1 ? 'serving' : 'servings'}`
+    : recipe.cookedWeightG
+      ? `over a cooked weight of ${Math.round(yieldG)} g`
+      : `over the raw ingredient weight of ${Math.round(yieldG)} g, as no cooked weight was given`;
+  food.confidence_reason = `From your recipe: ${recipe.ingredients.length} ingredients ${split}.`;
+  return food;
+}
+
+export const findRecipesIn = (text: string, recipes: Recipe[]) =>
+  findNamedIn(text, recipes, (r) => [r.name, ...r.aliases]);
+
+/**
+ * A meal that is nothing but an amount of one recipe, worked out on the spot.
+ * Null when the text says anything else, or asks for servings of a recipe that
+ * only has a weight; that goes to the model with the recipe as a panel.
+ */
+export function matchRecipeMeal(text: string, recipes: Recipe[]): ParsedFood | null {
+  const { matches, rest } = findRecipesIn(text, recipes);
+  if (matches.length !== 1) return null;
+  const recipe = matches[0];
+  const singular = (w: string) => w.replace(/e?s$/, '');
+  const servingWords = (recipe.servingLabel ?? '').toLowerCase().split(/\s+/).filter(Boolean).map(singular);
+  const leftover = wordsBesidesAmounts(rest).filter((w) => !FILLER.has(w) && !servingWords.includes(singular(w)));
+  if (leftover.length > 0) return null;
+
+  const { quantity, sizeMultiplier, weightG } = parseQuantityAndSize(rest);
+  return weightG !== undefined
+    ? recipePortion(recipe, { grams: weightG })
+    : recipePortion(recipe, { servings: quantity * sizeMultiplier });
+}
+
+/**
+ * A recipe in the LABEL PANEL wire format, for a meal that mentions it among
+ * other things. Per serving when the pot has a serving count, per 100 g of the
+ * cooked dish otherwise.
+ */
+export function recipePanelLine(recipe: Recipe): string {
+  const totals = recipeTotals(recipe);
+  const servingG = recipeServingG(recipe, totals);
+  const yieldG = recipeYieldG(recipe, totals);
+  const divisor = recipe.servings ?? (yieldG > 0 ? yieldG / 100 : 1);
+  const n = totals.nutrients;
+  const at = (key: NutrientKey) => round1((n[key] ?? 0) / divisor);
+  const rows = [
+    `calories ${Math.round((n.calories ?? 0) / divisor)}`,
+    `protein ${at('protein')}g`,
+    `carbs ${at('carbs')}g total including fibre`,
+    n.dietary_fiber != null && `fibre ${at('dietary_fiber')}g`,
+    n.sugar != null && `sugar ${at('sugar')}g`,
+    `fat ${at('fat')}g`,
+    n.saturated_fat != null && `saturated fat ${at('saturated_fat')}g`,
+    n.sodium_mg != null && `sodium ${Math.round((n.sodium_mg ?? 0) / divisor)}mg`,
+  ].filter(Boolean).join(', ');
+
+  const basis = recipe.servings
+    ? `per ${sanitizeForAI(recipe.servingLabel || 'serving')}${servingG ? `, about ${Math.round(servingG)} g` : ''}; the pot makes ${recipe.servings}`
+    : 'per 100g of the cooked dish';
+  return `LABEL PANEL for ${sanitizeForAI(recipe.name)} (${basis}): ${rows}. Source: the user's own recipe, totalled from its ingredients.`;
+}